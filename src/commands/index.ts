@@ -9,11 +9,16 @@ import type { SessionManager } from "../review/session-manager";
 import type { QueueManager } from "../queues/queue-manager";
 import { QueueSelectorModal } from "../ui/queues/queue-selector-modal";
 import { COMMANDS, COMMAND_NAMES, RATINGS, DEFAULT_QUEUE_ID, NOTICE_DURATION_MS } from "../constants";
-import type { RatingValue } from "../types";
+import type { RatingValue, SessionInterleave } from "../types";
+
+export { registerNoteActions } from "./note-actions";
 
 /** Callback to run when starting a review (e.g. start session + activate sidebar) */
 export type OnStartReviewCallback = (queueId: string) => Promise<void>;
 
+/** Callback to run when starting a review over several queues */
+export type OnStartMultiReviewCallback = (queueIds: string[], interleave: SessionInterleave) => Promise<void>;
+
 /**
  * Register all plugin commands
  */
@@ -21,11 +26,14 @@ export function registerCommands(
 	plugin: Plugin,
 	sessionManager: SessionManager,
 	queueManager: QueueManager,
-	options?: { onStartReview?: OnStartReviewCallback }
+	options?: { onStartReview?: OnStartReviewCallback; onStartMultiReview?: OnStartMultiReviewCallback }
 ): void {
 	const onStartReview = options?.onStartReview ?? (async (queueId: string) => {
 		await sessionManager.startSession(queueId);
 	});
+	const onStartMultiReview = options?.onStartMultiReview ?? (async (queueIds: string[], interleave: SessionInterleave) => {
+		await sessionManager.startMultiQueueSession(queueIds, interleave);
+	});
 
 	// Start Review Session (shows queue selector when multiple queues exist)
 	plugin.addCommand({
@@ -44,10 +52,17 @@ export function registerCommands(
 			}
 			const allQueues = queueManager.getAllQueues();
 			if (allQueues.length > 1) {
-				const modal = new QueueSelectorModal(plugin.app, queueManager, (queueId) => {
-					void onStartReview(queueId);
-					modal.close();
-				});
+				const modal = new QueueSelectorModal(
+					plugin.app,
+					queueManager,
+					(queueId) => {
+						void onStartReview(queueId);
+						modal.close();
+					},
+					(queueIds, interleave) => {
+						void onStartMultiReview(queueIds, interleave);
+					}
+				);
 				modal.open();
 			} else {
 				const queueId = allQueues[0]?.id ?? DEFAULT_QUEUE_ID;
@@ -56,12 +71,27 @@ export function registerCommands(
 		},
 	});
 
+	// Show Answer (recall mode)
+	plugin.addCommand({
+		id: COMMANDS.SHOW_ANSWER,
+		name: COMMAND_NAMES[COMMANDS.SHOW_ANSWER],
+		checkCallback: (checking: boolean) => {
+			if (!sessionManager.isActive() || sessionManager.canRate()) {
+				return false;
+			}
+			if (!checking) {
+				void sessionManager.revealAnswer();
+			}
+			return true;
+		},
+	});
+
 	// Rate: Again
 	plugin.addCommand({
 		id: COMMANDS.RATE_AGAIN,
 		name: COMMAND_NAMES[COMMANDS.RATE_AGAIN],
 		checkCallback: (checking: boolean) => {
-			if (!sessionManager.isActive()) {
+			if (!sessionManager.canRate()) {
 				return false;
 			}
 			if (!checking) {
@@ -76,7 +106,7 @@ export function registerCommands(
 		id: COMMANDS.RATE_HARD,
 		name: COMMAND_NAMES[COMMANDS.RATE_HARD],
 		checkCallback: (checking: boolean) => {
-			if (!sessionManager.isActive()) {
+			if (!sessionManager.canRate()) {
 				return false;
 			}
 			if (!checking) {
@@ -91,7 +121,7 @@ export function registerCommands(
 		id: COMMANDS.RATE_GOOD,
 		name: COMMAND_NAMES[COMMANDS.RATE_GOOD],
 		checkCallback: (checking: boolean) => {
-			if (!sessionManager.isActive()) {
+			if (!sessionManager.canRate()) {
 				return false;
 			}
 			if (!checking) {
@@ -106,7 +136,7 @@ export function registerCommands(
 		id: COMMANDS.RATE_EASY,
 		name: COMMAND_NAMES[COMMANDS.RATE_EASY],
 		checkCallback: (checking: boolean) => {
-			if (!sessionManager.isActive()) {
+			if (!sessionManager.canRate()) {
 				return false;
 			}
 			if (!checking) {
@@ -0,0 +1,125 @@
+/**
+ * Note Actions - Manual schedule changes on a single note
+ * Registers commands for the active note and a file context-menu section
+ */
+
+import { Notice, TFile } from "obsidian";
+import type { Menu, Plugin, TAbstractFile } from "obsidian";
+import type { CardManager } from "../fsrs/card-manager";
+import type { QueueManager } from "../queues/queue-manager";
+import type { DataStore } from "../data/data-store";
+import type { SessionManager } from "../review/session-manager";
+import { NoteActionModal, NOTE_ACTION_LABELS } from "../ui/modals/note-action-modal";
+import type { NoteAction } from "../ui/modals/note-action-modal";
+import { COMMANDS, COMMAND_NAMES, NOTICE_DURATION_MS } from "../constants";
+import { formatRelativeDate, parseISODate } from "../utils/date-utils";
+
+/** Command for each note action, in menu order */
+const NOTE_ACTION_COMMANDS: [NoteAction, (typeof COMMANDS)[keyof typeof COMMANDS]][] = [
+	["reset", COMMANDS.RESET_NOTE],
+	["set-due", COMMANDS.SET_DUE_DATE],
+	["forget", COMMANDS.FORGET_NOTE],
+	["suspend", COMMANDS.SUSPEND_NOTE],
+	["unsuspend", COMMANDS.UNSUSPEND_NOTE],
+	["bury", COMMANDS.BURY_NOTE],
+];
+
+/** Actions that apply to the current note of a review session directly */
+const SESSION_ACTIONS: Partial<Record<NoteAction, (sessionManager: SessionManager) => Promise<void>>> = {
+	suspend: (sessionManager) => sessionManager.suspendCurrent(),
+	bury: (sessionManager) => sessionManager.buryCurrent(),
+};
+
+/** Menu icon per action */
+const NOTE_ACTION_ICONS: Record<NoteAction, string> = {
+	reset: "rotate-ccw",
+	"set-due": "calendar",
+	forget: "brain",
+	suspend: "pause",
+	unsuspend: "play",
+	bury: "archive",
+};
+
+/**
+ * Register note action commands and the file menu entries
+ */
+export function registerNoteActions(
+	plugin: Plugin,
+	cardManager: CardManager,
+	queueManager: QueueManager,
+	sessionManager: SessionManager,
+	dataStore: DataStore
+): void {
+	const openAction = (notePath: string, action: NoteAction) => {
+		new NoteActionModal(plugin.app, cardManager, queueManager, notePath, action, (queueId) => {
+			queueManager.updateQueueStats(queueId);
+			void dataStore.save();
+
+			const name = notePath.split("/").pop()?.replace(/\.md$/, "") ?? notePath;
+			const schedule = cardManager.getSchedule(notePath, queueId);
+			const message: Record<NoteAction, string> = {
+				reset: `Reset "${name}" to new.`,
+				"set-due": `"${name}" is due ${schedule ? formatRelativeDate(parseISODate(schedule.due)).toLowerCase() : "on the chosen day"}.`,
+				forget: `"${name}" is marked as forgotten and due now.`,
+				suspend: `Suspended "${name}".`,
+				unsuspend: `"${name}" is back in reviews.`,
+				bury: `Buried "${name}" until tomorrow.`,
+			};
+			new Notice(message[action], NOTICE_DURATION_MS);
+		}).open();
+	};
+
+	const isTracked = (file: TAbstractFile | null): file is TFile =>
+		file instanceof TFile && file.extension === "md" && cardManager.hasCard(file.path);
+
+	for (const [action, id] of NOTE_ACTION_COMMANDS) {
+		plugin.addCommand({
+			id,
+			name: COMMAND_NAMES[id],
+			checkCallback: (checking: boolean) => {
+				// During a review, suspend and bury act on the note being reviewed
+				const sessionAction = SESSION_ACTIONS[action];
+				if (sessionAction && sessionManager.isActive() && sessionManager.isCurrentNoteExpected()) {
+					if (!checking) {
+						void sessionAction(sessionManager);
+					}
+					return true;
+				}
+
+				const file = plugin.app.workspace.getActiveFile();
+				if (!isTracked(file)) {
+					return false;
+				}
+				if (!checking) {
+					openAction(file.path, action);
+				}
+				return true;
+			},
+		});
+	}
+
+	// Obsidian's menu API has no submenus, so the actions share a section
+	plugin.registerEvent(
+		plugin.app.workspace.on("file-menu", (menu: Menu, file: TAbstractFile) => {
+			if (!isTracked(file)) {
+				return;
+			}
+			const schedules = Object.values(cardManager.getCard(file.path)?.schedules ?? {});
+			const anySuspended = schedules.some((schedule) => schedule.suspended);
+			const allSuspended = schedules.every((schedule) => schedule.suspended);
+
+			for (const [action] of NOTE_ACTION_COMMANDS) {
+				if ((action === "unsuspend" && !anySuspended) || (action === "suspend" && allSuspended)) {
+					continue;
+				}
+				menu.addItem((item) =>
+					item
+						.setSection("fsrs")
+						.setTitle(`FSRS: ${NOTE_ACTION_LABELS[action].title}`)
+						.setIcon(NOTE_ACTION_ICONS[action])
+						.onClick(() => openAction(file.path, action))
+				);
+			}
+		})
+	);
+}
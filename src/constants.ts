@@ -2,14 +2,14 @@
  * Constants and default values for FSRS for Atomic Notes plugin
  */
 
-import type { PluginSettings, PluginData, QueueStats, FSRSParams, RatingValue } from "./types";
+import type { PluginSettings, PluginData, QueueStats, FSRSParams, RatingValue, CramOptions } from "./types";
 
 // ============================================================================
 // Plugin Metadata
 // ============================================================================
 
 /** Current schema version for data migrations */
-export const CURRENT_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 2;
 
 /** Plugin ID (must match manifest.json) */
 export const PLUGIN_ID = "obsidian-fsrs-atomic";
@@ -31,6 +31,15 @@ export const DEFAULT_FSRS_PARAMS: FSRSParams = {
 	enableFuzz: true,
 };
 
+/** Number of weights in an FSRS-5 parameter vector */
+export const FSRS_WEIGHT_COUNT = 19;
+
+/** Minimum number of scorable reviews before the optimizer will run */
+export const MIN_OPTIMIZER_REVIEWS = 100;
+
+/** Gradient descent iterations used by the parameter optimizer */
+export const OPTIMIZER_ITERATIONS = 150;
+
 /** Default plugin settings */
 export const DEFAULT_SETTINGS: PluginSettings = {
 	// Note Selection
@@ -45,12 +54,22 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 
 	// Review
 	queueOrder: "mixed-anki",
+	demoteDependentsOnLapse: false,
 	newCardsPerDay: 20,
 	maxReviewsPerDay: 200,
 	showNoteStats: true,
 	showPredictedIntervals: true,
 	showSessionStats: true,
 
+	// Workload
+	loadBalancing: false,
+	lightDays: [],
+	lightDayShare: 0.5,
+
+	// Review history
+	archiveAfterMonths: 12,
+	archiveRetentionYears: 0,
+
 	// UI
 	sidebarPosition: "right",
 
@@ -64,13 +83,14 @@ export const DEFAULT_QUEUE_STATS: QueueStats = {
 	newNotes: 0,
 	dueNotes: 0,
 	reviewedToday: 0,
+	suspendedNotes: 0,
 	lastUpdated: new Date().toISOString(),
 };
 
 /** Maximum number of backups to keep for recovery */
 export const MAX_BACKUPS = 5;
 
-/** Maximum number of review log entries to keep (older entries are purged) */
+/** Reviews kept in the live log; past this the oldest months are archived */
 export const MAX_REVIEW_HISTORY = 50_000;
 
 /** Default plugin data (fresh installation) */
@@ -94,6 +114,9 @@ export const DEFAULT_QUEUE_NAME = "Default";
 /** Default queue ID */
 export const DEFAULT_QUEUE_ID = "default";
 
+/** Frontmatter property read for recall prompts when none is configured */
+export const DEFAULT_RECALL_PROPERTY = "question";
+
 // ============================================================================
 // Review Constants
 // ============================================================================
@@ -133,6 +156,65 @@ export const RATING_COLORS: Record<RatingValue, string> = {
 	4: "fsrs-rating-easy",
 };
 
+/** Longest review duration recorded; longer spans are assumed to be idle time */
+export const MAX_REVIEW_DURATION_MS = 10 * 60 * 1000;
+
+/** Furthest a review-ahead session can look (days after today) */
+export const REVIEW_AHEAD_MAX_DAYS = 30;
+
+/** Default review-ahead horizon in days */
+export const DEFAULT_REVIEW_AHEAD_DAYS = 7;
+
+/**
+ * Early reviews worth less than this share of an on-time review's stability
+ * gain are reported as adding little value
+ */
+export const EARLY_REVIEW_MIN_VALUE = 0.5;
+
+/** Furthest notes can be postponed or advanced in one go, in days */
+export const RESCHEDULE_MAX_DAYS = 30;
+
+/** Default number of days to postpone or advance by */
+export const DEFAULT_RESCHEDULE_DAYS = 3;
+
+/**
+ * Postponed notes whose retrievability would fall below this by their new
+ * due date are flagged as likely to be forgotten
+ */
+export const POSTPONE_MIN_RETRIEVABILITY = 0.75;
+
+/** Overdue notes in a queue before backlog recovery is suggested */
+export const BACKLOG_MIN_OVERDUE = 50;
+
+/** Default number of days to spread a backlog over */
+export const DEFAULT_BACKLOG_DAYS = 7;
+
+/** Longest a backlog can be spread over, in days */
+export const BACKLOG_MAX_DAYS = 60;
+
+/** Default number of lapses before a note is treated as a leech */
+export const DEFAULT_LEECH_THRESHOLD = 8;
+
+/** Lowest and highest leech thresholds accepted in queue settings */
+export const LEECH_THRESHOLD_MIN = 2;
+export const LEECH_THRESHOLD_MAX = 30;
+
+/** Tag added to leeches' frontmatter (without the #) */
+export const LEECH_TAG = "leech";
+
+/** Name of the queue leeches are moved to */
+export const LEECH_QUEUE_NAME = "Leeches";
+
+/** Highest per-queue daily limit accepted in queue settings */
+export const QUEUE_DAILY_LIMIT_MAX = 1000;
+
+/** Default cram session options: weakest notes first, schedules untouched */
+export const DEFAULT_CRAM_OPTIONS: CramOptions = {
+	includeNew: true,
+	updateSchedules: false,
+	order: "retrievability-asc",
+};
+
 // ============================================================================
 // Data Persistence Constants
 // ============================================================================
@@ -143,12 +225,36 @@ export const SAVE_DEBOUNCE_MS = 1000;
 /** Minimum time between saves (ms) */
 export const MIN_SAVE_INTERVAL_MS = 500;
 
+/** File in the plugin folder holding queues, cards and orphan records */
+export const CARD_STATE_FILE = "cards.json";
+
+/** Folder in the plugin folder holding the monthly review log files */
+export const REVIEW_LOG_FOLDER = "reviews";
+
+/** Subfolder of the review log holding archived months */
+export const REVIEW_ARCHIVE_FOLDER = "archive";
+
+/** Local storage key (per device, never synced) for this device's ID */
+export const DEVICE_ID_STORAGE_KEY = "fsrs-atomic-device-id";
+
+/** Interval for checking for data synced in from another device (ms) */
+export const SYNC_CHECK_INTERVAL_MS = 60 * 1000;
+
+/** Most a log entry's time trails the last review of the schedule it updated (ms) */
+export const REVIEW_TIME_TOLERANCE_MS = 60 * 1000;
+
+/** ID prefix of backups made before a schema migration */
+export const MIGRATION_BACKUP_PREFIX = "backup-migration-";
+
 /** Backup file suffix */
 export const BACKUP_SUFFIX = ".backup";
 
 /** Minimum interval between automatic backups (ms) — 1 hour */
 export const BACKUP_INTERVAL_MS = 60 * 60 * 1000;
 
+/** Vault folder for review history exports */
+export const EXPORT_FOLDER = "fsrs-exports";
+
 // ============================================================================
 // Performance Constants
 // ============================================================================
@@ -159,6 +265,9 @@ export const BATCH_SIZE = 100;
 /** Debounce delay for vault event processing (ms) */
 export const VAULT_EVENT_DEBOUNCE_MS = 200;
 
+/** Debounce delay for the live query preview in the queue editor (ms) */
+export const QUERY_PREVIEW_DEBOUNCE_MS = 300;
+
 /** Cache TTL for queue statistics (ms) */
 export const STATS_CACHE_TTL_MS = 30000;
 
@@ -196,6 +305,22 @@ export const COMMANDS = {
 	END_SESSION: "fsrs:end-session",
 	MANAGE_QUEUES: "fsrs:manage-queues",
 	ADD_TO_QUEUE: "fsrs:add-to-queue",
+	OPTIMIZE_PARAMETERS: "fsrs:optimize-parameters",
+	EXPORT_REVIEWS: "fsrs:export-review-history",
+	IMPORT_HISTORY: "fsrs:import-history",
+	REPLAY_HISTORY: "fsrs:replay-history",
+	SHOW_ANSWER: "fsrs:show-answer",
+	START_CRAM: "fsrs:start-cram",
+	REVIEW_AHEAD: "fsrs:review-ahead",
+	RECOVER_BACKLOG: "fsrs:recover-backlog",
+	POSTPONE: "fsrs:postpone",
+	ADVANCE: "fsrs:advance",
+	RESET_NOTE: "fsrs:reset-note",
+	SET_DUE_DATE: "fsrs:set-due-date",
+	FORGET_NOTE: "fsrs:forget-note",
+	SUSPEND_NOTE: "fsrs:suspend-note",
+	UNSUSPEND_NOTE: "fsrs:unsuspend-note",
+	BURY_NOTE: "fsrs:bury-note",
 } as const;
 
 type CommandId = (typeof COMMANDS)[keyof typeof COMMANDS];
@@ -214,6 +339,22 @@ export const COMMAND_NAMES: Record<CommandId, string> = {
 	[COMMANDS.END_SESSION]: "End review session",
 	[COMMANDS.MANAGE_QUEUES]: "Manage queues",
 	[COMMANDS.ADD_TO_QUEUE]: "Add note to queue",
+	[COMMANDS.OPTIMIZE_PARAMETERS]: "Optimize FSRS parameters",
+	[COMMANDS.EXPORT_REVIEWS]: "Export review history",
+	[COMMANDS.IMPORT_HISTORY]: "Import scheduling history",
+	[COMMANDS.REPLAY_HISTORY]: "Rebuild schedules from review history",
+	[COMMANDS.SHOW_ANSWER]: "Show answer",
+	[COMMANDS.START_CRAM]: "Start cram session",
+	[COMMANDS.REVIEW_AHEAD]: "Review ahead",
+	[COMMANDS.RECOVER_BACKLOG]: "Spread overdue backlog over several days",
+	[COMMANDS.POSTPONE]: "Postpone due notes",
+	[COMMANDS.ADVANCE]: "Advance upcoming notes",
+	[COMMANDS.RESET_NOTE]: "Reset current note to new",
+	[COMMANDS.SET_DUE_DATE]: "Set due date of current note",
+	[COMMANDS.FORGET_NOTE]: "Forget current note",
+	[COMMANDS.SUSPEND_NOTE]: "Suspend current note",
+	[COMMANDS.UNSUSPEND_NOTE]: "Unsuspend current note",
+	[COMMANDS.BURY_NOTE]: "Bury current note until tomorrow",
 };
 
 // ============================================================================
@@ -0,0 +1,268 @@
+/**
+ * Criteria factory - Builds selection criteria from serialized configs
+ * Turns `SelectionCriteria.customCriteria` into evaluable criterion trees
+ */
+
+import type {
+	CriterionConfig,
+	CriteriaContext,
+	CustomCriterionType,
+	SelectionCriterion,
+	PropertyOperator,
+	ComparisonOperator,
+	FileAgeCriterionParams,
+} from "../types";
+import { FolderCriterion } from "./folder-criterion";
+import { TagCriterion } from "./tag-criterion";
+import { PropertyCriterion } from "./property-criterion";
+import { FilenameCriterion } from "./filename-criterion";
+import { LinkCountCriterion } from "./link-count-criterion";
+import { FileAgeCriterion, parseFileDate } from "./file-age-criterion";
+import { AndCriterion, OrCriterion, NotCriterion } from "./group-criteria";
+
+const PROPERTY_OPERATORS: PropertyOperator[] = [
+	"equals", "not-equals", "contains", "exists", "not-exists", "gt", "gte", "lt", "lte",
+];
+const COMPARISON_OPERATORS: ComparisonOperator[] = ["eq", "gt", "gte", "lt", "lte"];
+const FILE_AGE_OPERATORS: FileAgeCriterionParams["operator"][] = [
+	"older-than", "newer-than", "before", "after",
+];
+
+/** Criterion that never matches (used for unknown or malformed configs) */
+const NEVER: SelectionCriterion = {
+	id: "never",
+	type: "include",
+	evaluate: () => false,
+};
+
+function readString(params: Record<string, unknown>, key: string, fallback = ""): string {
+	const value = params[key];
+	return typeof value === "string" ? value : fallback;
+}
+
+function readStringArray(params: Record<string, unknown>, key: string): string[] {
+	const value = params[key];
+	return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+function readConfigs(params: Record<string, unknown>, key: string): CriterionConfig[] {
+	const value = params[key];
+	return Array.isArray(value) ? value.filter(isCriterionConfig) : [];
+}
+
+function readOption<T extends string>(params: Record<string, unknown>, key: string, options: readonly T[]): T | null {
+	const value = params[key];
+	return options.includes(value as T) ? (value as T) : null;
+}
+
+/**
+ * Type guard for serialized criterion configs
+ */
+export function isCriterionConfig(value: unknown): value is CriterionConfig {
+	if (!value || typeof value !== "object") return false;
+	const obj = value as Record<string, unknown>;
+	return typeof obj.type === "string" && !!obj.params && typeof obj.params === "object";
+}
+
+/**
+ * Build a criterion from a single config
+ */
+export function createCriterion(config: CriterionConfig, context: CriteriaContext): SelectionCriterion {
+	const params = config.params;
+
+	switch (config.type as CustomCriterionType) {
+		case "and":
+			return new AndCriterion(readConfigs(params, "children").map((c) => createCriterion(c, context)));
+
+		case "or":
+			return new OrCriterion(readConfigs(params, "children").map((c) => createCriterion(c, context)));
+
+		case "not": {
+			const child = params.child;
+			return isCriterionConfig(child) ? new NotCriterion(createCriterion(child, context)) : NEVER;
+		}
+
+		case "folder":
+			return new FolderCriterion(readStringArray(params, "folders"));
+
+		case "tag":
+			return new TagCriterion(readStringArray(params, "tags"));
+
+		case "property": {
+			const operator = readOption(params, "operator", PROPERTY_OPERATORS);
+			const key = readString(params, "key");
+			if (!operator || !key) return NEVER;
+			return new PropertyCriterion(key, operator, readString(params, "value"));
+		}
+
+		case "filename": {
+			const syntax = readOption(params, "syntax", ["glob", "regex"] as const) ?? "glob";
+			const target = readOption(params, "target", ["name", "path"] as const) ?? "name";
+			return new FilenameCriterion(readString(params, "pattern"), syntax, target);
+		}
+
+		case "link-count": {
+			const direction = readOption(params, "direction", ["outgoing", "incoming"] as const);
+			const operator = readOption(params, "operator", COMPARISON_OPERATORS);
+			const value = params.value;
+			if (!direction || !operator || typeof value !== "number") return NEVER;
+			return new LinkCountCriterion(direction, operator, value, context);
+		}
+
+		case "file-age": {
+			const field = readOption(params, "field", ["ctime", "mtime"] as const);
+			const operator = readOption(params, "operator", FILE_AGE_OPERATORS);
+			const value = params.value;
+			if (!field || !operator || (typeof value !== "number" && typeof value !== "string")) return NEVER;
+			return new FileAgeCriterion(field, operator, value, context);
+		}
+
+		default:
+			return NEVER;
+	}
+}
+
+/**
+ * Build the criterion for a queue's custom criteria (top-level entries are ANDed).
+ * An empty list matches nothing, so a blank custom queue does not pull in the whole vault.
+ */
+export function createCustomCriterion(configs: CriterionConfig[], context: CriteriaContext): SelectionCriterion {
+	if (configs.length === 0) {
+		return NEVER;
+	}
+	return new AndCriterion(configs.map((config) => createCriterion(config, context)));
+}
+
+/**
+ * Validate a config tree, returning human-readable problems (empty when valid)
+ */
+export function validateCriterionConfig(config: CriterionConfig): string[] {
+	const errors: string[] = [];
+	const params = config.params;
+
+	switch (config.type as CustomCriterionType) {
+		case "and":
+		case "or": {
+			const children = readConfigs(params, "children");
+			if (children.length === 0) {
+				errors.push(`Empty ${config.type.toUpperCase()} group`);
+			}
+			for (const child of children) {
+				errors.push(...validateCriterionConfig(child));
+			}
+			break;
+		}
+		case "not": {
+			const child = params.child;
+			if (isCriterionConfig(child)) {
+				errors.push(...validateCriterionConfig(child));
+			} else {
+				errors.push("NOT group has no condition");
+			}
+			break;
+		}
+		case "folder":
+			if (readStringArray(params, "folders").length === 0) errors.push("Folder condition has no folders");
+			break;
+		case "tag":
+			if (readStringArray(params, "tags").length === 0) errors.push("Tag condition has no tags");
+			break;
+		case "property": {
+			const operator = readOption(params, "operator", PROPERTY_OPERATORS);
+			if (!readString(params, "key")) errors.push("Property condition has no key");
+			if (!operator) errors.push("Property condition has an invalid operator");
+			break;
+		}
+		case "filename": {
+			const pattern = readString(params, "pattern");
+			const syntax = readOption(params, "syntax", ["glob", "regex"] as const) ?? "glob";
+			if (!pattern) {
+				errors.push("Name condition has no pattern");
+			} else if (!FilenameCriterion.compile(pattern, syntax)) {
+				errors.push(`Invalid regular expression: ${pattern}`);
+			}
+			break;
+		}
+		case "link-count":
+			if (typeof params.value !== "number" || Number.isNaN(params.value) || params.value < 0) {
+				errors.push("Link count must be a non-negative number");
+			}
+			break;
+		case "file-age": {
+			const operator = readOption(params, "operator", FILE_AGE_OPERATORS);
+			if (operator === "before" || operator === "after") {
+				if (Number.isNaN(parseFileDate(String(params.value)))) errors.push("File date must be a valid date");
+			} else if (typeof params.value !== "number" || params.value < 0) {
+				errors.push("File age must be a non-negative number of days");
+			}
+			break;
+		}
+		default:
+			errors.push(`Unknown condition type: ${config.type}`);
+	}
+
+	return errors;
+}
+
+/**
+ * Create a config with sensible defaults for a criterion type (used by the builder UI)
+ */
+export function createDefaultCriterionConfig(type: CustomCriterionType): CriterionConfig {
+	switch (type) {
+		case "and":
+		case "or":
+			return { type, params: { children: [] } };
+		case "not":
+			return { type, params: { child: { type: "tag", params: { tags: [] } } } };
+		case "folder":
+			return { type, params: { folders: [] } };
+		case "tag":
+			return { type, params: { tags: [] } };
+		case "property":
+			return { type, params: { key: "", operator: "equals", value: "" } };
+		case "filename":
+			return { type, params: { pattern: "", syntax: "glob", target: "name" } };
+		case "link-count":
+			return { type, params: { direction: "outgoing", operator: "gte", value: 1 } };
+		case "file-age":
+			return { type, params: { field: "ctime", operator: "older-than", value: 30 } };
+	}
+}
+
+/**
+ * Summarize a config tree as a single line of text
+ */
+export function describeCriterion(config: CriterionConfig): string {
+	const params = config.params;
+
+	switch (config.type as CustomCriterionType) {
+		case "and":
+		case "or": {
+			const parts = readConfigs(params, "children").map(describeCriterion);
+			return parts.length === 0 ? "(empty)" : `(${parts.join(` ${config.type.toUpperCase()} `)})`;
+		}
+		case "not": {
+			const child = params.child;
+			return `NOT ${isCriterionConfig(child) ? describeCriterion(child) : "?"}`;
+		}
+		case "folder":
+			return `folder in [${readStringArray(params, "folders").join(", ")}]`;
+		case "tag":
+			return readStringArray(params, "tags").map((t) => `#${t.replace(/^#/, "")}`).join(" or ") || "#?";
+		case "property": {
+			const operator = readString(params, "operator");
+			const key = readString(params, "key");
+			return operator === "exists" || operator === "not-exists"
+				? `${key} ${operator}`
+				: `${key} ${operator} "${readString(params, "value")}"`;
+		}
+		case "filename":
+			return `${readString(params, "target", "name")} matches ${readString(params, "pattern")}`;
+		case "link-count":
+			return `${readString(params, "direction")} links ${readString(params, "operator")} ${String(params.value)}`;
+		case "file-age":
+			return `${readString(params, "field")} ${readString(params, "operator")} ${String(params.value)}`;
+		default:
+			return config.type;
+	}
+}
@@ -0,0 +1,70 @@
+/**
+ * FileAgeCriterion - File creation/modification time based note selection
+ */
+
+import type { TFile, CachedMetadata } from "obsidian";
+import type { SelectionCriterion, FileAgeCriterionParams, CriteriaContext } from "../types";
+import { parseDateKey } from "../utils/date-utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a file date value to a timestamp, or NaN if invalid. A date
+ * without a time is the start of that local day.
+ */
+export function parseFileDate(value: string): number {
+	if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+		return parseDateKey(value)?.getTime() ?? NaN;
+	}
+	return Date.parse(value);
+}
+
+/**
+ * FileAgeCriterion selects notes by creation or modification time
+ */
+export class FileAgeCriterion implements SelectionCriterion {
+	readonly id = "file-age";
+	readonly type = "include" as const;
+
+	private field: "ctime" | "mtime";
+	private operator: FileAgeCriterionParams["operator"];
+	private value: number | string;
+	private context: CriteriaContext;
+
+	constructor(
+		field: "ctime" | "mtime",
+		operator: FileAgeCriterionParams["operator"],
+		value: number | string,
+		context: CriteriaContext
+	) {
+		this.field = field;
+		this.operator = operator;
+		this.value = value;
+		this.context = context;
+	}
+
+	/**
+	 * Evaluate whether a file matches this criterion
+	 */
+	evaluate(file: TFile, _metadata: CachedMetadata | null): boolean {
+		const timestamp = file.stat[this.field];
+
+		switch (this.operator) {
+			case "older-than":
+			case "newer-than": {
+				const days = Number(this.value);
+				if (Number.isNaN(days)) return false;
+				const ageDays = (this.context.now() - timestamp) / DAY_MS;
+				return this.operator === "older-than" ? ageDays > days : ageDays < days;
+			}
+			case "before":
+			case "after": {
+				const date = parseFileDate(String(this.value));
+				if (Number.isNaN(date)) return false;
+				return this.operator === "before" ? timestamp < date : timestamp > date;
+			}
+			default:
+				return false;
+		}
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * FilenameCriterion - Note name and path pattern matching
+ * Supports glob (`*`, `**`, `?`) and regular expression patterns
+ */
+
+import type { TFile, CachedMetadata } from "obsidian";
+import type { SelectionCriterion } from "../types";
+
+/**
+ * Convert a glob pattern into an anchored regular expression.
+ * `**` matches across folders, `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i] as string;
+		if (char === "*") {
+			if (glob[i + 1] === "*") {
+				source += ".*";
+				i++;
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * FilenameCriterion selects notes whose name or path matches a pattern
+ */
+export class FilenameCriterion implements SelectionCriterion {
+	readonly id = "filename";
+	readonly type = "include" as const;
+
+	private matcher: RegExp | null;
+	private target: "name" | "path";
+
+	constructor(pattern: string, syntax: "glob" | "regex", target: "name" | "path") {
+		this.target = target;
+		this.matcher = FilenameCriterion.compile(pattern, syntax);
+	}
+
+	/**
+	 * Compile a pattern; returns null for invalid regular expressions
+	 */
+	static compile(pattern: string, syntax: "glob" | "regex"): RegExp | null {
+		if (syntax === "glob") {
+			return globToRegExp(pattern);
+		}
+		try {
+			return new RegExp(pattern, "i");
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Evaluate whether a file matches this criterion
+	 */
+	evaluate(file: TFile, _metadata: CachedMetadata | null): boolean {
+		if (!this.matcher) {
+			return false;
+		}
+		const subject = this.target === "path" ? file.path : file.basename;
+		return this.matcher.test(subject);
+	}
+}
@@ -0,0 +1,60 @@
+/**
+ * Group criteria - Boolean composition of selection criteria
+ */
+
+import type { TFile, CachedMetadata } from "obsidian";
+import type { SelectionCriterion } from "../types";
+
+/**
+ * AndCriterion matches when every child matches (empty groups match everything)
+ */
+export class AndCriterion implements SelectionCriterion {
+	readonly id = "and";
+	readonly type = "include" as const;
+
+	private children: SelectionCriterion[];
+
+	constructor(children: SelectionCriterion[]) {
+		this.children = children;
+	}
+
+	evaluate(file: TFile, metadata: CachedMetadata | null): boolean {
+		return this.children.every((child) => child.evaluate(file, metadata));
+	}
+}
+
+/**
+ * OrCriterion matches when any child matches (empty groups match nothing)
+ */
+export class OrCriterion implements SelectionCriterion {
+	readonly id = "or";
+	readonly type = "include" as const;
+
+	private children: SelectionCriterion[];
+
+	constructor(children: SelectionCriterion[]) {
+		this.children = children;
+	}
+
+	evaluate(file: TFile, metadata: CachedMetadata | null): boolean {
+		return this.children.some((child) => child.evaluate(file, metadata));
+	}
+}
+
+/**
+ * NotCriterion inverts its child
+ */
+export class NotCriterion implements SelectionCriterion {
+	readonly id = "not";
+	readonly type = "include" as const;
+
+	private child: SelectionCriterion;
+
+	constructor(child: SelectionCriterion) {
+		this.child = child;
+	}
+
+	evaluate(file: TFile, metadata: CachedMetadata | null): boolean {
+		return !this.child.evaluate(file, metadata);
+	}
+}
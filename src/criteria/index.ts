@@ -10,3 +10,17 @@ export {
 	ExcludeByPropertyCriterion,
 	CombinedExclusionCriterion,
 } from "./exclusion-criteria";
+export { PropertyCriterion } from "./property-criterion";
+export { FilenameCriterion, globToRegExp } from "./filename-criterion";
+export { LinkCountCriterion, compareNumbers } from "./link-count-criterion";
+export { FileAgeCriterion, parseFileDate } from "./file-age-criterion";
+export { AndCriterion, OrCriterion, NotCriterion } from "./group-criteria";
+export {
+	createCriterion,
+	createCustomCriterion,
+	createDefaultCriterionConfig,
+	describeCriterion,
+	isCriterionConfig,
+	validateCriterionConfig,
+} from "./criteria-factory";
+export { parseQuery, formatQueryError } from "./query-parser";
@@ -0,0 +1,73 @@
+/**
+ * LinkCountCriterion - Link-count based note selection
+ * Compares the number of outgoing or incoming links against a threshold
+ */
+
+import type { TFile, CachedMetadata } from "obsidian";
+import type { SelectionCriterion, ComparisonOperator, CriteriaContext } from "../types";
+
+/**
+ * Apply a comparison operator
+ */
+export function compareNumbers(actual: number, operator: ComparisonOperator, expected: number): boolean {
+	switch (operator) {
+		case "eq":
+			return actual === expected;
+		case "gt":
+			return actual > expected;
+		case "gte":
+			return actual >= expected;
+		case "lt":
+			return actual < expected;
+		case "lte":
+			return actual <= expected;
+		default:
+			return false;
+	}
+}
+
+/**
+ * LinkCountCriterion selects notes by how connected they are
+ */
+export class LinkCountCriterion implements SelectionCriterion {
+	readonly id = "link-count";
+	readonly type = "include" as const;
+
+	private direction: "outgoing" | "incoming";
+	private operator: ComparisonOperator;
+	private value: number;
+	private context: CriteriaContext;
+
+	constructor(
+		direction: "outgoing" | "incoming",
+		operator: ComparisonOperator,
+		value: number,
+		context: CriteriaContext
+	) {
+		this.direction = direction;
+		this.operator = operator;
+		this.value = value;
+		this.context = context;
+	}
+
+	/**
+	 * Count distinct link targets in a note
+	 */
+	private countOutgoing(metadata: CachedMetadata | null): number {
+		const targets = new Set<string>();
+		for (const link of metadata?.links ?? []) {
+			targets.add(link.link);
+		}
+		return targets.size;
+	}
+
+	/**
+	 * Evaluate whether a file matches this criterion
+	 */
+	evaluate(file: TFile, metadata: CachedMetadata | null): boolean {
+		const count = this.direction === "outgoing"
+			? this.countOutgoing(metadata)
+			: this.context.getIncomingLinkCount(file.path);
+		return compareNumbers(count, this.operator, this.value);
+	}
+}
@@ -0,0 +1,112 @@
+/**
+ * PropertyCriterion - Frontmatter property matching
+ * Evaluates a note's frontmatter value against an operator
+ */
+
+import type { TFile, CachedMetadata } from "obsidian";
+import type { SelectionCriterion, PropertyOperator } from "../types";
+
+/**
+ * Convert a scalar frontmatter value to text (null for objects and missing values)
+ */
+function toText(value: unknown): string | null {
+	if (typeof value === "string") return value;
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+	return null;
+}
+
+/**
+ * PropertyCriterion selects notes based on a frontmatter property
+ */
+export class PropertyCriterion implements SelectionCriterion {
+	readonly id = "property";
+	readonly type = "include" as const;
+
+	private key: string;
+	private operator: PropertyOperator;
+	private value: string;
+
+	constructor(key: string, operator: PropertyOperator, value: string = "") {
+		this.key = key;
+		this.operator = operator;
+		this.value = value;
+	}
+
+	/**
+	 * Compare numbers when both sides are numeric, otherwise dates, otherwise strings
+	 */
+	private compare(actual: unknown): number | null {
+		const actualText = toText(actual);
+		if (actualText === null) {
+			return null;
+		}
+
+		const actualNumber = Number(actualText);
+		const expectedNumber = Number(this.value);
+		if (actualText.trim() !== "" && this.value.trim() !== "" && !Number.isNaN(actualNumber) && !Number.isNaN(expectedNumber)) {
+			return actualNumber - expectedNumber;
+		}
+
+		const actualDate = Date.parse(actualText);
+		const expectedDate = Date.parse(this.value);
+		if (!Number.isNaN(actualDate) && !Number.isNaN(expectedDate)) {
+			return actualDate - expectedDate;
+		}
+
+		return actualText.toLowerCase().localeCompare(this.value.toLowerCase());
+	}
+
+	/**
+	 * Case-insensitive equality, matching any element of a list property
+	 */
+	private equals(actual: unknown): boolean {
+		if (Array.isArray(actual)) {
+			return actual.some((v) => this.equals(v));
+		}
+		const text = toText(actual);
+		return text !== null && text.toLowerCase() === this.value.toLowerCase();
+	}
+
+	private contains(actual: unknown): boolean {
+		if (Array.isArray(actual)) {
+			return actual.some((v) => this.contains(v));
+		}
+		const text = toText(actual);
+		return text !== null && text.toLowerCase().includes(this.value.toLowerCase());
+	}
+
+	/**
+	 * Evaluate whether a file matches this criterion
+	 */
+	evaluate(_file: TFile, metadata: CachedMetadata | null): boolean {
+		const frontmatter = metadata?.frontmatter as Record<string, unknown> | undefined;
+		const actual = frontmatter?.[this.key];
+		const exists = actual !== undefined && actual !== null;
+
+		switch (this.operator) {
+			case "exists":
+				return exists;
+			case "not-exists":
+				return !exists;
+			case "equals":
+				return this.equals(actual);
+			case "not-equals":
+				return !this.equals(actual);
+			case "contains":
+				return this.contains(actual);
+			case "gt":
+			case "gte":
+			case "lt":
+			case "lte": {
+				const diff = this.compare(actual);
+				if (diff === null) return false;
+				if (this.operator === "gt") return diff > 0;
+				if (this.operator === "gte") return diff >= 0;
+				if (this.operator === "lt") return diff < 0;
+				return diff <= 0;
+			}
+			default:
+				return false;
+		}
+	}
+}
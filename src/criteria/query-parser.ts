@@ -0,0 +1,484 @@
+/**
+ * Query parser - Dataview-style query language for queue selection
+ * Compiles queries such as
+ * `FROM "Zettel" AND #permanent WHERE status != "draft" AND file.ctime > 2025-01-01`
+ * into CriterionConfig trees evaluated by the criteria factory
+ */
+
+import type { CriterionConfig, QueryParseResult, QuerySyntaxError } from "../types";
+
+type TokenKind =
+	| "string"
+	| "number"
+	| "date"
+	| "tag"
+	| "ident"
+	| "op"
+	| "lparen"
+	| "rparen"
+	| "comma"
+	| "bang"
+	| "minus"
+	| "eof";
+
+interface Token {
+	kind: TokenKind;
+	/** Decoded value (string contents, tag without `#`, operator text) */
+	value: string;
+	start: number;
+	end: number;
+}
+
+type ComparisonOp = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+/** Maps query comparison operators to link-count operators (`!=` is negated `eq`) */
+const COUNT_OPERATORS: Record<ComparisonOp, string> = {
+	"=": "eq",
+	"!=": "eq",
+	">": "gt",
+	">=": "gte",
+	"<": "lt",
+	"<=": "lte",
+};
+
+/** Maps query comparison operators to property operators */
+const PROPERTY_OPERATORS: Record<ComparisonOp, string> = {
+	"=": "equals",
+	"!=": "not-equals",
+	">": "gt",
+	">=": "gte",
+	"<": "lt",
+	"<=": "lte",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?Z?)?/;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?/;
+const IDENT_PATTERN = /^[A-Za-z_][\w.-]*/;
+const TAG_PATTERN = /^#[^\s()",'#]+/;
+
+/**
+ * Parse failure carrying the offending range (internal to the parser)
+ */
+class QueryError extends Error {
+	readonly start: number;
+	readonly end: number;
+
+	constructor(message: string, start: number, end: number) {
+		super(message);
+		this.start = start;
+		this.end = end;
+	}
+}
+
+/**
+ * Split a query into tokens
+ */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < source.length) {
+		const char = source[i] as string;
+		const rest = source.slice(i);
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			let value = "";
+			let j = i + 1;
+			while (j < source.length && source[j] !== char) {
+				if (source[j] === "\\" && j + 1 < source.length) {
+					j++;
+				}
+				value += source[j];
+				j++;
+			}
+			if (j >= source.length) {
+				throw new QueryError("Unterminated string", i, source.length);
+			}
+			tokens.push({ kind: "string", value, start: i, end: j + 1 });
+			i = j + 1;
+			continue;
+		}
+
+		if (char === "#") {
+			const match = TAG_PATTERN.exec(rest);
+			if (!match) {
+				throw new QueryError("Expected a tag name after #", i, i + 1);
+			}
+			tokens.push({ kind: "tag", value: match[0].slice(1), start: i, end: i + match[0].length });
+			i += match[0].length;
+			continue;
+		}
+
+		const date = DATE_PATTERN.exec(rest);
+		if (date) {
+			tokens.push({ kind: "date", value: date[0], start: i, end: i + date[0].length });
+			i += date[0].length;
+			continue;
+		}
+
+		const number = NUMBER_PATTERN.exec(rest);
+		if (number) {
+			tokens.push({ kind: "number", value: number[0], start: i, end: i + number[0].length });
+			i += number[0].length;
+			continue;
+		}
+
+		const ident = IDENT_PATTERN.exec(rest);
+		if (ident) {
+			tokens.push({ kind: "ident", value: ident[0], start: i, end: i + ident[0].length });
+			i += ident[0].length;
+			continue;
+		}
+
+		const twoChar = source.slice(i, i + 2);
+		if (twoChar === "!=" || twoChar === ">=" || twoChar === "<=" || twoChar === "==") {
+			tokens.push({ kind: "op", value: twoChar === "==" ? "=" : twoChar, start: i, end: i + 2 });
+			i += 2;
+			continue;
+		}
+
+		const single: Partial<Record<string, TokenKind>> = {
+			"=": "op",
+			">": "op",
+			"<": "op",
+			"(": "lparen",
+			")": "rparen",
+			",": "comma",
+			"!": "bang",
+			"-": "minus",
+		};
+		const kind = single[char];
+		if (!kind) {
+			throw new QueryError(`Unexpected character "${char}"`, i, i + 1);
+		}
+		tokens.push({ kind, value: char, start: i, end: i + 1 });
+		i++;
+	}
+
+	tokens.push({ kind: "eof", value: "", start: source.length, end: source.length });
+	return tokens;
+}
+
+function not(child: CriterionConfig): CriterionConfig {
+	return { type: "not", params: { child } };
+}
+
+/**
+ * Recursive-descent parser producing criterion configs
+ */
+class QueryParser {
+	private tokens: Token[];
+	private index = 0;
+
+	constructor(tokens: Token[]) {
+		this.tokens = tokens;
+	}
+
+	/**
+	 * query := [FROM source] [WHERE condition]
+	 */
+	parse(): CriterionConfig {
+		const parts: CriterionConfig[] = [];
+		const first = this.peek();
+
+		if (first.kind === "eof") {
+			throw new QueryError("Query is empty", 0, 0);
+		}
+
+		if (this.isKeyword(first, "from")) {
+			this.next();
+			parts.push(this.parseOr(() => this.parseSource()));
+		}
+
+		if (this.isKeyword(this.peek(), "where")) {
+			this.next();
+			parts.push(this.parseOr(() => this.parseCondition()));
+		}
+
+		const trailing = this.peek();
+		if (trailing.kind !== "eof") {
+			throw new QueryError(
+				parts.length === 0 ? "Query must start with FROM or WHERE" : `Unexpected "${trailing.value}"`,
+				trailing.start,
+				trailing.end
+			);
+		}
+
+		const [only] = parts;
+		return parts.length === 1 && only ? only : { type: "and", params: { children: parts } };
+	}
+
+	private peek(): Token {
+		return this.tokens[this.index] as Token;
+	}
+
+	private next(): Token {
+		const token = this.peek();
+		if (token.kind !== "eof") {
+			this.index++;
+		}
+		return token;
+	}
+
+	private isKeyword(token: Token, keyword: string): boolean {
+		return token.kind === "ident" && token.value.toLowerCase() === keyword;
+	}
+
+	private expect(kind: TokenKind, description: string): Token {
+		const token = this.peek();
+		if (token.kind !== kind) {
+			throw new QueryError(`Expected ${description}`, token.start, Math.max(token.end, token.start + 1));
+		}
+		return this.next();
+	}
+
+	/**
+	 * or := and (OR and)*
+	 */
+	private parseOr(primary: () => CriterionConfig): CriterionConfig {
+		const children = [this.parseAnd(primary)];
+		while (this.isKeyword(this.peek(), "or")) {
+			this.next();
+			children.push(this.parseAnd(primary));
+		}
+		const [only] = children;
+		return children.length === 1 && only ? only : { type: "or", params: { children } };
+	}
+
+	/**
+	 * and := unary (AND unary)*
+	 */
+	private parseAnd(primary: () => CriterionConfig): CriterionConfig {
+		const children = [this.parseUnary(primary)];
+		while (this.isKeyword(this.peek(), "and")) {
+			this.next();
+			children.push(this.parseUnary(primary));
+		}
+		const [only] = children;
+		return children.length === 1 && only ? only : { type: "and", params: { children } };
+	}
+
+	/**
+	 * unary := (NOT | ! | -) unary | "(" or ")" | primary
+	 */
+	private parseUnary(primary: () => CriterionConfig): CriterionConfig {
+		const token = this.peek();
+		if (this.isKeyword(token, "not") || token.kind === "bang" || token.kind === "minus") {
+			this.next();
+			return not(this.parseUnary(primary));
+		}
+		if (token.kind === "lparen") {
+			this.next();
+			const inner = this.parseOr(primary);
+			this.expect("rparen", '")"');
+			return inner;
+		}
+		return primary();
+	}
+
+	/**
+	 * source := "folder" | #tag
+	 */
+	private parseSource(): CriterionConfig {
+		const token = this.peek();
+		if (token.kind === "string") {
+			this.next();
+			return { type: "folder", params: { folders: [token.value.replace(/\/+$/, "")] } };
+		}
+		if (token.kind === "tag") {
+			this.next();
+			return { type: "tag", params: { tags: [token.value] } };
+		}
+		throw new QueryError(
+			'Expected a folder in quotes or a #tag',
+			token.start,
+			Math.max(token.end, token.start + 1)
+		);
+	}
+
+	/**
+	 * condition := #tag | field [op value] | contains(field, value) | length(field) op value
+	 */
+	private parseCondition(): CriterionConfig {
+		const token = this.peek();
+
+		if (token.kind === "tag") {
+			this.next();
+			return { type: "tag", params: { tags: [token.value] } };
+		}
+
+		if (token.kind !== "ident" || ["and", "or", "not", "from", "where"].includes(token.value.toLowerCase())) {
+			throw new QueryError("Expected a condition", token.start, Math.max(token.end, token.start + 1));
+		}
+		this.next();
+
+		if (this.peek().kind === "lparen") {
+			return this.parseFunction(token);
+		}
+
+		const opToken = this.peek();
+		if (opToken.kind !== "op") {
+			return this.compileExists(token);
+		}
+		this.next();
+		const value = this.parseValue();
+		return this.compileComparison(token, opToken, value);
+	}
+
+	private parseValue(): Token {
+		const token = this.peek();
+		if (["string", "number", "date", "ident"].includes(token.kind)) {
+			return this.next();
+		}
+		throw new QueryError("Expected a value", token.start, Math.max(token.end, token.start + 1));
+	}
+
+	private parseFunction(name: Token): CriterionConfig {
+		const fn = name.value.toLowerCase();
+		this.expect("lparen", '"("');
+		const field = this.expect("ident", "a field name");
+
+		if (fn === "contains") {
+			this.expect("comma", '","');
+			const value = this.parseValue();
+			this.expect("rparen", '")"');
+			return this.compileContains(field, value);
+		}
+
+		if (fn === "length") {
+			this.expect("rparen", '")"');
+			const opToken = this.expect("op", "a comparison operator");
+			const value = this.parseValue();
+			const key = field.value.toLowerCase();
+			if (key !== "file.outlinks" && key !== "file.inlinks") {
+				throw new QueryError("length() supports file.outlinks and file.inlinks", field.start, field.end);
+			}
+			return this.compileComparison(field, opToken, value);
+		}
+
+		throw new QueryError(`Unknown function "${name.value}"`, name.start, name.end);
+	}
+
+	private compileExists(field: Token): CriterionConfig {
+		if (field.value.toLowerCase().startsWith("file.")) {
+			throw new QueryError(`Expected a comparison after ${field.value}`, field.start, field.end);
+		}
+		return { type: "property", params: { key: field.value, operator: "exists" } };
+	}
+
+	private compileContains(field: Token, value: Token): CriterionConfig {
+		const key = field.value.toLowerCase();
+		switch (key) {
+			case "file.name":
+			case "file.path": {
+				const escaped = value.value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+				return {
+					type: "filename",
+					params: { pattern: escaped, syntax: "regex", target: key === "file.name" ? "name" : "path" },
+				};
+			}
+			case "file.tags":
+				return { type: "tag", params: { tags: [value.value.replace(/^#/, "")] } };
+			default:
+				if (key.startsWith("file.")) {
+					throw new QueryError(`contains() does not support ${field.value}`, field.start, field.end);
+				}
+				return { type: "property", params: { key: field.value, operator: "contains", value: value.value } };
+		}
+	}
+
+	private compileComparison(field: Token, opToken: Token, value: Token): CriterionConfig {
+		const op = opToken.value as ComparisonOp;
+		const key = field.value.toLowerCase();
+
+		const requireEquality = () => {
+			if (op !== "=" && op !== "!=") {
+				throw new QueryError(`${field.value} only supports = and !=`, opToken.start, opToken.end);
+			}
+		};
+		const negateIfNeeded = (config: CriterionConfig) => (op === "!=" ? not(config) : config);
+
+		switch (key) {
+			case "file.name":
+			case "file.path":
+				requireEquality();
+				return negateIfNeeded({
+					type: "filename",
+					params: { pattern: value.value, syntax: "glob", target: key === "file.name" ? "name" : "path" },
+				});
+
+			case "file.folder":
+				requireEquality();
+				return negateIfNeeded({ type: "folder", params: { folders: [value.value.replace(/\/+$/, "")] } });
+
+			case "file.ctime":
+			case "file.mtime": {
+				if (op === "=" || op === "!=") {
+					throw new QueryError(`${field.value} supports <, <=, > and >=`, opToken.start, opToken.end);
+				}
+				if (value.kind !== "date" && (value.kind !== "string" || Number.isNaN(Date.parse(value.value)))) {
+					throw new QueryError("Expected a date (YYYY-MM-DD)", value.start, value.end);
+				}
+				const params = { field: key === "file.ctime" ? "ctime" : "mtime", value: value.value };
+				if (op === ">") return { type: "file-age", params: { ...params, operator: "after" } };
+				if (op === "<") return { type: "file-age", params: { ...params, operator: "before" } };
+				if (op === ">=") return not({ type: "file-age", params: { ...params, operator: "before" } });
+				return not({ type: "file-age", params: { ...params, operator: "after" } });
+			}
+
+			case "file.outlinks":
+			case "file.inlinks": {
+				if (value.kind !== "number") {
+					throw new QueryError("Expected a number", value.start, value.end);
+				}
+				return negateIfNeeded({
+					type: "link-count",
+					params: {
+						direction: key === "file.outlinks" ? "outgoing" : "incoming",
+						operator: COUNT_OPERATORS[op],
+						value: Number(value.value),
+					},
+				});
+			}
+
+			default:
+				if (key.startsWith("file.")) {
+					throw new QueryError(`Unknown field ${field.value}`, field.start, field.end);
+				}
+				return {
+					type: "property",
+					params: { key: field.value, operator: PROPERTY_OPERATORS[op], value: value.value },
+				};
+		}
+	}
+}
+
+/**
+ * Parse a query into a criterion tree, reporting syntax errors with offsets
+ */
+export function parseQuery(source: string): QueryParseResult {
+	try {
+		const criterion = new QueryParser(tokenize(source)).parse();
+		return { criterion, errors: [] };
+	} catch (error) {
+		if (error instanceof QueryError) {
+			return { criterion: null, errors: [{ message: error.message, start: error.start, end: error.end }] };
+		}
+		throw error;
+	}
+}
+
+/**
+ * Format a syntax error with its line and column (1-based)
+ */
+export function formatQueryError(source: string, error: QuerySyntaxError): string {
+	const before = source.slice(0, error.start);
+	const line = before.split("\n").length;
+	const column = error.start - before.lastIndexOf("\n");
+	return `${error.message} (line ${line}, column ${column})`;
+}
@@ -15,6 +15,22 @@ import type {
 	DeepPartial,
 	PropertyMatch,
 	FSRSParams,
+	RecallConfig,
+	RecallPromptSource,
+	SubCard,
+	BacklogPlan,
+	LeechAction,
+	LeechConfig,
+	SiblingAction,
+	SiblingConfig,
+	ReviewKind,
+	PluginDataFile,
+	CardStateFile,
+	CardSchedule,
+	ScheduleRef,
+	SyncConflict,
+	SyncReport,
+	WriteCounters,
 } from "../types";
 import {
 	CURRENT_SCHEMA_VERSION,
@@ -26,9 +42,29 @@ import {
 	MAX_REVIEW_HISTORY,
 	BACKUP_INTERVAL_MS,
 	DEFAULT_FSRS_PARAMS,
+	FSRS_WEIGHT_COUNT,
 	PLUGIN_ID,
+	BACKLOG_MAX_DAYS,
+	DEFAULT_LEECH_THRESHOLD,
+	LEECH_THRESHOLD_MIN,
+	LEECH_THRESHOLD_MAX,
+	QUEUE_DAILY_LIMIT_MAX,
+	CARD_STATE_FILE,
+	DEVICE_ID_STORAGE_KEY,
+	REVIEW_TIME_TOLERANCE_MS,
+	MIGRATION_BACKUP_PREFIX,
 } from "../constants";
-import { nowISO } from "../utils/date-utils";
+import { formatDateKey, nowISO } from "../utils/date-utils";
+import { generateShortId } from "../utils/id-generator";
+import { handleError } from "../utils/error-handler";
+import { REVIEW_KINDS, isScheduledReview } from "../fsrs/review-kinds";
+import { makeCardRef } from "../fsrs/sub-cards";
+import { ReviewLogStore, applyAmendments, monthKey, shiftMonth } from "./review-log-store";
+import type { ReviewArchiveResult, ReviewLogStorageStats } from "./review-log-store";
+import { mergeWriteCounters, sameWriteCounters, threeWayMerge } from "./sync-merge";
+import { MigrationError, pendingMigrations, runMigration, runMigrations } from "./migrations";
+import type { RawPluginData } from "./migrations";
+import type { SyncSnapshot } from "./sync-merge";
 
 /**
  * DataStore manages all plugin data persistence
@@ -43,13 +79,58 @@ export class DataStore {
 	private initialized = false;
 	private lastBackupTime = 0;
 
+	/** Monthly review log files; only the current month is read at startup */
+	private reviewLog: ReviewLogStore;
+	private allReviewsLoaded = false;
+	private reviewsLoading: Promise<ReviewLog[]> | null = null;
+	private archiving: Promise<ReviewArchiveResult> | null = null;
+
+	/** This device's ID, kept in local storage so it is never synced */
+	private deviceId: string;
+
+	/** Write counters in data.json as last read or written, to notice another device's saves */
+	private seenWrites: WriteCounters = {};
+
+	/** Data as last read or written (JSON): the base of a three-way merge */
+	private syncBase: { settings: string; cardState: string } | null = null;
+	private merging: Promise<boolean> | null = null;
+	private saving = false;
+
+	/** Merges not yet taken by takeSyncReport(), and the schedules they left to rebuild */
+	private syncReport: SyncReport | null = null;
+	private syncReplays: Map<string, ScheduleRef> = new Map();
+
 	constructor(plugin: Plugin) {
 		this.plugin = plugin;
 		this.data = structuredClone(DEFAULT_PLUGIN_DATA);
+		this.deviceId = this.loadDeviceId();
+		this.reviewLog = new ReviewLogStore(plugin.app, this.deviceId);
+	}
+
+	/**
+	 * Read this device's ID, creating it on first use
+	 */
+	private loadDeviceId(): string {
+		const stored: unknown = this.plugin.app.loadLocalStorage(DEVICE_ID_STORAGE_KEY);
+		if (typeof stored === "string" && stored) {
+			return stored;
+		}
+		const id = generateShortId();
+		this.plugin.app.saveLocalStorage(DEVICE_ID_STORAGE_KEY, id);
+		return id;
+	}
+
+	/**
+	 * Get this device's ID, which names its review log files
+	 */
+	getDeviceId(): string {
+		return this.deviceId;
 	}
 
 	/**
-	 * Initialize the data store by loading persisted data
+	 * Initialize the data store by loading persisted data.
+	 * Reviews older than the current month are read on first use of
+	 * loadReviews().
 	 */
 	async initialize(): Promise<void> {
 		if (this.initialized) {
@@ -57,11 +138,19 @@ export class DataStore {
 		}
 
 		const loadedData: unknown = await this.plugin.loadData();
+		let splitLayout = true;
 
 		if (loadedData) {
 			try {
-				this.data = this.validateAndMigrate(loadedData);
+				const raw = await this.readCardState(loadedData);
+				const version = this.getVersion(raw);
+				this.data = this.validateAndMigrate(await this.migrateWithBackups(raw, version));
+				splitLayout = version >= 2;
 			} catch (error) {
+				// Leave the files at their old version rather than start over with defaults
+				if (error instanceof MigrationError) {
+					throw error;
+				}
 				console.error("[FSRS] Failed to load data, using defaults:", error);
 				// Create backup of corrupted data
 				await this.createBackup(loadedData);
@@ -73,6 +162,93 @@ export class DataStore {
 		}
 
 		this.initialized = true;
+		this.seenWrites = { ...this.data.writes };
+		this.syncBase = { settings: JSON.stringify(this.data.settings), cardState: JSON.stringify(this.toCardStateFile()) };
+
+		if (splitLayout) {
+			try {
+				this.data.reviews = await this.readReviews([formatDateKey(new Date()).slice(0, 7)]);
+
+				// Card data another device saved over this one's may miss reviews still in the log
+				const behind = this.findSchedulesBehindLog();
+				if (behind.length > 0) {
+					this.recordSync(0, [], behind);
+				}
+			} catch (error) {
+				console.error("[FSRS] Failed to read the review log:", error);
+			}
+			return;
+		}
+
+		// Data from before version 2 holds every review: move them to the
+		// review log. Until data.json is rewritten last, a failed move is
+		// simply redone on the next start.
+		this.allReviewsLoaded = true;
+		this.reviewLog.requestRewrite();
+		try {
+			await this.forceSave();
+		} catch (error) {
+			console.error("[FSRS] Failed to move reviews to the review log:", error);
+		}
+	}
+
+	/**
+	 * Path to the file holding queues, cards and orphan records
+	 */
+	private get cardStateFilePath(): string {
+		return `.obsidian/plugins/${PLUGIN_ID}/${CARD_STATE_FILE}`;
+	}
+
+	private getVersion(data: unknown): number {
+		const version = data && typeof data === "object" ? (data as Record<string, unknown>).version : undefined;
+		return typeof version === "number" ? version : 0;
+	}
+
+	/**
+	 * Add the contents of cards.json to what was loaded from data.json.
+	 * Before version 2 everything was in data.json.
+	 */
+	private async readCardState(loadedData: unknown): Promise<unknown> {
+		if (!loadedData || typeof loadedData !== "object" || this.getVersion(loadedData) < 2) {
+			return loadedData;
+		}
+
+		// Only the version and settings are read from data.json
+		const data = loadedData as Record<string, unknown>;
+		const rest = { version: data.version, settings: data.settings, backups: data.backups, writes: data.writes };
+		const adapter = this.plugin.app.vault.adapter;
+		if (!(await adapter.exists(this.cardStateFilePath))) {
+			return rest;
+		}
+
+		const state: unknown = JSON.parse(await adapter.read(this.cardStateFilePath));
+		return state && typeof state === "object" ? { ...rest, ...state } : rest;
+	}
+
+	/**
+	 * Read, validate and amend reviews from the log (all months when omitted)
+	 */
+	private async readReviews(months?: string[]): Promise<ReviewLog[]> {
+		const { reviews, amendments } = await this.reviewLog.read(months);
+		return applyAmendments(this.validateReviews(reviews), amendments).sort(
+			(a, b) => Date.parse(a.review) - Date.parse(b.review)
+		);
+	}
+
+	/**
+	 * Run each pending migration step, backing up the data it is given
+	 * first. Throws MigrationError, leaving the stored data as it was.
+	 */
+	private async migrateWithBackups(raw: unknown, version: number): Promise<unknown> {
+		if (!raw || typeof raw !== "object") {
+			return raw;
+		}
+		let data = raw as RawPluginData;
+		for (const migration of pendingMigrations(version)) {
+			await this.createMigrationBackup(data, migration.to - 1);
+			data = runMigration(data, migration);
+		}
+		return data;
 	}
 
 	/**
@@ -87,12 +263,12 @@ export class DataStore {
 		const rawData = data as Record<string, unknown>;
 
 		// Ensure version exists
-		const version = typeof rawData.version === "number" ? rawData.version : 0;
+		const version = this.getVersion(rawData);
 
-		// Run migrations if needed
+		// Run migrations if needed (throws MigrationError, leaving the data as it was)
 		let migratedData = rawData;
 		if (version < CURRENT_SCHEMA_VERSION) {
-			migratedData = this.runMigrations(rawData, version);
+			migratedData = runMigrations(rawData, version).data;
 		}
 
 		// Merge with defaults to ensure all fields exist
@@ -104,11 +280,27 @@ export class DataStore {
 			reviews: this.validateReviews(migratedData.reviews),
 			orphans: this.validateOrphans(migratedData.orphans),
 			backups: this.validateBackups(migratedData.backups),
+			writes: this.validateWrites(migratedData.writes),
 		};
 
 		return validatedData;
 	}
 
+	/**
+	 * Validate write counters (device ID → non-negative integer)
+	 */
+	private validateWrites(writes: unknown): WriteCounters {
+		const valid: WriteCounters = {};
+		if (writes && typeof writes === "object") {
+			for (const [device, count] of Object.entries(writes as Record<string, unknown>)) {
+				if (typeof count === "number" && Number.isInteger(count) && count >= 0) {
+					valid[device] = count;
+				}
+			}
+		}
+		return valid;
+	}
+
 	/**
 	 * Validate backups array (keep last MAX_BACKUPS valid entries)
 	 */
@@ -131,27 +323,6 @@ export class DataStore {
 		return valid.slice(-MAX_BACKUPS);
 	}
 
-	/**
-	 * Run data migrations from old versions
-	 */
-	private runMigrations(
-		data: Record<string, unknown>,
-		fromVersion: number
-	): Record<string, unknown> {
-		let result = { ...data };
-
-		// Migration from version 0 to 1
-		if (fromVersion < 1) {
-			// Initial version - no migrations needed
-			result.version = 1;
-		}
-
-		// Future migrations can be added here
-		// if (fromVersion < 2) { ... }
-
-		return result;
-	}
-
 	/**
 	 * Validate and merge settings with defaults
 	 */
@@ -183,9 +354,14 @@ export class DataStore {
 					"random",
 					"difficulty-desc",
 					"difficulty-asc",
+					"prerequisites-first",
 				],
 				DEFAULT_SETTINGS.queueOrder
 			),
+			demoteDependentsOnLapse:
+				typeof s.demoteDependentsOnLapse === "boolean"
+					? s.demoteDependentsOnLapse
+					: DEFAULT_SETTINGS.demoteDependentsOnLapse,
 			newCardsPerDay: this.validateDailyLimit(
 				s.newCardsPerDay,
 				DEFAULT_SETTINGS.newCardsPerDay,
@@ -205,6 +381,27 @@ export class DataStore {
 					: DEFAULT_SETTINGS.showPredictedIntervals,
 			showSessionStats:
 				typeof s.showSessionStats === "boolean" ? s.showSessionStats : DEFAULT_SETTINGS.showSessionStats,
+			loadBalancing:
+				typeof s.loadBalancing === "boolean" ? s.loadBalancing : DEFAULT_SETTINGS.loadBalancing,
+			lightDays: Array.isArray(s.lightDays)
+				? [...new Set(s.lightDays.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6))]
+				: DEFAULT_SETTINGS.lightDays,
+			lightDayShare:
+				typeof s.lightDayShare === "number" && Number.isFinite(s.lightDayShare)
+					? Math.max(0, Math.min(1, s.lightDayShare))
+					: DEFAULT_SETTINGS.lightDayShare,
+			archiveAfterMonths: this.validateDailyLimit(
+				s.archiveAfterMonths,
+				DEFAULT_SETTINGS.archiveAfterMonths,
+				0,
+				120
+			),
+			archiveRetentionYears: this.validateDailyLimit(
+				s.archiveRetentionYears,
+				DEFAULT_SETTINGS.archiveRetentionYears,
+				0,
+				100
+			),
 			sidebarPosition: this.validateEnum(
 				s.sidebarPosition,
 				["left", "right"],
@@ -236,7 +433,136 @@ export class DataStore {
 			? p.enableFuzz
 			: DEFAULT_FSRS_PARAMS.enableFuzz;
 
-		return { requestRetention, maximumInterval, enableFuzz };
+		const result: FSRSParams = { requestRetention, maximumInterval, enableFuzz };
+
+		// Drop malformed weight vectors rather than feeding them to the scheduler
+		if (this.isValidWeights(p.weights)) {
+			result.weights = [...p.weights];
+		}
+
+		return result;
+	}
+
+	/**
+	 * Validate per-queue FSRS overrides, keeping only valid fields
+	 */
+	private validateQueueFsrsParams(params: unknown): Partial<FSRSParams> | undefined {
+		if (!params || typeof params !== "object") {
+			return undefined;
+		}
+
+		const p = params as Record<string, unknown>;
+		const result: Partial<FSRSParams> = {};
+
+		if (typeof p.requestRetention === "number") {
+			result.requestRetention = Math.max(0.7, Math.min(0.97, p.requestRetention));
+		}
+		if (typeof p.maximumInterval === "number" && Number.isInteger(p.maximumInterval)) {
+			result.maximumInterval = Math.max(1, Math.min(36500, p.maximumInterval));
+		}
+		if (typeof p.enableFuzz === "boolean") {
+			result.enableFuzz = p.enableFuzz;
+		}
+		if (this.isValidWeights(p.weights)) {
+			result.weights = [...p.weights];
+		}
+
+		return Object.keys(result).length > 0 ? result : undefined;
+	}
+
+	/**
+	 * Validate per-queue recall settings
+	 */
+	private validateRecallConfig(config: unknown): RecallConfig | undefined {
+		if (!config || typeof config !== "object") {
+			return undefined;
+		}
+
+		const c = config as Record<string, unknown>;
+		const result: RecallConfig = {
+			enabled: c.enabled === true,
+			promptSource: this.validateEnum<RecallPromptSource>(c.promptSource, ["title", "property", "heading"], "title"),
+		};
+		if (typeof c.property === "string" && c.property.trim() !== "") {
+			result.property = c.property.trim();
+		}
+		return result;
+	}
+
+	/**
+	 * Validate a queue's backlog plan, dropping it when malformed
+	 */
+	private validateBacklogPlan(plan: unknown): BacklogPlan | undefined {
+		if (!plan || typeof plan !== "object") {
+			return undefined;
+		}
+
+		const p = plan as Record<string, unknown>;
+		if (
+			typeof p.startedAt !== "string" ||
+			Number.isNaN(Date.parse(p.startedAt)) ||
+			!Number.isInteger(p.days) ||
+			!Number.isInteger(p.total)
+		) {
+			return undefined;
+		}
+
+		const result: BacklogPlan = {
+			startedAt: p.startedAt,
+			days: Math.max(1, Math.min(BACKLOG_MAX_DAYS, p.days as number)),
+			total: Math.max(0, p.total as number),
+		};
+
+		const today = p.today as Record<string, unknown> | undefined;
+		if (
+			today &&
+			typeof today.date === "string" &&
+			Number.isInteger(today.overdue) &&
+			Number.isInteger(today.quota)
+		) {
+			result.today = { date: today.date, overdue: today.overdue as number, quota: today.quota as number };
+		}
+		return result;
+	}
+
+	/**
+	 * Validate per-queue leech settings
+	 */
+	private validateLeechConfig(config: unknown): LeechConfig | undefined {
+		if (!config || typeof config !== "object") {
+			return undefined;
+		}
+
+		const c = config as Record<string, unknown>;
+		const threshold = Number.isInteger(c.threshold) ? (c.threshold as number) : DEFAULT_LEECH_THRESHOLD;
+		return {
+			enabled: c.enabled === true,
+			threshold: Math.max(LEECH_THRESHOLD_MIN, Math.min(LEECH_THRESHOLD_MAX, threshold)),
+			action: this.validateEnum<LeechAction>(c.action, ["tag", "suspend", "move"], "tag"),
+		};
+	}
+
+	/**
+	 * Validate per-queue sibling separation settings
+	 */
+	private validateSiblingConfig(config: unknown): SiblingConfig | undefined {
+		if (!config || typeof config !== "object") {
+			return undefined;
+		}
+
+		const c = config as Record<string, unknown>;
+		return {
+			enabled: c.enabled === true,
+			action: this.validateEnum<SiblingAction>(c.action, ["delay", "bury"], "delay"),
+		};
+	}
+
+	private isValidWeights(weights: unknown): weights is number[] {
+		return (
+			Array.isArray(weights) &&
+			weights.length === FSRS_WEIGHT_COUNT &&
+			weights.every((w) => typeof w === "number" && Number.isFinite(w))
+		);
 	}
 
 	/**
@@ -247,7 +573,36 @@ export class DataStore {
 			return [];
 		}
 
-		return queues.filter((item) => this.isValidQueue(item));
+		return queues
+			.filter((item) => this.isValidQueue(item))
+			.map((queue) => {
+				const { fsrsParams, recall, backlog, leech, siblings, dailyLimit, ...rest } = queue;
+				const validated: Queue = rest;
+				const validParams = this.validateQueueFsrsParams(fsrsParams);
+				if (validParams) {
+					validated.fsrsParams = validParams;
+				}
+				const validRecall = this.validateRecallConfig(recall);
+				if (validRecall) {
+					validated.recall = validRecall;
+				}
+				const validBacklog = this.validateBacklogPlan(backlog);
+				if (validBacklog) {
+					validated.backlog = validBacklog;
+				}
+				const validLeech = this.validateLeechConfig(leech);
+				if (validLeech) {
+					validated.leech = validLeech;
+				}
+				const validSiblings = this.validateSiblingConfig(siblings);
+				if (validSiblings) {
+					validated.siblings = validSiblings;
+				}
+				if (typeof dailyLimit === "number") {
+					validated.dailyLimit = this.validateDailyLimit(dailyLimit, QUEUE_DAILY_LIMIT_MAX, 1, QUEUE_DAILY_LIMIT_MAX);
+				}
+				return validated;
+			});
 	}
 
 	/**
@@ -263,7 +618,7 @@ export class DataStore {
 
 		for (const [path, card] of Object.entries(rawCards)) {
 			if (this.isValidCardData(card)) {
-				result[path] = card;
+				result[path] = this.validateSubCards(card);
 			}
 			// Silently skip invalid cards to avoid console noise
 		}
@@ -271,6 +626,27 @@ export class DataStore {
 		return result;
 	}
 
+	/**
+	 * Drop malformed sub-cards from a card
+	 */
+	private validateSubCards(card: CardData): CardData {
+		if (card.subCards === undefined) {
+			return card;
+		}
+
+		const { subCards, ...rest } = card;
+		const valid: Record<string, SubCard> = {};
+		if (subCards && typeof subCards === "object") {
+			for (const [id, subCard] of Object.entries(subCards)) {
+				if (this.isValidSubCard(subCard)) {
+					valid[id] = subCard;
+				}
+			}
+		}
+
+		return Object.keys(valid).length > 0 ? { ...rest, subCards: valid } : rest;
+	}
+
 	/**
 	 * Validate reviews array
 	 */
@@ -337,6 +713,19 @@ export class DataStore {
 		);
 	}
 
+	private isValidSubCard(item: unknown): item is SubCard {
+		if (!item || typeof item !== "object") return false;
+		const obj = item as Record<string, unknown>;
+		return (
+			typeof obj.id === "string" &&
+			["highlight", "cloze", "block"].includes(obj.kind as string) &&
+			typeof obj.text === "string" &&
+			typeof obj.context === "string" &&
+			!!obj.schedules &&
+			typeof obj.schedules === "object"
+		);
+	}
+
 	private isValidCardData(item: unknown): item is CardData {
 		if (!item || typeof item !== "object") return false;
 		const obj = item as Record<string, unknown>;
@@ -355,7 +744,9 @@ export class DataStore {
 			typeof obj.id === "string" &&
 			typeof obj.cardPath === "string" &&
 			typeof obj.queueId === "string" &&
-			typeof obj.rating === "number"
+			typeof obj.rating === "number" &&
+			(obj.durationMs === undefined || (typeof obj.durationMs === "number" && obj.durationMs >= 0)) &&
+			(obj.kind === undefined || REVIEW_KINDS.includes(obj.kind as ReviewKind))
 		);
 	}
 
@@ -416,46 +807,87 @@ export class DataStore {
 		}
 
 		try {
-			const snapshot = this.getSnapshot();
-			const dataWithoutBackups: Omit<PluginData, "backups"> = {
-				version: snapshot.version,
-				settings: snapshot.settings,
-				queues: snapshot.queues,
-				cards: snapshot.cards,
-				reviews: snapshot.reviews,
-				orphans: snapshot.orphans,
-			};
-			const entry: BackupEntry = {
+			// Reviews are left out: the review log is only appended to
+			const dataWithoutBackups: Omit<PluginData, "backups"> = structuredClone({
+				version: this.data.version,
+				settings: this.data.settings,
+				queues: this.data.queues,
+				cards: this.data.cards,
+				reviews: [],
+				orphans: this.data.orphans,
+			});
+			await this.writeBackupEntry({
 				id: `backup-${now}`,
 				timestamp: now,
 				data: dataWithoutBackups,
-			};
-
-			// Read existing backups from file
-			let backups: BackupEntry[] = [];
-			try {
-				const raw = await adapter.read(this.backupsFilePath);
-				const parsed: unknown = JSON.parse(raw);
-				if (Array.isArray(parsed)) {
-					backups = parsed as BackupEntry[];
-				}
-			} catch {
-				// File doesn't exist yet — start fresh
-			}
-
-			backups.push(entry);
-			backups = backups.slice(-MAX_BACKUPS);
-
-			await adapter.write(
-				this.backupsFilePath,
-				JSON.stringify(backups)
-			);
+			});
 			this.lastBackupTime = now;
 		} catch (error) {
 			console.error("[FSRS] Failed to write backup:", error);
 		}
 	}
 
+	/**
+	 * Back up data as it is before a migration step. The newest backup
+	 * from each version is kept when older backups are pruned.
+	 * Throws MigrationError if the backup cannot be written, so the data is
+	 * not migrated without one.
+	 */
+	private async createMigrationBackup(raw: unknown, fromVersion: number): Promise<void> {
+		const now = Date.now();
+		try {
+			await this.writeBackupEntry({
+				id: `${MIGRATION_BACKUP_PREFIX}v${fromVersion}-${now}`,
+				timestamp: now,
+				data: structuredClone(raw) as Omit<PluginData, "backups">,
+			});
+		} catch (error) {
+			throw new MigrationError(
+				fromVersion,
+				CURRENT_SCHEMA_VERSION,
+				`could not back up the data first (${error instanceof Error ? error.message : String(error)})`
+			);
+		}
+	}
+
+	/**
+	 * Add a backup to the backups file, keeping the last MAX_BACKUPS
+	 * regular backups and the newest migration backup from each version
+	 */
+	private async writeBackupEntry(entry: BackupEntry): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+
+		// Read existing backups from file
+		let backups: BackupEntry[] = [];
+		try {
+			const raw = await adapter.read(this.backupsFilePath);
+			const parsed: unknown = JSON.parse(raw);
+			if (Array.isArray(parsed)) {
+				backups = parsed as BackupEntry[];
+			}
+		} catch {
+			// File doesn't exist yet — start fresh
+		}
+
+		backups.push(entry);
+		const isMigration = (b: BackupEntry) => b.id.startsWith(MIGRATION_BACKUP_PREFIX);
+		// Migration backup IDs are `<prefix>v<from version>-<time>`
+		const newestPerVersion = new Map<string, BackupEntry>();
+		for (const backup of backups.filter(isMigration)) {
+			newestPerVersion.set(backup.id.slice(MIGRATION_BACKUP_PREFIX.length).split("-")[0] ?? "", backup);
+		}
+		const keep = new Set([
+			...backups.filter((b) => !isMigration(b)).slice(-MAX_BACKUPS),
+			...newestPerVersion.values(),
+		]);
+		backups = backups.filter((b) => keep.has(b));
+
+		await adapter.write(
+			this.backupsFilePath,
+			JSON.stringify(backups)
+		);
+	}
+
 	/**
 	 * List available backups (newest first) from the separate backups file
 	 */
@@ -478,7 +910,10 @@ export class DataStore {
 	}
 
 	/**
-	 * Restore from a backup by ID (replaces current data in memory; call save() to persist)
+	 * Restore from a backup by ID (replaces current data in memory; call save() to persist).
+	 * Backups made before the review log keep their reviews, which then
+	 * replace the log; newer backups leave the review history as it is.
+	 * Backups made before a migration are migrated as they are restored.
 	 */
 	async restoreFromBackup(backupId: string): Promise<boolean> {
 		const backups = await this.listBackups();
@@ -486,10 +921,18 @@ export class DataStore {
 		if (!entry) {
 			return false;
 		}
+		const restored = this.validateAndMigrate(entry.data);
+		const restoresReviews = restored.reviews.length > 0;
 		this.data = {
-			...entry.data,
+			...restored,
+			reviews: restoresReviews ? restored.reviews : this.data.reviews,
 			backups: [],
+			writes: this.data.writes,
 		};
+		if (restoresReviews) {
+			this.allReviewsLoaded = true;
+			this.reviewLog.requestRewrite();
+		}
 		this.dirty = true;
 		return true;
 	}
@@ -534,12 +977,83 @@ export class DataStore {
 	}
 
 	/**
-	 * Get all review logs
+	 * Get the review logs loaded so far: the current month's after
+	 * initialize(), all of them once loadReviews() has resolved
 	 */
 	getReviews(): ReviewLog[] {
 		return this.data.reviews;
 	}
 
+	/**
+	 * Read the whole review history from the log (once) and return it
+	 */
+	async loadReviews(): Promise<ReviewLog[]> {
+		if (this.allReviewsLoaded) {
+			return this.data.reviews;
+		}
+		this.reviewsLoading ??= this.doLoadReviews().finally(() => {
+			this.reviewsLoading = null;
+		});
+		return this.reviewsLoading;
+	}
+
+	private async doLoadReviews(): Promise<ReviewLog[]> {
+		// Write pending lines first so the files hold every amendment
+		await this.reviewLog.flush(this.data.reviews);
+		const stored = await this.readReviews();
+
+		// Reviews added while reading are kept, and in-memory copies win
+		const inMemory = new Map(this.data.reviews.map((r) => [r.id, r]));
+		const merged = stored.map((r) => inMemory.get(r.id) ?? r);
+		const storedIds = new Set(stored.map((r) => r.id));
+		merged.push(...this.data.reviews.filter((r) => !storedIds.has(r.id)));
+		merged.sort((a, b) => Date.parse(a.review) - Date.parse(b.review));
+
+		this.data.reviews = merged;
+		this.allReviewsLoaded = true;
+		return merged;
+	}
+
+	/**
+	 * Read the archived reviews, which are never kept in memory. Renames
+	 * made since a month was archived are in the live log and applied too.
+	 */
+	async loadArchivedReviews(): Promise<ReviewLog[]> {
+		await this.reviewLog.flush(this.data.reviews);
+		const archive = await this.reviewLog.readArchive();
+		if (archive.reviews.length === 0) {
+			return [];
+		}
+
+		const { amendments } = await this.reviewLog.read();
+		const inMemory = new Set(this.data.reviews.map((r) => r.id));
+		const archived = this.validateReviews(archive.reviews).filter((r) => !inMemory.has(r.id));
+		return applyAmendments(archived, [...archive.amendments, ...amendments]).sort(
+			(a, b) => Date.parse(a.review) - Date.parse(b.review)
+		);
+	}
+
+	/**
+	 * Read the whole review history, archive included, for analytics and
+	 * exports. The archived part is returned but not kept in memory.
+	 */
+	async loadAllReviews(): Promise<ReviewLog[]> {
+		const live = await this.loadReviews();
+		const archived = await this.loadArchivedReviews();
+		if (archived.length === 0) {
+			return live;
+		}
+		return [...archived, ...live].sort((a, b) => Date.parse(a.review) - Date.parse(b.review));
+	}
+
+	/**
+	 * Check if the whole live review log is in memory (archived months
+	 * are only read by loadAllReviews())
+	 */
+	hasLoadedAllReviews(): boolean {
+		return this.allReviewsLoaded;
+	}
+
 	/**
 	 * Get review logs for a specific card
 	 */
@@ -604,13 +1118,39 @@ export class DataStore {
 		if (!existing) {
 			throw new Error(`Queue with ID "${id}" not found`);
 		}
-		this.data.queues[index] = {
+		const updated: Queue = {
 			id: updates.id ?? existing.id,
 			name: updates.name ?? existing.name,
 			createdAt: updates.createdAt ?? existing.createdAt,
 			criteria: updates.criteria ?? existing.criteria,
 			stats: updates.stats ?? existing.stats,
 		};
+		// An explicit undefined clears the overrides
+		const fsrsParams = "fsrsParams" in updates ? updates.fsrsParams : existing.fsrsParams;
+		if (fsrsParams && Object.keys(fsrsParams).length > 0) {
+			updated.fsrsParams = fsrsParams;
+		}
+		const recall = "recall" in updates ? updates.recall : existing.recall;
+		if (recall) {
+			updated.recall = recall;
+		}
+		const backlog = "backlog" in updates ? updates.backlog : existing.backlog;
+		if (backlog) {
+			updated.backlog = backlog;
+		}
+		const leech = "leech" in updates ? updates.leech : existing.leech;
+		if (leech) {
+			updated.leech = leech;
+		}
+		const siblings = "siblings" in updates ? updates.siblings : existing.siblings;
+		if (siblings) {
+			updated.siblings = siblings;
+		}
+		const dailyLimit = "dailyLimit" in updates ? updates.dailyLimit : existing.dailyLimit;
+		if (dailyLimit !== undefined) {
+			updated.dailyLimit = dailyLimit;
+		}
+		this.data.queues[index] = updated;
 		this.markDirty();
 	}
 
@@ -685,36 +1225,114 @@ export class DataStore {
 	// ============================================================================
 
 	/**
-	 * Add a review log entry (auto-compacts when exceeding MAX_REVIEW_HISTORY)
+	 * Add a review log entry (archives old months when exceeding MAX_REVIEW_HISTORY)
 	 */
 	addReview(review: ReviewLog): void {
 		this.data.reviews.push(review);
+		this.reviewLog.append(review);
+		this.archiveIfOverLimit();
+		this.markDirty();
+	}
 
-		// Compact if we've exceeded the limit by 10% to avoid trimming on every add
-		if (this.data.reviews.length > MAX_REVIEW_HISTORY * 1.1) {
-			this.compactReviews();
+	/**
+	 * Add many review logs at once (e.g. imported history), keeping the log chronological
+	 */
+	addReviews(reviews: ReviewLog[]): void {
+		this.data.reviews.push(...reviews);
+		for (const review of reviews) {
+			this.reviewLog.append(review);
 		}
-
+		this.data.reviews.sort((a, b) => Date.parse(a.review) - Date.parse(b.review));
+		this.archiveIfOverLimit();
 		this.markDirty();
 	}
 
 	/**
-	 * Compact review history by removing oldest entries beyond the limit.
-	 * Undone reviews are removed first since they carry no analytical value.
+	 * Start archiving once the live log passes the limit by 10%, so it
+	 * does not run on every add
+	 */
+	private archiveIfOverLimit(): void {
+		if (this.data.reviews.length > MAX_REVIEW_HISTORY * 1.1) {
+			this.archiveReviews().catch((error) => {
+				console.error("[FSRS] Failed to archive reviews:", error);
+			});
+		}
+	}
+
+	/**
+	 * Move whole months of reviews to the compressed archive: those older
+	 * than the archiveAfterMonths setting, then the oldest months while
+	 * the live log holds more than MAX_REVIEW_HISTORY reviews (every live
+	 * month is read to count them). The current month stays live. Archived months past archiveRetentionYears are deleted.
+	 * Nothing is lost otherwise: loadAllReviews() still reads the archive.
 	 */
-	private compactReviews(): void {
-		const reviews = this.data.reviews;
-		if (reviews.length <= MAX_REVIEW_HISTORY) return;
+	async archiveReviews(now: Date = new Date()): Promise<ReviewArchiveResult> {
+		this.archiving ??= this.doArchiveReviews(now).finally(() => {
+			this.archiving = null;
+		});
+		return this.archiving;
+	}
 
-		// Remove undone reviews first
-		const active = reviews.filter((r) => !r.undone);
+	private async doArchiveReviews(now: Date): Promise<ReviewArchiveResult> {
+		const { archiveAfterMonths, archiveRetentionYears } = this.data.settings;
+		const currentMonth = formatDateKey(now).slice(0, 7);
 
-		if (active.length <= MAX_REVIEW_HISTORY) {
-			this.data.reviews = active;
-		} else {
-			// Keep most recent entries
-			this.data.reviews = active.slice(-MAX_REVIEW_HISTORY);
+		// Write pending lines first so each month file is complete
+		await this.reviewLog.flush(this.data.reviews);
+		const months = (await this.reviewLog.listMonths()).filter((month) => month < currentMonth);
+
+		const toArchive = new Set<string>();
+		if (archiveAfterMonths > 0) {
+			const cutoff = shiftMonth(currentMonth, -archiveAfterMonths);
+			for (const month of months) {
+				if (month < cutoff) toArchive.add(month);
+			}
+		}
+
+		// Count every live month, not just those read so far
+		const live = await this.loadReviews();
+		const perMonth = new Map<string, number>();
+		for (const review of live) {
+			const month = monthKey(review.review);
+			perMonth.set(month, (perMonth.get(month) ?? 0) + 1);
 		}
+		let kept = live.length;
+		for (const month of toArchive) {
+			kept -= perMonth.get(month) ?? 0;
+		}
+		for (const month of months) {
+			if (kept <= MAX_REVIEW_HISTORY) break;
+			if (toArchive.has(month)) continue;
+			toArchive.add(month);
+			kept -= perMonth.get(month) ?? 0;
+		}
+
+		for (const month of toArchive) {
+			await this.reviewLog.archiveMonth(month);
+		}
+		if (toArchive.size > 0) {
+			this.data.reviews = this.data.reviews.filter((r) => !toArchive.has(monthKey(r.review)));
+		}
+
+		const deletedMonths: string[] = [];
+		if (archiveRetentionYears > 0) {
+			const cutoff = shiftMonth(currentMonth, -12 * archiveRetentionYears);
+			for (const month of await this.reviewLog.listArchivedMonths()) {
+				if (month >= cutoff) break;
+				await this.reviewLog.deleteArchivedMonth(month);
+				deletedMonths.push(month);
+			}
+		}
+
+		return { archivedMonths: [...toArchive].sort(), deletedMonths };
+	}
+
+	/**
+	 * Count the live and archived review log months and their size on disk
+	 */
+	async getReviewStorageStats(): Promise<ReviewLogStorageStats> {
+		await this.reviewLog.flush(this.data.reviews);
+		return this.reviewLog.getStorageStats();
 	}
 
 	/**
@@ -724,6 +1342,7 @@ export class DataStore {
 		const review = this.data.reviews.find((r) => r.id === reviewId);
 		if (review) {
 			review.undone = true;
+			this.reviewLog.appendUndo(reviewId);
 			this.markDirty();
 		}
 	}
@@ -733,16 +1352,14 @@ export class DataStore {
 	 * Used when relinking orphaned cards to preserve review history continuity.
 	 */
 	migrateReviewLogPaths(oldPath: string, newPath: string): void {
-		let migrated = 0;
 		for (const review of this.data.reviews) {
 			if (review.cardPath === oldPath) {
 				review.cardPath = newPath;
-				migrated++;
 			}
 		}
-		if (migrated > 0) {
-			this.markDirty();
-		}
+		// Months not read yet, or archived, may hold reviews of the note too
+		this.reviewLog.appendRename(oldPath, newPath);
+		this.markDirty();
 	}
 
 	// ============================================================================
@@ -776,6 +1393,167 @@ export class DataStore {
 		this.markDirty();
 	}
 
+	// ============================================================================
+	// Sync Operations
+	// ============================================================================
+
+	/**
+	 * Merge data another device saved since this one last read or wrote:
+	 * settings, queues, cards and orphan records three-way against the data
+	 * both had seen, and the reviews it logged in the months in memory.
+	 * Schedules the merge cannot settle are left for takeSyncReport().
+	 * Returns false when no other device has saved.
+	 */
+	async mergeExternalChanges(): Promise<boolean> {
+		this.merging ??= this.doMergeExternalChanges().finally(() => {
+			this.merging = null;
+		});
+		return this.merging;
+	}
+
+	private async doMergeExternalChanges(): Promise<boolean> {
+		// Mid-save, data.json may already hold this device's own write
+		if (!this.initialized || this.saving) {
+			return false;
+		}
+
+		// data.json is written last, so its counters change with every save
+		const loadedData: unknown = await this.plugin.loadData();
+		const diskWrites = this.validateWrites(
+			loadedData && typeof loadedData === "object" ? (loadedData as Record<string, unknown>).writes : undefined
+		);
+		if (sameWriteCounters(diskWrites, this.seenWrites)) {
+			return false;
+		}
+
+		const remote = this.validateAndMigrate(await this.readCardState(loadedData));
+		const merged = threeWayMerge(this.getSyncBase(), this.toSyncSnapshot(this.data), this.toSyncSnapshot(remote));
+		this.data.settings = merged.state.settings;
+		this.data.queues = merged.state.queues;
+		this.data.cards = merged.state.cards;
+		this.data.orphans = merged.state.orphans;
+		this.data.writes = mergeWriteCounters(this.data.writes ?? {}, diskWrites);
+
+		// The other device's data is now the latest both have seen
+		this.seenWrites = diskWrites;
+		this.syncBase = {
+			settings: JSON.stringify(remote.settings),
+			cardState: JSON.stringify({ queues: remote.queues, cards: remote.cards, orphans: remote.orphans }),
+		};
+
+		const reviewsAdded = await this.mergeLoggedReviews();
+		this.recordSync(reviewsAdded, merged.conflicts, [...merged.diverged, ...this.findSchedulesBehindLog()]);
+		this.markDirty();
+		return true;
+	}
+
+	/**
+	 * Take what merges since the last call did, with the schedules they
+	 * left to rebuild from the review log (see DeviceSync)
+	 */
+	takeSyncReport(): { report: SyncReport; replays: ScheduleRef[] } | null {
+		if (!this.syncReport) {
+			return null;
+		}
+		const taken = { report: this.syncReport, replays: [...this.syncReplays.values()] };
+		this.syncReport = null;
+		this.syncReplays.clear();
+		return taken;
+	}
+
+	private recordSync(reviewsAdded: number, conflicts: SyncConflict[], replays: ScheduleRef[]): void {
+		this.syncReport ??= { mergedAt: nowISO(), reviewsAdded: 0, schedulesRebuilt: 0, conflicts: [] };
+		this.syncReport.mergedAt = nowISO();
+		this.syncReport.reviewsAdded += reviewsAdded;
+		this.syncReport.conflicts.push(...conflicts);
+		for (const replay of replays) {
+			this.syncReplays.set(`${replay.queueId}\u0000${replay.ref}`, replay);
+		}
+	}
+
+	private getSyncBase(): SyncSnapshot {
+		if (!this.syncBase) {
+			return this.toSyncSnapshot(this.data);
+		}
+		const cardState = JSON.parse(this.syncBase.cardState) as CardStateFile;
+		return {
+			settings: JSON.parse(this.syncBase.settings) as PluginSettings,
+			queues: cardState.queues,
+			cards: cardState.cards,
+			orphans: cardState.orphans,
+		};
+	}
+
+	private toSyncSnapshot(data: PluginData): SyncSnapshot {
+		return { settings: data.settings, queues: data.queues, cards: data.cards, orphans: data.orphans };
+	}
+
+	/**
+	 * Add the reviews other devices logged in the months in memory, and
+	 * their undos and renames. Returns the number of reviews added.
+	 */
+	private async mergeLoggedReviews(): Promise<number> {
+		await this.reviewLog.flush(this.data.reviews);
+		const months = this.allReviewsLoaded
+			? undefined
+			: [...new Set([formatDateKey(new Date()).slice(0, 7), ...this.data.reviews.map((r) => monthKey(r.review))])];
+		const stored = await this.readReviews(months);
+
+		const inMemory = new Map(this.data.reviews.map((r) => [r.id, r]));
+		let added = 0;
+		for (const review of stored) {
+			const known = inMemory.get(review.id);
+			if (known) {
+				known.undone ||= review.undone;
+				known.cardPath = review.cardPath;
+			} else {
+				this.data.reviews.push(review);
+				added++;
+			}
+		}
+		if (added > 0) {
+			this.data.reviews.sort((a, b) => Date.parse(a.review) - Date.parse(b.review));
+		}
+		return added;
+	}
+
+	/**
+	 * Find schedules missing a review in memory: the latest log entry for
+	 * the schedule is a review made after the schedule's last review. This
+	 * happens when one device's card data replaces another's that had
+	 * reviews since.
+	 */
+	private findSchedulesBehindLog(): ScheduleRef[] {
+		const latest = new Map<string, ReviewLog>();
+		for (const review of this.data.reviews) {
+			if (review.undone || review.kind === "cram") continue;
+			const key = `${review.queueId}\u0000${makeCardRef(review.cardPath, review.subCardId)}`;
+			const current = latest.get(key);
+			if (!current || Date.parse(review.review) >= Date.parse(current.review)) {
+				latest.set(key, review);
+			}
+		}
+
+		const behind: ScheduleRef[] = [];
+		for (const review of latest.values()) {
+			if (!isScheduledReview(review)) continue;
+			const schedule = this.getScheduleForReview(review);
+			if (!schedule) continue;
+
+			const lastReview = schedule.lastReview ? Date.parse(schedule.lastReview) : -Infinity;
+			if (Date.parse(review.review) - lastReview > REVIEW_TIME_TOLERANCE_MS) {
+				behind.push({ ref: makeCardRef(review.cardPath, review.subCardId), queueId: review.queueId });
+			}
+		}
+		return behind;
+	}
+
+	private getScheduleForReview(review: ReviewLog): CardSchedule | undefined {
+		const card = this.data.cards[review.cardPath];
+		const schedules = review.subCardId === undefined ? card?.schedules : card?.subCards?.[review.subCardId]?.schedules;
+		return schedules?.[review.queueId];
+	}
+
 	// ============================================================================
 	// Save Operations
 	// ============================================================================
@@ -820,6 +1598,14 @@ export class DataStore {
 			return;
 		}
 
+		// Merge what another device saved since this one last read or wrote, rather than overwrite it.
+		// If its files can't be read (half-synced, corrupt, newer schema), save this device's data as it is.
+		try {
+			await this.mergeExternalChanges();
+		} catch (error) {
+			handleError(error, { component: "DataStore.save (merging other devices' changes)", notifyUser: false });
+		}
+
 		// Clear scheduled save
 		if (this.saveTimeout) {
 			clearTimeout(this.saveTimeout);
@@ -833,10 +1619,31 @@ export class DataStore {
 			this.data.backups = [];
 		}
 
+		this.saving = true;
+		try {
+			await this.writeWithRetries();
+		} finally {
+			this.saving = false;
+		}
+	}
+
+	/**
+	 * Write the review log, cards.json and data.json, retrying with backoff
+	 */
+	private async writeWithRetries(): Promise<void> {
 		let lastError: Error | null = null;
 		for (let attempt = 0; attempt < DataStore.SAVE_MAX_RETRIES; attempt++) {
 			try {
-				await this.plugin.saveData(this.data);
+				// data.json goes last: until it is written, an older layout is still read as before
+				const writes = mergeWriteCounters(this.data.writes ?? {}, this.seenWrites);
+				writes[this.deviceId] = (writes[this.deviceId] ?? 0) + 1;
+				await this.reviewLog.flush(this.data.reviews);
+				const cardState = await this.writeCardState(writes);
+				const dataFile = this.toDataFile(writes);
+				await this.plugin.saveData(dataFile);
+				this.data.writes = writes;
+				this.seenWrites = writes;
+				this.syncBase = { settings: JSON.stringify(dataFile.settings), cardState };
 				this.dirty = false;
 				this.lastSaveTime = Date.now();
 				return;
@@ -853,6 +1660,29 @@ export class DataStore {
 		throw lastError ?? new Error("Failed to save data");
 	}
 
+	/**
+	 * Write queues, cards and orphan records to cards.json
+	 */
+	private async writeCardState(writes: WriteCounters): Promise<string> {
+		const json = JSON.stringify(this.toCardStateFile(writes));
+		await this.plugin.app.vault.adapter.write(this.cardStateFilePath, json);
+		return json;
+	}
+
+	/**
+	 * Contents of cards.json
+	 */
+	private toCardStateFile(writes?: WriteCounters): CardStateFile {
+		return { queues: this.data.queues, cards: this.data.cards, orphans: this.data.orphans, writes };
+	}
+
+	/**
+	 * Contents of data.json: the version, settings and write counters only
+	 */
+	private toDataFile(writes: WriteCounters): PluginDataFile {
+		return { version: this.data.version, settings: this.data.settings, writes };
+	}
+
 	/**
 	 * Force an immediate save (used during plugin unload)
 	 */
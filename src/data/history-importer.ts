@@ -0,0 +1,496 @@
+/**
+ * HistoryImporter - Imports scheduling history from other spaced repetition tools
+ * Reads Spaced Repetition plugin frontmatter (`sr-due`, `sr-interval`, `sr-ease`)
+ * and Anki revlog exports, then replays the history through FSRS
+ */
+
+import type { App, TFile } from "obsidian";
+import type { DataStore } from "./data-store";
+import type { CardManager } from "../fsrs/card-manager";
+import type { CardSchedule, RatingValue, ReviewLog } from "../types";
+import { generateReviewLogId } from "../utils/id-generator";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Session ID recorded on imported review logs */
+export const IMPORT_SESSION_IDS = {
+	"spaced-repetition": "import:spaced-repetition",
+	anki: "import:anki",
+} as const;
+
+export type ImportSource = keyof typeof IMPORT_SESSION_IDS;
+
+/** One review from an Anki revlog export */
+export interface AnkiRevlogEntry {
+	/** Anki card ID */
+	cardId: string;
+	/** Note reference used to find the vault note (path, title or sort field) */
+	note: string;
+	/** Review time (ms since epoch) */
+	reviewTime: number;
+	rating: RatingValue;
+	/** Time spent answering (ms), when the export includes it */
+	durationMs?: number;
+}
+
+/** A note that will be imported */
+export interface ImportMatch {
+	notePath: string;
+	/** What the note was matched from (frontmatter or Anki note reference) */
+	source: string;
+	reviewCount: number;
+	/** Due date after import (ISO string) */
+	due: string;
+}
+
+/** A source entry with no matching note */
+export interface ImportUnmatched {
+	source: string;
+	reason: string;
+}
+
+export type ImportConflictReason = "ambiguous" | "existing-schedule" | "duplicate";
+
+/** A source entry that will be skipped because it cannot be imported unambiguously */
+export interface ImportConflict {
+	source: string;
+	reason: ImportConflictReason;
+	/** Candidate or affected note paths */
+	notePaths: string[];
+}
+
+/** Dry-run report */
+export interface ImportReport {
+	matched: ImportMatch[];
+	unmatched: ImportUnmatched[];
+	conflicts: ImportConflict[];
+	/** Problems reading the source (bad rows, missing columns) */
+	errors: string[];
+}
+
+/** Planned import, ready to apply */
+export interface ImportPlan {
+	source: ImportSource;
+	queueId: string;
+	report: ImportReport;
+	items: Array<{ notePath: string; schedule: CardSchedule; reviews: ReviewLog[] }>;
+}
+
+export interface ImportOptions {
+	/** Replace schedules that already have reviews in the target queue */
+	overwrite?: boolean;
+}
+
+/** Column aliases accepted in Anki revlog exports */
+const ANKI_COLUMNS = {
+	cardId: ["cid", "card_id", "cardid"],
+	note: ["note", "note_path", "path", "sfld", "sort_field", "title"],
+	reviewTime: ["id", "review_time", "time_ms"],
+	rating: ["ease", "review_rating", "rating", "button_chosen"],
+	type: ["type", "review_kind"],
+	durationMs: ["time", "review_duration", "duration"],
+};
+
+/** Columns that may be missing from an export */
+const OPTIONAL_ANKI_COLUMNS = new Set(["type", "durationMs"]);
+
+/**
+ * Parse CSV text into rows, handling quoted fields with commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i] as string;
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function pickField(record: Record<string, unknown>, aliases: string[]): unknown {
+	for (const alias of aliases) {
+		if (record[alias] !== undefined && record[alias] !== "") {
+			return record[alias];
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Strip HTML and entities that Anki leaves in sort fields
+ */
+function cleanNoteReference(value: string): string {
+	return value
+		.replace(/<[^>]+>/g, "")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.trim();
+}
+
+/**
+ * Parse an Anki revlog export (CSV with a header row, or a JSON array / `{ revlog: [...] }`).
+ * Manual reschedules (`ease` 0 or `type` 4) are skipped.
+ */
+export function parseAnkiRevlog(text: string): { entries: AnkiRevlogEntry[]; errors: string[] } {
+	const errors: string[] = [];
+	let records: Array<Record<string, unknown>>;
+
+	const trimmed = text.trim();
+	if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(trimmed);
+		} catch {
+			return { entries: [], errors: ["File is not valid JSON"] };
+		}
+		const list = Array.isArray(parsed) ? parsed : (parsed as { revlog?: unknown }).revlog;
+		if (!Array.isArray(list)) {
+			return { entries: [], errors: ["JSON must be an array of reviews or { \"revlog\": [...] }"] };
+		}
+		records = list.filter((r): r is Record<string, unknown> => !!r && typeof r === "object");
+	} else {
+		const [header, ...rows] = parseCsv(trimmed);
+		if (!header) {
+			return { entries: [], errors: ["File is empty"] };
+		}
+		const keys = header.map((h) => h.trim().toLowerCase());
+		records = rows.map((row) => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ""])));
+	}
+
+	const first = records[0];
+	if (first) {
+		const keys = Object.keys(first).map((k) => k.toLowerCase());
+		for (const [field, aliases] of Object.entries(ANKI_COLUMNS)) {
+			if (!OPTIONAL_ANKI_COLUMNS.has(field) && !aliases.some((a) => keys.includes(a))) {
+				errors.push(`Missing column for ${field} (expected one of: ${aliases.join(", ")})`);
+			}
+		}
+		if (errors.length > 0) {
+			return { entries: [], errors };
+		}
+	}
+
+	const entries: AnkiRevlogEntry[] = [];
+	records.forEach((raw, index) => {
+		const record = Object.fromEntries(Object.entries(raw).map(([k, v]) => [k.toLowerCase(), v]));
+		const rating = Number(pickField(record, ANKI_COLUMNS.rating));
+		const type = Number(pickField(record, ANKI_COLUMNS.type) ?? 0);
+		if (rating === 0 || type === 4) {
+			return;
+		}
+
+		const cardId = pickField(record, ANKI_COLUMNS.cardId);
+		const note = pickField(record, ANKI_COLUMNS.note);
+		const reviewTime = Number(pickField(record, ANKI_COLUMNS.reviewTime));
+		if (
+			(typeof cardId !== "string" && typeof cardId !== "number") ||
+			typeof note !== "string" ||
+			!Number.isFinite(reviewTime) ||
+			![1, 2, 3, 4].includes(rating)
+		) {
+			errors.push(`Row ${index + 1}: missing or invalid card, note, time or rating`);
+			return;
+		}
+
+		const entry: AnkiRevlogEntry = {
+			cardId: String(cardId),
+			note: cleanNoteReference(note),
+			reviewTime,
+			rating: rating as RatingValue,
+		};
+		const durationMs = Number(pickField(record, ANKI_COLUMNS.durationMs));
+		if (Number.isFinite(durationMs) && durationMs >= 0) {
+			entry.durationMs = durationMs;
+		}
+		entries.push(entry);
+	});
+
+	return { entries, errors };
+}
+
+/**
+ * Map an SM-2 ease (e.g. 250 = 2.5) to an FSRS difficulty (1-10)
+ */
+export function easeToDifficulty(ease: number): number {
+	return Math.min(10, Math.max(1, 5 + (250 - ease) / 25));
+}
+
+/**
+ * HistoryImporter plans and applies imports into a queue
+ */
+export class HistoryImporter {
+	private app: App;
+	private dataStore: DataStore;
+	private cardManager: CardManager;
+
+	constructor(app: App, dataStore: DataStore, cardManager: CardManager) {
+		this.app = app;
+		this.dataStore = dataStore;
+		this.cardManager = cardManager;
+	}
+
+	/**
+	 * Dry run for notes carrying Spaced Repetition plugin frontmatter
+	 */
+	planSpacedRepetition(queueId: string, options: ImportOptions = {}): ImportPlan {
+		const plan = this.createPlan("spaced-repetition", queueId);
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter as
+				| Record<string, unknown>
+				| undefined;
+			if (!frontmatter || frontmatter["sr-due"] === undefined) {
+				continue;
+			}
+
+			const source = file.path;
+			const rawDue = frontmatter["sr-due"];
+			const due = typeof rawDue === "string" || typeof rawDue === "number" ? Date.parse(String(rawDue)) : NaN;
+			const interval = Number(frontmatter["sr-interval"]);
+			const ease = Number(frontmatter["sr-ease"] ?? 250);
+			if (Number.isNaN(due) || !Number.isFinite(interval) || interval <= 0 || !Number.isFinite(ease)) {
+				plan.report.unmatched.push({ source, reason: "Invalid sr-due, sr-interval or sr-ease" });
+				continue;
+			}
+			if (this.hasConflictingSchedule(file.path, queueId, options, plan, source)) {
+				continue;
+			}
+
+			// Only the latest interval is known: replay one review at the last review date,
+			// then seed stability and difficulty from the SM-2 interval and ease
+			const lastReview = new Date(due - interval * DAY_MS);
+			const { schedule, reviews } = this.replay(file.path, queueId, [{ rating: 3, time: lastReview }], "spaced-repetition");
+			const seeded: CardSchedule = {
+				...schedule,
+				state: 2,
+				stability: interval,
+				difficulty: easeToDifficulty(ease),
+				scheduledDays: Math.round(interval),
+				due: new Date(due).toISOString(),
+			};
+			this.addItem(plan, file.path, source, seeded, reviews);
+		}
+
+		return plan;
+	}
+
+	/**
+	 * Dry run for an Anki revlog export
+	 */
+	planAnki(text: string, queueId: string, options: ImportOptions = {}): ImportPlan {
+		const plan = this.createPlan("anki", queueId);
+		const { entries, errors } = parseAnkiRevlog(text);
+		plan.report.errors.push(...errors);
+
+		// Group reviews per Anki card
+		const byCard = new Map<string, AnkiRevlogEntry[]>();
+		for (const entry of entries) {
+			const list = byCard.get(entry.cardId) ?? [];
+			list.push(entry);
+			byCard.set(entry.cardId, list);
+		}
+
+		// Resolve cards to notes; a note with several cards keeps the one with most reviews
+		const index = this.buildNoteIndex();
+		const byNote = new Map<string, Array<{ source: string; entries: AnkiRevlogEntry[] }>>();
+		for (const [cardId, cardEntries] of byCard) {
+			const reference = cardEntries[0]?.note ?? "";
+			const source = `${reference} (card ${cardId})`;
+			const candidates = this.findNotes(reference, index);
+
+			const [match] = candidates;
+			if (!match) {
+				plan.report.unmatched.push({ source, reason: "No note with this path or name" });
+				continue;
+			}
+			if (candidates.length > 1) {
+				plan.report.conflicts.push({ source, reason: "ambiguous", notePaths: candidates.map((f) => f.path) });
+				continue;
+			}
+
+			const notePath = match.path;
+			const list = byNote.get(notePath) ?? [];
+			list.push({ source, entries: cardEntries });
+			byNote.set(notePath, list);
+		}
+
+		for (const [notePath, cards] of byNote) {
+			cards.sort((a, b) => b.entries.length - a.entries.length);
+			const [chosen, ...others] = cards;
+			if (!chosen) continue;
+
+			for (const other of others) {
+				plan.report.conflicts.push({ source: other.source, reason: "duplicate", notePaths: [notePath] });
+			}
+			if (this.hasConflictingSchedule(notePath, queueId, options, plan, chosen.source)) {
+				continue;
+			}
+
+			const history = chosen.entries
+				.map((e) => ({ rating: e.rating, time: new Date(e.reviewTime), durationMs: e.durationMs }))
+				.sort((a, b) => a.time.getTime() - b.time.getTime());
+			const { schedule, reviews } = this.replay(notePath, queueId, history, "anki");
+			this.addItem(plan, notePath, chosen.source, schedule, reviews);
+		}
+
+		return plan;
+	}
+
+	/**
+	 * Write planned schedules and review logs; returns the number of notes imported
+	 */
+	apply(plan: ImportPlan): number {
+		const allReviews: ReviewLog[] = [];
+
+		for (const item of plan.items) {
+			const card = this.cardManager.createCard(item.notePath, plan.queueId);
+			this.dataStore.updateCard(item.notePath, {
+				schedules: { ...card.schedules, [plan.queueId]: item.schedule },
+			});
+			allReviews.push(...item.reviews);
+		}
+
+		if (allReviews.length > 0) {
+			this.dataStore.addReviews(allReviews);
+		}
+		return plan.items.length;
+	}
+
+	private createPlan(source: ImportSource, queueId: string): ImportPlan {
+		return {
+			source,
+			queueId,
+			report: { matched: [], unmatched: [], conflicts: [], errors: [] },
+			items: [],
+		};
+	}
+
+	private addItem(plan: ImportPlan, notePath: string, source: string, schedule: CardSchedule, reviews: ReviewLog[]): void {
+		plan.items.push({ notePath, schedule, reviews });
+		plan.report.matched.push({ notePath, source, reviewCount: reviews.length, due: schedule.due });
+	}
+
+	/**
+	 * Record a conflict when the note already has review history in the queue
+	 */
+	private hasConflictingSchedule(
+		notePath: string,
+		queueId: string,
+		options: ImportOptions,
+		plan: ImportPlan,
+		source: string
+	): boolean {
+		const existing = this.dataStore.getCard(notePath)?.schedules[queueId];
+		if (!existing || existing.reps === 0 || options.overwrite) {
+			return false;
+		}
+		plan.report.conflicts.push({ source, reason: "existing-schedule", notePaths: [notePath] });
+		return true;
+	}
+
+	/**
+	 * Replay a review history through FSRS from a new card
+	 */
+	private replay(
+		notePath: string,
+		queueId: string,
+		history: Array<{ rating: RatingValue; time: Date; durationMs?: number }>,
+		source: ImportSource
+	): { schedule: CardSchedule; reviews: ReviewLog[] } {
+		const scheduler = this.cardManager.schedulerFor(queueId);
+		let schedule = scheduler.createNewSchedule(queueId);
+		const [first] = history;
+		if (first) {
+			schedule.addedToQueueAt = first.time.toISOString();
+		}
+
+		const reviews: ReviewLog[] = [];
+		for (const { rating, time, durationMs } of history) {
+			const result = scheduler.rateCard(schedule, rating, queueId, time);
+			const review: ReviewLog = {
+				id: generateReviewLogId(),
+				cardPath: notePath,
+				queueId,
+				rating,
+				state: schedule.state,
+				due: schedule.due,
+				stability: schedule.stability,
+				difficulty: schedule.difficulty,
+				elapsedDays: schedule.elapsedDays,
+				lastElapsedDays: result.log.last_elapsed_days,
+				scheduledDays: result.log.scheduled_days,
+				review: time.toISOString(),
+				sessionId: IMPORT_SESSION_IDS[source],
+				undone: false,
+			};
+			if (durationMs !== undefined) {
+				review.durationMs = durationMs;
+			}
+			reviews.push(review);
+			schedule = result.schedule;
+		}
+
+		return { schedule, reviews };
+	}
+
+	/**
+	 * Index vault notes by lowercase path and basename
+	 */
+	private buildNoteIndex(): { byPath: Map<string, TFile>; byName: Map<string, TFile[]> } {
+		const byPath = new Map<string, TFile>();
+		const byName = new Map<string, TFile[]>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			byPath.set(file.path.toLowerCase(), file);
+			const name = file.basename.toLowerCase();
+			byName.set(name, [...(byName.get(name) ?? []), file]);
+		}
+		return { byPath, byName };
+	}
+
+	/**
+	 * Find notes for a reference: exact path (with or without `.md`), else note name
+	 */
+	private findNotes(reference: string, index: { byPath: Map<string, TFile>; byName: Map<string, TFile[]> }): TFile[] {
+		const key = reference.toLowerCase().replace(/\\/g, "/");
+		if (!key) return [];
+
+		const exact = index.byPath.get(key) ?? index.byPath.get(`${key}.md`);
+		if (exact) return [exact];
+
+		const name = key.split("/").pop()?.replace(/\.md$/, "") ?? key;
+		return index.byName.get(name) ?? [];
+	}
+}
@@ -4,3 +4,49 @@
 
 export { DataStore } from "./data-store";
 export { BackupManager } from "./backup-manager";
+export { ReviewLogStore, applyAmendments, monthKey, shiftMonth } from "./review-log-store";
+export type {
+	ReviewArchiveResult,
+	ReviewLogAmendment,
+	ReviewLogContents,
+	ReviewLogStorageStats,
+} from "./review-log-store";
+export { isEqual, mergeWriteCounters, sameWriteCounters, threeWayMerge } from "./sync-merge";
+export type { SyncMergeResult, SyncSnapshot } from "./sync-merge";
+export {
+	MIGRATIONS,
+	MigrationError,
+	pendingMigrations,
+	runMigration,
+	runMigrations,
+	validateMigrations,
+} from "./migrations";
+export type { Migration, MigrationResult, RawPluginData } from "./migrations";
+export {
+	ReviewExporter,
+	assignCardIds,
+	buildReviewsCsv,
+	buildRevlogCsv,
+	buildSchedulesCsv,
+	escapeCsvField,
+	toCsv,
+} from "./review-exporter";
+export type { ExportResult } from "./review-exporter";
+export {
+	HistoryImporter,
+	IMPORT_SESSION_IDS,
+	easeToDifficulty,
+	parseAnkiRevlog,
+	parseCsv,
+} from "./history-importer";
+export type {
+	AnkiRevlogEntry,
+	ImportConflict,
+	ImportConflictReason,
+	ImportMatch,
+	ImportOptions,
+	ImportPlan,
+	ImportReport,
+	ImportSource,
+	ImportUnmatched,
+} from "./history-importer";
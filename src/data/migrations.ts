@@ -0,0 +1,165 @@
+/**
+ * Migrations - Ordered steps that bring stored data up to the current schema
+ * Each step takes data at one version to the next. Steps are pure: they
+ * get a copy of the data and return a new object, so a failed step leaves
+ * the data as loaded. Each step's input and output are checked, and the
+ * first problem stops the run.
+ */
+
+import { CURRENT_SCHEMA_VERSION } from "../constants";
+
+/** Stored data before validation: a JSON object of any version */
+export type RawPluginData = Record<string, unknown>;
+
+/**
+ * One schema change
+ */
+export interface Migration {
+	/** Version the step produces from data at `to - 1` */
+	to: number;
+	/** What changes, for logs and errors */
+	description: string;
+	/** Change the data; must not modify its argument */
+	migrate: (data: RawPluginData) => RawPluginData;
+	/** Problems with the data this step is given, if any */
+	validateBefore?: (data: RawPluginData) => string[];
+	/** Problems with the data this step returns, if any */
+	validateAfter?: (data: RawPluginData) => string[];
+}
+
+/**
+ * Outcome of a migration run
+ */
+export interface MigrationResult {
+	data: RawPluginData;
+	/** Versions the data went through, in order */
+	applied: number[];
+}
+
+/**
+ * A migration step that failed; the data is left as it was
+ */
+export class MigrationError extends Error {
+	readonly fromVersion: number;
+	readonly toVersion: number;
+
+	constructor(fromVersion: number, toVersion: number, message: string) {
+		super(`Migrating data from version ${fromVersion} to ${toVersion} failed: ${message}`);
+		this.name = "MigrationError";
+		this.fromVersion = fromVersion;
+		this.toVersion = toVersion;
+	}
+}
+
+/**
+ * Problems with the fields every version has, where present
+ */
+function validateContainers(data: RawPluginData): string[] {
+	const problems: string[] = [];
+	const isObject = (value: unknown) => typeof value === "object" && value !== null && !Array.isArray(value);
+	if (data.settings !== undefined && !isObject(data.settings)) problems.push("settings is not an object");
+	if (data.queues !== undefined && !Array.isArray(data.queues)) problems.push("queues is not a list");
+	if (data.cards !== undefined && !isObject(data.cards)) problems.push("cards is not an object");
+	if (data.reviews !== undefined && !Array.isArray(data.reviews)) problems.push("reviews is not a list");
+	if (data.orphans !== undefined && !Array.isArray(data.orphans)) problems.push("orphans is not a list");
+	return problems;
+}
+
+/**
+ * Every schema change, oldest first. Add a step here, with a fixture in
+ * tests/critical/fixtures, for each change to the stored data.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+	{
+		to: 1,
+		description: "Add a version number",
+		migrate: (data) => ({ ...data, version: 1 }),
+		validateBefore: validateContainers,
+		validateAfter: validateContainers,
+	},
+	{
+		// Version 2 changed where data is stored, not its shape: this step
+		// only marks the version. Data loaded at version 1 or older is in
+		// data.json alone, and DataStore.initialize() writes it out to
+		// data.json, cards.json and the monthly review log.
+		to: 2,
+		description: "Mark data for data.json, cards.json and the review log",
+		migrate: (data) => ({ ...data, version: 2 }),
+		validateBefore: validateContainers,
+		validateAfter: validateContainers,
+	},
+];
+
+/**
+ * Check that steps go one version at a time from 1 to the current version
+ */
+export function validateMigrations(migrations: readonly Migration[] = MIGRATIONS): void {
+	migrations.forEach((migration, index) => {
+		if (migration.to !== index + 1) {
+			throw new Error(`Migration ${index} goes to version ${migration.to}, expected ${index + 1}`);
+		}
+	});
+	if (migrations.length !== CURRENT_SCHEMA_VERSION) {
+		throw new Error(`Migrations end at version ${migrations.length}, expected ${CURRENT_SCHEMA_VERSION}`);
+	}
+}
+
+/**
+ * Steps that take data at `fromVersion` to the current version, in order
+ */
+export function pendingMigrations(
+	fromVersion: number,
+	migrations: readonly Migration[] = MIGRATIONS
+): Migration[] {
+	return migrations.filter((migration) => migration.to > fromVersion);
+}
+
+/**
+ * Run one step on a copy of the data, checking its input and output.
+ * Throws MigrationError if either has problems or the step throws.
+ */
+export function runMigration(data: RawPluginData, migration: Migration): RawPluginData {
+	const fail = (message: string) => new MigrationError(migration.to - 1, migration.to, message);
+
+	const before = migration.validateBefore?.(data) ?? [];
+	if (before.length > 0) {
+		throw fail(`unexpected data (${before.join("; ")})`);
+	}
+
+	let next: RawPluginData;
+	try {
+		next = migration.migrate(structuredClone(data));
+	} catch (error) {
+		throw fail(error instanceof Error ? error.message : String(error));
+	}
+
+	const after = [
+		...(next.version === migration.to ? [] : [`version is ${String(next.version)}`]),
+		...(migration.validateAfter?.(next) ?? []),
+	];
+	if (after.length > 0) {
+		throw fail(`invalid result (${after.join("; ")})`);
+	}
+	return next;
+}
+
+/**
+ * Run every step past `fromVersion`. Each step gets its own copy of the
+ * data, so the input is never modified. Throws MigrationError on the
+ * first step whose input or output has problems, or that throws.
+ */
+export function runMigrations(
+	data: RawPluginData,
+	fromVersion: number,
+	migrations: readonly Migration[] = MIGRATIONS
+): MigrationResult {
+	let current = data;
+	const applied: number[] = [];
+
+	for (const migration of pendingMigrations(fromVersion, migrations)) {
+		current = runMigration(current, migration);
+		applied.push(migration.to);
+	}
+
+	return { data: current, applied };
+}
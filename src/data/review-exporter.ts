@@ -0,0 +1,242 @@
+/**
+ * ReviewExporter - Exports review history and schedules to CSV
+ * Writes a spreadsheet-friendly review log, per-queue card schedules,
+ * and the FSRS revlog format used by external FSRS tooling
+ */
+
+import type { App } from "obsidian";
+import type { DataStore } from "./data-store";
+import type { CardData, CardSchedule, Queue, ReviewLog } from "../types";
+import { EXPORT_FOLDER } from "../constants";
+import { makeCardRef } from "../fsrs/sub-cards";
+import { isScheduledReview } from "../fsrs/review-kinds";
+
+/** Files written by one export */
+export interface ExportResult {
+	folder: string;
+	files: string[];
+	reviewCount: number;
+	scheduleCount: number;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+export function escapeCsvField(value: string | number | boolean | null): string {
+	if (value === null) return "";
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: Array<Array<string | number | boolean | null>>): string {
+	const lines = [headers, ...rows].map((row) => row.map(escapeCsvField).join(","));
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * Key identifying one card (or sub-card) within one queue (FSRS treats each as its own card)
+ */
+function cardKey(queueId: string, notePath: string, subCardId?: string): string {
+	return `${queueId}\u0000${makeCardRef(notePath, subCardId)}`;
+}
+
+/**
+ * Assign stable integer card IDs in order of first review (revlog needs numeric IDs)
+ */
+export function assignCardIds(reviews: ReviewLog[]): Map<string, number> {
+	const ids = new Map<string, number>();
+	const sorted = [...reviews].sort((a, b) => Date.parse(a.review) - Date.parse(b.review));
+	for (const review of sorted) {
+		const key = cardKey(review.queueId, review.cardPath, review.subCardId);
+		if (!ids.has(key)) {
+			ids.set(key, ids.size + 1);
+		}
+	}
+	return ids;
+}
+
+/**
+ * Review log as CSV, including undone reviews (flagged)
+ */
+export function buildReviewsCsv(reviews: ReviewLog[], queues: Queue[], cardIds: Map<string, number>): string {
+	const queueNames = new Map(queues.map((q) => [q.id, q.name]));
+	const headers = [
+		"review_id",
+		"card_id",
+		"note_path",
+		"sub_card_id",
+		"queue_id",
+		"queue_name",
+		"session_id",
+		"review_time",
+		"rating",
+		"kind",
+		"state",
+		"due",
+		"stability",
+		"difficulty",
+		"elapsed_days",
+		"last_elapsed_days",
+		"scheduled_days",
+		"duration_ms",
+		"undone",
+	];
+	const rows = reviews.map((r) => [
+		r.id,
+		cardIds.get(cardKey(r.queueId, r.cardPath, r.subCardId)) ?? null,
+		r.cardPath,
+		r.subCardId ?? null,
+		r.queueId,
+		queueNames.get(r.queueId) ?? "",
+		r.sessionId,
+		r.review,
+		r.rating,
+		r.kind ?? "review",
+		r.state,
+		r.due,
+		r.stability,
+		r.difficulty,
+		r.elapsedDays,
+		r.lastElapsedDays,
+		r.scheduledDays,
+		r.durationMs ?? null,
+		r.undone,
+	]);
+	return toCsv(headers, rows);
+}
+
+/**
+ * Notes and their sub-cards, each with its own schedules
+ */
+function scheduleOwners(
+	cards: Record<string, CardData>
+): Array<{ notePath: string; subCardId?: string; schedules: Record<string, CardSchedule> }> {
+	return Object.values(cards).flatMap((card) => [
+		{ notePath: card.notePath, schedules: card.schedules },
+		...Object.values(card.subCards ?? {}).map((sub) => ({
+			notePath: card.notePath,
+			subCardId: sub.id,
+			schedules: sub.schedules,
+		})),
+	]);
+}
+
+/**
+ * Current schedule of every card and sub-card in every queue as CSV
+ */
+export function buildSchedulesCsv(
+	cards: Record<string, CardData>,
+	queues: Queue[],
+	cardIds: Map<string, number>
+): string {
+	const queueNames = new Map(queues.map((q) => [q.id, q.name]));
+	const headers = [
+		"card_id",
+		"note_path",
+		"sub_card_id",
+		"queue_id",
+		"queue_name",
+		"state",
+		"due",
+		"stability",
+		"difficulty",
+		"elapsed_days",
+		"scheduled_days",
+		"reps",
+		"lapses",
+		"last_review",
+		"added_to_queue_at",
+	];
+	const rows: Array<Array<string | number | boolean | null>> = [];
+	for (const { notePath, subCardId, schedules } of scheduleOwners(cards)) {
+		for (const [queueId, s] of Object.entries(schedules)) {
+			rows.push([
+				cardIds.get(cardKey(queueId, notePath, subCardId)) ?? null,
+				notePath,
+				subCardId ?? null,
+				queueId,
+				queueNames.get(queueId) ?? "",
+				s.state,
+				s.due,
+				s.stability,
+				s.difficulty,
+				s.elapsedDays,
+				s.scheduledDays,
+				s.reps,
+				s.lapses,
+				s.lastReview,
+				s.addedToQueueAt,
+			]);
+		}
+	}
+	return toCsv(headers, rows);
+}
+
+/**
+ * Reviews in the FSRS revlog format (card_id, review_time ms, rating, state, duration ms).
+ * Undone reviews and cram drills are left out; reviews recorded without a duration export 0.
+ */
+export function buildRevlogCsv(reviews: ReviewLog[], cardIds: Map<string, number>): string {
+	const headers = ["card_id", "review_time", "review_rating", "review_state", "review_duration"];
+	const rows = reviews
+		.filter((r) => !r.undone && isScheduledReview(r))
+		.sort((a, b) => Date.parse(a.review) - Date.parse(b.review))
+		.map((r) => [
+			cardIds.get(cardKey(r.queueId, r.cardPath, r.subCardId)) ?? null,
+			Date.parse(r.review),
+			r.rating,
+			r.state,
+			r.durationMs ?? 0,
+		]);
+	return toCsv(headers, rows);
+}
+
+/**
+ * ReviewExporter writes export files into the vault
+ */
+export class ReviewExporter {
+	private app: App;
+	private dataStore: DataStore;
+
+	constructor(app: App, dataStore: DataStore) {
+		this.app = app;
+		this.dataStore = dataStore;
+	}
+
+	/**
+	 * Write reviews, schedules and revlog CSVs into the export folder
+	 */
+	async exportAll(now: Date = new Date()): Promise<ExportResult> {
+		const reviews = await this.dataStore.loadAllReviews();
+		const cards = this.dataStore.getCards();
+		const queues = this.dataStore.getQueues();
+		const cardIds = assignCardIds(reviews);
+
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(EXPORT_FOLDER))) {
+			await adapter.mkdir(EXPORT_FOLDER);
+		}
+
+		// Timestamp keeps repeated exports from overwriting each other
+		const stamp = now.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+		const outputs: Array<[string, string]> = [
+			[`${EXPORT_FOLDER}/fsrs-reviews-${stamp}.csv`, buildReviewsCsv(reviews, queues, cardIds)],
+			[`${EXPORT_FOLDER}/fsrs-schedules-${stamp}.csv`, buildSchedulesCsv(cards, queues, cardIds)],
+			[`${EXPORT_FOLDER}/fsrs-revlog-${stamp}.csv`, buildRevlogCsv(reviews, cardIds)],
+		];
+
+		for (const [path, content] of outputs) {
+			await adapter.write(path, content);
+		}
+
+		return {
+			folder: EXPORT_FOLDER,
+			files: outputs.map(([path]) => path),
+			reviewCount: reviews.length,
+			scheduleCount: scheduleOwners(cards).reduce((n, o) => n + Object.keys(o.schedules).length, 0),
+		};
+	}
+}
@@ -0,0 +1,455 @@
+/**
+ * ReviewLogStore - Append-only review log on disk
+ * Reviews are written as JSON lines to one file per month and device, by
+ * the date of the review (`reviews/2026-10.<device>.jsonl`). Files are only
+ * ever appended to: undoing a review or moving reviews to a renamed note
+ * appends an amendment line that is applied when the log is read back.
+ * As no two devices write the same file, a sync tool never has to pick
+ * one device's file over another's; reading unions them by review ID.
+ * Old months are moved, amendments included, to gzip files in
+ * `reviews/archive/`, which are only read on demand.
+ */
+
+import type { App } from "obsidian";
+import type { ReviewLog } from "../types";
+import { PLUGIN_ID, REVIEW_ARCHIVE_FOLDER, REVIEW_LOG_FOLDER } from "../constants";
+import { formatDateKey, nowISO } from "../utils/date-utils";
+import { gunzip, gzip } from "../utils/compression";
+
+/**
+ * A change to reviews written earlier: marking one undone, or moving a
+ * note's reviews to its new path (only reviews made before the rename)
+ */
+export type ReviewLogAmendment =
+	| { op: "undo"; id: string; at: string }
+	| { op: "rename"; from: string; to: string; at: string };
+
+/** Raw contents of the log files: review records are validated by the caller */
+export interface ReviewLogContents {
+	reviews: unknown[];
+	amendments: ReviewLogAmendment[];
+}
+
+/** Number of month files and their size on disk, live and archived */
+export interface ReviewLogStorageStats {
+	liveMonths: number;
+	liveBytes: number;
+	archivedMonths: number;
+	archivedBytes: number;
+}
+
+/** Months moved to the archive, and archived months deleted, by one archiving run */
+export interface ReviewArchiveResult {
+	archivedMonths: string[];
+	deletedMonths: string[];
+}
+
+/**
+ * Month files are named YYYY-MM.<device>.jsonl. Files without a device
+ * (written before devices were told apart) and conflict copies made by
+ * sync tools are read too.
+ */
+const MONTH_FILE_PATTERN = /^(\d{4}-\d{2})(?:\..+)?\.jsonl$/;
+
+/** Archived months are named YYYY-MM.<device>.jsonl.gz */
+const ARCHIVE_FILE_PATTERN = /^(\d{4}-\d{2})(?:\..+)?\.jsonl\.gz$/;
+
+/** A log file and the month it holds */
+interface MonthFile {
+	month: string;
+	path: string;
+}
+
+/**
+ * Month a review belongs to (local time), as YYYY-MM
+ */
+export function monthKey(isoDate: string): string {
+	const date = new Date(isoDate);
+	return formatDateKey(Number.isNaN(date.getTime()) ? new Date() : date).slice(0, 7);
+}
+
+/**
+ * Distinct months of a file list, oldest first
+ */
+function uniqueMonths(files: MonthFile[]): string[] {
+	return [...new Set(files.map((file) => file.month))].sort();
+}
+
+/**
+ * Join the contents of two log files, keeping a line cut short at the end
+ * of the first apart from the lines that follow
+ */
+function joinLines(first: string, second: string): string {
+	return first === "" || first.endsWith("\n") ? first + second : `${first}\n${second}`;
+}
+
+/**
+ * Month (YYYY-MM) the given number of months after another; negative goes back
+ */
+export function shiftMonth(month: string, delta: number): string {
+	const [year, monthOfYear] = month.split("-").map(Number);
+	const index = year! * 12 + monthOfYear! - 1 + delta;
+	return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Apply amendments to reviews, in the order they were made. Returns the
+ * reviews, changed in place.
+ */
+export function applyAmendments(reviews: ReviewLog[], amendments: ReviewLogAmendment[]): ReviewLog[] {
+	const byId = new Map(reviews.map((r) => [r.id, r]));
+	const ordered = [...amendments].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+	for (const amendment of ordered) {
+		if (amendment.op === "undo") {
+			const review = byId.get(amendment.id);
+			if (review) {
+				review.undone = true;
+			}
+			continue;
+		}
+
+		// A later note at the old path keeps its own reviews
+		const renamedAt = Date.parse(amendment.at);
+		for (const review of reviews) {
+			if (review.cardPath === amendment.from && Date.parse(review.review) <= renamedAt) {
+				review.cardPath = amendment.to;
+			}
+		}
+	}
+	return reviews;
+}
+
+/**
+ * ReviewLogStore reads and appends the monthly review log files
+ */
+export class ReviewLogStore {
+	private app: App;
+	private deviceId: string;
+
+	/** Lines waiting to be appended, by month */
+	private pending: Map<string, string[]> = new Map();
+
+	/** Set when the whole log is to be rewritten on the next flush */
+	private rewriteRequested = false;
+
+	/** Flushes and archiving run one at a time, so no line lands in a month being moved */
+	private lock: Promise<unknown> = Promise.resolve();
+
+	constructor(app: App, deviceId: string) {
+		this.app = app;
+		this.deviceId = deviceId;
+	}
+
+	/**
+	 * Folder holding the month files
+	 */
+	get folderPath(): string {
+		return `.obsidian/plugins/${PLUGIN_ID}/${REVIEW_LOG_FOLDER}`;
+	}
+
+	/**
+	 * Folder holding the archived months
+	 */
+	get archiveFolderPath(): string {
+		return `${this.folderPath}/${REVIEW_ARCHIVE_FOLDER}`;
+	}
+
+	/** This device's file for a month */
+	private monthFilePath(month: string): string {
+		return `${this.folderPath}/${month}.${this.deviceId}.jsonl`;
+	}
+
+	/** This device's archive file for a month */
+	private archiveFilePath(month: string): string {
+		return `${this.archiveFolderPath}/${month}.${this.deviceId}.jsonl.gz`;
+	}
+
+	/**
+	 * Queue a review to be appended on the next flush
+	 */
+	append(review: ReviewLog): void {
+		this.queueLine(monthKey(review.review), JSON.stringify(review));
+	}
+
+	/**
+	 * Mark a review undone on disk
+	 */
+	appendUndo(reviewId: string): void {
+		this.queueAmendment({ op: "undo", id: reviewId, at: nowISO() });
+	}
+
+	/**
+	 * Move a note's reviews so far to its new path on disk
+	 */
+	appendRename(from: string, to: string): void {
+		this.queueAmendment({ op: "rename", from, to, at: nowISO() });
+	}
+
+	/**
+	 * Rewrite every month file from the given reviews on the next flush,
+	 * instead of appending. Only for a complete history in memory, after a
+	 * migration, restore or compaction.
+	 */
+	requestRewrite(): void {
+		this.rewriteRequested = true;
+		this.pending.clear();
+	}
+
+	/**
+	 * Check if anything is waiting to be written
+	 */
+	hasPendingWrites(): boolean {
+		return this.rewriteRequested || this.pending.size > 0;
+	}
+
+	/**
+	 * Write queued lines to disk. `reviews` is the complete history and is
+	 * only used when a rewrite was requested. Lines stay queued until their
+	 * file is written, so a failed flush can be retried.
+	 */
+	async flush(reviews: ReviewLog[]): Promise<void> {
+		if (!this.hasPendingWrites()) {
+			return;
+		}
+		await this.exclusive(() => this.writePending(reviews));
+	}
+
+	private async writePending(reviews: ReviewLog[]): Promise<void> {
+
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folderPath))) {
+			await adapter.mkdir(this.folderPath);
+		}
+
+		if (this.rewriteRequested) {
+			await this.rewrite(reviews);
+			this.rewriteRequested = false;
+		}
+
+		for (const [month, lines] of [...this.pending]) {
+			const path = this.monthFilePath(month);
+			const text = lines.join("\n") + "\n";
+			if (await adapter.exists(path)) {
+				await adapter.append(path, text);
+			} else {
+				await adapter.write(path, text);
+			}
+			this.pending.delete(month);
+		}
+	}
+
+	/**
+	 * List the months with a log file, oldest first
+	 */
+	async listMonths(): Promise<string[]> {
+		return uniqueMonths(await this.listFiles(this.folderPath, MONTH_FILE_PATTERN));
+	}
+
+	/**
+	 * List the archived months, oldest first
+	 */
+	async listArchivedMonths(): Promise<string[]> {
+		return uniqueMonths(await this.listFiles(this.archiveFolderPath, ARCHIVE_FILE_PATTERN));
+	}
+
+	/**
+	 * Read the log files for the given months (all months when omitted).
+	 * Lines that do not parse, such as one cut short by a crash, are skipped.
+	 */
+	async read(months?: string[]): Promise<ReviewLogContents> {
+		const adapter = this.app.vault.adapter;
+		const files = await this.listFiles(this.folderPath, MONTH_FILE_PATTERN);
+		const wanted = months ? files.filter((file) => months.includes(file.month)) : files;
+
+		const contents: ReviewLogContents = { reviews: [], amendments: [] };
+		const seen = new Set<unknown>();
+		for (const file of wanted) {
+			this.parseLines(await adapter.read(file.path), contents, seen);
+		}
+		return contents;
+	}
+
+	/**
+	 * Read every archived month
+	 */
+	async readArchive(): Promise<ReviewLogContents> {
+		const adapter = this.app.vault.adapter;
+		const contents: ReviewLogContents = { reviews: [], amendments: [] };
+		const seen = new Set<unknown>();
+		for (const file of await this.listFiles(this.archiveFolderPath, ARCHIVE_FILE_PATTERN)) {
+			this.parseLines(await gunzip(await adapter.readBinary(file.path)), contents, seen);
+		}
+		return contents;
+	}
+
+	/**
+	 * Move a month's files, from every device, to this device's archive
+	 * file for the month. A month archived before and written to since,
+	 * e.g. by an import, is added to the archive file. Pending lines should
+	 * be flushed first.
+	 */
+	async archiveMonth(month: string): Promise<void> {
+		await this.exclusive(async () => {
+			const adapter = this.app.vault.adapter;
+			const liveFiles = (await this.listFiles(this.folderPath, MONTH_FILE_PATTERN)).filter(
+				(file) => file.month === month
+			);
+			if (liveFiles.length === 0) {
+				return;
+			}
+
+			let text = "";
+			for (const file of liveFiles) {
+				text = joinLines(text, await adapter.read(file.path));
+			}
+			const archivePath = this.archiveFilePath(month);
+			if (await adapter.exists(archivePath)) {
+				text = joinLines(await gunzip(await adapter.readBinary(archivePath)), text);
+			} else if (!(await adapter.exists(this.archiveFolderPath))) {
+				await adapter.mkdir(this.archiveFolderPath);
+			}
+
+			// The live files go only once the archive holds their lines
+			await adapter.writeBinary(archivePath, await gzip(text));
+			for (const file of liveFiles) {
+				await adapter.remove(file.path);
+			}
+		});
+	}
+
+	/**
+	 * Delete an archived month, from every device, for good
+	 */
+	async deleteArchivedMonth(month: string): Promise<void> {
+		await this.exclusive(async () => {
+			for (const file of await this.listFiles(this.archiveFolderPath, ARCHIVE_FILE_PATTERN)) {
+				if (file.month === month) {
+					await this.app.vault.adapter.remove(file.path);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Count the live and archived months and their size on disk
+	 */
+	async getStorageStats(): Promise<ReviewLogStorageStats> {
+		const live = await this.listFiles(this.folderPath, MONTH_FILE_PATTERN);
+		const archived = await this.listFiles(this.archiveFolderPath, ARCHIVE_FILE_PATTERN);
+		return {
+			liveMonths: uniqueMonths(live).length,
+			liveBytes: await this.totalSize(live.map((file) => file.path)),
+			archivedMonths: uniqueMonths(archived).length,
+			archivedBytes: await this.totalSize(archived.map((file) => file.path)),
+		};
+	}
+
+	private queueLine(month: string, line: string): void {
+		const lines = this.pending.get(month);
+		if (lines) {
+			lines.push(line);
+		} else {
+			this.pending.set(month, [line]);
+		}
+	}
+
+	private queueAmendment(amendment: ReviewLogAmendment): void {
+		this.queueLine(monthKey(amendment.at), JSON.stringify(amendment));
+	}
+
+	/**
+	 * Replace every month file, from all devices, with this device's files
+	 * holding the given reviews
+	 */
+	private async rewrite(reviews: ReviewLog[]): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const byMonth = new Map<string, string[]>();
+		for (const review of reviews) {
+			const month = monthKey(review.review);
+			const lines = byMonth.get(month);
+			if (lines) {
+				lines.push(JSON.stringify(review));
+			} else {
+				byMonth.set(month, [JSON.stringify(review)]);
+			}
+		}
+
+		for (const file of await this.listFiles(this.folderPath, MONTH_FILE_PATTERN)) {
+			if (file.path !== this.monthFilePath(file.month) || !byMonth.has(file.month)) {
+				await adapter.remove(file.path);
+			}
+		}
+		for (const [month, lines] of byMonth) {
+			await adapter.write(this.monthFilePath(month), lines.join("\n") + "\n");
+		}
+	}
+
+	/**
+	 * Add the records in a file's text to `contents`, skipping lines that do
+	 * not parse (such as one cut short by a crash) and reviews already seen
+	 */
+	private parseLines(raw: string, contents: ReviewLogContents, seen: Set<unknown>): void {
+		for (const line of raw.split("\n")) {
+			if (!line.trim()) continue;
+
+			let record: unknown;
+			try {
+				record = JSON.parse(line);
+			} catch {
+				continue;
+			}
+			if (!record || typeof record !== "object") continue;
+
+			const r = record as Record<string, unknown>;
+			if (this.isAmendment(r)) {
+				contents.amendments.push(r);
+			} else if (!seen.has(r.id)) {
+				seen.add(r.id);
+				contents.reviews.push(r);
+			}
+		}
+	}
+
+	/**
+	 * List the files in a folder matching a month file pattern, oldest
+	 * month first
+	 */
+	private async listFiles(folder: string, pattern: RegExp): Promise<MonthFile[]> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(folder))) {
+			return [];
+		}
+
+		const files: MonthFile[] = [];
+		for (const path of (await adapter.list(folder)).files) {
+			const month = pattern.exec(path.slice(path.lastIndexOf("/") + 1))?.[1];
+			if (month !== undefined) {
+				files.push({ month, path });
+			}
+		}
+		return files.sort((a, b) => a.month.localeCompare(b.month) || a.path.localeCompare(b.path));
+	}
+
+	private async totalSize(paths: string[]): Promise<number> {
+		let total = 0;
+		for (const path of paths) {
+			total += (await this.app.vault.adapter.stat(path))?.size ?? 0;
+		}
+		return total;
+	}
+
+	private exclusive<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.lock.then(task, task);
+		this.lock = run.catch(() => undefined);
+		return run;
+	}
+
+	private isAmendment(record: Record<string, unknown>): record is ReviewLogAmendment {
+		if (typeof record.at !== "string") return false;
+		if (record.op === "undo") {
+			return typeof record.id === "string";
+		}
+		return record.op === "rename" && typeof record.from === "string" && typeof record.to === "string";
+	}
+}
@@ -0,0 +1,273 @@
+/**
+ * Sync merge - Three-way merge of plugin data changed on two devices
+ * Compares this device's data and the data another device saved with the
+ * last version both had seen (the base). A value changed on one side only
+ * takes that side's change; a value changed on both is a conflict, which
+ * keeps this device's version. Schedules changed on both are left for the
+ * caller to rebuild from the merged review log.
+ */
+
+import type {
+	CardData,
+	CardSchedule,
+	OrphanRecord,
+	PluginSettings,
+	Queue,
+	ScheduleRef,
+	SubCard,
+	SyncConflict,
+	WriteCounters,
+} from "../types";
+import { makeCardRef } from "../fsrs/sub-cards";
+
+/**
+ * Data devices merge: everything but the review log, which is unioned
+ */
+export interface SyncSnapshot {
+	settings: PluginSettings;
+	queues: Queue[];
+	cards: Record<string, CardData>;
+	orphans: OrphanRecord[];
+}
+
+/**
+ * Merged data, the values both sides changed and the schedules to rebuild
+ */
+export interface SyncMergeResult {
+	state: SyncSnapshot;
+	conflicts: SyncConflict[];
+	/** Schedules both devices changed; the merged state holds this device's */
+	diverged: ScheduleRef[];
+}
+
+/** Outcome of merging one value */
+interface Merged<T> {
+	value: T | undefined;
+	conflict: boolean;
+}
+
+/**
+ * Check if two JSON-like values are equal
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+	if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+	const aRecord = a as Record<string, unknown>;
+	const bRecord = b as Record<string, unknown>;
+	const keys = Object.keys(aRecord).filter((key) => aRecord[key] !== undefined);
+	if (keys.length !== Object.keys(bRecord).filter((key) => bRecord[key] !== undefined).length) {
+		return false;
+	}
+	return keys.every((key) => isEqual(aRecord[key], bRecord[key]));
+}
+
+/**
+ * Check if two sets of write counters are the same
+ */
+export function sameWriteCounters(a: WriteCounters, b: WriteCounters): boolean {
+	return isEqual(a, b);
+}
+
+/**
+ * Highest count per device of two sets of write counters
+ */
+export function mergeWriteCounters(a: WriteCounters, b: WriteCounters): WriteCounters {
+	const merged = { ...a };
+	for (const [device, count] of Object.entries(b)) {
+		merged[device] = Math.max(merged[device] ?? 0, count);
+	}
+	return merged;
+}
+
+/**
+ * Merge one value. Undefined means absent (never added, or deleted);
+ * a deletion against a change keeps the changed value.
+ */
+function mergeValue<T>(base: T | undefined, local: T | undefined, remote: T | undefined): Merged<T> {
+	if (isEqual(local, remote) || isEqual(remote, base)) {
+		return { value: local, conflict: false };
+	}
+	if (isEqual(local, base)) {
+		return { value: remote, conflict: false };
+	}
+	if (local === undefined || remote === undefined) {
+		return { value: local ?? remote, conflict: false };
+	}
+	return { value: local, conflict: true };
+}
+
+/**
+ * Merge two records key by key with `mergeEntry`, keeping local key order
+ */
+function mergeRecords<T>(
+	base: Record<string, T>,
+	local: Record<string, T>,
+	remote: Record<string, T>,
+	mergeEntry: (key: string, base: T | undefined, local: T | undefined, remote: T | undefined) => T | undefined
+): Record<string, T> {
+	const merged: Record<string, T> = {};
+	const keys = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base)]);
+	for (const key of keys) {
+		const value = mergeEntry(key, base[key], local[key], remote[key]);
+		if (value !== undefined) {
+			merged[key] = value;
+		}
+	}
+	return merged;
+}
+
+/**
+ * Index a list by a key
+ */
+function byKey<T>(items: T[], key: (item: T) => string): Record<string, T> {
+	const record: Record<string, T> = {};
+	for (const item of items) {
+		record[key(item)] = item;
+	}
+	return record;
+}
+
+/**
+ * Merge base, local and remote data
+ */
+export function threeWayMerge(base: SyncSnapshot, local: SyncSnapshot, remote: SyncSnapshot): SyncMergeResult {
+	const conflicts: SyncConflict[] = [];
+	const diverged: ScheduleRef[] = [];
+
+	// Settings, key by key
+	const settings = mergeRecords(
+		base.settings as unknown as Record<string, unknown>,
+		local.settings as unknown as Record<string, unknown>,
+		remote.settings as unknown as Record<string, unknown>,
+		(key, b, l, r) => {
+			const merged = mergeValue(b, l, r);
+			if (merged.conflict) conflicts.push({ area: "setting", key });
+			return merged.value;
+		}
+	) as unknown as PluginSettings;
+
+	// Queues, field by field; stats are recomputed and never conflict
+	const queueRecord = mergeRecords(
+		byKey(base.queues, (q) => q.id),
+		byKey(local.queues, (q) => q.id),
+		byKey(remote.queues, (q) => q.id),
+		(_id, b, l, r) => {
+			if (!l || !r) {
+				// Added on one side, or deleted on one and kept on the other
+				const merged = mergeValue(withoutStats(b), withoutStats(l), withoutStats(r));
+				return merged.value && (l ?? r);
+			}
+			const fields = mergeRecords(
+				{ ...withoutStats(b) } as Record<string, unknown>,
+				{ ...withoutStats(l) } as Record<string, unknown>,
+				{ ...withoutStats(r) } as Record<string, unknown>,
+				(key, bf, lf, rf) => {
+					const merged = mergeValue(bf, lf, rf);
+					if (merged.conflict) conflicts.push({ area: "queue", key: `${l.name}: ${key}` });
+					return merged.value;
+				}
+			);
+			return { ...fields, stats: l.stats } as unknown as Queue;
+		}
+	);
+	const queueOrder = [...local.queues, ...remote.queues].map((q) => q.id);
+	const queues = [...new Set(queueOrder)]
+		.map((id) => queueRecord[id])
+		.filter((q): q is Queue => q !== undefined);
+
+	// Cards, schedule by schedule
+	const cards = mergeRecords(base.cards, local.cards, remote.cards, (path, b, l, r) => {
+		if (!l || !r) {
+			return mergeValue(b, l, r).value;
+		}
+		return mergeCard(path, b, l, r, conflicts, diverged);
+	});
+
+	// Orphan records, whole
+	const orphans = Object.values(
+		mergeRecords(
+			byKey(base.orphans, (o) => o.id),
+			byKey(local.orphans, (o) => o.id),
+			byKey(remote.orphans, (o) => o.id),
+			(_id, b, l, r) => {
+				const merged = mergeValue(b, l, r);
+				if (merged.conflict && l) conflicts.push({ area: "orphan", key: l.originalPath });
+				return merged.value;
+			}
+		)
+	);
+
+	return { state: { settings, queues, cards, orphans }, conflicts, diverged };
+}
+
+/**
+ * Merge a card present on both sides
+ */
+function mergeCard(
+	path: string,
+	base: CardData | undefined,
+	local: CardData,
+	remote: CardData,
+	conflicts: SyncConflict[],
+	diverged: ScheduleRef[]
+): CardData {
+	const merged: CardData = {
+		...local,
+		schedules: mergeSchedules(path, base?.schedules ?? {}, local.schedules, remote.schedules, diverged),
+		lastModified: local.lastModified > remote.lastModified ? local.lastModified : remote.lastModified,
+	};
+
+	if (local.subCards || remote.subCards) {
+		merged.subCards = mergeRecords(
+			base?.subCards ?? {},
+			local.subCards ?? {},
+			remote.subCards ?? {},
+			(id, b, l, r): SubCard | undefined => {
+				if (!l || !r) {
+					return mergeValue(b, l, r).value;
+				}
+				const content = mergeValue(withoutSchedules(b), withoutSchedules(l), withoutSchedules(r));
+				if (content.conflict) conflicts.push({ area: "card", key: makeCardRef(path, id) });
+				return {
+					...l,
+					...content.value,
+					schedules: mergeSchedules(makeCardRef(path, id), b?.schedules ?? {}, l.schedules, r.schedules, diverged),
+				};
+			}
+		);
+	}
+	return merged;
+}
+
+/**
+ * Merge a note or sub-card's schedules per queue
+ */
+function mergeSchedules(
+	ref: string,
+	base: Record<string, CardSchedule>,
+	local: Record<string, CardSchedule>,
+	remote: Record<string, CardSchedule>,
+	diverged: ScheduleRef[]
+): Record<string, CardSchedule> {
+	return mergeRecords(base, local, remote, (queueId, b, l, r) => {
+		const merged = mergeValue(b, l, r);
+		if (merged.conflict) diverged.push({ ref, queueId });
+		return merged.value;
+	});
+}
+
+function withoutStats(queue: Queue | undefined): Omit<Queue, "stats"> | undefined {
+	if (!queue) return undefined;
+	const rest: Partial<Queue> = { ...queue };
+	delete rest.stats;
+	return rest as Omit<Queue, "stats">;
+}
+
+function withoutSchedules(subCard: SubCard | undefined): Omit<SubCard, "schedules"> | undefined {
+	if (!subCard) return undefined;
+	const rest: Partial<SubCard> = { ...subCard };
+	delete rest.schedules;
+	return rest as Omit<SubCard, "schedules">;
+}
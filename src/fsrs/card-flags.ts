@@ -0,0 +1,29 @@
+/**
+ * Card flags - Suspended and buried schedules
+ * Suspended cards stay out of reviews until unsuspended; buried cards come
+ * back at the start of the next day
+ */
+
+import type { CardSchedule } from "../types";
+import { parseISODate } from "../utils/date-utils";
+
+/**
+ * Check if a schedule is buried at the given time
+ */
+export function isBuried(schedule: CardSchedule, now: Date = new Date()): boolean {
+	return schedule.buriedUntil !== undefined && parseISODate(schedule.buriedUntil) > now;
+}
+
+/**
+ * Check if a schedule is left out of reviews (suspended or buried)
+ */
+export function isHidden(schedule: CardSchedule, now: Date = new Date()): boolean {
+	return schedule.suspended === true || isBuried(schedule, now);
+}
+
+/**
+ * When a card buried now comes back: the start of the next local day
+ */
+export function buriedUntilFor(now: Date = new Date()): string {
+	return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).toISOString();
+}
@@ -3,11 +3,32 @@
  * Manages cards in the data store with proper scheduling
  */
 
-import type { CardData, CardSchedule, RatingValue, ReviewLog } from "../types";
+import type {
+	CardData,
+	CardSchedule,
+	ManualChangeKind,
+	RatingValue,
+	ReplayItem,
+	ReplayPreview,
+	RescheduleAction,
+	RescheduleItem,
+	ReschedulePreview,
+	ReviewKind,
+	ReviewLog,
+	SubCard,
+} from "../types";
 import type { DataStore } from "../data/data-store";
 import type { Scheduler } from "./scheduler";
+import { makeCardRef, parseCardRef } from "./sub-cards";
+import { forecastDayIndex, generateForecast } from "./forecast";
+import { buriedUntilFor, isHidden } from "./card-flags";
+import { replaySchedule } from "./replay";
+import type { ExtractedSubCard } from "./sub-cards";
 import { generateId, generateReviewLogId } from "../utils/id-generator";
-import { nowISO, isDue, isOverdue, parseISODate } from "../utils/date-utils";
+import { nowISO, isDueWithin, isOverdue, parseISODate } from "../utils/date-utils";
+import { EARLY_REVIEW_MIN_VALUE, POSTPONE_MIN_RETRIEVABILITY, REVIEW_TIME_TOLERANCE_MS } from "../constants";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 /**
  * CardManager handles card CRUD operations
@@ -21,6 +42,13 @@ export class CardManager {
 		this.scheduler = scheduler;
 	}
 
+	/**
+	 * Get the scheduler for a queue, applying its parameter overrides
+	 */
+	schedulerFor(queueId: string): Scheduler {
+		return this.scheduler.forQueue(queueId, this.dataStore.getQueue(queueId)?.fsrsParams);
+	}
+
 	/**
 	 * Create a new card for a note
 	 */
@@ -30,7 +58,11 @@ export class CardManager {
 		if (existing) {
 			// Card exists, just add schedule for this queue if needed
 			if (!existing.schedules[queueId]) {
-				existing.schedules[queueId] = this.scheduler.createNewSchedule(queueId);
+				const scheduler = this.schedulerFor(queueId);
+				existing.schedules[queueId] = scheduler.createNewSchedule(queueId);
+				for (const subCard of Object.values(existing.subCards ?? {})) {
+					subCard.schedules[queueId] ??= scheduler.createNewSchedule(queueId);
+				}
 				this.dataStore.updateCard(notePath, { schedules: existing.schedules });
 			}
 			return existing;
@@ -42,7 +74,7 @@ export class CardManager {
 			notePath,
 			noteId: generateId(),
 			schedules: {
-				[queueId]: this.scheduler.createNewSchedule(queueId),
+				[queueId]: this.schedulerFor(queueId).createNewSchedule(queueId),
 			},
 			createdAt: now,
 			lastModified: now,
@@ -67,28 +99,150 @@ export class CardManager {
 	}
 
 	/**
-	 * Update a card's schedule after rating
+	 * Resolve a note path or sub-card reference (`path#id`) to its schedules
+	 */
+	private resolve(ref: string): { card: CardData; schedules: Record<string, CardSchedule>; subCardId?: string } | undefined {
+		const { notePath, subCardId } = parseCardRef(ref);
+		const card = this.dataStore.getCard(notePath);
+		if (!card) {
+			return undefined;
+		}
+		if (subCardId === undefined) {
+			return { card, schedules: card.schedules };
+		}
+
+		const subCard = card.subCards?.[subCardId];
+		return subCard ? { card, schedules: subCard.schedules, subCardId } : undefined;
+	}
+
+	/**
+	 * Check if a note or sub-card reference resolves to a card
+	 */
+	hasCardRef(ref: string): boolean {
+		return this.resolve(ref) !== undefined;
+	}
+
+	/**
+	 * Get a sub-card by reference
+	 */
+	getSubCard(ref: string): SubCard | undefined {
+		const { notePath, subCardId } = parseCardRef(ref);
+		return subCardId === undefined ? undefined : this.dataStore.getCard(notePath)?.subCards?.[subCardId];
+	}
+
+	/**
+	 * Update a card's schedule after rating (accepts a sub-card reference)
 	 */
 	updateCardSchedule(
-		notePath: string,
+		ref: string,
 		queueId: string,
 		rating: RatingValue,
-		sessionId: string
+		sessionId: string,
+		durationMs?: number,
+		kind: ReviewKind = "review"
 	): ReviewLog {
-		const card = this.dataStore.getCard(notePath);
-		if (!card) {
-			throw new Error(`Card not found for path: ${notePath}`);
+		const { card, schedules, schedule, subCardId } = this.resolveSchedule(ref, queueId);
+
+		// Rate the card
+		const now = new Date();
+		const scheduler = this.schedulerFor(queueId);
+		const result = scheduler.rateCard(schedule, rating, queueId, now);
+		const reviewLog = this.createReviewLog(card.notePath, subCardId, queueId, rating, schedule, result.log, sessionId, durationMs, kind);
+
+		// Update card with new schedule, spread across days when load balancing
+		schedules[queueId] = this.balanceSchedule(scheduler, result.schedule, schedule, rating, now);
+		card.lastModified = nowISO();
+		this.dataStore.updateCard(card.notePath, card);
+
+		// Add review log
+		this.dataStore.addReview(reviewLog);
+
+		return reviewLog;
+	}
+
+	/**
+	 * Move a new schedule to the least loaded day when load balancing is on.
+	 * The card's schedule before rating is left out of the load.
+	 */
+	private balanceSchedule(
+		scheduler: Scheduler,
+		schedule: CardSchedule,
+		previous: CardSchedule,
+		rating: RatingValue,
+		now: Date
+	): CardSchedule {
+		const settings = this.dataStore.getSettings();
+		if (!settings.loadBalancing) {
+			return schedule;
+		}
+
+		const getDailyLoad = (days: number) => {
+			const load = generateForecast(this.dataStore.getCards(), days).map((day) => day.dueCount);
+			// The forecast still counts the card at its old due date, which the new one replaces
+			if (!previous.suspended && previous.state !== 0) {
+				const index = forecastDayIndex(previous.due);
+				if (index < load.length) {
+					load[index] = Math.max(0, (load[index] ?? 0) - 1);
+				}
+			}
+			return load;
+		};
+
+		return scheduler.balanceSchedule(schedule, previous, rating, now, getDailyLoad, settings);
+	}
+
+	/**
+	 * Log a rating without changing the card's schedule (cram sessions)
+	 */
+	logRating(
+		ref: string,
+		queueId: string,
+		rating: RatingValue,
+		sessionId: string,
+		durationMs?: number,
+		kind: ReviewKind = "cram"
+	): ReviewLog {
+		const { card, schedule, subCardId } = this.resolveSchedule(ref, queueId);
+
+		// The log records what the rating would have scheduled
+		const result = this.schedulerFor(queueId).rateCard(schedule, rating, queueId);
+		const reviewLog = this.createReviewLog(card.notePath, subCardId, queueId, rating, schedule, result.log, sessionId, durationMs, kind);
+
+		this.dataStore.addReview(reviewLog);
+		return reviewLog;
+	}
+
+	/**
+	 * Resolve the schedule a rating applies to, throwing if it is missing
+	 */
+	private resolveSchedule(ref: string, queueId: string) {
+		const resolved = this.resolve(ref);
+		if (!resolved) {
+			throw new Error(`Card not found for path: ${ref}`);
 		}
 
-		const schedule = card.schedules[queueId];
+		const schedule = resolved.schedules[queueId];
 		if (!schedule) {
 			throw new Error(`Schedule not found for queue: ${queueId}`);
 		}
 
-		// Rate the card
-		const result = this.scheduler.rateCard(schedule, rating, queueId);
+		return { ...resolved, schedule };
+	}
 
-		// Create review log
+	/**
+	 * Build the review log for a rating from the pre-review schedule
+	 */
+	private createReviewLog(
+		notePath: string,
+		subCardId: string | undefined,
+		queueId: string,
+		rating: RatingValue,
+		schedule: CardSchedule,
+		fsrsLog: { elapsed_days: number; last_elapsed_days: number; scheduled_days: number; review: Date },
+		sessionId: string,
+		durationMs: number | undefined,
+		kind: ReviewKind
+	): ReviewLog {
 		const reviewLog: ReviewLog = {
 			id: generateReviewLogId(),
 			cardPath: notePath,
@@ -98,22 +252,23 @@ export class CardManager {
 			due: schedule.due,
 			stability: schedule.stability,
 			difficulty: schedule.difficulty,
-			elapsedDays: schedule.elapsedDays,
-			lastElapsedDays: result.log.last_elapsed_days,
-			scheduledDays: result.log.scheduled_days,
-			review: nowISO(),
+			elapsedDays: fsrsLog.elapsed_days,
+			lastElapsedDays: fsrsLog.last_elapsed_days,
+			scheduledDays: fsrsLog.scheduled_days,
+			// The time the schedule was computed at, so a replay reproduces it
+			review: fsrsLog.review.toISOString(),
 			sessionId,
 			undone: false,
 		};
-
-		// Update card with new schedule
-		card.schedules[queueId] = result.schedule;
-		card.lastModified = nowISO();
-		this.dataStore.updateCard(notePath, card);
-
-		// Add review log
-		this.dataStore.addReview(reviewLog);
-
+		if (subCardId !== undefined) {
+			reviewLog.subCardId = subCardId;
+		}
+		if (durationMs !== undefined) {
+			reviewLog.durationMs = Math.round(durationMs);
+		}
+		if (kind !== "review") {
+			reviewLog.kind = kind;
+		}
 		return reviewLog;
 	}
 
@@ -134,6 +289,9 @@ export class CardManager {
 		}
 
 		delete card.schedules[queueId];
+		for (const subCard of Object.values(card.subCards ?? {})) {
+			delete subCard.schedules[queueId];
+		}
 
 		// If no schedules left, delete the entire card
 		if (Object.keys(card.schedules).length === 0) {
@@ -152,38 +310,40 @@ export class CardManager {
 	}
 
 	/**
-	 * Get all due cards for a queue
+	 * Get all due cards for a queue, including sub-cards. A horizon in days
+	 * also returns cards coming due that many days after today (review ahead).
+	 * Suspended and buried cards are left out here and in the lookups below.
 	 */
-	getDueCards(queueId: string, _now?: Date): CardData[] {
-		const cards = this.getCardsForQueue(queueId);
+	getDueCards(queueId: string, horizonDays = 0): CardData[] {
+		const cards = this.getReviewableCards(queueId);
 
 		return cards.filter((card) => {
 			const schedule = card.schedules[queueId];
-			return schedule && isDue(parseISODate(schedule.due));
+			return schedule && !isHidden(schedule) && isDueWithin(parseISODate(schedule.due), horizonDays);
 		});
 	}
 
 	/**
-	 * Get all overdue cards for a queue
+	 * Get all overdue cards for a queue, including sub-cards
 	 */
 	getOverdueCards(queueId: string, _now?: Date): CardData[] {
-		const cards = this.getCardsForQueue(queueId);
+		const cards = this.getReviewableCards(queueId);
 
 		return cards.filter((card) => {
 			const schedule = card.schedules[queueId];
-			return schedule && isOverdue(parseISODate(schedule.due));
+			return schedule && !isHidden(schedule) && isOverdue(parseISODate(schedule.due));
 		});
 	}
 
 	/**
-	 * Get all new cards for a queue (never reviewed)
+	 * Get all new cards for a queue, including sub-cards (never reviewed)
 	 */
 	getNewCards(queueId: string): CardData[] {
-		const cards = this.getCardsForQueue(queueId);
+		const cards = this.getReviewableCards(queueId);
 
 		return cards.filter((card) => {
 			const schedule = card.schedules[queueId];
-			return schedule && schedule.state === 0; // New state
+			return schedule && !isHidden(schedule) && schedule.state === 0; // New state
 		});
 	}
 
@@ -204,35 +364,346 @@ export class CardManager {
 	/**
 	 * Get retrievability for a card in a specific queue
 	 */
-	getRetrievability(notePath: string, queueId: string): number | null {
-		const card = this.dataStore.getCard(notePath);
-		if (!card) {
+	getRetrievability(ref: string, queueId: string, now?: Date): number | null {
+		const schedule = this.resolve(ref)?.schedules[queueId];
+		if (!schedule) {
 			return null;
 		}
 
-		const schedule = card.schedules[queueId];
+		return this.schedulerFor(queueId).getRetrievability(schedule, now);
+	}
+
+	/**
+	 * Get how much reviewing a card now is worth compared with reviewing it when due (0-1)
+	 */
+	getEarlyReviewValue(ref: string, queueId: string): number | null {
+		const schedule = this.resolve(ref)?.schedules[queueId];
 		if (!schedule) {
 			return null;
 		}
 
-		return this.scheduler.getRetrievability(schedule);
+		return this.schedulerFor(queueId).getEarlyReviewValue(schedule);
 	}
 
+	// ============================================================================
+	// Bulk Rescheduling
+	// ============================================================================
+
 	/**
-	 * Get scheduling preview for a card
+	 * Work out how a bulk postpone or advance would move the given cards.
+	 * Postponing moves due cards `days` past the later of now and their due
+	 * date; advancing pulls cards up to `days` earlier, but not before now.
+	 * Only cards in the review state move: FSRS measures the next interval
+	 * from the last review, so a shifted due date is simply a longer or
+	 * shorter interval.
 	 */
-	getSchedulingPreview(notePath: string, queueId: string) {
-		const card = this.dataStore.getCard(notePath);
-		if (!card) {
-			return null;
+	previewReschedule(
+		refs: string[],
+		queueId: string,
+		action: RescheduleAction,
+		days: number,
+		now: Date = new Date()
+	): ReschedulePreview {
+		const scheduler = this.schedulerFor(queueId);
+		const items: RescheduleItem[] = [];
+
+		for (const ref of refs) {
+			const schedule = this.resolve(ref)?.schedules[queueId];
+			if (!schedule || schedule.state !== 2) continue;
+
+			const currentDue = parseISODate(schedule.due);
+			const plannedReview = currentDue < now ? now : currentDue;
+			const newDue =
+				action === "postpone"
+					? new Date(plannedReview.getTime() + days * MS_PER_DAY)
+					: new Date(Math.max(now.getTime(), currentDue.getTime() - days * MS_PER_DAY));
+			if (newDue.getTime() === currentDue.getTime()) continue;
+
+			const retrievabilityAfter = scheduler.getRetrievability(schedule, newDue);
+			items.push({
+				ref,
+				currentDue: schedule.due,
+				newDue: newDue.toISOString(),
+				retrievabilityBefore: scheduler.getRetrievability(schedule, plannedReview),
+				retrievabilityAfter,
+				flagged:
+					action === "postpone"
+						? retrievabilityAfter < POSTPONE_MIN_RETRIEVABILITY
+						: scheduler.getEarlyReviewValue(schedule, newDue) < EARLY_REVIEW_MIN_VALUE,
+			});
 		}
 
-		const schedule = card.schedules[queueId];
+		const mean = (values: number[]) =>
+			values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+		return {
+			action,
+			queueId,
+			days,
+			items,
+			flagged: items.filter((item) => item.flagged).length,
+			retentionBefore: mean(items.map((item) => item.retrievabilityBefore)),
+			retentionAfter: mean(items.map((item) => item.retrievabilityAfter)),
+		};
+	}
+
+	/**
+	 * Apply a bulk reschedule, logging a `reschedule` entry for each card so
+	 * the change shows in its history. Returns the number of cards moved.
+	 */
+	applyReschedule(preview: ReschedulePreview, options: { skipFlagged: boolean }): number {
+		const batchId = generateId();
+		let moved = 0;
+
+		for (const item of preview.items) {
+			if (options.skipFlagged && item.flagged) continue;
+			if (!this.resolve(item.ref)?.schedules[preview.queueId]) continue;
+
+			this.setDueDate(item.ref, preview.queueId, parseISODate(item.newDue), batchId);
+			moved++;
+		}
+
+		return moved;
+	}
+
+	// ============================================================================
+	// History Replay
+	// ============================================================================
+
+	/**
+	 * Work out how rebuilding schedules from the review log would change
+	 * them. Each note and sub-card's entries in a queue are replayed in
+	 * order with the queue's current parameters, or with `weights` to see
+	 * what candidate weights would do (queues with weights of their own keep
+	 * them unless `queueId` is given). A schedule is left alone when the
+	 * replay reaches the same memory state and its interval is one the
+	 * replayed one could have been moved to, so due dates moved by fuzz or
+	 * load balancing stay put.
+	 */
+	previewReplay(reviews: ReviewLog[], options: { queueId?: string; weights?: number[] } = {}): ReplayPreview {
+		const { queueId: scope, weights } = options;
+		const byKey = new Map<string, ReviewLog[]>();
+		for (const review of reviews) {
+			if (scope !== undefined && review.queueId !== scope) continue;
+			const key = `${review.queueId}\u0000${makeCardRef(review.cardPath, review.subCardId)}`;
+			const entries = byKey.get(key);
+			if (entries) {
+				entries.push(review);
+			} else {
+				byKey.set(key, [review]);
+			}
+		}
+
+		const schedulers = new Map<string, Scheduler>();
+		const schedulerFor = (queueId: string): Scheduler => {
+			let scheduler = schedulers.get(queueId);
+			if (!scheduler) {
+				scheduler = this.schedulerFor(queueId);
+				const ownWeights = this.dataStore.getQueue(queueId)?.fsrsParams?.weights;
+				if (weights && (scope !== undefined || !ownWeights)) {
+					scheduler = scheduler.withWeights(weights);
+				}
+				schedulers.set(queueId, scheduler);
+			}
+			return scheduler;
+		};
+
+		const items: ReplayItem[] = [];
+		let unchanged = 0;
+		let skipped = 0;
+		for (const card of Object.values(this.dataStore.getCards())) {
+			const targets = [
+				{ ref: card.notePath, schedules: card.schedules },
+				...Object.values(card.subCards ?? {}).map((subCard) => ({
+					ref: makeCardRef(card.notePath, subCard.id),
+					schedules: subCard.schedules,
+				})),
+			];
+
+			for (const { ref, schedules } of targets) {
+				for (const [queueId, current] of Object.entries(schedules)) {
+					if (scope !== undefined && queueId !== scope) continue;
+
+					const scheduler = schedulerFor(queueId);
+					const entries = byKey.get(`${queueId}\u0000${ref}`) ?? [];
+					const rebuilt = replaySchedule(scheduler, queueId, entries, current.addedToQueueAt);
+					if (!rebuilt) {
+						// Never reviewed, or reviewed before the oldest entry kept
+						if (entries.length === 0 && current.state === 0) {
+							unchanged++;
+						} else {
+							skipped++;
+						}
+						continue;
+					}
+					if (sameMemoryState(current, rebuilt) && scheduler.couldSchedule(rebuilt, current.scheduledDays)) {
+						unchanged++;
+						continue;
+					}
+
+					if (current.buriedUntil) {
+						rebuilt.buriedUntil = current.buriedUntil;
+					}
+					items.push({ ref, queueId, currentDue: current.due, newDue: rebuilt.due, schedule: rebuilt });
+				}
+			}
+		}
+
+		const shifts = items.map((item) => (Date.parse(item.newDue) - Date.parse(item.currentDue)) / MS_PER_DAY);
+		return {
+			queueId: scope,
+			weights,
+			items,
+			unchanged,
+			skipped,
+			earlier: shifts.filter((days) => days < 0).length,
+			later: shifts.filter((days) => days > 0).length,
+			meanShiftDays: shifts.length > 0 ? shifts.reduce((sum, days) => sum + days, 0) / shifts.length : 0,
+		};
+	}
+
+	/**
+	 * Write the rebuilt schedules of a replay preview. Returns the number of
+	 * schedules replaced.
+	 */
+	applyReplay(preview: ReplayPreview): number {
+		let replaced = 0;
+		for (const item of preview.items) {
+			if (!this.getSchedule(item.ref, item.queueId)) continue;
+
+			this.setSchedule(item.ref, item.queueId, item.schedule);
+			replaced++;
+		}
+		return replaced;
+	}
+
+	// ============================================================================
+	// Manual Schedule Changes
+	// ============================================================================
+
+	/**
+	 * Move a card's due date. The interval is measured from the last review,
+	 * so FSRS schedules the next review as usual.
+	 */
+	setDueDate(ref: string, queueId: string, due: Date, sessionId: string = generateId()): ReviewLog {
+		return this.applyManualChange(ref, queueId, "reschedule", sessionId, (schedule) => {
+			const lastReview = schedule.lastReview ? parseISODate(schedule.lastReview) : null;
+			return {
+				...schedule,
+				due: due.toISOString(),
+				scheduledDays: lastReview
+					? Math.max(1, Math.round((due.getTime() - lastReview.getTime()) / MS_PER_DAY))
+					: 0,
+			};
+		});
+	}
+
+	/**
+	 * Reset a card to new in a queue, discarding its memory state
+	 */
+	resetCard(ref: string, queueId: string): ReviewLog {
+		return this.applyManualChange(ref, queueId, "reset", generateId(), (schedule) =>
+			this.schedulerFor(queueId).resetSchedule(schedule, queueId)
+		);
+	}
+
+	/**
+	 * Mark a card as forgotten: low stability, due now, relearning
+	 */
+	forgetCard(ref: string, queueId: string): ReviewLog {
+		return this.applyManualChange(ref, queueId, "forget", generateId(), (schedule, now) =>
+			this.schedulerFor(queueId).forgetSchedule(schedule, now)
+		);
+	}
+
+	/**
+	 * Suspend a card in a queue so it is left out of reviews
+	 */
+	suspendCard(ref: string, queueId: string): ReviewLog {
+		return this.applyManualChange(ref, queueId, "suspend", generateId(), (schedule) => ({
+			...schedule,
+			suspended: true,
+		}));
+	}
+
+	/**
+	 * Bring a suspended card back into reviews
+	 */
+	unsuspendCard(ref: string, queueId: string): ReviewLog {
+		return this.applyManualChange(ref, queueId, "unsuspend", generateId(), (schedule) => {
+			const unsuspended = { ...schedule };
+			delete unsuspended.suspended;
+			return unsuspended;
+		});
+	}
+
+	/**
+	 * Bury a card until the start of tomorrow. Burying does not change the
+	 * schedule, so like skipping it is not logged.
+	 */
+	buryCard(ref: string, queueId: string, now: Date = new Date()): void {
+		const { card, schedules, schedule } = this.resolveSchedule(ref, queueId);
+		schedules[queueId] = { ...schedule, buriedUntil: buriedUntilFor(now) };
+		card.lastModified = nowISO();
+		this.dataStore.updateCard(card.notePath, card);
+	}
+
+	/**
+	 * Change a card's schedule outside a review and log the change with
+	 * rating 0, so it shows in the card's history but is not counted as a
+	 * review
+	 */
+	private applyManualChange(
+		ref: string,
+		queueId: string,
+		kind: ManualChangeKind,
+		sessionId: string,
+		change: (schedule: CardSchedule, now: Date) => CardSchedule
+	): ReviewLog {
+		const { card, schedules, schedule, subCardId } = this.resolveSchedule(ref, queueId);
+		const now = new Date();
+		const updated = change(schedule, now);
+		const lastReview = schedule.lastReview ? parseISODate(schedule.lastReview) : now;
+
+		const reviewLog: ReviewLog = {
+			id: generateReviewLogId(),
+			cardPath: card.notePath,
+			queueId,
+			rating: 0,
+			state: schedule.state,
+			due: schedule.due,
+			stability: schedule.stability,
+			difficulty: schedule.difficulty,
+			elapsedDays: Math.max(0, Math.round((now.getTime() - lastReview.getTime()) / MS_PER_DAY)),
+			lastElapsedDays: schedule.elapsedDays,
+			scheduledDays: updated.scheduledDays,
+			review: now.toISOString(),
+			sessionId,
+			undone: false,
+			kind,
+		};
+		if (subCardId !== undefined) {
+			reviewLog.subCardId = subCardId;
+		}
+
+		schedules[queueId] = updated;
+		card.lastModified = nowISO();
+		this.dataStore.updateCard(card.notePath, card);
+		this.dataStore.addReview(reviewLog);
+
+		return reviewLog;
+	}
+
+	/**
+	 * Get scheduling preview for a card
+	 */
+	getSchedulingPreview(ref: string, queueId: string) {
+		const schedule = this.resolve(ref)?.schedules[queueId];
 		if (!schedule) {
 			return null;
 		}
 
-		return this.scheduler.getSchedulingPreview(schedule);
+		return this.schedulerFor(queueId).getSchedulingPreview(schedule);
 	}
 
 	/**
@@ -245,7 +716,7 @@ export class CardManager {
 		}
 
 		if (!card.schedules[queueId]) {
-			card.schedules[queueId] = this.scheduler.createNewSchedule(queueId);
+			card.schedules[queueId] = this.schedulerFor(queueId).createNewSchedule(queueId);
 			this.dataStore.updateCard(notePath, { schedules: card.schedules });
 		}
 
@@ -253,10 +724,117 @@ export class CardManager {
 	}
 
 	/**
-	 * Get schedule for a card in a queue
+	 * Get schedule for a card or sub-card in a queue
 	 */
-	getSchedule(notePath: string, queueId: string): CardSchedule | undefined {
+	getSchedule(ref: string, queueId: string): CardSchedule | undefined {
+		return this.resolve(ref)?.schedules[queueId];
+	}
+
+	/**
+	 * Replace the schedule of a card or sub-card (used to roll back a rating
+	 * or rebuild a schedule from the review log)
+	 */
+	setSchedule(ref: string, queueId: string, schedule: CardSchedule): void {
+		const resolved = this.resolve(ref);
+		if (!resolved) {
+			return;
+		}
+
+		resolved.schedules[queueId] = schedule;
+		this.dataStore.updateCard(resolved.card.notePath, { schedules: resolved.card.schedules });
+	}
+
+	// ============================================================================
+	// Sub-cards
+	// ============================================================================
+
+	/**
+	 * Reconcile a note's sub-cards with the ones found in its content.
+	 * New sub-cards get a schedule in every queue the note is in; sub-cards
+	 * no longer in the note are dropped. Returns true if anything changed.
+	 */
+	syncSubCards(notePath: string, extracted: ExtractedSubCard[]): boolean {
 		const card = this.dataStore.getCard(notePath);
-		return card?.schedules[queueId];
+		if (!card) {
+			return false;
+		}
+
+		const previous = card.subCards ?? {};
+		const next: Record<string, SubCard> = {};
+		let changed = Object.keys(previous).length !== extracted.length;
+
+		for (const found of extracted) {
+			const existing = previous[found.id];
+			if (existing) {
+				if (existing.text !== found.text || existing.context !== found.context || existing.kind !== found.kind) {
+					changed = true;
+				}
+				next[found.id] = { ...existing, kind: found.kind, text: found.text, context: found.context };
+				continue;
+			}
+
+			changed = true;
+			const schedules: Record<string, CardSchedule> = {};
+			for (const queueId of Object.keys(card.schedules)) {
+				schedules[queueId] = this.schedulerFor(queueId).createNewSchedule(queueId);
+			}
+			next[found.id] = { ...found, schedules, createdAt: nowISO() };
+		}
+
+		if (!changed) {
+			return false;
+		}
+
+		if (Object.keys(next).length > 0) {
+			card.subCards = next;
+		} else {
+			delete card.subCards;
+		}
+		this.dataStore.updateCard(notePath, card);
+		return true;
 	}
+
+	/**
+	 * Cards to review in a queue: each note plus its sub-cards. Sub-cards are
+	 * returned as card views whose `notePath` is the sub-card reference.
+	 */
+	getReviewableCards(queueId: string): CardData[] {
+		const result: CardData[] = [];
+		for (const card of this.getCardsForQueue(queueId)) {
+			result.push(card);
+			for (const subCard of Object.values(card.subCards ?? {})) {
+				if (subCard.schedules[queueId]) {
+					result.push({
+						notePath: makeCardRef(card.notePath, subCard.id),
+						noteId: card.noteId,
+						schedules: subCard.schedules,
+						createdAt: subCard.createdAt,
+						lastModified: card.lastModified,
+					});
+				}
+			}
+		}
+		return result;
+	}
+}
+
+/**
+ * Check if a replayed schedule remembers a card as the stored one does.
+ * Review times are logged a moment after the schedule is updated.
+ */
+function sameMemoryState(stored: CardSchedule, replayed: CardSchedule): boolean {
+	const close = (a: number, b: number) => Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(a), Math.abs(b));
+	const storedReview = stored.lastReview ? Date.parse(stored.lastReview) : null;
+	const replayedReview = replayed.lastReview ? Date.parse(replayed.lastReview) : null;
+	return (
+		stored.state === replayed.state &&
+		stored.reps === replayed.reps &&
+		stored.lapses === replayed.lapses &&
+		(stored.suspended ?? false) === (replayed.suspended ?? false) &&
+		close(stored.stability, replayed.stability) &&
+		close(stored.difficulty, replayed.difficulty) &&
+		(storedReview === null || replayedReview === null
+			? storedReview === replayedReview
+			: Math.abs(storedReview - replayedReview) <= REVIEW_TIME_TOLERANCE_MS)
+	);
 }
@@ -0,0 +1,73 @@
+/**
+ * Forecast - Projected number of reviews per day from card due dates
+ * Feeds the dashboard forecast chart and load balancing
+ */
+
+import type { CardData, CardSchedule } from "../types";
+import { formatDateKey, getStartOfToday, parseISODate } from "../utils/date-utils";
+
+export interface ForecastData {
+	date: string;
+	dueCount: number;
+	newCount: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Generate a forecast of due cards for the next `days` days, starting today.
+ * Overdue cards count toward today; sub-cards count alongside their notes.
+ * Suspended cards are left out.
+ */
+export function generateForecast(
+	cards: Record<string, CardData>,
+	days: number = 30,
+	queueId?: string
+): ForecastData[] {
+	const today = getStartOfToday();
+	const forecast: ForecastData[] = [];
+
+	for (let i = 0; i < days; i++) {
+		const date = new Date(today);
+		date.setDate(date.getDate() + i);
+		forecast.push({ date: formatDateKey(date), dueCount: 0, newCount: 0 });
+	}
+
+	for (const card of Object.values(cards)) {
+		const scheduleSets = [card.schedules, ...Object.values(card.subCards ?? {}).map((sub) => sub.schedules)];
+
+		for (const schedules of scheduleSets) {
+			const selected: Array<CardSchedule | undefined> = queueId ? [schedules[queueId]] : Object.values(schedules);
+
+			for (const schedule of selected) {
+				if (!schedule || schedule.suspended) continue;
+
+				const entry = forecast[forecastDayIndex(schedule.due, today)];
+				if (!entry) continue;
+
+				if (schedule.state === 0) {
+					entry.newCount++;
+				} else {
+					entry.dueCount++;
+				}
+			}
+		}
+	}
+
+	return forecast;
+}
+
+/**
+ * Day of the forecast a due date is counted on (overdue ones count today)
+ */
+export function forecastDayIndex(due: string, today: Date = getStartOfToday()): number {
+	return Math.max(0, dayIndex(parseISODate(due), today));
+}
+
+/**
+ * Calendar days from `today` (local midnight) to the day containing `date`
+ */
+function dayIndex(date: Date, today: Date): number {
+	const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+	return Math.round((day.getTime() - today.getTime()) / MS_PER_DAY);
+}
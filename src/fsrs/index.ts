@@ -4,3 +4,32 @@
 
 export { Scheduler } from "./scheduler";
 export { CardManager } from "./card-manager";
+export {
+	optimizeParameters,
+	evaluateWeights,
+	buildTrainingSequences,
+	countScorableReviews,
+} from "./optimizer";
+export type {
+	OptimizationResult,
+	OptimizerMetrics,
+	OptimizerOptions,
+	TrainingSequence,
+} from "./optimizer";
+export {
+	extractSubCards,
+	maskSubCard,
+	makeCardRef,
+	parseCardRef,
+	SUB_CARD_SEPARATOR,
+	CLOZE_MASK,
+} from "./sub-cards";
+export type { ExtractedSubCard } from "./sub-cards";
+export { isScheduledReview, isRating, isManualChange, REVIEW_KINDS, MANUAL_CHANGE_KINDS } from "./review-kinds";
+export type { ScheduledReviewLog } from "./review-kinds";
+export { generateForecast } from "./forecast";
+export type { ForecastData } from "./forecast";
+export { pickBalancedInterval, dayCapacity } from "./load-balancer";
+export type { LoadBalanceOptions } from "./load-balancer";
+export { isBuried, isHidden, buriedUntilFor } from "./card-flags";
+export { replaySchedule } from "./replay";
@@ -0,0 +1,57 @@
+/**
+ * Load Balancer - Spread reviews evenly across days
+ * Picks each new due date within its fuzz range on the least loaded day,
+ * with light days taking a reduced share of the workload
+ */
+
+/** Weekdays (0 = Sunday) that take a reduced share of reviews */
+export interface LoadBalanceOptions {
+	lightDays: number[];
+	/** Share of a normal day's load a light day takes (0–1) */
+	lightDayShare: number;
+}
+
+/**
+ * How much load a day can take relative to a normal day
+ */
+export function dayCapacity(date: Date, options: LoadBalanceOptions): number {
+	return options.lightDays.includes(date.getDay()) ? options.lightDayShare : 1;
+}
+
+/**
+ * Choose the interval in [minInterval, maxInterval] whose due day has the
+ * lowest load relative to its capacity. `dailyLoad[i]` is the projected
+ * number of reviews i days from `now`. Ties go to the interval closest to
+ * the one FSRS picked.
+ */
+export function pickBalancedInterval(
+	interval: number,
+	minInterval: number,
+	maxInterval: number,
+	now: Date,
+	dailyLoad: number[],
+	options: LoadBalanceOptions
+): number {
+	let best = interval;
+	let bestCost = Infinity;
+
+	for (let candidate = minInterval; candidate <= maxInterval; candidate++) {
+		const day = new Date(now);
+		day.setDate(day.getDate() + candidate);
+
+		const capacity = dayCapacity(day, options);
+		const load = dailyLoad[candidate] ?? 0;
+		// A day with no capacity is only used when every candidate has none
+		const cost = capacity > 0 ? load / capacity : Number.MAX_VALUE;
+
+		if (
+			cost < bestCost ||
+			(cost === bestCost && Math.abs(candidate - interval) < Math.abs(best - interval))
+		) {
+			best = candidate;
+			bestCost = cost;
+		}
+	}
+
+	return best;
+}
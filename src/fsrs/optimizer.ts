@@ -0,0 +1,349 @@
+/**
+ * Optimizer - Personalized FSRS parameter fitting
+ * Trains FSRS-5 weights from the stored review history, fully offline
+ */
+
+import { CLAMP_PARAMETERS, DECAY, FACTOR, dateDiffInDays, default_w } from "ts-fsrs";
+import type { RatingValue, ReviewLog } from "../types";
+import { FSRS_WEIGHT_COUNT, MIN_OPTIMIZER_REVIEWS, OPTIMIZER_ITERATIONS } from "../constants";
+import { makeCardRef } from "./sub-cards";
+import { isScheduledReview, type ScheduledReviewLog } from "./review-kinds";
+
+/** Stability bounds used by ts-fsrs */
+const S_MIN = 0.01;
+const S_MAX = 36500;
+
+/** Adam hyperparameters */
+const LEARNING_RATE = 0.04;
+const BETA_1 = 0.9;
+const BETA_2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+
+/** Step used for numeric gradients */
+const GRADIENT_STEP = 1e-4;
+
+/** Prediction clamp so log-loss stays finite */
+const PROBABILITY_EPSILON = 1e-6;
+
+/** One review within a training sequence */
+interface TrainingStep {
+	/** Days since the previous review of the same card (0 for the first review) */
+	deltaT: number;
+	rating: RatingValue;
+}
+
+/** Chronological reviews of one card in one queue, starting from its first review */
+export type TrainingSequence = TrainingStep[];
+
+/** Goodness-of-fit metrics for a weight vector */
+export interface OptimizerMetrics {
+	/** Mean binary cross-entropy of predicted recall */
+	logLoss: number;
+	/** Root mean squared error of predicted recall */
+	rmse: number;
+}
+
+/** Outcome of an optimization run */
+export interface OptimizationResult {
+	weights: number[];
+	before: OptimizerMetrics;
+	after: OptimizerMetrics;
+	/** Number of reviews that produced a recall prediction */
+	reviewCount: number;
+	/** Number of card histories used for training */
+	sequenceCount: number;
+}
+
+/** Options for an optimization run */
+export interface OptimizerOptions {
+	iterations?: number;
+	/** Called after every iteration so the UI can show progress */
+	onProgress?: (iteration: number, total: number) => void;
+}
+
+/**
+ * Group non-undone scheduled reviews (no cram drills) into per-card training sequences.
+ * A reset or forget ends a sequence, as it replaces the memory state the
+ * reviews after it start from. Sequences whose first review is not on a
+ * new card are skipped, since their starting memory state is unknown.
+ */
+export function buildTrainingSequences(reviews: ReviewLog[]): TrainingSequence[] {
+	const groups = new Map<string, ReviewLog[]>();
+
+	for (const review of reviews) {
+		if (review.undone || !(isScheduledReview(review) || endsMemoryState(review))) continue;
+		const key = `${review.queueId}\u0000${makeCardRef(review.cardPath, review.subCardId)}`;
+		const group = groups.get(key);
+		if (group) {
+			group.push(review);
+		} else {
+			groups.set(key, [review]);
+		}
+	}
+
+	const sequences: TrainingSequence[] = [];
+
+	for (const group of groups.values()) {
+		group.sort((a, b) => new Date(a.review).getTime() - new Date(b.review).getTime());
+
+		let segment: ScheduledReviewLog[] = [];
+		for (const entry of group) {
+			if (isScheduledReview(entry)) {
+				segment.push(entry);
+			} else {
+				addTrainingSequence(sequences, segment);
+				segment = [];
+			}
+		}
+		addTrainingSequence(sequences, segment);
+	}
+
+	return sequences;
+}
+
+/**
+ * Check if a log entry replaces the card's memory state (reset or forget)
+ */
+function endsMemoryState(review: ReviewLog): boolean {
+	return review.kind === "reset" || review.kind === "forget";
+}
+
+/**
+ * Add the reviews between two resets or forgets as a sequence, if they
+ * start on a new card and have something to predict
+ */
+function addTrainingSequence(sequences: TrainingSequence[], reviews: ScheduledReviewLog[]): void {
+	const first = reviews[0];
+	if (!first || first.state !== 0 || reviews.length < 2) return;
+
+	const sequence: TrainingSequence = [];
+	let previous: Date | null = null;
+
+	for (const review of reviews) {
+		const reviewedAt = new Date(review.review);
+		sequence.push({
+			deltaT: previous ? Math.max(0, dateDiffInDays(previous, reviewedAt)) : 0,
+			rating: review.rating,
+		});
+		previous = reviewedAt;
+	}
+
+	sequences.push(sequence);
+}
+
+/**
+ * Count reviews that produce a recall prediction (not first or same-day reviews)
+ */
+export function countScorableReviews(sequences: TrainingSequence[]): number {
+	let count = 0;
+	for (const sequence of sequences) {
+		for (let i = 1; i < sequence.length; i++) {
+			if ((sequence[i] as TrainingStep).deltaT > 0) count++;
+		}
+	}
+	return count;
+}
+
+/**
+ * Evaluate how well a weight vector predicts the recorded outcomes
+ */
+export function evaluateWeights(sequences: TrainingSequence[], weights: number[]): OptimizerMetrics {
+	let logLossSum = 0;
+	let squaredErrorSum = 0;
+	let count = 0;
+
+	forEachPrediction(sequences, weights, (predicted, recalled) => {
+		const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, predicted));
+		logLossSum -= recalled ? Math.log(p) : Math.log(1 - p);
+		squaredErrorSum += (recalled - predicted) ** 2;
+		count++;
+	});
+
+	if (count === 0) {
+		return { logLoss: 0, rmse: 0 };
+	}
+
+	return {
+		logLoss: logLossSum / count,
+		rmse: Math.sqrt(squaredErrorSum / count),
+	};
+}
+
+/**
+ * Fit FSRS weights to the review history using Adam on numeric gradients.
+ * Throws if there is not enough history to train on.
+ */
+export async function optimizeParameters(
+	reviews: ReviewLog[],
+	initialWeights: number[] = [...default_w],
+	options: OptimizerOptions = {}
+): Promise<OptimizationResult> {
+	const sequences = buildTrainingSequences(reviews);
+	const reviewCount = countScorableReviews(sequences);
+
+	if (reviewCount < MIN_OPTIMIZER_REVIEWS) {
+		throw new Error(
+			`Not enough review history to optimize (${reviewCount} of ${MIN_OPTIMIZER_REVIEWS} reviews needed)`
+		);
+	}
+
+	const iterations = options.iterations ?? OPTIMIZER_ITERATIONS;
+	const start = clampWeights(initialWeights.length === FSRS_WEIGHT_COUNT ? initialWeights : [...default_w]);
+	const before = evaluateWeights(sequences, start);
+
+	let weights = [...start];
+	let bestWeights = [...start];
+	let bestLoss = before.logLoss;
+	const m = new Array<number>(FSRS_WEIGHT_COUNT).fill(0);
+	const v = new Array<number>(FSRS_WEIGHT_COUNT).fill(0);
+
+	for (let iteration = 1; iteration <= iterations; iteration++) {
+		const { loss, gradient } = computeGradient(sequences, weights);
+
+		if (loss < bestLoss) {
+			bestLoss = loss;
+			bestWeights = [...weights];
+		}
+
+		const next = [...weights];
+		for (let i = 0; i < FSRS_WEIGHT_COUNT; i++) {
+			const g = gradient[i] as number;
+			m[i] = BETA_1 * (m[i] as number) + (1 - BETA_1) * g;
+			v[i] = BETA_2 * (v[i] as number) + (1 - BETA_2) * g * g;
+			const mHat = (m[i] as number) / (1 - BETA_1 ** iteration);
+			const vHat = (v[i] as number) / (1 - BETA_2 ** iteration);
+			next[i] = (weights[i] as number) - (LEARNING_RATE * mHat) / (Math.sqrt(vHat) + ADAM_EPSILON);
+		}
+		weights = clampWeights(next);
+
+		options.onProgress?.(iteration, iterations);
+		// Yield so the UI stays responsive during long runs
+		await new Promise<void>((resolve) => setTimeout(resolve, 0));
+	}
+
+	const finalLoss = evaluateWeights(sequences, weights).logLoss;
+	if (finalLoss < bestLoss) {
+		bestWeights = weights;
+	}
+
+	return {
+		weights: bestWeights.map((w) => Number(w.toFixed(4))),
+		before,
+		after: evaluateWeights(sequences, bestWeights),
+		reviewCount,
+		sequenceCount: sequences.length,
+	};
+}
+
+/**
+ * Forward-difference gradient of the log-loss
+ */
+function computeGradient(
+	sequences: TrainingSequence[],
+	weights: number[]
+): { loss: number; gradient: number[] } {
+	const loss = evaluateWeights(sequences, weights).logLoss;
+	const gradient = new Array<number>(FSRS_WEIGHT_COUNT).fill(0);
+
+	for (let i = 0; i < FSRS_WEIGHT_COUNT; i++) {
+		const [, max] = CLAMP_PARAMETERS[i] as readonly [number, number];
+		const current = weights[i] as number;
+		// Step backwards when the weight sits at its upper bound
+		const step = current + GRADIENT_STEP <= max ? GRADIENT_STEP : -GRADIENT_STEP;
+		const probe = [...weights];
+		probe[i] = current + step;
+		gradient[i] = (evaluateWeights(sequences, probe).logLoss - loss) / step;
+	}
+
+	return { loss, gradient };
+}
+
+/**
+ * Clamp every weight into the range ts-fsrs accepts
+ */
+function clampWeights(weights: number[]): number[] {
+	return weights.map((w, i) => {
+		const [min, max] = CLAMP_PARAMETERS[i] as readonly [number, number];
+		return Math.min(max, Math.max(min, w));
+	});
+}
+
+/**
+ * Replay each sequence with the FSRS-5 memory model and report
+ * (predicted retrievability, actual recall) for every scorable review
+ */
+function forEachPrediction(
+	sequences: TrainingSequence[],
+	weights: number[],
+	visit: (predicted: number, recalled: number) => void
+): void {
+	const [w0, w1, w2, w3, w4, w5, w6, w7, w8, w9, w10, w11, w12, w13, w14, w15, w16, w17, w18] =
+		weights as [number, number, number, number, number, number, number, number, number, number,
+			number, number, number, number, number, number, number, number, number];
+	const initialStability = [w0, w1, w2, w3];
+	const initDifficulty = (g: number) => w4 - Math.exp((g - 1) * w5) + 1;
+	const initEasyDifficulty = initDifficulty(4);
+	const shortTermDivisor = Math.exp(w17 * w18);
+
+	for (const sequence of sequences) {
+		let stability = 0;
+		let difficulty = 0;
+
+		for (let i = 0; i < sequence.length; i++) {
+			const { deltaT, rating } = sequence[i] as TrainingStep;
+
+			if (i === 0) {
+				stability = clampStability(Math.max(initialStability[rating - 1] as number, 0.1));
+				difficulty = clampDifficulty(initDifficulty(rating));
+				continue;
+			}
+
+			// Linear damping plus mean reversion toward the Easy initial difficulty
+			const nextDifficulty = clampDifficulty(
+				w7 * initEasyDifficulty +
+				(1 - w7) * (difficulty + (-w6 * (rating - 3) * (10 - difficulty)) / 9)
+			);
+
+			if (deltaT === 0) {
+				// Same-day review: short-term stability update, no prediction
+				stability = clampStability(stability * Math.exp(w17 * (rating - 3 + w18)));
+				difficulty = nextDifficulty;
+				continue;
+			}
+
+			const r = Math.pow(1 + (FACTOR * deltaT) / stability, DECAY);
+			visit(r, rating > 1 ? 1 : 0);
+
+			if (rating === 1) {
+				const forgetStability =
+					w11 *
+					Math.pow(difficulty, -w12) *
+					(Math.pow(stability + 1, w13) - 1) *
+					Math.exp((1 - r) * w14);
+				stability = clampStability(Math.min(forgetStability, stability / shortTermDivisor));
+			} else {
+				const hardPenalty = rating === 2 ? w15 : 1;
+				const easyBonus = rating === 4 ? w16 : 1;
+				stability = clampStability(
+					stability *
+					(1 +
+						Math.exp(w8) *
+						(11 - difficulty) *
+						Math.pow(stability, -w9) *
+						(Math.exp((1 - r) * w10) - 1) *
+						hardPenalty *
+						easyBonus)
+				);
+			}
+			difficulty = nextDifficulty;
+		}
+	}
+}
+
+function clampStability(stability: number): number {
+	return Math.min(S_MAX, Math.max(S_MIN, stability));
+}
+
+function clampDifficulty(difficulty: number): number {
+	return Math.min(10, Math.max(1, difficulty));
+}
@@ -0,0 +1,71 @@
+/**
+ * Replay - Rebuild a schedule from its review log
+ * Runs a card's logged reviews and manual changes in one queue through the
+ * scheduler, oldest first. Undone entries and cram drills are skipped, as
+ * they never changed the schedule. Load balancing is not reapplied, so a
+ * rebuilt due date is the one FSRS picks.
+ */
+
+import type { CardSchedule, ReviewLog } from "../types";
+import type { Scheduler } from "./scheduler";
+import { isScheduledReview } from "./review-kinds";
+import { parseISODate } from "../utils/date-utils";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Replay one card's log entries in one queue from a new schedule.
+ * Returns null when there is nothing to replay or the log does not reach
+ * back to when the card was new (its first entry is not on a new card).
+ */
+export function replaySchedule(
+	scheduler: Scheduler,
+	queueId: string,
+	reviews: ReviewLog[],
+	addedToQueueAt: string
+): CardSchedule | null {
+	const entries = reviews
+		.filter((r) => r.queueId === queueId && !r.undone && r.kind !== "cram")
+		.sort((a, b) => Date.parse(a.review) - Date.parse(b.review));
+
+	const [first] = entries;
+	if (!first || (first.state !== 0 && first.kind !== "reset")) {
+		return null;
+	}
+
+	let schedule: CardSchedule = { ...scheduler.createNewSchedule(queueId), addedToQueueAt };
+	for (const entry of entries) {
+		const time = parseISODate(entry.review);
+		if (isScheduledReview(entry)) {
+			schedule = scheduler.rateCard(schedule, entry.rating, queueId, time).schedule;
+			continue;
+		}
+
+		switch (entry.kind) {
+			case "reschedule":
+				// Only the new interval is logged; it counts from the last review
+				if (schedule.lastReview) {
+					const due = parseISODate(schedule.lastReview).getTime() + entry.scheduledDays * MS_PER_DAY;
+					schedule = { ...schedule, due: new Date(due).toISOString(), scheduledDays: entry.scheduledDays };
+				}
+				break;
+			case "reset":
+				schedule = scheduler.resetSchedule(schedule, queueId);
+				break;
+			case "forget":
+				schedule = scheduler.forgetSchedule(schedule, time);
+				break;
+			case "suspend":
+				schedule = { ...schedule, suspended: true };
+				break;
+			case "unsuspend": {
+				const unsuspended = { ...schedule };
+				delete unsuspended.suspended;
+				schedule = unsuspended;
+				break;
+			}
+		}
+	}
+	return schedule;
+}
+
@@ -0,0 +1,39 @@
+/**
+ * Review kinds - Which logged entries reflect spaced retrieval
+ * Cram drills and manual schedule changes are logged for history but do not
+ * describe memory at the scheduled interval, so retention stats, revlog
+ * exports and the optimizer leave them out
+ */
+
+import type { ManualChangeKind, RatingValue, ReviewKind, ReviewLog } from "../types";
+
+/** Manual schedule changes: entries without a real rating */
+export const MANUAL_CHANGE_KINDS: readonly ManualChangeKind[] = ["reschedule", "reset", "forget", "suspend", "unsuspend"];
+
+/** Every kind a review log entry can have */
+export const REVIEW_KINDS: readonly ReviewKind[] = ["review", "cram", ...MANUAL_CHANGE_KINDS];
+
+/** A review log entry with a real rating */
+export type ScheduledReviewLog = ReviewLog & { rating: RatingValue };
+
+/**
+ * Check if a review log is a scheduled review (logs without a kind predate kinds)
+ */
+export function isScheduledReview(review: ReviewLog): review is ScheduledReviewLog {
+	return (review.kind ?? "review") === "review" && review.rating !== 0;
+}
+
+/**
+ * Check if a review log records a rating (a scheduled review or a cram
+ * drill) rather than a manual schedule change
+ */
+export function isRating(review: ReviewLog): boolean {
+	return !isManualChange(review);
+}
+
+/**
+ * Check if a review log records a manual schedule change
+ */
+export function isManualChange(review: ReviewLog): boolean {
+	return review.kind !== undefined && (MANUAL_CHANGE_KINDS as readonly string[]).includes(review.kind);
+}
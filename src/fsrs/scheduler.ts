@@ -12,22 +12,71 @@ import {
 	type FSRSParameters,
 	type RecordLogItem,
 	type Grade,
+	get_fuzz_range,
 } from "ts-fsrs";
 import type { CardSchedule, RatingValue, SchedulingPreview, FSRSParams } from "../types";
 import { DEFAULT_FSRS_PARAMS } from "../constants";
 import { formatInterval, nowISO } from "../utils/date-utils";
+import { pickBalancedInterval, type LoadBalanceOptions } from "./load-balancer";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 /**
  * Scheduler wraps ts-fsrs for scheduling calculations
  */
 export class Scheduler {
 	private fsrs: FSRS;
+	/** The same parameters without fuzz, built when first needed */
+	private unfuzzedFsrs: FSRS | null = null;
+	private params: Partial<FSRSParams>;
+	private queueSchedulers: Map<string, { key: string; scheduler: Scheduler }> = new Map();
 
 	constructor(params?: Partial<FSRSParams>) {
+		this.params = { ...params };
 		const fsrsParams = this.buildFSRSParams(params);
 		this.fsrs = new FSRS(fsrsParams);
 	}
 
+	/**
+	 * Get the scheduler to use for a queue with the given parameter overrides.
+	 * Returns this scheduler when the queue has no overrides.
+	 */
+	forQueue(queueId: string, overrides?: Partial<FSRSParams>): Scheduler {
+		if (!overrides || Object.keys(overrides).length === 0) {
+			return this;
+		}
+
+		// Rebuild only when the queue's overrides change
+		const key = JSON.stringify(overrides);
+		const cached = this.queueSchedulers.get(queueId);
+		if (cached && cached.key === key) {
+			return cached.scheduler;
+		}
+
+		const scheduler = new Scheduler(this.getEffectiveParams(overrides));
+		this.queueSchedulers.set(queueId, { key, scheduler });
+		return scheduler;
+	}
+
+	/**
+	 * Get a scheduler with the same parameters but other weights, to see
+	 * what candidate weights would schedule without applying them
+	 */
+	withWeights(weights: number[]): Scheduler {
+		return new Scheduler({ ...this.params, weights });
+	}
+
+	/**
+	 * Get the global parameters merged with optional queue overrides
+	 */
+	getEffectiveParams(overrides?: Partial<FSRSParams>): FSRSParams {
+		return {
+			...DEFAULT_FSRS_PARAMS,
+			...this.params,
+			...overrides,
+		};
+	}
+
 	/**
 	 * Build FSRS parameters from plugin params
 	 */
@@ -37,11 +86,17 @@ export class Scheduler {
 			...params,
 		};
 
-		return {
+		const fsrsParams: Partial<FSRSParameters> = {
 			request_retention: mergedParams.requestRetention,
 			maximum_interval: mergedParams.maximumInterval,
 			enable_fuzz: mergedParams.enableFuzz,
 		};
+
+		if (mergedParams.weights) {
+			fsrsParams.w = [...mergedParams.weights];
+		}
+
+		return fsrsParams;
 	}
 
 	/**
@@ -113,15 +168,15 @@ export class Scheduler {
 	}
 
 	/**
-	 * Apply a rating to a card schedule
+	 * Apply a rating to a card schedule (at `now`, which defaults to the current time)
 	 */
 	rateCard(
 		schedule: CardSchedule,
 		rating: RatingValue,
-		queueId: string
+		queueId: string,
+		now: Date = new Date()
 	): { schedule: CardSchedule; log: RecordLogItem["log"] } {
 		const card = this.scheduleToCard(schedule);
-		const now = new Date();
 
 		// Get the result for this specific rating
 		const recordLog = this.fsrs.repeat(card, now);
@@ -133,6 +188,84 @@ export class Scheduler {
 		};
 	}
 
+	/**
+	 * Move a freshly rated review card to the least loaded day within its
+	 * fuzz range. `schedule` is the result of rating `previous` with `rating`
+	 * at `now`; the range is taken around the interval FSRS picked before
+	 * fuzzing it. `getDailyLoad(days)` returns the projected reviews for
+	 * each of the next `days` days, starting today.
+	 */
+	balanceSchedule(
+		schedule: CardSchedule,
+		previous: CardSchedule,
+		rating: RatingValue,
+		now: Date,
+		getDailyLoad: (days: number) => number[],
+		options: LoadBalanceOptions
+	): CardSchedule {
+		if (schedule.state !== 2) {
+			return schedule;
+		}
+
+		const target = this.unfuzzedInterval(previous, rating, now);
+		const { min_ivl, max_ivl } = get_fuzz_range(
+			target,
+			schedule.elapsedDays,
+			this.fsrs.parameters.maximum_interval
+		);
+		if (min_ivl >= max_ivl) {
+			return schedule;
+		}
+
+		const interval = pickBalancedInterval(
+			target,
+			min_ivl,
+			max_ivl,
+			now,
+			getDailyLoad(max_ivl + 1),
+			options
+		);
+		if (interval === schedule.scheduledDays) {
+			return schedule;
+		}
+
+		return {
+			...schedule,
+			due: new Date(now.getTime() + interval * MS_PER_DAY).toISOString(),
+			scheduledDays: interval,
+		};
+	}
+
+	/**
+	 * Get the interval a rating gives before fuzz is applied
+	 */
+	private unfuzzedInterval(previous: CardSchedule, rating: RatingValue, now: Date): number {
+		const fsrs = this.fsrs.parameters.enable_fuzz
+			? (this.unfuzzedFsrs ??= new FSRS(this.buildFSRSParams({ ...this.params, enableFuzz: false })))
+			: this.fsrs;
+		return fsrs.repeat(this.scheduleToCard(previous), now)[rating as Grade].card.scheduled_days;
+	}
+
+	/**
+	 * Check if a schedule could have had this interval instead: the same
+	 * one, or for a review card, one within its fuzz range
+	 */
+	couldSchedule(schedule: CardSchedule, interval: number): boolean {
+		if (interval === schedule.scheduledDays) {
+			return true;
+		}
+		if (schedule.state !== 2) {
+			return false;
+		}
+
+		const { min_ivl, max_ivl } = get_fuzz_range(
+			schedule.scheduledDays,
+			schedule.elapsedDays,
+			this.fsrs.parameters.maximum_interval
+		);
+		return interval >= min_ivl && interval <= max_ivl;
+	}
+
 	/**
 	 * Rollback a rating using the review log
 	 * Returns the previous card state
@@ -147,13 +280,62 @@ export class Scheduler {
 		return this.cardToSchedule(previousCard, queueId, schedule.addedToQueueAt);
 	}
 
+	/**
+	 * Reset a schedule to a new card, keeping when it joined the queue
+	 */
+	resetSchedule(schedule: CardSchedule, queueId: string): CardSchedule {
+		return this.cardToSchedule(createEmptyCard(), queueId, schedule.addedToQueueAt);
+	}
+
+	/**
+	 * Mark a reviewed card as forgotten without a rating: it relearns from
+	 * the stability of a first "Again" (or its own, if lower) and is due now.
+	 * New cards have nothing to forget and are returned unchanged.
+	 */
+	forgetSchedule(schedule: CardSchedule, now: Date = new Date()): CardSchedule {
+		if (schedule.state === 0) {
+			return schedule;
+		}
+
+		const initialStability = this.fsrs.parameters.w[0] ?? schedule.stability;
+		return {
+			...schedule,
+			state: 3,
+			stability: Math.min(schedule.stability, initialStability),
+			due: now.toISOString(),
+			scheduledDays: 0,
+		};
+	}
+
 	/**
 	 * Get current retrievability (probability of recall)
 	 */
 	getRetrievability(schedule: CardSchedule, now?: Date): number {
 		const card = this.scheduleToCard(schedule);
-		const retrievability = this.fsrs.get_retrievability(card, now ?? new Date());
-		return typeof retrievability === 'number' ? retrievability : 0;
+		return this.fsrs.get_retrievability(card, now ?? new Date(), false);
+	}
+
+	/**
+	 * Value of reviewing a card now relative to reviewing it when due.
+	 * FSRS grows stability by a factor of exp((1 - R) * w10) - 1, so a review
+	 * while recall is still near certain adds little. Returns 1 for cards
+	 * that are due (or still learning) and less than 1 for early reviews.
+	 */
+	getEarlyReviewValue(schedule: CardSchedule, now?: Date): number {
+		if (schedule.state !== 2) {
+			return 1;
+		}
+
+		const { w, request_retention } = this.fsrs.parameters;
+		const w10 = w[10] ?? 0;
+		const gainAtDue = Math.exp((1 - request_retention) * w10) - 1;
+		if (gainAtDue <= 0) {
+			return 1;
+		}
+
+		const retrievability = this.getRetrievability(schedule, now);
+		const gainNow = Math.exp((1 - retrievability) * w10) - 1;
+		return Math.min(1, gainNow / gainAtDue);
 	}
 
 	/**
@@ -189,7 +371,10 @@ export class Scheduler {
 	 * Update FSRS parameters (for settings changes)
 	 */
 	updateParams(params: Partial<FSRSParams>): void {
+		this.params = { ...params };
 		const fsrsParams = this.buildFSRSParams(params);
 		this.fsrs = new FSRS(fsrsParams);
+		// Queue schedulers inherit global params, so rebuild them lazily
+		this.queueSchedulers.clear();
 	}
 }
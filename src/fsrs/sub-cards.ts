@@ -0,0 +1,173 @@
+/**
+ * Sub-cards - Extraction, addressing and masking of cards inside a note
+ * A note can hold `==highlight==` clozes, `{{c1::...}}` clozes and `^block` IDs,
+ * each scheduled as its own card alongside the note itself
+ */
+
+import type { SubCardKind } from "../types";
+
+/** Separator between the note path and sub-card ID in a card reference */
+export const SUB_CARD_SEPARATOR = "#";
+
+/** Placeholder shown in place of the hidden text */
+export const CLOZE_MASK = "[...]";
+
+/** A sub-card found in note content */
+export interface ExtractedSubCard {
+	id: string;
+	kind: SubCardKind;
+	/** Hidden text: the cloze answer(s) or the block content */
+	text: string;
+	/** Text shown while the card is asked: the source lines, or the heading above a block */
+	context: string;
+}
+
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+const HIGHLIGHT_PATTERN = /==([^=\n]+?)==/g;
+const BLOCK_ID_PATTERN = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.*)$/;
+
+/**
+ * Build the reference for a note or one of its sub-cards
+ */
+export function makeCardRef(notePath: string, subCardId?: string): string {
+	return subCardId ? `${notePath}${SUB_CARD_SEPARATOR}${subCardId}` : notePath;
+}
+
+/**
+ * Split a card reference into note path and sub-card ID
+ */
+export function parseCardRef(ref: string): { notePath: string; subCardId?: string } {
+	const index = ref.lastIndexOf(SUB_CARD_SEPARATOR);
+	if (index === -1 || !ref.slice(0, index).endsWith(".md")) {
+		return { notePath: ref };
+	}
+	return { notePath: ref.slice(0, index), subCardId: ref.slice(index + 1) };
+}
+
+/**
+ * Short stable hash used to identify highlights by their text
+ */
+function hashText(text: string): string {
+	let hash = 5381;
+	for (let i = 0; i < text.length; i++) {
+		hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+	}
+	return (hash >>> 0).toString(36);
+}
+
+/**
+ * Lines that can hold sub-cards: frontmatter and fenced code are left out
+ */
+function contentLines(content: string): Array<{ text: string; heading: string }> {
+	const lines = content.split(/\r?\n/);
+	const result: Array<{ text: string; heading: string }> = [];
+	let index = 0;
+
+	// Skip frontmatter
+	if (lines[0]?.trim() === "---") {
+		const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+		index = end === -1 ? 0 : end + 1;
+	}
+
+	let inFence = false;
+	let heading = "";
+	for (; index < lines.length; index++) {
+		const line = lines[index] ?? "";
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			continue;
+		}
+		if (inFence) continue;
+
+		const headingMatch = HEADING_PATTERN.exec(line);
+		if (headingMatch) {
+			heading = (headingMatch[1] ?? "").trim();
+		}
+		result.push({ text: line, heading });
+	}
+
+	return result;
+}
+
+/**
+ * Find all sub-cards in note content. Cloze deletions sharing a number
+ * form one card; identical highlights share one card.
+ */
+export function extractSubCards(content: string): ExtractedSubCard[] {
+	const cards = new Map<string, ExtractedSubCard>();
+	const lines = contentLines(content);
+
+	lines.forEach((line, i) => {
+		// {{c1::answer::hint}}
+		for (const match of line.text.matchAll(CLOZE_PATTERN)) {
+			const id = `c${match[1] ?? ""}`;
+			const answer = match[2] ?? "";
+			const existing = cards.get(id);
+			if (existing) {
+				existing.text = `${existing.text} … ${answer}`;
+				if (!existing.context.split("\n").includes(line.text)) {
+					existing.context = `${existing.context}\n${line.text}`;
+				}
+			} else {
+				cards.set(id, { id, kind: "cloze", text: answer, context: line.text });
+			}
+		}
+
+		// ==highlight==
+		for (const match of line.text.matchAll(HIGHLIGHT_PATTERN)) {
+			const text = match[1] ?? "";
+			const id = `h-${hashText(text)}`;
+			if (!cards.has(id)) {
+				cards.set(id, { id, kind: "highlight", text, context: line.text });
+			}
+		}
+
+		// Paragraph ^block-id (or ^block-id on its own line after a block)
+		const blockMatch = BLOCK_ID_PATTERN.exec(line.text);
+		if (blockMatch) {
+			const id = `^${blockMatch[1] ?? ""}`;
+			let text = line.text.slice(0, blockMatch.index).trim();
+			if (!text) {
+				text = previousBlock(lines, i);
+			}
+			if (text && !cards.has(id)) {
+				cards.set(id, { id, kind: "block", text, context: line.heading });
+			}
+		}
+	});
+
+	return Array.from(cards.values());
+}
+
+/**
+ * Text of the block ending just above a standalone block ID line
+ */
+function previousBlock(lines: Array<{ text: string }>, index: number): string {
+	const block: string[] = [];
+	for (let i = index - 1; i >= 0; i--) {
+		const text = lines[i]?.text ?? "";
+		if (text.trim() === "") break;
+		block.unshift(text);
+	}
+	return block.join("\n").trim();
+}
+
+/**
+ * Text shown while a sub-card is asked: its own cloze or highlight is
+ * masked and other markup is shown as plain text. Blocks show their
+ * heading (or the note title when there is none).
+ */
+export function maskSubCard(subCard: ExtractedSubCard, noteTitle: string): string {
+	if (subCard.kind === "block") {
+		return subCard.context ? `${noteTitle} › ${subCard.context}` : noteTitle;
+	}
+
+	const masked = subCard.context.replace(CLOZE_PATTERN, (_match, num: string, answer: string, hint?: string) =>
+		`c${num}` === subCard.id ? (hint ? `[${hint}]` : CLOZE_MASK) : answer
+	);
+
+	return masked.replace(HIGHLIGHT_PATTERN, (_match, text: string) =>
+		subCard.kind === "highlight" && `h-${hashText(text)}` === subCard.id ? CLOZE_MASK : text
+	);
+}
@@ -5,26 +5,36 @@
  */
 
 import { Plugin, WorkspaceLeaf, Notice } from "obsidian";
-import { DataStore } from "./data";
+import { DataStore, ReviewExporter, HistoryImporter } from "./data";
 import { Scheduler, CardManager } from "./fsrs";
 import { QueueManager } from "./queues";
 import { SessionManager } from "./review";
-import { NoteWatcher, OrphanDetector } from "./sync";
+import { NoteWatcher, OrphanDetector, DeviceSync } from "./sync";
 import {
 	ReviewSidebar,
 	SettingsTab,
 	DashboardModal,
 	QueueListModal,
 	QueueSelectorModal,
+	OptimizerModal,
+	ImportModal,
+	CramModal,
+	ReviewAheadModal,
+	BacklogModal,
+	RescheduleModal,
+	ReplayModal,
 } from "./ui";
-import { registerCommands } from "./commands";
+import { registerCommands, registerNoteActions } from "./commands";
 import {
 	REVIEW_SIDEBAR_VIEW_TYPE,
 	COMMANDS,
 	COMMAND_NAMES,
 	NOTICE_DURATION_MS,
+	DEFAULT_FSRS_PARAMS,
+	SYNC_CHECK_INTERVAL_MS,
 } from "./constants";
 import { handleError } from "./utils/error-handler";
+import type { PluginSettings, RescheduleAction } from "./types";
 
 /** Interval for periodic orphan detection (5 minutes) */
 const ORPHAN_CHECK_INTERVAL_MS = 5 * 60 * 1000;
@@ -40,6 +50,7 @@ export default class FSRSPlugin extends Plugin {
 	// Sync services
 	private noteWatcher!: NoteWatcher;
 	private orphanDetector!: OrphanDetector;
+	private deviceSync!: DeviceSync;
 
 	async onload(): Promise<void> {
 		try {
@@ -78,10 +89,14 @@ export default class FSRSPlugin extends Plugin {
 		// Initialize sync services
 		this.noteWatcher = new NoteWatcher(this.app, this.cardManager, this.dataStore, this.queueManager);
 		this.orphanDetector = new OrphanDetector(this.app, this.cardManager, this.dataStore);
+		this.deviceSync = new DeviceSync(this.dataStore, this.cardManager);
 
 		// Register vault events via NoteWatcher
 		this.noteWatcher.registerEvents(this);
 
+		// Pause review timing when the user looks away
+		this.sessionManager.registerEvents(this);
+
 		// Register sidebar view
 		this.registerView(REVIEW_SIDEBAR_VIEW_TYPE, (leaf) => {
 			return new ReviewSidebar(
@@ -99,13 +114,8 @@ export default class FSRSPlugin extends Plugin {
 				this,
 				this.dataStore,
 				this.queueManager,
-				(newSettings) => {
-					// Update dependent services when settings change
-					this.queueManager.updateSettings(newSettings);
-					if (newSettings.fsrsParams) {
-						this.scheduler.updateParams(newSettings.fsrsParams);
-					}
-				}
+				(newSettings) => this.applySettings(newSettings),
+				() => this.openOptimizer()
 			)
 		);
 
@@ -115,8 +125,13 @@ export default class FSRSPlugin extends Plugin {
 				await this.sessionManager.startSession(queueId);
 				await this.activateSidebar();
 			},
+			onStartMultiReview: async (queueIds, interleave) => {
+				await this.sessionManager.startMultiQueueSession(queueIds, interleave);
+				await this.activateSidebar();
+			},
 		});
 		this.registerAdditionalCommands();
+		registerNoteActions(this, this.cardManager, this.queueManager, this.sessionManager, this.dataStore);
 
 		// Add ribbon icons
 		this.addRibbonIcon("brain", "Start review session", async () => {
@@ -131,6 +146,9 @@ export default class FSRSPlugin extends Plugin {
 		this.app.workspace.onLayoutReady(() => {
 			void Promise.resolve()
 				.then(async () => {
+					// Repair schedules that missed reviews logged on another device
+					await this.syncFromOtherDevices();
+
 					this.queueManager.syncDefaultQueue();
 					for (const queue of this.queueManager.getAllQueues()) {
 						if (queue.id !== "default") {
@@ -139,11 +157,21 @@ export default class FSRSPlugin extends Plugin {
 					}
 					this.orphanDetector.detectOrphans();
 
+					// Pick up clozes, highlights and blocks edited while the plugin was off
+					if ((await this.noteWatcher.syncAllSubCards()) > 0) {
+						for (const queue of this.queueManager.getAllQueues()) {
+							this.queueManager.updateQueueStats(queue.id);
+						}
+					}
+
 					// Resume interrupted session if one exists
 					const resumed = await this.sessionManager.tryResumeSession();
 					if (resumed) {
 						await this.activateSidebar();
 					}
+
+					// Move months past the archive setting out of the live review log
+					await this.dataStore.archiveReviews();
 				})
 				.catch((error) => {
 					handleError(error, { component: "startup sync", notifyUser: true });
@@ -156,6 +184,29 @@ export default class FSRSPlugin extends Plugin {
 				this.orphanDetector.detectOrphans();
 			}, ORPHAN_CHECK_INTERVAL_MS)
 		);
+
+		// Register periodic check for data saved on other devices
+		this.registerInterval(
+			window.setInterval(() => {
+				void this.syncFromOtherDevices().catch((error) => {
+					handleError(error, { component: "DeviceSync.check", notifyUser: false });
+				});
+			}, SYNC_CHECK_INTERVAL_MS)
+		);
+	}
+
+	/**
+	 * Called by Obsidian when data.json changes on disk, e.g. after a sync
+	 */
+	async onExternalSettingsChange(): Promise<void> {
+		if (!this.deviceSync) {
+			return;
+		}
+		try {
+			await this.syncFromOtherDevices();
+		} catch (error) {
+			handleError(error, { component: "DeviceSync.check", notifyUser: true });
+		}
 	}
 
 	onunload(): void {
@@ -206,13 +257,264 @@ export default class FSRSPlugin extends Plugin {
 			},
 		});
 
+		// Optimize FSRS parameters
+		this.addCommand({
+			id: COMMANDS.OPTIMIZE_PARAMETERS,
+			name: COMMAND_NAMES[COMMANDS.OPTIMIZE_PARAMETERS],
+			callback: () => {
+				this.openOptimizer();
+			},
+		});
+
+		// Export review history
+		this.addCommand({
+			id: COMMANDS.EXPORT_REVIEWS,
+			name: COMMAND_NAMES[COMMANDS.EXPORT_REVIEWS],
+			callback: () => {
+				void this.exportReviewHistory();
+			},
+		});
+
+		// Import scheduling history
+		this.addCommand({
+			id: COMMANDS.IMPORT_HISTORY,
+			name: COMMAND_NAMES[COMMANDS.IMPORT_HISTORY],
+			callback: () => {
+				this.openImporter();
+			},
+		});
+
+		// Rebuild schedules by replaying the review history
+		this.addCommand({
+			id: COMMANDS.REPLAY_HISTORY,
+			name: COMMAND_NAMES[COMMANDS.REPLAY_HISTORY],
+			callback: () => {
+				this.openReplay();
+			},
+		});
+
+		// Start cram session
+		this.addCommand({
+			id: COMMANDS.START_CRAM,
+			name: COMMAND_NAMES[COMMANDS.START_CRAM],
+			callback: () => {
+				this.openCram();
+			},
+		});
+
+		// Review notes due in the coming days ahead of time
+		this.addCommand({
+			id: COMMANDS.REVIEW_AHEAD,
+			name: COMMAND_NAMES[COMMANDS.REVIEW_AHEAD],
+			callback: () => {
+				this.openReviewAhead();
+			},
+		});
+
+		// Spread an overdue backlog over several days
+		this.addCommand({
+			id: COMMANDS.RECOVER_BACKLOG,
+			name: COMMAND_NAMES[COMMANDS.RECOVER_BACKLOG],
+			callback: () => {
+				this.openBacklogRecovery();
+			},
+		});
+
+		// Bulk rescheduling
+		this.addCommand({
+			id: COMMANDS.POSTPONE,
+			name: COMMAND_NAMES[COMMANDS.POSTPONE],
+			callback: () => {
+				this.openReschedule("postpone");
+			},
+		});
+
+		this.addCommand({
+			id: COMMANDS.ADVANCE,
+			name: COMMAND_NAMES[COMMANDS.ADVANCE],
+			callback: () => {
+				this.openReschedule("advance");
+			},
+		});
+	}
+
+	/**
+	 * Update dependent services when settings change
+	 */
+	private applySettings(settings: PluginSettings): void {
+		this.queueManager.updateSettings(settings);
+		if (settings.fsrsParams) {
+			this.scheduler.updateParams(settings.fsrsParams);
+		}
+	}
+
+	/**
+	 * Merge data saved on other devices and tell the user what changed
+	 */
+	private async syncFromOtherDevices(): Promise<void> {
+		const report = await this.deviceSync.check();
+		if (!report) {
+			return;
+		}
+
+		this.applySettings(this.dataStore.getSettings());
+		for (const queue of this.queueManager.getAllQueues()) {
+			this.queueManager.updateQueueStats(queue.id);
+		}
+
+		const parts: string[] = [];
+		if (report.reviewsAdded > 0) {
+			parts.push(`${report.reviewsAdded} review${report.reviewsAdded === 1 ? "" : "s"} added`);
+		}
+		if (report.schedulesRebuilt > 0) {
+			parts.push(`${report.schedulesRebuilt} schedule${report.schedulesRebuilt === 1 ? "" : "s"} rebuilt`);
+		}
+		if (report.conflicts.length > 0) {
+			const keys = report.conflicts.slice(0, 3).map((conflict) => conflict.key);
+			const more = report.conflicts.length > keys.length ? ", …" : "";
+			parts.push(`kept this device's version of ${keys.join(", ")}${more}`);
+		}
+		if (parts.length > 0) {
+			new Notice(`Merged changes from another device: ${parts.join("; ")}`, NOTICE_DURATION_MS);
+		}
 	}
 
 	/**
 	 * Open the dashboard modal
 	 */
 	private openDashboard(): void {
-		const modal = new DashboardModal(this.app, this.dataStore, this.queueManager);
+		const modal = new DashboardModal(this.app, this.dataStore, this.queueManager, (queueId, onDone) => {
+			this.openReschedule("postpone", queueId, onDone);
+		});
+		modal.open();
+	}
+
+	/**
+	 * Open the parameter optimizer modal
+	 */
+	private openOptimizer(): void {
+		const modal = new OptimizerModal(this.app, this.dataStore, this.cardManager, async (weights) => {
+			const current = this.dataStore.getSettings();
+			this.dataStore.updateSettings({
+				fsrsParams: { ...DEFAULT_FSRS_PARAMS, ...current.fsrsParams, weights },
+			});
+			await this.dataStore.save();
+			this.applySettings(this.dataStore.getSettings());
+		});
+		modal.open();
+	}
+
+	/**
+	 * Export review history and schedules as CSV files in the vault
+	 */
+	private async exportReviewHistory(): Promise<void> {
+		try {
+			const result = await new ReviewExporter(this.app, this.dataStore).exportAll();
+			new Notice(
+				`Exported ${result.reviewCount} reviews and ${result.scheduleCount} schedules to ${result.folder}/`,
+				NOTICE_DURATION_MS
+			);
+		} catch (error) {
+			handleError(error, { component: "ReviewExporter.exportAll", notifyUser: true });
+		}
+	}
+
+	/**
+	 * Open the history import modal
+	 */
+	private openImporter(): void {
+		const importer = new HistoryImporter(this.app, this.dataStore, this.cardManager);
+		const modal = new ImportModal(this.app, importer, this.queueManager, () => {
+			for (const queue of this.queueManager.getAllQueues()) {
+				this.queueManager.updateQueueStats(queue.id);
+			}
+			void this.dataStore.save();
+		});
+		modal.open();
+	}
+
+	/**
+	 * Open the cram session setup modal
+	 */
+	private openCram(): void {
+		const modal = new CramModal(this.app, this.queueManager, (queueId, options) => {
+			void this.sessionManager.startCramSession(queueId, options).then(async (started) => {
+				if (started) {
+					await this.activateSidebar();
+				}
+			});
+		});
+		modal.open();
+	}
+
+	/**
+	 * Open the review-ahead setup modal
+	 */
+	private openReviewAhead(): void {
+		const modal = new ReviewAheadModal(this.app, this.queueManager, (queueId, days) => {
+			void this.sessionManager.startReviewAheadSession(queueId, days).then(async (started) => {
+				if (started) {
+					await this.activateSidebar();
+				}
+			});
+		});
+		modal.open();
+	}
+
+	/**
+	 * Open the backlog recovery modal
+	 */
+	private openBacklogRecovery(): void {
+		const modal = new BacklogModal(this.app, this.queueManager, (queueId, days) => {
+			const plan = this.queueManager.startBacklogRecovery(queueId, days);
+			void this.dataStore.save();
+			new Notice(
+				`Spreading ${plan.total} overdue notes over ${plan.days} days. Start a review to work through today's share.`,
+				NOTICE_DURATION_MS
+			);
+			void this.activateSidebar();
+		});
+		modal.open();
+	}
+
+	/**
+	 * Open the bulk postpone/advance modal
+	 */
+	private openReschedule(action: RescheduleAction, queueId?: string, onDone?: () => void): void {
+		const modal = new RescheduleModal(
+			this.app,
+			this.queueManager,
+			this.cardManager,
+			action,
+			(moved, preview) => {
+				this.queueManager.updateQueueStats(preview.queueId);
+				void this.dataStore.save();
+				new Notice(
+					preview.action === "postpone"
+						? `Postponed ${moved} notes by ${preview.days} days.`
+						: `Advanced ${moved} notes due within ${preview.days} days.`,
+					NOTICE_DURATION_MS
+				);
+				onDone?.();
+			},
+			queueId
+		);
+		modal.open();
+	}
+
+	/**
+	 * Open the modal that rebuilds schedules from the review history
+	 */
+	private openReplay(): void {
+		const modal = new ReplayModal(this.app, this.dataStore, this.queueManager, this.cardManager, (replaced, preview) => {
+			for (const queue of this.queueManager.getAllQueues()) {
+				if (preview.queueId === undefined || queue.id === preview.queueId) {
+					this.queueManager.updateQueueStats(queue.id);
+				}
+			}
+			void this.dataStore.save();
+			new Notice(`Rebuilt ${replaced} schedules from the review history.`, NOTICE_DURATION_MS);
+		});
 		modal.open();
 	}
 
@@ -224,6 +526,7 @@ export default class FSRSPlugin extends Plugin {
 			this.app,
 			this.queueManager,
 			this.dataStore,
+			this.cardManager,
 			(queueId) => {
 				void this.sessionManager.startSession(queueId);
 				void this.activateSidebar();
@@ -4,3 +4,4 @@
 
 export { QueueManager } from "./queue-manager";
 export { NoteResolver } from "./note-resolver";
+export { orderByPrerequisites, findDependents } from "./link-order";
@@ -0,0 +1,84 @@
+/**
+ * Link order - Order notes so that prerequisites come first
+ * A note's outgoing links are taken as the concepts it builds on: when a
+ * note and a note it links to are both in a session, the linked note is
+ * reviewed first
+ */
+
+import { parseCardRef } from "../fsrs/sub-cards";
+
+/** Resolved links as kept by the metadata cache: source path → target path → count */
+type ResolvedLinks = Record<string, Record<string, number>>;
+
+/**
+ * Reorder items (note paths or sub-card references, already in their base
+ * order) so each comes after the items it links to. Items with no order
+ * between them keep their base order. A cycle is broken at the item that
+ * comes first in the base order, so the result is always the same for the
+ * same input.
+ */
+export function orderByPrerequisites(items: string[], resolvedLinks: ResolvedLinks): string[] {
+	const notePaths = items.map((item) => parseCardRef(item).notePath);
+	const indexesByNote = new Map<string, number[]>();
+	notePaths.forEach((notePath, index) => {
+		indexesByNote.set(notePath, [...(indexesByNote.get(notePath) ?? []), index]);
+	});
+
+	// pending[i]: prerequisites of item i not placed yet; dependents[j]: items that link to j
+	const pending = items.map(() => 0);
+	const dependents: number[][] = items.map(() => []);
+	notePaths.forEach((notePath, index) => {
+		for (const target of Object.keys(resolvedLinks[notePath] ?? {})) {
+			if (target === notePath) continue;
+			for (const prerequisite of indexesByNote.get(target) ?? []) {
+				pending[index]!++;
+				dependents[prerequisite]!.push(index);
+			}
+		}
+	});
+
+	const placed = items.map(() => false);
+	const ordered: string[] = [];
+	while (ordered.length < items.length) {
+		let next = pending.findIndex((count, index) => !placed[index] && count === 0);
+		if (next === -1) {
+			// Every remaining item waits on another: a cycle
+			next = placed.indexOf(false);
+		}
+
+		placed[next] = true;
+		ordered.push(items[next]!);
+		for (const dependent of dependents[next]!) {
+			pending[dependent]!--;
+		}
+	}
+	return ordered;
+}
+
+/**
+ * Items that build on `ref`, directly or through other items: those whose
+ * note links to its note, or to a note that does. Returned in item order.
+ */
+export function findDependents(ref: string, items: string[], resolvedLinks: ResolvedLinks): string[] {
+	const rootPath = parseCardRef(ref).notePath;
+	const reached = new Set([rootPath]);
+	const dependents = new Set<string>();
+
+	let grew = true;
+	while (grew) {
+		grew = false;
+		for (const item of items) {
+			const notePath = parseCardRef(item).notePath;
+			if (notePath === rootPath || dependents.has(item)) continue;
+
+			const targets = Object.keys(resolvedLinks[notePath] ?? {});
+			if (targets.some((target) => reached.has(target))) {
+				dependents.add(item);
+				reached.add(notePath);
+				grew = true;
+			}
+		}
+	}
+
+	return items.filter((item) => dependents.has(item));
+}
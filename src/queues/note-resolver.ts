@@ -4,10 +4,12 @@
  */
 
 import type { App, TFile, CachedMetadata } from "obsidian";
-import type { PluginSettings, SelectionCriteria } from "../types";
+import type { CriteriaContext, PluginSettings, SelectionCriteria, SelectionCriterion } from "../types";
 import { FolderCriterion } from "../criteria/folder-criterion";
 import { TagCriterion } from "../criteria/tag-criterion";
 import { CombinedExclusionCriterion } from "../criteria/exclusion-criteria";
+import { createCriterion, createCustomCriterion } from "../criteria/criteria-factory";
+import { parseQuery } from "../criteria/query-parser";
 
 /**
  * NoteResolver resolves notes from selection criteria
@@ -69,9 +71,10 @@ export class NoteResolver {
 	resolveNotesForCriteria(criteria: SelectionCriteria): TFile[] {
 		const allFiles = this.app.vault.getMarkdownFiles();
 		const matchingFiles: TFile[] = [];
+		const inclusion = this.buildInclusionCriterion(criteria);
 
 		for (const file of allFiles) {
-			if (this.matchesNoteCriteria(file, criteria)) {
+			if (this.matchesInclusion(file, inclusion)) {
 				matchingFiles.push(file);
 			}
 		}
@@ -108,8 +111,15 @@ export class NoteResolver {
 	 * Check if a note matches specific criteria
 	 */
 	matchesNoteCriteria(file: TFile, criteria: SelectionCriteria): boolean {
+		return this.matchesInclusion(file, this.buildInclusionCriterion(criteria));
+	}
+
+	/**
+	 * Check global exclusions, then the inclusion criterion
+	 */
+	private matchesInclusion(file: TFile, inclusion: SelectionCriterion | null): boolean {
 		// Skip non-markdown files
-		if (file.extension !== "md") {
+		if (file.extension !== "md" || !inclusion) {
 			return false;
 		}
 
@@ -121,33 +131,65 @@ export class NoteResolver {
 			return false;
 		}
 
-		// Check inclusion based on criteria type
+		return inclusion.evaluate(file, metadata);
+	}
+
+	/**
+	 * Build the inclusion criterion for queue criteria (null when nothing can match)
+	 */
+	private buildInclusionCriterion(criteria: SelectionCriteria): SelectionCriterion | null {
 		switch (criteria.type) {
-			case "folder": {
+			case "folder":
 				if (!criteria.folders || criteria.folders.length === 0) {
-					return false;
+					return null;
 				}
-				const folderCriterion = new FolderCriterion(criteria.folders);
-				return folderCriterion.evaluate(file, metadata);
-			}
+				return new FolderCriterion(criteria.folders);
 
-			case "tag": {
+			case "tag":
 				if (!criteria.tags || criteria.tags.length === 0) {
-					return false;
+					return null;
 				}
-				const tagCriterion = new TagCriterion(criteria.tags);
-				return tagCriterion.evaluate(file, metadata);
-			}
+				return new TagCriterion(criteria.tags);
 
 			case "custom":
-				// Future extensibility: handle custom criteria
-				return false;
+				return createCustomCriterion(criteria.customCriteria ?? [], this.createCriteriaContext());
+
+			case "query": {
+				// Queries with syntax errors match nothing
+				const { criterion } = parseQuery(criteria.query ?? "");
+				return criterion ? createCriterion(criterion, this.createCriteriaContext()) : null;
+			}
 
 			default:
-				return false;
+				return null;
 		}
 	}
 
+	/**
+	 * Create vault lookups for criteria; the backlink index is built on first use
+	 */
+	private createCriteriaContext(): CriteriaContext {
+		let incoming: Map<string, number> | null = null;
+
+		return {
+			getIncomingLinkCount: (path: string) => {
+				if (!incoming) {
+					incoming = new Map();
+					const resolvedLinks = this.app.metadataCache.resolvedLinks ?? {};
+					for (const [source, targets] of Object.entries(resolvedLinks)) {
+						for (const target of Object.keys(targets)) {
+							if (target !== source) {
+								incoming.set(target, (incoming.get(target) ?? 0) + 1);
+							}
+						}
+					}
+				}
+				return incoming.get(path) ?? 0;
+			},
+			now: () => Date.now(),
+		};
+	}
+
 	/**
 	 * Get count of matching notes without loading all
 	 */
@@ -169,10 +211,11 @@ export class NoteResolver {
 	 */
 	getMatchingCountForCriteria(criteria: SelectionCriteria): number {
 		const allFiles = this.app.vault.getMarkdownFiles();
+		const inclusion = this.buildInclusionCriterion(criteria);
 		let count = 0;
 
 		for (const file of allFiles) {
-			if (this.matchesNoteCriteria(file, criteria)) {
+			if (this.matchesInclusion(file, inclusion)) {
 				count++;
 			}
 		}
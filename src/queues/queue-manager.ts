@@ -12,19 +12,46 @@ import type {
 	CardData,
 	QueueOrderStrategy,
 	PluginSettings,
+	FSRSParams,
+	RecallConfig,
+	LeechConfig,
+	SiblingConfig,
+	CramOptions,
+	ReviewAheadSummary,
+	BacklogPlan,
+	BacklogProgress,
+	RescheduleAction,
 } from "../types";
 import type { DataStore } from "../data/data-store";
 import type { CardManager } from "../fsrs/card-manager";
 import { NoteResolver } from "./note-resolver";
+import { orderByPrerequisites } from "./link-order";
+import { makeCardRef, parseCardRef } from "../fsrs/sub-cards";
+import { isHidden } from "../fsrs/card-flags";
 import { generateId } from "../utils/id-generator";
-import { nowISO, parseISODate, isDue, getStartOfToday } from "../utils/date-utils";
+import {
+	nowISO,
+	parseISODate,
+	isDue,
+	getStartOfToday,
+	getEndOfToday,
+	formatDateKey,
+} from "../utils/date-utils";
 import {
 	DEFAULT_QUEUE_NAME,
 	DEFAULT_QUEUE_ID,
 	DEFAULT_QUEUE_STATS,
 	STATS_CACHE_TTL_MS,
+	EARLY_REVIEW_MIN_VALUE,
+	BACKLOG_MIN_OVERDUE,
+	BACKLOG_MAX_DAYS,
 } from "../constants";
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Called with the notes a queue sync started tracking */
+export type CardsCreatedCallback = (notePaths: string[]) => void;
+
 /**
  * QueueManager handles queue operations and synchronization
  */
@@ -33,6 +60,7 @@ export class QueueManager {
 	private dataStore: DataStore;
 	private cardManager: CardManager;
 	private noteResolver: NoteResolver;
+	private createdCallbacks: Set<CardsCreatedCallback> = new Set();
 
 	constructor(
 		app: App,
@@ -46,6 +74,16 @@ export class QueueManager {
 		this.noteResolver = new NoteResolver(app, settings);
 	}
 
+	/**
+	 * Subscribe to notes getting a card when a queue is synced
+	 */
+	onCardsCreated(callback: CardsCreatedCallback): () => void {
+		this.createdCallbacks.add(callback);
+		return () => {
+			this.createdCallbacks.delete(callback);
+		};
+	}
+
 	/**
 	 * Update settings (called when settings change)
 	 */
@@ -83,7 +121,15 @@ export class QueueManager {
 	/**
 	 * Create a new queue
 	 */
-	createQueue(name: string, criteria: SelectionCriteria): Queue {
+	createQueue(
+		name: string,
+		criteria: SelectionCriteria,
+		fsrsParams?: Partial<FSRSParams>,
+		recall?: RecallConfig,
+		leech?: LeechConfig,
+		siblings?: SiblingConfig,
+		dailyLimit?: number
+	): Queue {
 		const queue: Queue = {
 			id: generateId(),
 			name,
@@ -92,6 +138,22 @@ export class QueueManager {
 			stats: { ...DEFAULT_QUEUE_STATS },
 		};
 
+		if (fsrsParams && Object.keys(fsrsParams).length > 0) {
+			queue.fsrsParams = fsrsParams;
+		}
+		if (recall) {
+			queue.recall = recall;
+		}
+		if (leech) {
+			queue.leech = leech;
+		}
+		if (siblings) {
+			queue.siblings = siblings;
+		}
+		if (dailyLimit !== undefined) {
+			queue.dailyLimit = dailyLimit;
+		}
+
 		this.dataStore.addQueue(queue);
 		return queue;
 	}
@@ -164,11 +226,15 @@ export class QueueManager {
 			removed: [],
 			unchanged: 0,
 		};
+		const created: string[] = [];
 
 		// Find new notes to add
 		for (const path of matchingPaths) {
 			if (!currentPaths.has(path)) {
-				// New note - create card
+				// New note - create card (notes in other queues already have one)
+				if (!this.cardManager.getCard(path)) {
+					created.push(path);
+				}
 				this.cardManager.createCard(path, queueId);
 				result.added.push(path);
 			} else {
@@ -187,6 +253,12 @@ export class QueueManager {
 		// Update queue statistics
 		this.updateQueueStats(queueId);
 
+		if (created.length > 0) {
+			for (const callback of this.createdCallbacks) {
+				callback(created);
+			}
+		}
+
 		return result;
 	}
 
@@ -216,28 +288,39 @@ export class QueueManager {
 	// ============================================================================
 
 	/**
-	 * Update queue statistics
+	 * Update queue statistics and the queue's backlog plan
 	 */
 	updateQueueStats(queueId: string): QueueStats {
-		const cards = this.cardManager.getCardsForQueue(queueId);
+		this.updateBacklogPlan(queueId);
+
+		// Sub-cards are counted as cards of their own
+		const cards = this.cardManager.getReviewableCards(queueId);
 		const startOfToday = getStartOfToday();
 
 		let newNotes = 0;
 		let dueNotes = 0;
 		let reviewedToday = 0;
+		let suspendedNotes = 0;
 
 		for (const card of cards) {
 			const schedule = card.schedules[queueId];
 			if (!schedule) continue;
 
-			// Count new notes
-			if (schedule.state === 0) {
-				newNotes++;
+			if (schedule.suspended) {
+				suspendedNotes++;
 			}
 
-			// Count due notes (today or overdue)
-			if (isDue(parseISODate(schedule.due))) {
-				dueNotes++;
+			// Suspended and buried notes are neither new nor due until they come back
+			if (!isHidden(schedule)) {
+				// Count new notes
+				if (schedule.state === 0) {
+					newNotes++;
+				}
+
+				// Count due notes (today or overdue)
+				if (isDue(parseISODate(schedule.due))) {
+					dueNotes++;
+				}
 			}
 
 			// Count reviewed today
@@ -254,6 +337,7 @@ export class QueueManager {
 			newNotes,
 			dueNotes,
 			reviewedToday,
+			suspendedNotes,
 			lastUpdated: nowISO(),
 		};
 
@@ -282,7 +366,9 @@ export class QueueManager {
 	// ============================================================================
 
 	/**
-	 * Get due notes for a queue, ordered by the specified strategy
+	 * Get due notes for a queue, ordered by the specified strategy.
+	 * Suspended and buried notes are left out, and the queue's daily limit
+	 * (if any) caps the notes not yet reviewed today.
 	 */
 	getDueNotes(queueId: string, orderStrategy?: QueueOrderStrategy): CardData[] {
 		const settings = this.dataStore.getSettings();
@@ -290,8 +376,286 @@ export class QueueManager {
 
 		const dueCards = this.cardManager.getDueCards(queueId);
 
-		// Sort (and optionally cap) based on strategy
-		return this.sortCards(dueCards, queueId, strategy);
+		// While recovering from a backlog, only today's share of overdue notes is included
+		let ordered: CardData[];
+		const progress = this.getBacklogProgress(queueId);
+		if (progress) {
+			const startOfToday = getStartOfToday();
+			const overdue = dueCards.filter((c) => parseISODate(c.schedules[queueId]!.due) < startOfToday);
+			const current = dueCards.filter((c) => parseISODate(c.schedules[queueId]!.due) >= startOfToday);
+			const share = this.sortByBacklogPriority(overdue, queueId).slice(0, progress.remainingToday);
+			ordered = [...this.sortCards(current, queueId, strategy), ...share];
+		} else {
+			// Sort (and optionally cap) based on strategy
+			ordered = this.sortCards(dueCards, queueId, strategy);
+		}
+
+		return this.applyDailyLimit(ordered, queueId);
+	}
+
+	/**
+	 * Get how many more notes the queue's daily limit allows today, or
+	 * undefined when the queue has no limit
+	 */
+	getDailyAllowance(queueId: string): number | undefined {
+		const limit = this.dataStore.getQueue(queueId)?.dailyLimit;
+		if (limit === undefined) {
+			return undefined;
+		}
+		return Math.max(0, limit - this.getReviewedTodayRefs(queueId).size);
+	}
+
+	/**
+	 * Keep only as many new-today notes as the daily limit allows. Notes
+	 * already reviewed today (say, in a learning step) are not held back.
+	 */
+	private applyDailyLimit(cards: CardData[], queueId: string): CardData[] {
+		const limit = this.dataStore.getQueue(queueId)?.dailyLimit;
+		if (limit === undefined) {
+			return cards;
+		}
+
+		const reviewed = this.getReviewedTodayRefs(queueId);
+		let remaining = Math.max(0, limit - reviewed.size);
+		return cards.filter((card) => {
+			if (reviewed.has(card.notePath)) {
+				return true;
+			}
+			return remaining-- > 0;
+		});
+	}
+
+	/**
+	 * Items rated in a queue today; cram drills and undone ratings do not count
+	 */
+	private getReviewedTodayRefs(queueId: string): Set<string> {
+		const startOfToday = getStartOfToday();
+		const refs = new Set<string>();
+		for (const review of this.dataStore.getReviews()) {
+			if (
+				review.queueId === queueId &&
+				!review.undone &&
+				(review.kind ?? "review") === "review" &&
+				parseISODate(review.review) >= startOfToday
+			) {
+				refs.add(makeCardRef(review.cardPath, review.subCardId));
+			}
+		}
+		return refs;
+	}
+
+	/**
+	 * Get notes due up to `days` days after today, ordered by the retrievability
+	 * each would lose by the end of that window (most to lose first)
+	 */
+	getReviewAheadNotes(queueId: string, days: number): CardData[] {
+		const horizon = getEndOfToday();
+		horizon.setDate(horizon.getDate() + days);
+		const now = new Date();
+
+		const withLoss = this.cardManager.getDueCards(queueId, days).map((card) => {
+			const current = this.cardManager.getRetrievability(card.notePath, queueId, now) ?? 0;
+			const projected = this.cardManager.getRetrievability(card.notePath, queueId, horizon) ?? 0;
+			return { card, loss: current - projected };
+		});
+
+		withLoss.sort(
+			(a, b) =>
+				b.loss - a.loss ||
+				parseISODate(a.card.schedules[queueId]!.due).getTime() -
+					parseISODate(b.card.schedules[queueId]!.due).getTime()
+		);
+		return withLoss.map((x) => x.card);
+	}
+
+	/**
+	 * Count the notes a review-ahead session would pull forward and how many
+	 * of them are too well remembered for an early review to help much
+	 */
+	getReviewAheadSummary(queueId: string, days: number): ReviewAheadSummary {
+		const cards = this.cardManager.getDueCards(queueId, days);
+		let early = 0;
+		let lowValue = 0;
+
+		for (const card of cards) {
+			if (isDue(parseISODate(card.schedules[queueId]!.due))) continue;
+			early++;
+			const value = this.cardManager.getEarlyReviewValue(card.notePath, queueId) ?? 1;
+			if (value < EARLY_REVIEW_MIN_VALUE) {
+				lowValue++;
+			}
+		}
+
+		return { total: cards.length, early, lowValue };
+	}
+
+	// ============================================================================
+	// Backlog Recovery
+	// ============================================================================
+
+	/**
+	 * Check whether a queue has enough overdue notes to suggest spreading
+	 * them out (and is not already recovering)
+	 */
+	hasBacklog(queueId: string): boolean {
+		const queue = this.dataStore.getQueue(queueId);
+		return queue !== undefined && !queue.backlog && this.getOverdueCount(queueId) >= BACKLOG_MIN_OVERDUE;
+	}
+
+	/**
+	 * Spread a queue's overdue notes over the given number of days
+	 */
+	startBacklogRecovery(queueId: string, days: number): BacklogPlan {
+		const overdue = this.getOverdueCount(queueId);
+		const plan: BacklogPlan = {
+			startedAt: getStartOfToday().toISOString(),
+			days: Math.max(1, Math.min(BACKLOG_MAX_DAYS, Math.round(days))),
+			total: overdue,
+		};
+		plan.today = this.getBacklogShare(plan, overdue);
+		this.dataStore.updateQueue(queueId, { backlog: plan });
+		return plan;
+	}
+
+	/**
+	 * Stop backlog recovery; overdue notes are reviewed normally again
+	 */
+	stopBacklogRecovery(queueId: string): void {
+		this.dataStore.updateQueue(queueId, { backlog: undefined });
+	}
+
+	/**
+	 * End a queue's backlog plan once no overdue notes are left, and fix
+	 * today's share on the first update of the day so reviewing backlog
+	 * notes does not shrink it. Runs with every queue stats update.
+	 */
+	updateBacklogPlan(queueId: string): void {
+		const plan = this.dataStore.getQueue(queueId)?.backlog;
+		if (!plan) {
+			return;
+		}
+
+		const overdue = this.getOverdueCount(queueId);
+		if (overdue === 0) {
+			this.stopBacklogRecovery(queueId);
+			return;
+		}
+
+		if (plan.today?.date !== formatDateKey(new Date())) {
+			const today = this.getBacklogShare(plan, overdue);
+			this.dataStore.updateQueue(queueId, { backlog: { ...plan, total: Math.max(plan.total, overdue), today } });
+		}
+	}
+
+	/**
+	 * Get progress through a queue's backlog plan, or null when it has none
+	 * or nothing is overdue any more. Changes nothing: until the plan is
+	 * updated today, today's share is worked out from the notes overdue now.
+	 */
+	getBacklogProgress(queueId: string): BacklogProgress | null {
+		const plan = this.dataStore.getQueue(queueId)?.backlog;
+		if (!plan) {
+			return null;
+		}
+
+		const overdue = this.getOverdueCount(queueId);
+		if (overdue === 0) {
+			return null;
+		}
+
+		const today = plan.today?.date === formatDateKey(new Date()) ? plan.today : this.getBacklogShare(plan, overdue);
+		const clearedToday = Math.max(0, today.overdue - overdue);
+		return {
+			overdue,
+			total: Math.max(plan.total, overdue),
+			day: Math.min(this.getBacklogDay(plan), plan.days),
+			days: plan.days,
+			remainingToday: Math.max(0, today.quota - clearedToday),
+		};
+	}
+
+	/**
+	 * Day of the plan, counting the day it started as day 1
+	 */
+	private getBacklogDay(plan: BacklogPlan): number {
+		return Math.max(1, Math.round((getStartOfToday().getTime() - parseISODate(plan.startedAt).getTime()) / MS_PER_DAY) + 1);
+	}
+
+	/**
+	 * Today's share: what is overdue now, split over the days left
+	 */
+	private getBacklogShare(plan: BacklogPlan, overdue: number): NonNullable<BacklogPlan["today"]> {
+		const daysLeft = Math.max(1, plan.days - this.getBacklogDay(plan) + 1);
+		return { date: formatDateKey(new Date()), overdue, quota: Math.ceil(overdue / daysLeft) };
+	}
+
+	/**
+	 * Order overdue notes so those about to be forgotten come first: the
+	 * biggest drop in retrievability over the next day. Notes with low
+	 * stability that are still remembered drop fastest; notes already
+	 * forgotten or very stable can wait. Ties go to the more stable note.
+	 */
+	private sortByBacklogPriority(cards: CardData[], queueId: string): CardData[] {
+		const now = new Date();
+		const tomorrow = new Date(now.getTime() + MS_PER_DAY);
+
+		const withDrop = cards.map((card) => {
+			const current = this.cardManager.getRetrievability(card.notePath, queueId, now) ?? 0;
+			const next = this.cardManager.getRetrievability(card.notePath, queueId, tomorrow) ?? 0;
+			return { card, drop: current - next, stability: card.schedules[queueId]!.stability };
+		});
+
+		withDrop.sort((a, b) => b.drop - a.drop || b.stability - a.stability);
+		return withDrop.map((x) => x.card);
+	}
+
+	/**
+	 * Get notes for a cram session: all of the queue's notes and sub-cards
+	 * matching the cram criteria, due or not
+	 */
+	getCramNotes(queueId: string, options: CramOptions): CardData[] {
+		const cards = this.cardManager.getReviewableCards(queueId).filter((card) => {
+			const schedule = card.schedules[queueId];
+			if (!schedule || isHidden(schedule) || (!options.includeNew && schedule.state === 0)) {
+				return false;
+			}
+			return this.matchesOptionalCriteria(card, options.criteria);
+		});
+
+		const sorted = this.sortCards(cards, queueId, options.order);
+		return options.limit !== undefined ? sorted.slice(0, options.limit) : sorted;
+	}
+
+	/**
+	 * Get the notes a bulk postpone or advance would consider: notes due now
+	 * (postpone) or due within the next `days` days (advance), optionally
+	 * narrowed by criteria
+	 */
+	getRescheduleCandidates(
+		queueId: string,
+		action: RescheduleAction,
+		days: number,
+		criteria?: SelectionCriteria
+	): CardData[] {
+		const cards =
+			action === "postpone"
+				? this.cardManager.getDueCards(queueId)
+				: this.cardManager
+						.getDueCards(queueId, days)
+						.filter((card) => !isDue(parseISODate(card.schedules[queueId]!.due)));
+
+		return cards.filter((card) => this.matchesOptionalCriteria(card, criteria));
+	}
+
+	/**
+	 * Check a note or sub-card's note against optional extra criteria
+	 */
+	private matchesOptionalCriteria(card: CardData, criteria?: SelectionCriteria): boolean {
+		if (!criteria) {
+			return true;
+		}
+		const file = this.app.vault.getFileByPath(parseCardRef(card.notePath).notePath);
+		return file !== null && this.noteResolver.matchesNoteCriteria(file, criteria);
 	}
 
 	/**
@@ -404,6 +768,16 @@ export class QueueManager {
 				});
 				break;
 
+			case "prerequisites-first": {
+				// Due order first, then each note after the due notes it links to
+				this.sortByDue(sorted, queueId);
+				const byRef = new Map(sorted.map((card) => [card.notePath, card]));
+				return orderByPrerequisites(
+					sorted.map((card) => card.notePath),
+					this.app.metadataCache.resolvedLinks ?? {}
+				).map((ref) => byRef.get(ref)!);
+			}
+
 			case "random":
 				// Fisher-Yates shuffle
 				for (let i = sorted.length - 1; i > 0; i--) {
@@ -4,3 +4,7 @@
 
 export { SessionManager } from "./session-manager";
 export type { SessionStateCallback } from "./session-manager";
+export { ReviewTimer } from "./review-timer";
+export { resolveRecallPrompt } from "./recall-prompt";
+export { LeechHandler, becameLeech } from "./leech-handler";
+export { findSiblings, linkedNotePaths } from "./linked-notes";
@@ -0,0 +1,52 @@
+/**
+ * Interleave - Merge several queues' notes into one session
+ */
+
+import type { SessionInterleave } from "../types";
+
+/** One queue's notes, in the queue's own order */
+export interface QueueItems {
+	queueId: string;
+	refs: string[];
+}
+
+/** A session item and the queue whose schedule it is reviewed in */
+export interface SessionItem {
+	ref: string;
+	queueId: string;
+}
+
+/**
+ * Merge queues' notes, keeping each queue's own order.
+ * Round-robin takes one note from each queue in turn until all run out.
+ * Weighted spreads each queue's notes evenly over the session, so a queue
+ * with twice the notes comes up twice as often. Ties go to the queue
+ * listed first.
+ */
+export function interleaveQueues(groups: QueueItems[], mode: SessionInterleave): SessionItem[] {
+	if (mode === "round-robin") {
+		const items: SessionItem[] = [];
+		const longest = Math.max(0, ...groups.map((group) => group.refs.length));
+		for (let i = 0; i < longest; i++) {
+			for (const group of groups) {
+				const ref = group.refs[i];
+				if (ref !== undefined) {
+					items.push({ ref, queueId: group.queueId });
+				}
+			}
+		}
+		return items;
+	}
+
+	// Place the k-th of a queue's n notes at (k + 0.5) / n of the session
+	return groups
+		.flatMap((group, groupIndex) =>
+			group.refs.map((ref, k) => ({
+				item: { ref, queueId: group.queueId },
+				position: (k + 0.5) / group.refs.length,
+				groupIndex,
+			}))
+		)
+		.sort((a, b) => a.position - b.position || a.groupIndex - b.groupIndex)
+		.map(({ item }) => item);
+}
@@ -0,0 +1,178 @@
+/**
+ * Leech handling - Notes that keep being forgotten
+ * A note becomes a leech when its lapses reach the queue's threshold, and
+ * again every half threshold after that, so a note that stays a problem
+ * keeps being flagged
+ */
+
+import type { App } from "obsidian";
+import type { CardSchedule, LeechOutcome, Queue } from "../types";
+import type { CardManager } from "../fsrs/card-manager";
+import type { QueueManager } from "../queues/queue-manager";
+import { parseCardRef } from "../fsrs/sub-cards";
+import { nowISO } from "../utils/date-utils";
+import { LEECH_QUEUE_NAME, LEECH_TAG } from "../constants";
+
+/**
+ * Check if a rating that turned `previous` into `updated` made the card a leech
+ */
+export function becameLeech(previous: CardSchedule, updated: CardSchedule, threshold: number): boolean {
+	if (updated.lapses <= previous.lapses || updated.lapses < threshold) {
+		return false;
+	}
+	const repeatEvery = Math.max(1, Math.floor(threshold / 2));
+	return (updated.lapses - threshold) % repeatEvery === 0;
+}
+
+/**
+ * Check if frontmatter tags already include the leech tag
+ */
+function hasLeechTag(tags: string[]): boolean {
+	return tags.some((tag) => tag.replace(/^#/, "").toLowerCase() === LEECH_TAG);
+}
+
+/**
+ * Applies a queue's leech action after a rating
+ */
+export class LeechHandler {
+	private app: App;
+	private cardManager: CardManager;
+	private queueManager: QueueManager;
+
+	constructor(app: App, cardManager: CardManager, queueManager: QueueManager) {
+		this.app = app;
+		this.cardManager = cardManager;
+		this.queueManager = queueManager;
+	}
+
+	/**
+	 * Apply the queue's leech action if the rating just made the card a leech.
+	 * Returns what was done, or null when the card is not a new leech.
+	 */
+	async handle(ref: string, queueId: string, previous: CardSchedule): Promise<LeechOutcome | null> {
+		const config = this.queueManager.getQueue(queueId)?.leech;
+		const schedule = this.cardManager.getSchedule(ref, queueId);
+		if (!config?.enabled || !schedule || !becameLeech(previous, schedule, config.threshold)) {
+			return null;
+		}
+
+		switch (config.action) {
+			case "tag":
+				return { action: "tag", tagged: await this.tagNote(parseCardRef(ref).notePath) };
+			case "suspend": {
+				const log = this.cardManager.suspendCard(ref, queueId);
+				this.queueManager.updateQueueStats(queueId);
+				return { action: "suspend", suspendLogId: log.id, tagged: false };
+			}
+			case "move":
+				return this.moveToLeechQueue(ref, queueId);
+		}
+	}
+
+	/**
+	 * Revert what handle() did, for an undone rating. The rated card's own
+	 * schedule and the suspension's log entry are restored by the caller.
+	 */
+	async undo(ref: string, outcome: LeechOutcome): Promise<void> {
+		const { notePath } = parseCardRef(ref);
+
+		if (outcome.leechQueueId) {
+			if (outcome.leechQueueSchedule) {
+				this.cardManager.setSchedule(ref, outcome.leechQueueId, outcome.leechQueueSchedule);
+			} else {
+				this.cardManager.removeFromQueue(notePath, outcome.leechQueueId);
+			}
+			this.queueManager.updateQueueStats(outcome.leechQueueId);
+		}
+
+		if (outcome.tagged) {
+			await this.untagNote(notePath);
+		}
+	}
+
+	/**
+	 * Add the leech tag to a note's frontmatter. Returns whether it was added.
+	 */
+	async tagNote(notePath: string): Promise<boolean> {
+		let added = false;
+		await this.updateTags(notePath, (tags) => {
+			if (hasLeechTag(tags)) {
+				return null;
+			}
+			added = true;
+			return [...tags, LEECH_TAG];
+		});
+		return added;
+	}
+
+	/**
+	 * Remove the leech tag from a note's frontmatter
+	 */
+	async untagNote(notePath: string): Promise<void> {
+		await this.updateTags(notePath, (tags) =>
+			hasLeechTag(tags) ? tags.filter((tag) => !hasLeechTag([tag])) : null
+		);
+	}
+
+	/**
+	 * Rewrite a note's frontmatter tags; `change` returns null to leave them
+	 */
+	private async updateTags(notePath: string, change: (tags: string[]) => string[] | null): Promise<void> {
+		const file = this.app.vault.getFileByPath(notePath);
+		if (!file) {
+			return;
+		}
+
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			const raw: unknown = frontmatter.tags;
+			const tags = Array.isArray(raw)
+				? raw.filter((tag): tag is string => typeof tag === "string")
+				: typeof raw === "string"
+					? raw.split(/[,\s]+/).filter((tag) => tag !== "")
+					: [];
+			const changed = change(tags);
+			if (changed) {
+				frontmatter.tags = changed;
+			}
+		});
+	}
+
+	/**
+	 * Get the queue leeches are moved to, creating it on first use. It
+	 * selects notes by the leech tag, so moved notes stay in it on sync.
+	 */
+	getLeechQueue(): Queue {
+		const existing = this.queueManager
+			.getAllQueues()
+			.find((queue) => queue.name.toLowerCase() === LEECH_QUEUE_NAME.toLowerCase());
+		return existing ?? this.queueManager.createQueue(LEECH_QUEUE_NAME, { type: "tag", tags: [LEECH_TAG] });
+	}
+
+	/**
+	 * Move a card to the leech queue, keeping its memory state. The card
+	 * is suspended in its own queue rather than removed, since it still
+	 * matches that queue and would be added back as new on the next sync.
+	 */
+	private async moveToLeechQueue(ref: string, queueId: string): Promise<LeechOutcome> {
+		const target = this.getLeechQueue();
+		const { notePath } = parseCardRef(ref);
+
+		const tagged = await this.tagNote(notePath);
+		const schedule = this.cardManager.getSchedule(ref, queueId);
+		if (target.id === queueId || !schedule) {
+			return { action: "move", tagged };
+		}
+		const moved: CardSchedule = { ...schedule, addedToQueueAt: nowISO() };
+		delete moved.suspended;
+		delete moved.buriedUntil;
+
+		const leechQueueSchedule = this.cardManager.getSchedule(ref, target.id);
+		this.cardManager.createCard(notePath, target.id);
+		this.cardManager.setSchedule(ref, target.id, moved);
+		const log = this.cardManager.suspendCard(ref, queueId);
+
+		this.queueManager.updateQueueStats(target.id);
+		this.queueManager.updateQueueStats(queueId);
+		return { action: "move", suspendLogId: log.id, tagged, leechQueueId: target.id, leechQueueSchedule };
+	}
+}
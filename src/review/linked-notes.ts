@@ -0,0 +1,40 @@
+/**
+ * Linked notes - Notes that give each other's answers away
+ * Reviewing a note right after one it links to (or one that links to it),
+ * or after another sub-card of the same note, is easier than it should be
+ */
+
+import { parseCardRef } from "../fsrs/sub-cards";
+
+/**
+ * Paths of notes linked to or from a note, from `metadataCache.resolvedLinks`
+ */
+export function linkedNotePaths(
+	resolvedLinks: Record<string, Record<string, number>>,
+	notePath: string
+): Set<string> {
+	const linked = new Set(Object.keys(resolvedLinks[notePath] ?? {}));
+	for (const [source, targets] of Object.entries(resolvedLinks)) {
+		if (targets[notePath]) {
+			linked.add(source);
+		}
+	}
+	linked.delete(notePath);
+	return linked;
+}
+
+/**
+ * Pick the items that are siblings of `ref`: other sub-cards of the same
+ * note, and notes (or their sub-cards) linked to or from it
+ */
+export function findSiblings(
+	ref: string,
+	items: string[],
+	resolvedLinks: Record<string, Record<string, number>>
+): string[] {
+	const { notePath } = parseCardRef(ref);
+	const linked = linkedNotePaths(resolvedLinks, notePath);
+	linked.add(notePath);
+
+	return items.filter((item) => item !== ref && linked.has(parseCardRef(item).notePath));
+}
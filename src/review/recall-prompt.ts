@@ -0,0 +1,31 @@
+/**
+ * Recall prompt - The question shown before a note is revealed in recall mode
+ */
+
+import type { MetadataCache, TFile } from "obsidian";
+import type { RecallConfig } from "../types";
+import { DEFAULT_RECALL_PROPERTY } from "../constants";
+
+/**
+ * Resolve the prompt for a note, falling back to its title when the
+ * configured property or heading is missing
+ */
+export function resolveRecallPrompt(metadataCache: MetadataCache, file: TFile, config: RecallConfig): string {
+	const cache = metadataCache.getFileCache(file);
+
+	if (config.promptSource === "property") {
+		const value: unknown = cache?.frontmatter?.[config.property || DEFAULT_RECALL_PROPERTY];
+		if ((typeof value === "string" || typeof value === "number") && String(value).trim() !== "") {
+			return String(value).trim();
+		}
+	}
+
+	if (config.promptSource === "heading") {
+		const heading = cache?.headings?.[0]?.heading.trim();
+		if (heading) {
+			return heading;
+		}
+	}
+
+	return file.basename;
+}
@@ -0,0 +1,87 @@
+/**
+ * ReviewTimer - Measures how long a note is actually looked at
+ * Accumulates time only while running, so focus loss and navigation pause it
+ */
+
+/**
+ * ReviewTimer tracks active time for one note at a time
+ */
+export class ReviewTimer {
+	private now: () => number;
+
+	/** Note the accumulated time belongs to */
+	private key: string | null = null;
+	/** Time accumulated before the current running span */
+	private accumulatedMs = 0;
+	/** Start of the current running span, or null while paused */
+	private runningSince: number | null = null;
+
+	constructor(now: () => number = Date.now) {
+		this.now = now;
+	}
+
+	/**
+	 * Start timing a note. Reopening the same note resumes its time
+	 * instead of resetting it.
+	 */
+	start(key: string): void {
+		if (this.key !== key) {
+			this.key = key;
+			this.accumulatedMs = 0;
+			this.runningSince = null;
+		}
+		this.resume();
+	}
+
+	/**
+	 * Pause or resume depending on whether the user is attending to the note
+	 */
+	setRunning(running: boolean): void {
+		if (running) {
+			this.resume();
+		} else {
+			this.pause();
+		}
+	}
+
+	/**
+	 * Pause timing, keeping the accumulated time
+	 */
+	pause(): void {
+		if (this.runningSince === null) return;
+		this.accumulatedMs += Math.max(0, this.now() - this.runningSince);
+		this.runningSince = null;
+	}
+
+	/**
+	 * Resume timing (no-op when no note is being timed)
+	 */
+	resume(): void {
+		if (this.key === null || this.runningSince !== null) return;
+		this.runningSince = this.now();
+	}
+
+	/**
+	 * Active time spent on the current note
+	 */
+	elapsedMs(): number {
+		const running = this.runningSince === null ? 0 : Math.max(0, this.now() - this.runningSince);
+		return this.accumulatedMs + running;
+	}
+
+	/**
+	 * Whether time is currently accumulating
+	 */
+	isRunning(): boolean {
+		return this.runningSince !== null;
+	}
+
+	/**
+	 * Stop timing and forget the current note
+	 */
+	reset(): void {
+		this.key = null;
+		this.accumulatedMs = 0;
+		this.runningSince = null;
+	}
+}
@@ -3,13 +3,19 @@
  * Manages the lifecycle of review sessions
  */
 
-import type { App } from "obsidian";
+import type { App, Plugin } from "obsidian";
 import { Notice } from "obsidian";
 import type {
 	SessionState,
 	RatingValue,
+	CardData,
 	CardSchedule,
+	CramOptions,
 	PersistedSession,
+	SessionInterleave,
+	SessionOptions,
+	SessionHistoryEntry,
+	LeechOutcome,
 } from "../types";
 import type { DataStore } from "../data/data-store";
 import type { CardManager } from "../fsrs/card-manager";
@@ -17,7 +23,22 @@ import type { QueueManager } from "../queues/queue-manager";
 import type { Scheduler } from "../fsrs/scheduler";
 import { generateSessionId } from "../utils/id-generator";
 import { handleError } from "../utils/error-handler";
-import { NOTICE_DURATION_MS, PLUGIN_ID } from "../constants";
+import { ReviewTimer } from "./review-timer";
+import { resolveRecallPrompt } from "./recall-prompt";
+import { LeechHandler } from "./leech-handler";
+import { findSiblings } from "./linked-notes";
+import { interleaveQueues } from "./interleave";
+import { findDependents } from "../queues/link-order";
+import { maskSubCard, parseCardRef } from "../fsrs/sub-cards";
+import {
+	LEECH_QUEUE_NAME,
+	LEECH_TAG,
+	MAX_REVIEW_DURATION_MS,
+	NOTICE_DURATION_MS,
+	PLUGIN_ID,
+	RATINGS,
+	REVIEW_AHEAD_MAX_DAYS,
+} from "../constants";
 
 /** Callback type for session state changes */
 export type SessionStateCallback = (state: SessionState | null) => void;
@@ -35,6 +56,13 @@ export class SessionManager {
 	private session: SessionState | null = null;
 	private stateCallbacks: Set<SessionStateCallback> = new Set();
 
+	/** Time spent on the current note, paused while the user is away */
+	private timer: ReviewTimer;
+	private windowFocused = true;
+
+	/** Applies the queue's leech action when a rating adds a lapse */
+	private leechHandler: LeechHandler;
+
 	/** Path to session persistence file */
 	private get sessionFilePath(): string {
 		return `.obsidian/plugins/${PLUGIN_ID}/session.json`;
@@ -45,13 +73,62 @@ export class SessionManager {
 		dataStore: DataStore,
 		cardManager: CardManager,
 		queueManager: QueueManager,
-		scheduler: Scheduler
+		scheduler: Scheduler,
+		timer: ReviewTimer = new ReviewTimer()
 	) {
 		this.app = app;
 		this.dataStore = dataStore;
 		this.cardManager = cardManager;
 		this.queueManager = queueManager;
 		this.scheduler = scheduler;
+		this.timer = timer;
+		this.leechHandler = new LeechHandler(app, cardManager, queueManager);
+	}
+
+	/**
+	 * Register workspace and window events that pause the review timer
+	 */
+	registerEvents(plugin: Plugin): void {
+		// Navigating to another note pauses; coming back resumes
+		plugin.registerEvent(
+			this.app.workspace.on("file-open", () => {
+				this.updateAttention();
+			})
+		);
+		plugin.registerEvent(
+			this.app.workspace.on("active-leaf-change", () => {
+				this.updateAttention();
+			})
+		);
+
+		// Obsidian losing focus pauses
+		plugin.registerDomEvent(window, "blur", () => {
+			this.setWindowFocused(false);
+		});
+		plugin.registerDomEvent(window, "focus", () => {
+			this.setWindowFocused(true);
+		});
+		plugin.registerDomEvent(document, "visibilitychange", () => {
+			this.setWindowFocused(document.visibilityState === "visible");
+		});
+	}
+
+	/**
+	 * Record whether the Obsidian window has focus
+	 */
+	setWindowFocused(focused: boolean): void {
+		this.windowFocused = focused;
+		this.updateAttention();
+	}
+
+	/**
+	 * Run the review timer only while the expected note is open in a focused window
+	 */
+	updateAttention(): void {
+		if (!this.session) {
+			return;
+		}
+		this.timer.setRunning(this.windowFocused && this.isCurrentNoteExpected());
 	}
 
 	// ============================================================================
@@ -77,6 +154,13 @@ export class SessionManager {
 		}
 	}
 
+	/**
+	 * Check if the active session is a cram session
+	 */
+	isCramSession(): boolean {
+		return this.session?.cram !== undefined;
+	}
+
 	/**
 	 * Check if a session is active
 	 */
@@ -107,7 +191,104 @@ export class SessionManager {
 		}
 	}
 
-	private async doStartSession(queueId: string): Promise<boolean> {
+	/**
+	 * Start a cram session: drill a queue's notes regardless of due dates.
+	 * Ratings are logged as cram reviews and leave schedules untouched
+	 * unless `options.updateSchedules` is set.
+	 */
+	async startCramSession(queueId: string, options: CramOptions): Promise<boolean> {
+		try {
+			return await this.doStartSession(queueId, { cram: options });
+		} catch (error) {
+			handleError(error, { component: "SessionManager.startCramSession", notifyUser: true });
+			return false;
+		}
+	}
+
+	/**
+	 * Start a review-ahead session: due notes plus notes coming due within
+	 * `days` days, ordered by the retrievability they would lose meanwhile.
+	 * Warns when many of the early notes are still too well remembered for
+	 * a review to strengthen them much.
+	 */
+	async startReviewAheadSession(queueId: string, days: number): Promise<boolean> {
+		try {
+			const horizon = Math.min(Math.max(1, Math.round(days)), REVIEW_AHEAD_MAX_DAYS);
+			return await this.doStartSession(queueId, { reviewAheadDays: horizon });
+		} catch (error) {
+			handleError(error, { component: "SessionManager.startReviewAheadSession", notifyUser: true });
+			return false;
+		}
+	}
+
+	/**
+	 * Start a session over several queues: each queue's due notes, within
+	 * its daily limit, interleaved so the queues take turns. Every rating
+	 * goes to the schedule of the queue its note came from.
+	 */
+	async startMultiQueueSession(queueIds: string[], interleave: SessionInterleave = "round-robin"): Promise<boolean> {
+		try {
+			return await this.doStartMultiQueueSession(queueIds, interleave);
+		} catch (error) {
+			handleError(error, { component: "SessionManager.startMultiQueueSession", notifyUser: true });
+			return false;
+		}
+	}
+
+	private async doStartMultiQueueSession(queueIds: string[], interleave: SessionInterleave): Promise<boolean> {
+		if (this.session) {
+			new Notice("A review session is already active. End it first.", NOTICE_DURATION_MS);
+			return false;
+		}
+
+		const validIds = [...new Set(queueIds)].filter((queueId) => this.queueManager.getQueue(queueId));
+		if (validIds.length === 0) {
+			new Notice("Queue not found.", NOTICE_DURATION_MS);
+			return false;
+		}
+		if (validIds.length === 1) {
+			return this.doStartSession(validIds[0]!);
+		}
+
+		const groups = validIds.map((queueId) => {
+			this.queueManager.syncQueue(queueId);
+			return { queueId, refs: this.queueManager.getDueNotes(queueId).map((c) => c.notePath) };
+		});
+		const items = interleaveQueues(groups, interleave);
+
+		const first = items[0];
+		if (!first) {
+			new Notice("No notes due for review.", NOTICE_DURATION_MS);
+			return false;
+		}
+
+		this.session = {
+			queueId: first.queueId,
+			currentIndex: 0,
+			totalNotes: items.length,
+			currentNotePath: first.ref,
+			reviewed: 0,
+			ratings: { 1: 0, 2: 0, 3: 0, 4: 0 },
+			sessionId: generateSessionId(),
+			startedAt: new Date(),
+			reviewQueue: items.map((item) => item.ref),
+			history: [],
+			answerRevealed: !this.hidesAnswer(first.queueId, first.ref),
+			queueIds: validIds,
+			itemQueueIds: items.map((item) => item.queueId),
+			interleave,
+		};
+
+		await this.openCurrentNote();
+
+		this.notifyStateChange();
+		void this.persistSession();
+		return true;
+	}
+
+	private async doStartSession(queueId: string, options: SessionOptions = {}): Promise<boolean> {
+		const { cram, reviewAheadDays } = options;
+
 		// Check if session is already active
 		if (this.session) {
 			new Notice("A review session is already active. End it first.", NOTICE_DURATION_MS);
@@ -123,11 +304,25 @@ export class SessionManager {
 		// Sync queue with vault to pick up any new/removed notes
 		this.queueManager.syncQueue(queueId);
 
-		// Get due notes for the queue
-		const dueCards = this.queueManager.getDueNotes(queueId);
+		// Get due notes for the queue (or every matching note when cramming)
+		let dueCards: CardData[];
+		if (cram) {
+			dueCards = this.queueManager.getCramNotes(queueId, cram);
+		} else if (reviewAheadDays !== undefined) {
+			dueCards = this.queueManager.getReviewAheadNotes(queueId, reviewAheadDays);
+		} else {
+			dueCards = this.queueManager.getDueNotes(queueId);
+		}
 
 		if (dueCards.length === 0) {
-			new Notice("No notes due for review.", NOTICE_DURATION_MS);
+			new Notice(
+				cram
+					? "No notes match the cram criteria."
+					: reviewAheadDays !== undefined
+						? `No notes due in the next ${reviewAheadDays} days.`
+						: "No notes due for review.",
+				NOTICE_DURATION_MS
+			);
 			return false;
 		}
 
@@ -149,7 +344,15 @@ export class SessionManager {
 			startedAt: new Date(),
 			reviewQueue: dueCards.map((c) => c.notePath),
 			history: [],
+			answerRevealed: !this.hidesAnswer(queueId, firstCard.notePath),
 		};
+		if (cram) {
+			this.session.cram = cram;
+		}
+		if (reviewAheadDays !== undefined) {
+			this.session.reviewAheadDays = reviewAheadDays;
+			this.warnLowValueEarlyReviews(queueId, reviewAheadDays);
+		}
 
 		// Open first note
 		await this.openCurrentNote();
@@ -159,6 +362,22 @@ export class SessionManager {
 		return true;
 	}
 
+	/**
+	 * Tell the user when many pulled-forward notes gain little from an early review
+	 */
+	private warnLowValueEarlyReviews(queueId: string, days: number): void {
+		const { early, lowValue } = this.queueManager.getReviewAheadSummary(queueId, days);
+		if (lowValue === 0) {
+			return;
+		}
+
+		new Notice(
+			`${lowValue} of ${early} notes reviewed ahead are still well remembered. ` +
+				"Reviewing them now adds little to their stability.",
+			NOTICE_DURATION_MS
+		);
+	}
+
 	/**
 	 * End the current session
 	 */
@@ -169,21 +388,27 @@ export class SessionManager {
 
 		const reviewed = this.session.reviewed;
 		const total = this.session.totalNotes;
-		const queueId = this.session.queueId;
+		const queueIds = this.session.queueIds ?? [this.session.queueId];
+		const isCram = this.session.cram !== undefined;
 
 		this.session = null;
+		this.timer.reset();
 		this.notifyStateChange();
 		void this.clearPersistedSession();
 
 		if (reviewed > 0) {
 			new Notice(
-				`Session complete! Reviewed ${reviewed} of ${total} notes.`,
+				isCram
+					? `Cram session complete! Drilled ${reviewed} of ${total} notes.`
+					: `Session complete! Reviewed ${reviewed} of ${total} notes.`,
 				NOTICE_DURATION_MS
 			);
 		}
 
 		// Refresh queue stats so UI reflects post-session state
-		this.queueManager.updateQueueStats(queueId);
+		for (const queueId of queueIds) {
+			this.queueManager.updateQueueStats(queueId);
+		}
 	}
 
 	// ============================================================================
@@ -208,6 +433,12 @@ export class SessionManager {
 			return false;
 		}
 
+		// Ratings must reflect retrieval, not re-reading
+		if (!this.session.answerRevealed) {
+			new Notice("Show the answer before rating.", NOTICE_DURATION_MS);
+			return false;
+		}
+
 		const notePath = this.session.currentNotePath;
 		const queueId = this.session.queueId;
 
@@ -221,17 +452,25 @@ export class SessionManager {
 		// Store previous state for undo
 		const previousSchedule = { ...schedule };
 
-		// Process the rating
-		const reviewLog = this.cardManager.updateCardSchedule(
-			notePath,
-			queueId,
-			rating,
-			this.session.sessionId
-		);
+		// Process the rating, recording time spent on the note.
+		// Cram ratings only touch the schedule when the user opted in.
+		const durationMs = Math.min(this.timer.elapsedMs(), MAX_REVIEW_DURATION_MS);
+		const cram = this.session.cram;
+		const reviewLog = cram && !cram.updateSchedules
+			? this.cardManager.logRating(notePath, queueId, rating, this.session.sessionId, durationMs, "cram")
+			: this.cardManager.updateCardSchedule(
+				notePath,
+				queueId,
+				rating,
+				this.session.sessionId,
+				durationMs,
+				cram ? "cram" : "review"
+			);
 
 		// Add to history for undo
 		this.session.history.push({
 			notePath,
+			queueId,
 			rating,
 			reviewLogId: reviewLog.id,
 			previousSchedule,
@@ -241,6 +480,25 @@ export class SessionManager {
 		this.session.reviewed++;
 		this.session.ratings[rating]++;
 
+		// Cram drills that leave the schedule alone add no lapses
+		if (!cram || cram.updateSchedules) {
+			const leech = await this.handleLeech(notePath, queueId, previousSchedule);
+			if (leech) {
+				this.session.history.at(-1)!.leech = leech;
+			}
+		}
+
+		// Keep linked notes from giving this one's answer away
+		const buried = this.separateSiblings(notePath, queueId);
+		if (buried.length > 0) {
+			this.session.history.at(-1)!.buried = buried;
+		}
+
+		// Notes built on a forgotten prerequisite wait until the end
+		if (rating === RATINGS.AGAIN && !cram) {
+			this.demoteDependents(notePath);
+		}
+
 		// Refresh queue stats immediately so UI shows fresh numbers
 		this.queueManager.updateQueueStats(queueId);
 
@@ -250,6 +508,140 @@ export class SessionManager {
 		return true;
 	}
 
+	/**
+	 * Apply the queue's leech action if the rating made the note a leech.
+	 * Returns what was done, for undo.
+	 */
+	private async handleLeech(
+		notePath: string,
+		queueId: string,
+		previousSchedule: CardSchedule
+	): Promise<LeechOutcome | null> {
+		const leech = await this.leechHandler.handle(notePath, queueId, previousSchedule);
+		if (!leech) {
+			return null;
+		}
+		const { action } = leech;
+
+		const lapses = this.cardManager.getSchedule(notePath, queueId)?.lapses ?? 0;
+		const name = parseCardRef(notePath).notePath.split("/").pop()?.replace(/\.md$/, "") ?? notePath;
+		const outcome: Record<typeof action, string> = {
+			tag: `tagged #${LEECH_TAG}`,
+			suspend: "suspended",
+			move: `moved to the ${LEECH_QUEUE_NAME} queue`,
+		};
+		new Notice(`"${name}" is a leech (${lapses} lapses) and was ${outcome[action]}.`, NOTICE_DURATION_MS);
+		return leech;
+	}
+
+	/**
+	 * Push the rated note's siblings still to come to the end of the
+	 * session, or bury them until tomorrow, as the queue is configured.
+	 * Returns the buried siblings with their schedules before, for undo.
+	 */
+	private separateSiblings(ref: string, queueId: string): NonNullable<SessionHistoryEntry["buried"]> {
+		const config = this.queueManager.getQueue(queueId)?.siblings;
+		if (!this.session || !config?.enabled) {
+			return [];
+		}
+
+		const upcoming = this.getUpcomingIndexes();
+		const siblingSet = new Set(
+			findSiblings(ref, upcoming.map((i) => this.session!.reviewQueue[i]!), this.app.metadataCache.resolvedLinks ?? {})
+		);
+		const siblings = upcoming.filter((i) => siblingSet.has(this.session!.reviewQueue[i]!));
+		if (siblings.length === 0) {
+			return [];
+		}
+		const others = upcoming.filter((i) => !siblingSet.has(this.session!.reviewQueue[i]!));
+
+		// Cram drills leave regular reviews alone, so there siblings are only pushed back
+		if (config.action === "bury" && !this.session.cram) {
+			const buried = siblings.map((i) => {
+				const sibling = this.session!.reviewQueue[i]!;
+				const siblingQueueId = this.queueAt(i);
+				const previousSchedule = this.cardManager.getSchedule(sibling, siblingQueueId)!;
+				this.cardManager.buryCard(sibling, siblingQueueId);
+				return { ref: sibling, queueId: siblingQueueId, previousSchedule };
+			});
+			this.rearrangeUpcoming(others);
+			this.session.totalNotes = this.session.reviewQueue.length;
+			new Notice(
+				`Buried ${siblings.length} linked ${siblings.length === 1 ? "note" : "notes"} until tomorrow.`,
+				NOTICE_DURATION_MS
+			);
+			return buried;
+		}
+
+		this.rearrangeUpcoming([...others, ...siblings]);
+		return [];
+	}
+
+	/**
+	 * Move notes that link to the rated note, directly or through other
+	 * notes, to the end of the session (prerequisites-first order only)
+	 */
+	private demoteDependents(ref: string): void {
+		const settings = this.dataStore.getSettings();
+		if (!this.session || settings.queueOrder !== "prerequisites-first" || !settings.demoteDependentsOnLapse) {
+			return;
+		}
+
+		const upcoming = this.getUpcomingIndexes();
+		const refs = upcoming.map((i) => this.session!.reviewQueue[i]!);
+		const dependents = new Set(findDependents(ref, refs, this.app.metadataCache.resolvedLinks ?? {}));
+		if (dependents.size === 0) {
+			return;
+		}
+
+		const isDependent = (i: number) => dependents.has(this.session!.reviewQueue[i]!);
+		this.rearrangeUpcoming([...upcoming.filter((i) => !isDependent(i)), ...upcoming.filter(isDependent)]);
+	}
+
+	/**
+	 * Positions in the session of the notes after the current one
+	 */
+	private getUpcomingIndexes(): number[] {
+		if (!this.session) {
+			return [];
+		}
+		const start = this.session.currentIndex + 1;
+		return this.session.reviewQueue.slice(start).map((_, offset) => start + offset);
+	}
+
+	/**
+	 * Replace the notes after the current one with the notes at the given
+	 * positions, in that order; each note keeps its queue. Positions left
+	 * out are dropped from the session.
+	 */
+	private rearrangeUpcoming(order: number[]): void {
+		if (!this.session) {
+			return;
+		}
+
+		const { reviewQueue, itemQueueIds } = this.session;
+		const kept = [...reviewQueue.keys()].slice(0, this.session.currentIndex + 1).concat(order);
+		this.session.reviewQueue = kept.map((i) => reviewQueue[i]!);
+		if (itemQueueIds) {
+			this.session.itemQueueIds = kept.map((i) => itemQueueIds[i]!);
+		}
+	}
+
+	/**
+	 * Put notes back into the session after the given position
+	 */
+	private insertAfter(index: number, items: Array<{ ref: string; queueId: string }>): void {
+		if (!this.session || items.length === 0) {
+			return;
+		}
+
+		this.session.reviewQueue.splice(index + 1, 0, ...items.map((item) => item.ref));
+		if (this.session.itemQueueIds) {
+			this.session.itemQueueIds.splice(index + 1, 0, ...items.map((item) => item.queueId));
+		}
+		this.session.totalNotes = this.session.reviewQueue.length;
+	}
+
 	// ============================================================================
 	// Navigation
 	// ============================================================================
@@ -265,6 +657,32 @@ export class SessionManager {
 		await this.advanceToNext();
 	}
 
+	/**
+	 * Bury the current note until tomorrow and move on
+	 */
+	async buryCurrent(): Promise<void> {
+		if (!this.session) {
+			return;
+		}
+
+		this.cardManager.buryCard(this.session.currentNotePath, this.session.queueId);
+		this.queueManager.updateQueueStats(this.session.queueId);
+		await this.advanceToNext();
+	}
+
+	/**
+	 * Suspend the current note in the session's queue and move on
+	 */
+	async suspendCurrent(): Promise<void> {
+		if (!this.session) {
+			return;
+		}
+
+		this.cardManager.suspendCard(this.session.currentNotePath, this.session.queueId);
+		this.queueManager.updateQueueStats(this.session.queueId);
+		await this.advanceToNext();
+	}
+
 	/**
 	 * Go back to previous note
 	 */
@@ -273,11 +691,7 @@ export class SessionManager {
 			return false;
 		}
 
-		this.session.currentIndex--;
-		const prevPath = this.session.reviewQueue[this.session.currentIndex];
-		if (prevPath) {
-			this.session.currentNotePath = prevPath;
-		}
+		this.moveTo(this.session.currentIndex - 1);
 
 		await this.openCurrentNote();
 		this.notifyStateChange();
@@ -295,25 +709,39 @@ export class SessionManager {
 
 		const lastEntry = this.session.history.pop()!;
 
-		// Restore previous schedule
-		const card = this.cardManager.getCard(lastEntry.notePath);
-		if (card) {
-			card.schedules[this.session.queueId] = lastEntry.previousSchedule;
-			this.dataStore.updateCard(lastEntry.notePath, card);
-		}
+		// Restore previous schedule in the queue the rating went to
+		this.cardManager.setSchedule(lastEntry.notePath, lastEntry.queueId, lastEntry.previousSchedule);
 
 		// Mark review log as undone
 		this.dataStore.markReviewUndone(lastEntry.reviewLogId);
 
+		// Take back the leech action: the suspension is undone with the rating
+		if (lastEntry.leech) {
+			if (lastEntry.leech.suspendLogId) {
+				this.dataStore.markReviewUndone(lastEntry.leech.suspendLogId);
+			}
+			await this.leechHandler.undo(lastEntry.notePath, lastEntry.leech);
+		}
+
+		// Unbury the linked notes the rating buried
+		for (const sibling of lastEntry.buried ?? []) {
+			this.cardManager.setSchedule(sibling.ref, sibling.queueId, sibling.previousSchedule);
+		}
+
 		// Update session stats
 		this.session.reviewed--;
 		this.session.ratings[lastEntry.rating]--;
 
 		// Go back to that note
-		const noteIndex = this.session.reviewQueue.indexOf(lastEntry.notePath);
+		const noteIndex = this.session.reviewQueue.findIndex(
+			(ref, i) => ref === lastEntry.notePath && this.queueAt(i) === lastEntry.queueId
+		);
 		if (noteIndex !== -1) {
-			this.session.currentIndex = noteIndex;
-			this.session.currentNotePath = lastEntry.notePath;
+			// They come right after it again, as they did before it was rated
+			this.insertAfter(noteIndex, lastEntry.buried ?? []);
+			this.moveTo(noteIndex);
+			// The answer was already seen before the undone rating
+			this.session.answerRevealed = true;
 			await this.openCurrentNote();
 		}
 
@@ -349,16 +777,38 @@ export class SessionManager {
 			return;
 		}
 
-		const nextPath = this.session.reviewQueue[this.session.currentIndex];
-		if (nextPath) {
-			this.session.currentNotePath = nextPath;
-		}
+		this.moveTo(this.session.currentIndex);
 
 		await this.openCurrentNote();
 		this.notifyStateChange();
 		void this.persistSession();
 	}
 
+	/**
+	 * Make the note at a position in the session the current one, along
+	 * with its queue
+	 */
+	private moveTo(index: number): void {
+		if (!this.session) {
+			return;
+		}
+
+		this.session.currentIndex = index;
+		const ref = this.session.reviewQueue[index];
+		if (ref) {
+			this.session.currentNotePath = ref;
+		}
+		this.session.queueId = this.queueAt(index);
+		this.session.answerRevealed = !this.hidesAnswer(this.session.queueId, this.session.currentNotePath);
+	}
+
+	/**
+	 * Queue of the note at a position in the session
+	 */
+	private queueAt(index: number): string {
+		return this.session?.itemQueueIds?.[index] ?? this.session?.queueId ?? "";
+	}
+
 	/**
 	 * Open the current note in the editor
 	 */
@@ -367,17 +817,100 @@ export class SessionManager {
 			return;
 		}
 
-		const file = this.app.vault.getFileByPath(this.session.currentNotePath);
+		const { notePath, subCardId } = parseCardRef(this.session.currentNotePath);
+		const file = this.app.vault.getFileByPath(notePath);
 		if (!file) {
-			console.error("[FSRS] Note file not found:", this.session.currentNotePath);
+			console.error("[FSRS] Note file not found:", notePath);
 			// Skip to next note
 			await this.advanceToNext();
 			return;
 		}
 
-		// Open in the active leaf
-		const leaf = this.app.workspace.getLeaf(false);
-		await leaf.openFile(file);
+		// In recall mode (and for sub-cards) the note stays closed until the answer is revealed
+		if (this.session.answerRevealed) {
+			const leaf = this.app.workspace.getLeaf(false);
+			// Scroll block sub-cards into view
+			const eState = subCardId?.startsWith("^") ? { subpath: `#${subCardId}` } : undefined;
+			await leaf.openFile(file, eState ? { eState } : undefined);
+		}
+
+		// Time the note from here until it is rated
+		this.timer.start(this.session.currentNotePath);
+		this.updateAttention();
+	}
+
+	// ============================================================================
+	// Recall Mode
+	// ============================================================================
+
+	/**
+	 * Check if a queue hides notes until the answer is revealed
+	 */
+	private isRecallQueue(queueId: string): boolean {
+		return this.queueManager.getQueue(queueId)?.recall?.enabled ?? false;
+	}
+
+	/**
+	 * Check if an item starts with its answer hidden: every item in a recall
+	 * queue, and sub-cards, whose cloze must stay masked while asked
+	 */
+	private hidesAnswer(queueId: string, ref: string): boolean {
+		return this.isRecallQueue(queueId) || parseCardRef(ref).subCardId !== undefined;
+	}
+
+	/**
+	 * Check if the current session uses recall mode
+	 */
+	isRecallMode(): boolean {
+		return this.session !== null && this.isRecallQueue(this.session.queueId);
+	}
+
+	/**
+	 * Check if the current note can be rated (its answer has been seen)
+	 */
+	canRate(): boolean {
+		return this.session?.answerRevealed ?? false;
+	}
+
+	/**
+	 * Get the prompt shown for the current item: the masked cloze or block
+	 * for sub-cards, otherwise the recall-mode prompt
+	 */
+	getRecallPrompt(): string | null {
+		if (!this.session) {
+			return null;
+		}
+
+		const file = this.app.vault.getFileByPath(parseCardRef(this.session.currentNotePath).notePath);
+		if (!file) {
+			return null;
+		}
+
+		const subCard = this.cardManager.getSubCard(this.session.currentNotePath);
+		if (subCard) {
+			return maskSubCard(subCard, file.basename);
+		}
+
+		const config = this.queueManager.getQueue(this.session.queueId)?.recall;
+		if (!config?.enabled) {
+			return null;
+		}
+
+		return resolveRecallPrompt(this.app.metadataCache, file, config);
+	}
+
+	/**
+	 * Reveal the hidden note so it can be rated
+	 */
+	async revealAnswer(): Promise<boolean> {
+		if (!this.session || this.session.answerRevealed) {
+			return false;
+		}
+
+		this.session.answerRevealed = true;
+		await this.openCurrentNote();
+		this.notifyStateChange();
+		return true;
 	}
 
 	// ============================================================================
@@ -388,7 +921,8 @@ export class SessionManager {
 	 * Check if the currently open file matches the expected session note
 	 */
 	isCurrentNoteExpected(): boolean {
-		if (!this.session) {
+		// A hidden answer has no note to be on
+		if (!this.session || !this.session.answerRevealed) {
 			return true;
 		}
 
@@ -397,14 +931,14 @@ export class SessionManager {
 			return false;
 		}
 
-		return activeFile.path === this.session.currentNotePath;
+		return activeFile.path === parseCardRef(this.session.currentNotePath).notePath;
 	}
 
 	/**
-	 * Get the expected note path
+	 * Get the expected note path (the note holding the current sub-card, if any)
 	 */
 	getExpectedNotePath(): string | null {
-		return this.session?.currentNotePath ?? null;
+		return this.session ? parseCardRef(this.session.currentNotePath).notePath : null;
 	}
 
 	/**
@@ -500,6 +1034,17 @@ export class SessionManager {
 			reviewQueue: this.session.reviewQueue,
 			startedAt: this.session.startedAt.toISOString(),
 		};
+		if (this.session.cram) {
+			persisted.cram = this.session.cram;
+		}
+		if (this.session.reviewAheadDays !== undefined) {
+			persisted.reviewAheadDays = this.session.reviewAheadDays;
+		}
+		if (this.session.itemQueueIds) {
+			persisted.queueIds = this.session.queueIds;
+			persisted.itemQueueIds = this.session.itemQueueIds;
+			persisted.interleave = this.session.interleave;
+		}
 
 		try {
 			const adapter = this.app.vault.adapter;
@@ -551,32 +1096,27 @@ export class SessionManager {
 
 			const p = persisted as PersistedSession;
 
-			// Validate the queue still exists
-			const queue = this.queueManager.getQueue(p.queueId);
-			if (!queue) {
-				await this.clearPersistedSession();
-				return false;
-			}
-
-			// Validate review queue paths still have cards
-			const validPaths = p.reviewQueue.filter(
-				(path) => this.cardManager.getCard(path) !== undefined
-			);
+			// Validate review queue paths still have cards, in queues that still exist
+			const items = p.reviewQueue
+				.map((ref, i) => ({ ref, queueId: p.itemQueueIds?.[i] ?? p.queueId }))
+				.filter((item) => this.queueManager.getQueue(item.queueId) && this.cardManager.hasCardRef(item.ref));
+			const validPaths = items.map((item) => item.ref);
 
 			if (validPaths.length === 0 || p.currentIndex >= validPaths.length) {
 				await this.clearPersistedSession();
 				return false;
 			}
 
-			const currentPath = validPaths[p.currentIndex];
-			if (!currentPath) {
+			const current = items[p.currentIndex];
+			if (!current) {
 				await this.clearPersistedSession();
 				return false;
 			}
+			const currentPath = current.ref;
 
 			// Rebuild session state
 			this.session = {
-				queueId: p.queueId,
+				queueId: current.queueId,
 				sessionId: p.sessionId,
 				currentIndex: p.currentIndex,
 				totalNotes: validPaths.length,
@@ -586,7 +1126,21 @@ export class SessionManager {
 				startedAt: new Date(p.startedAt),
 				reviewQueue: validPaths,
 				history: [], // History is not persisted — undo not available after resume
+				answerRevealed: !this.hidesAnswer(current.queueId, currentPath),
 			};
+			if (p.cram) {
+				this.session.cram = p.cram;
+			}
+			if (p.reviewAheadDays !== undefined) {
+				this.session.reviewAheadDays = p.reviewAheadDays;
+			}
+			if (p.itemQueueIds) {
+				this.session.queueIds = (p.queueIds ?? []).filter((queueId) => this.queueManager.getQueue(queueId));
+				this.session.itemQueueIds = items.map((item) => item.queueId);
+				this.session.interleave = p.interleave ?? "round-robin";
+			}
+			this.timer.start(currentPath);
+			this.updateAttention();
 
 			this.notifyStateChange();
 			new Notice(
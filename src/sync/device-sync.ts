@@ -0,0 +1,74 @@
+/**
+ * DeviceSync - Bring in plugin data saved on other devices
+ * DataStore merges settings, queues, cards and reviews; schedules both
+ * devices changed, or missing reviews in the log, are rebuilt here by
+ * replaying the merged review log.
+ */
+
+import type { CardManager } from "../fsrs/card-manager";
+import type { DataStore } from "../data/data-store";
+import type { ReviewLog, SyncReport } from "../types";
+import { makeCardRef } from "../fsrs/sub-cards";
+import { replaySchedule } from "../fsrs/replay";
+
+/**
+ * DeviceSync merges other devices' changes and rebuilds schedules
+ */
+export class DeviceSync {
+	private dataStore: DataStore;
+	private cardManager: CardManager;
+
+	constructor(dataStore: DataStore, cardManager: CardManager) {
+		this.dataStore = dataStore;
+		this.cardManager = cardManager;
+	}
+
+	/**
+	 * Merge changes saved on other devices and rebuild the schedules the
+	 * merge could not settle. Returns what changed, or null if nothing did.
+	 */
+	async check(): Promise<SyncReport | null> {
+		await this.dataStore.mergeExternalChanges();
+		const taken = this.dataStore.takeSyncReport();
+		if (!taken) {
+			return null;
+		}
+
+		const { report, replays } = taken;
+		if (replays.length === 0) {
+			return report;
+		}
+
+		const byRef = new Map<string, ReviewLog[]>();
+		for (const review of await this.dataStore.loadAllReviews()) {
+			const ref = makeCardRef(review.cardPath, review.subCardId);
+			const reviews = byRef.get(ref);
+			if (reviews) {
+				reviews.push(review);
+			} else {
+				byRef.set(ref, [review]);
+			}
+		}
+
+		for (const { ref, queueId } of replays) {
+			const current = this.cardManager.getSchedule(ref, queueId);
+			if (!current) continue;
+
+			const scheduler = this.cardManager.schedulerFor(queueId);
+			const rebuilt = replaySchedule(scheduler, queueId, byRef.get(ref) ?? [], current.addedToQueueAt);
+			if (!rebuilt) {
+				// The log does not reach back far enough: keep this device's schedule
+				report.conflicts.push({ area: "card", key: ref });
+				continue;
+			}
+
+			if (current.buriedUntil) {
+				rebuilt.buriedUntil = current.buriedUntil;
+			}
+			this.cardManager.setSchedule(ref, queueId, rebuilt);
+			report.schedulesRebuilt++;
+		}
+
+		return report;
+	}
+}
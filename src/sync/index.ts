@@ -5,3 +5,4 @@
 export { NoteWatcher } from "./note-watcher";
 export { OrphanDetector } from "./orphan-detector";
 export type { OrphanMatch } from "./orphan-detector";
+export { DeviceSync } from "./device-sync";
@@ -11,6 +11,7 @@ import type { DataStore } from "../data/data-store";
 import type { QueueManager } from "../queues/queue-manager";
 import type { OrphanRecord } from "../types";
 import { generateId } from "../utils/id-generator";
+import { extractSubCards } from "../fsrs/sub-cards";
 import { nowISO } from "../utils/date-utils";
 import { NOTICE_DURATION_MS } from "../constants";
 
@@ -55,10 +56,18 @@ export class NoteWatcher {
 			})
 		);
 
-		// Handle metadata changes (tag edits, frontmatter updates)
+		// Handle metadata changes (tag edits, frontmatter updates, content edits)
 		plugin.registerEvent(
-			this.app.metadataCache.on("changed", (file) => {
+			this.app.metadataCache.on("changed", (file, data) => {
 				this.handleMetadataChange(file);
+				this.syncSubCards(file, data);
+			})
+		);
+
+		// Extract sub-cards for notes a queue sync starts tracking
+		plugin.register(
+			this.queueManager.onCardsCreated((notePaths) => {
+				void this.syncCreatedCards(notePaths);
 			})
 		);
 	}
@@ -110,6 +119,55 @@ export class NoteWatcher {
 		}
 	}
 
+	/**
+	 * Re-extract a note's clozes, highlights and block sub-cards from its content
+	 */
+	syncSubCards(file: TFile, content: string): boolean {
+		if (!file.path.endsWith(".md")) {
+			return false;
+		}
+
+		return this.cardManager.syncSubCards(file.path, extractSubCards(content));
+	}
+
+	/**
+	 * Sync sub-cards for every tracked note (call on startup)
+	 * Returns the number of notes whose sub-cards changed
+	 */
+	async syncAllSubCards(): Promise<number> {
+		let changed = 0;
+		for (const card of Object.values(this.dataStore.getCards())) {
+			const file = this.app.vault.getFileByPath(card.notePath);
+			if (!file) continue;
+			const content = await this.app.vault.cachedRead(file);
+			if (this.syncSubCards(file, content)) {
+				changed++;
+			}
+		}
+		return changed;
+	}
+
+	/**
+	 * Extract sub-cards for notes that just got a card
+	 */
+	private async syncCreatedCards(notePaths: string[]): Promise<void> {
+		const queueIds = new Set<string>();
+		for (const notePath of notePaths) {
+			const file = this.app.vault.getFileByPath(notePath);
+			if (!file) continue;
+			const content = await this.app.vault.cachedRead(file);
+			if (this.syncSubCards(file, content)) {
+				for (const queueId of Object.keys(this.cardManager.getCard(notePath)?.schedules ?? {})) {
+					queueIds.add(queueId);
+				}
+			}
+		}
+
+		for (const queueId of queueIds) {
+			this.queueManager.updateQueueStats(queueId);
+		}
+	}
+
 	/**
 	 * Handle file rename event
 	 */
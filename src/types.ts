@@ -26,7 +26,9 @@ export interface BackupEntry {
 }
 
 /**
- * Root data structure persisted in data.json
+ * All plugin data, as held in memory. On disk it is split: data.json holds
+ * the version and settings, cards.json the queues, cards and orphans, and
+ * reviews go to the monthly review log.
  */
 export interface PluginData {
 	/** Schema version for migrations */
@@ -43,6 +45,59 @@ export interface PluginData {
 	orphans: OrphanRecord[];
 	/** Last N backups for recovery (optional, managed by BackupManager) */
 	backups?: BackupEntry[];
+	/** Saves made by each device, to notice changes synced in from another one */
+	writes?: WriteCounters;
+}
+
+/**
+ * Contents of data.json
+ */
+export type PluginDataFile = Pick<PluginData, "version" | "settings" | "writes">;
+
+/**
+ * Contents of cards.json
+ */
+export type CardStateFile = Pick<PluginData, "queues" | "cards" | "orphans" | "writes">;
+
+/**
+ * Number of saves per device (device ID → count). Both data files carry
+ * the counters, so a file another device wrote has counters this device
+ * has not seen.
+ */
+export type WriteCounters = Record<string, number>;
+
+/**
+ * A value two devices changed in different ways. This device's version is
+ * kept; for a schedule, only when its history is too short to replay.
+ */
+export interface SyncConflict {
+	/** What the value belongs to */
+	area: "setting" | "queue" | "card" | "orphan";
+	/** Setting key, queue name and field, card reference or orphaned note path */
+	key: string;
+}
+
+/**
+ * What merging changes from other devices did
+ */
+export interface SyncReport {
+	/** ISO timestamp of the merge */
+	mergedAt: string;
+	/** Reviews logged on other devices that were not in memory */
+	reviewsAdded: number;
+	/** Schedules rebuilt by replaying the merged review log */
+	schedulesRebuilt: number;
+	/** Values both devices changed */
+	conflicts: SyncConflict[];
+}
+
+/**
+ * A note or sub-card's schedule in one queue
+ */
+export interface ScheduleRef {
+	/** Note path, or note path and sub-card ID (see makeCardRef) */
+	ref: string;
+	queueId: string;
 }
 
 /**
@@ -68,6 +123,8 @@ export interface PluginSettings {
 	// Review
 	/** How to order review queue */
 	queueOrder: QueueOrderStrategy;
+	/** With prerequisites-first order, move notes built on a note rated Again to the end of the session */
+	demoteDependentsOnLapse: boolean;
 	/** New cards per day (used by mixed-anki) */
 	newCardsPerDay: number;
 	/** Max reviews per day (used by mixed-anki and load-balancing) */
@@ -79,6 +136,20 @@ export interface PluginSettings {
 	/** Show session statistics */
 	showSessionStats: boolean;
 
+	// Workload
+	/** Move new due dates to the least loaded day within the fuzz range */
+	loadBalancing: boolean;
+	/** Weekdays (0 = Sunday) that take a reduced share of reviews */
+	lightDays: number[];
+	/** Share of a normal day's reviews a light day takes (0–1) */
+	lightDayShare: number;
+
+	// Review history
+	/** Months after which reviews move to compressed archive files (0 = never) */
+	archiveAfterMonths: number;
+	/** Years after which archived reviews are deleted (0 = keep forever) */
+	archiveRetentionYears: number;
+
 	// UI
 	/** Left or Right sidebar */
 	sidebarPosition: SidebarPosition;
@@ -98,7 +169,8 @@ export type QueueOrderStrategy =
 	| "load-balancing"
 	| "random"
 	| "difficulty-desc"
-	| "difficulty-asc";
+	| "difficulty-asc"
+	| "prerequisites-first";
 
 /**
  * FSRS algorithm parameters
@@ -110,6 +182,8 @@ export interface FSRSParams {
 	maximumInterval: number;
 	/** Add randomness to intervals */
 	enableFuzz: boolean;
+	/** Optimized FSRS weight vector (uses ts-fsrs defaults when omitted) */
+	weights?: number[];
 }
 
 /**
@@ -144,6 +218,93 @@ export interface Queue {
 	criteria: SelectionCriteria;
 	/** Cached statistics */
 	stats: QueueStats;
+	/** Overrides of the global FSRS parameters for this queue */
+	fsrsParams?: Partial<FSRSParams>;
+	/** Active-recall mode: show a prompt and hide the note until revealed */
+	recall?: RecallConfig;
+	/** Plan for working through an overdue backlog */
+	backlog?: BacklogPlan;
+	/** What to do when a note keeps being forgotten */
+	leech?: LeechConfig;
+	/** Keep linked notes and sub-cards of the same note apart in a session */
+	siblings?: SiblingConfig;
+	/** Most notes to review from this queue per day */
+	dailyLimit?: number;
+}
+
+/**
+ * Plan for clearing an overdue backlog a share at a time
+ */
+export interface BacklogPlan {
+	/** ISO date string of the day the plan started */
+	startedAt: string;
+	/** Days to spread the backlog over */
+	days: number;
+	/** Overdue notes to clear (grows if more notes fall overdue) */
+	total: number;
+	/** Today's share, fixed by the day's first queue stats update */
+	today?: {
+		/** Local YYYY-MM-DD date */
+		date: string;
+		/** Overdue notes at the start of the day */
+		overdue: number;
+		/** Backlog notes to review today */
+		quota: number;
+	};
+}
+
+/** Where the recall prompt comes from */
+export type RecallPromptSource = "title" | "property" | "heading";
+
+/**
+ * Per-queue active-recall settings
+ */
+export interface RecallConfig {
+	enabled: boolean;
+	/** What to show before the answer is revealed */
+	promptSource: RecallPromptSource;
+	/** Frontmatter property holding the prompt (property source) */
+	property?: string;
+}
+
+/** What happens to a note that becomes a leech */
+export type LeechAction = "tag" | "suspend" | "move";
+
+/**
+ * Per-queue leech detection settings
+ */
+export interface LeechConfig {
+	enabled: boolean;
+	/** Lapses at which a note becomes a leech */
+	threshold: number;
+	action: LeechAction;
+}
+
+/**
+ * A leech action taken after a rating, kept so undoing the rating can revert it
+ */
+export interface LeechOutcome {
+	action: LeechAction;
+	/** Log entry of the suspension in the rated note's queue */
+	suspendLogId?: string;
+	/** Whether the leech tag was added (it was not on the note already) */
+	tagged: boolean;
+	/** Queue the note was moved to */
+	leechQueueId?: string;
+	/** The note's schedule in that queue before the move, if it had one */
+	leechQueueSchedule?: CardSchedule;
+}
+
+/** What happens to a rated note's siblings still to come in the session */
+export type SiblingAction = "delay" | "bury";
+
+/**
+ * Per-queue sibling separation settings
+ */
+export interface SiblingConfig {
+	enabled: boolean;
+	/** Push siblings to the end of the session, or bury them until tomorrow */
+	action: SiblingAction;
 }
 
 /**
@@ -158,20 +319,117 @@ export interface SelectionCriteria {
 	tags?: string[];
 	/** Custom criteria configurations (future extensibility) */
 	customCriteria?: CriterionConfig[];
+	/** Query text (query mode), e.g. `FROM "Zettel" AND #permanent WHERE status != "draft"` */
+	query?: string;
 }
 
-export type SelectionCriteriaType = "folder" | "tag" | "custom";
+export type SelectionCriteriaType = "folder" | "tag" | "custom" | "query";
 
 /**
- * Configuration for a custom criterion (future extensibility)
+ * Serialized custom criterion: a predicate or an AND/OR/NOT group.
+ * Top-level entries of `customCriteria` are combined with AND.
  */
 export interface CriterionConfig {
-	/** Criterion type identifier */
+	/** Criterion type identifier (see CustomCriterionType) */
 	type: string;
 	/** Criterion-specific parameters */
 	params: Record<string, unknown>;
 }
 
+export type CustomCriterionType =
+	| "and"
+	| "or"
+	| "not"
+	| "folder"
+	| "tag"
+	| "property"
+	| "filename"
+	| "link-count"
+	| "file-age";
+
+/** Params for "and"/"or" groups */
+export interface GroupCriterionParams {
+	children: CriterionConfig[];
+}
+
+/** Params for "not" groups */
+export interface NotCriterionParams {
+	child: CriterionConfig;
+}
+
+/** Params for "folder" predicates */
+export interface FolderCriterionParams {
+	folders: string[];
+}
+
+/** Params for "tag" predicates */
+export interface TagCriterionParams {
+	tags: string[];
+}
+
+export type PropertyOperator =
+	| "equals"
+	| "not-equals"
+	| "contains"
+	| "exists"
+	| "not-exists"
+	| "gt"
+	| "gte"
+	| "lt"
+	| "lte";
+
+/** Params for "property" predicates */
+export interface PropertyCriterionParams {
+	key: string;
+	operator: PropertyOperator;
+	value?: string;
+}
+
+/** Params for "filename" predicates */
+export interface FilenameCriterionParams {
+	pattern: string;
+	syntax: "glob" | "regex";
+	/** Match against the note name (without extension) or the full path */
+	target: "name" | "path";
+}
+
+export type ComparisonOperator = "eq" | "gt" | "gte" | "lt" | "lte";
+
+/** Params for "link-count" predicates */
+export interface LinkCountCriterionParams {
+	direction: "outgoing" | "incoming";
+	operator: ComparisonOperator;
+	value: number;
+}
+
+/** Params for "file-age" predicates */
+export interface FileAgeCriterionParams {
+	field: "ctime" | "mtime";
+	/** older-than/newer-than take days; before/after take an ISO date */
+	operator: "older-than" | "newer-than" | "before" | "after";
+	value: number | string;
+}
+
+/**
+ * Syntax error in a queue query; offsets index into the query text
+ */
+export interface QuerySyntaxError {
+	message: string;
+	/** Offset of the first offending character */
+	start: number;
+	/** Offset just past the offending text */
+	end: number;
+}
+
+/**
+ * Result of parsing a queue query
+ */
+export interface QueryParseResult {
+	/** Compiled criterion tree (null when the query has errors) */
+	criterion: CriterionConfig | null;
+	errors: QuerySyntaxError[];
+}
+
 /**
  * Queue statistics (cached for performance)
  */
@@ -184,6 +442,8 @@ export interface QueueStats {
 	dueNotes: number;
 	/** Notes reviewed today */
 	reviewedToday: number;
+	/** Suspended notes (not counted as new or due) */
+	suspendedNotes: number;
 	/** ISO date string of last update */
 	lastUpdated: string;
 }
@@ -206,6 +466,29 @@ export interface CardData {
 	createdAt: string;
 	/** Note's last modification ISO date string */
 	lastModified: string;
+	/** Clozes, highlights and blocks scheduled separately (sub-card ID → sub-card) */
+	subCards?: Record<string, SubCard>;
+}
+
+/** Markup a sub-card comes from */
+export type SubCardKind = "highlight" | "cloze" | "block";
+
+/**
+ * A separately scheduled part of a note, addressed as `path#id`
+ * (e.g. `Zettel/Entropy.md#c1` or `Zettel/Entropy.md#^def`)
+ */
+export interface SubCard {
+	/** `c1`, `h-<hash>` or `^blockid` */
+	id: string;
+	kind: SubCardKind;
+	/** Hidden text: the cloze answer(s) or the block content */
+	text: string;
+	/** Text shown while asked: the source lines, or the heading above a block */
+	context: string;
+	/** Per-queue scheduling (Queue ID → schedule) */
+	schedules: Record<string, CardSchedule>;
+	/** ISO date string when first found */
+	createdAt: string;
 }
 
 /**
@@ -235,6 +518,10 @@ export interface CardSchedule {
 	// Additional tracking
 	/** ISO date string when added to this queue */
 	addedToQueueAt: string;
+	/** True while the note is suspended in this queue and left out of reviews */
+	suspended?: boolean;
+	/** ISO date string until which the note is buried (left out of reviews) */
+	buriedUntil?: string;
 }
 
 /** Card state enum matching FSRS State */
@@ -260,12 +547,14 @@ export interface ReviewLog {
 	id: string;
 	/** Note path */
 	cardPath: string;
+	/** Sub-card within the note, when a cloze, highlight or block was reviewed */
+	subCardId?: string;
 	/** Which queue this review was in */
 	queueId: string;
 
 	// FSRS ReviewLog fields
-	/** Rating: 1=Again, 2=Hard, 3=Good, 4=Easy */
-	rating: RatingValue;
+	/** Rating: 1=Again, 2=Hard, 3=Good, 4=Easy, or 0 for a manual schedule change */
+	rating: RatingValue | ManualRating;
 	/** State at time of review */
 	state: CardState;
 	/** Scheduled due date (ISO string) */
@@ -288,8 +577,26 @@ export interface ReviewLog {
 	sessionId: string;
 	/** True if this review was undone */
 	undone: boolean;
+	/** Active time spent on the note before rating, in ms (absent for older reviews) */
+	durationMs?: number;
+	/** What kind of rating this was (absent for scheduled reviews) */
+	kind?: ReviewKind;
 }
 
+/**
+ * Kind of log entry: a scheduled review, a cram-session drill, or a manual
+ * schedule change (moving the due date, resetting to new, forgetting or
+ * suspending). Only scheduled reviews feed scheduling statistics and
+ * parameter optimization.
+ */
+export type ReviewKind = "review" | "cram" | ManualChangeKind;
+
+/** Manual schedule changes, logged with rating 0 */
+export type ManualChangeKind = "reschedule" | "reset" | "forget" | "suspend" | "unsuspend";
+
+/** Rating recorded for manual schedule changes (FSRS "Manual") */
+export type ManualRating = 0;
+
 /** Rating value matching FSRS Rating enum values */
 export type RatingValue = 1 | 2 | 3 | 4;
 
@@ -344,13 +651,13 @@ export type OrphanResolutionAction = "relink" | "remove";
  * State of an active review session
  */
 export interface SessionState {
-	/** Queue being reviewed */
+	/** Queue being reviewed; in a multi-queue session, the current note's queue */
 	queueId: string;
 	/** Current position in review list */
 	currentIndex: number;
 	/** Total notes in this session */
 	totalNotes: number;
-	/** Path of current note */
+	/** Path of current note, or `path#id` for a sub-card */
 	currentNotePath: string;
 	/** Number of notes reviewed so far */
 	reviewed: number;
@@ -364,6 +671,143 @@ export interface SessionState {
 	reviewQueue: string[];
 	/** Stack of completed reviews for undo */
 	history: SessionHistoryEntry[];
+	/** False while a recall-mode prompt is shown and the note is still hidden */
+	answerRevealed: boolean;
+	/** Set for cram sessions, which drill notes regardless of due dates */
+	cram?: CramOptions;
+	/** Set for review-ahead sessions: notes due up to this many days after today */
+	reviewAheadDays?: number;
+	/** Set for sessions spanning several queues: the queues, in the order chosen */
+	queueIds?: string[];
+	/** Queue of each item in `reviewQueue` (multi-queue sessions) */
+	itemQueueIds?: string[];
+	/** How queues take turns (multi-queue sessions) */
+	interleave?: SessionInterleave;
+}
+
+/**
+ * How queues take turns in a multi-queue session: one note from each in
+ * turn, or spread in proportion to each queue's share of the notes
+ */
+export type SessionInterleave = "round-robin" | "weighted";
+
+/**
+ * How a session picks its notes (due notes when empty)
+ */
+export interface SessionOptions {
+	cram?: CramOptions;
+	reviewAheadDays?: number;
+}
+
+/**
+ * Notes a review-ahead session would pull forward
+ */
+export interface ReviewAheadSummary {
+	/** All notes in the session, including ones already due */
+	total: number;
+	/** Notes not due until after today */
+	early: number;
+	/** Early notes still remembered so well that reviewing them adds little */
+	lowValue: number;
+}
+
+/**
+ * Progress through a backlog plan
+ */
+export interface BacklogProgress {
+	/** Notes still overdue */
+	overdue: number;
+	/** Overdue notes the plan set out to clear */
+	total: number;
+	/** Current day of the plan (1-based) */
+	day: number;
+	days: number;
+	/** Backlog notes still to review today */
+	remainingToday: number;
+}
+
+/** Bulk due-date change: push due notes later, or pull upcoming notes earlier */
+export type RescheduleAction = "postpone" | "advance";
+
+/**
+ * How one note or sub-card would move in a bulk reschedule
+ */
+export interface RescheduleItem {
+	ref: string;
+	currentDue: string;
+	newDue: string;
+	/** Retrievability when the note would be reviewed, before and after the change */
+	retrievabilityBefore: number;
+	retrievabilityAfter: number;
+	/** Postpone: likely forgotten by the new date. Advance: an early review adds little. */
+	flagged: boolean;
+}
+
+/**
+ * Preview of a bulk postpone or advance
+ */
+export interface ReschedulePreview {
+	action: RescheduleAction;
+	queueId: string;
+	days: number;
+	items: RescheduleItem[];
+	/** Items flagged as costly (postpone) or low value (advance) */
+	flagged: number;
+	/** Mean retrievability at review time, before and after the change */
+	retentionBefore: number;
+	retentionAfter: number;
+}
+
+/**
+ * How one note or sub-card's schedule in a queue changes when rebuilt from
+ * its review history
+ */
+export interface ReplayItem {
+	ref: string;
+	queueId: string;
+	currentDue: string;
+	newDue: string;
+	/** The rebuilt schedule */
+	schedule: CardSchedule;
+}
+
+/**
+ * Preview of rebuilding schedules by replaying the review log
+ */
+export interface ReplayPreview {
+	/** Queue replayed, or undefined for all queues */
+	queueId?: string;
+	/** Weights replayed with instead of each queue's own, if any */
+	weights?: number[];
+	/** Schedules whose replayed state differs from the stored one */
+	items: ReplayItem[];
+	/** Schedules the replay leaves as they are */
+	unchanged: number;
+	/** Schedules whose history does not reach back to a new card, left as they are */
+	skipped: number;
+	/** Changed schedules falling due earlier and later */
+	earlier: number;
+	later: number;
+	/** Mean change in due date in days, positive when later */
+	meanShiftDays: number;
+}
+
+/** Order of notes in a cram session */
+export type CramOrder = "retrievability-asc" | "random";
+
+/**
+ * Options for a cram session
+ */
+export interface CramOptions {
+	/** Narrow the queue's notes to these criteria (all notes when omitted) */
+	criteria?: SelectionCriteria;
+	/** Include notes that have never been reviewed */
+	includeNew: boolean;
+	/** Apply ratings to the FSRS schedules (off: ratings are only logged) */
+	updateSchedules: boolean;
+	order: CramOrder;
+	/** Maximum notes in the session (no limit when omitted) */
+	limit?: number;
 }
 
 /**
@@ -372,12 +816,22 @@ export interface SessionState {
 export interface SessionHistoryEntry {
 	/** Note path that was reviewed */
 	notePath: string;
+	/** Queue whose schedule the rating changed */
+	queueId: string;
 	/** Rating given */
 	rating: RatingValue;
 	/** Review log ID */
 	reviewLogId: string;
 	/** Card schedule before the review (for rollback) */
 	previousSchedule: CardSchedule;
+	/** Leech action the rating led to (for rollback) */
+	leech?: LeechOutcome;
+	/** Linked notes the rating buried and took out of the session (for rollback) */
+	buried?: Array<{
+		ref: string;
+		queueId: string;
+		previousSchedule: CardSchedule;
+	}>;
 }
 
 /**
@@ -392,6 +846,11 @@ export interface PersistedSession {
 	ratings: Record<RatingValue, number>;
 	reviewQueue: string[];
 	startedAt: string; // ISO string (Date is not serializable)
+	cram?: CramOptions;
+	reviewAheadDays?: number;
+	queueIds?: string[];
+	itemQueueIds?: string[];
+	interleave?: SessionInterleave;
 }
 
 // ============================================================================
@@ -410,6 +869,16 @@ export interface SelectionCriterion {
 	evaluate(file: TFile, metadata: CachedMetadata | null): boolean;
 }
 
+/**
+ * Vault lookups needed by criteria that look beyond a single note
+ */
+export interface CriteriaContext {
+	/** Number of distinct notes linking to the given path */
+	getIncomingLinkCount(path: string): number;
+	/** Current time in milliseconds */
+	now(): number;
+}
+
 // ============================================================================
 // Sync Types
 // ============================================================================
@@ -3,8 +3,14 @@
  * Provides data processing for all dashboard visualizations
  */
 
-import type { CardData, ReviewLog, CardState } from "../../types";
-import { parseISODate, getStartOfToday, isDue, isOverdue } from "../../utils/date-utils";
+import type { CardData, CardSchedule, ReviewLog, CardState, Queue } from "../../types";
+import { parseISODate, getStartOfToday, isDue, isOverdue, formatDateKey } from "../../utils/date-utils";
+import { isScheduledReview, isRating } from "../../fsrs/review-kinds";
+import { isBuried, isHidden } from "../../fsrs/card-flags";
+import { makeCardRef } from "../../fsrs/sub-cards";
+
+export { generateForecast } from "../../fsrs/forecast";
+export type { ForecastData } from "../../fsrs/forecast";
 
 // ============================================================================
 // Types
@@ -34,12 +40,6 @@ export interface RetentionStats {
 	successfulReviews: number;
 }
 
-export interface ForecastData {
-	date: string;
-	dueCount: number;
-	newCount: number;
-}
-
 export interface StateDistribution {
 	state: CardState;
 	label: string;
@@ -71,6 +71,48 @@ export interface CardTableEntry {
 	reps: number;
 	lapses: number;
 	queueId: string;
+	suspended: boolean;
+	buried: boolean;
+}
+
+/** Which notes the note table shows */
+export type CardStatusFilter = "all" | "suspended" | "buried";
+
+export interface QueueTimeStats {
+	queueId: string;
+	name: string;
+	reviews: number;
+	totalMs: number;
+	averageMs: number;
+}
+
+export interface NoteTimeStats {
+	notePath: string;
+	reviews: number;
+	averageMs: number;
+}
+
+export interface ReviewTimeStats {
+	/** Reviews that have a recorded duration */
+	timedReviews: number;
+	totalMs: number;
+	averageMs: number;
+	perQueue: QueueTimeStats[];
+	/** Notes with the highest average time per review, slowest first */
+	slowestNotes: NoteTimeStats[];
+}
+
+export interface LeechEntry {
+	/** Note path, or `path#id` for a sub-card */
+	ref: string;
+	notePath: string;
+	queueId: string;
+	queueName: string;
+	lapses: number;
+	threshold: number;
+	suspended: boolean;
+	/** When each lapse happened (Again on a review), oldest first */
+	lapseDates: Date[];
 }
 
 // ============================================================================
@@ -118,7 +160,10 @@ export function calculateOverviewStats(
 				reviewCards++;
 			}
 
-			// Due status
+			// Due status (suspended and buried notes are not due)
+			if (isHidden(schedule)) {
+				continue;
+			}
 			if (isOverdue(dueDate)) {
 				overdue++;
 				dueToday++;
@@ -164,7 +209,7 @@ export function generateHeatmapData(
 	const reviewCounts = new Map<string, number>();
 
 	for (const review of reviews) {
-		if (review.undone) continue;
+		if (review.undone || !isRating(review)) continue;
 
 		const reviewDate = parseISODate(review.review);
 		if (reviewDate < startDate) continue;
@@ -197,10 +242,6 @@ export function generateHeatmapData(
 	return heatmapData;
 }
 
-function formatDateKey(date: Date): string {
-	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
-}
-
 function calculateHeatmapLevel(count: number, maxCount: number): 0 | 1 | 2 | 3 | 4 {
 	if (count === 0) return 0;
 	const ratio = count / maxCount;
@@ -223,10 +264,10 @@ export function calculateRetentionStats(
 	cards: Record<string, CardData>,
 	queueId?: string
 ): RetentionStats {
-	// Filter reviews for queue if specified
-	const filteredReviews = queueId
-		? reviews.filter((r) => r.queueId === queueId && !r.undone)
-		: reviews.filter((r) => !r.undone);
+	// Filter reviews for queue if specified; cram drills say nothing about retention
+	const filteredReviews = reviews.filter(
+		(r) => !r.undone && isScheduledReview(r) && (!queueId || r.queueId === queueId)
+	);
 
 	const totalReviews = filteredReviews.length;
 
@@ -272,70 +313,6 @@ export function calculateRetentionStats(
 	};
 }
 
-// ============================================================================
-// Forecast Data
-// ============================================================================
-
-/**
- * Generate 30-day forecast of due cards
- */
-export function generateForecast(
-	cards: Record<string, CardData>,
-	days: number = 30,
-	queueId?: string
-): ForecastData[] {
-	const today = getStartOfToday();
-	const forecast: ForecastData[] = [];
-
-	for (let i = 0; i < days; i++) {
-		const targetDate = new Date(today);
-		targetDate.setDate(targetDate.getDate() + i);
-		const nextDate = new Date(targetDate);
-		nextDate.setDate(nextDate.getDate() + 1);
-
-		let dueCount = 0;
-		let newCount = 0;
-
-		for (const card of Object.values(cards)) {
-			const schedules = queueId
-				? { [queueId]: card.schedules[queueId] }
-				: card.schedules;
-
-			for (const schedule of Object.values(schedules)) {
-				if (!schedule) continue;
-
-				const dueDate = parseISODate(schedule.due);
-
-				// Card is due on this day
-				if (dueDate >= targetDate && dueDate < nextDate) {
-					if (schedule.state === 0) {
-						newCount++;
-					} else {
-						dueCount++;
-					}
-				}
-
-				// For day 0, include overdue cards
-				if (i === 0 && dueDate < targetDate) {
-					if (schedule.state === 0) {
-						newCount++;
-					} else {
-						dueCount++;
-					}
-				}
-			}
-		}
-
-		forecast.push({
-			date: formatDateKey(targetDate),
-			dueCount,
-			newCount,
-		});
-	}
-
-	return forecast;
-}
-
 // ============================================================================
 // State Distribution
 // ============================================================================
@@ -438,9 +415,9 @@ export function calculateDifficultyDistribution(
  * Calculate review streak information
  */
 export function calculateStreaks(reviews: ReviewLog[]): StreakInfo {
-	// Filter out undone reviews and sort by date descending
+	// Filter out undone reviews and manual reschedules, and sort by date descending
 	const validReviews = reviews
-		.filter((r) => !r.undone)
+		.filter((r) => !r.undone && isRating(r))
 		.sort((a, b) => parseISODate(b.review).getTime() - parseISODate(a.review).getTime());
 
 	if (validReviews.length === 0) {
@@ -503,6 +480,133 @@ export function calculateStreaks(reviews: ReviewLog[]): StreakInfo {
 	};
 }
 
+// ============================================================================
+// Review Time
+// ============================================================================
+
+/**
+ * Calculate time spent per review, per queue and for the slowest notes.
+ * Reviews recorded before durations were tracked are left out.
+ */
+export function calculateReviewTimeStats(
+	reviews: ReviewLog[],
+	queues: Queue[],
+	queueId?: string,
+	slowestLimit = 10
+): ReviewTimeStats {
+	const timed = reviews.filter(
+		(r) => !r.undone && r.durationMs !== undefined && (!queueId || r.queueId === queueId)
+	);
+
+	const byQueue = new Map<string, { reviews: number; totalMs: number }>();
+	const byNote = new Map<string, { reviews: number; totalMs: number }>();
+	let totalMs = 0;
+
+	for (const review of timed) {
+		const duration = review.durationMs ?? 0;
+		totalMs += duration;
+
+		const queueTotals = byQueue.get(review.queueId) ?? { reviews: 0, totalMs: 0 };
+		queueTotals.reviews++;
+		queueTotals.totalMs += duration;
+		byQueue.set(review.queueId, queueTotals);
+
+		const noteTotals = byNote.get(review.cardPath) ?? { reviews: 0, totalMs: 0 };
+		noteTotals.reviews++;
+		noteTotals.totalMs += duration;
+		byNote.set(review.cardPath, noteTotals);
+	}
+
+	const queueNames = new Map(queues.map((q) => [q.id, q.name]));
+	const perQueue = Array.from(byQueue.entries())
+		.map(([id, totals]) => ({
+			queueId: id,
+			name: queueNames.get(id) ?? id,
+			reviews: totals.reviews,
+			totalMs: totals.totalMs,
+			averageMs: totals.totalMs / totals.reviews,
+		}))
+		.sort((a, b) => b.totalMs - a.totalMs);
+
+	const slowestNotes = Array.from(byNote.entries())
+		.map(([notePath, totals]) => ({
+			notePath,
+			reviews: totals.reviews,
+			averageMs: totals.totalMs / totals.reviews,
+		}))
+		.sort((a, b) => b.averageMs - a.averageMs)
+		.slice(0, slowestLimit);
+
+	return {
+		timedReviews: timed.length,
+		totalMs,
+		averageMs: timed.length > 0 ? totalMs / timed.length : 0,
+		perQueue,
+		slowestNotes,
+	};
+}
+
+// ============================================================================
+// Leeches
+// ============================================================================
+
+/**
+ * List notes whose lapses reached their queue's leech threshold, with the
+ * dates of their lapses, most lapses first. Queues without leech detection
+ * turned on are left out.
+ */
+export function findLeeches(
+	cards: Record<string, CardData>,
+	reviews: ReviewLog[],
+	queues: Queue[],
+	queueId?: string
+): LeechEntry[] {
+	const queuesById = new Map(queues.map((q) => [q.id, q]));
+
+	// Lapse dates per card and queue
+	const lapses = new Map<string, Date[]>();
+	for (const review of reviews) {
+		if (review.undone || !isScheduledReview(review) || review.rating !== 1 || review.state !== 2) continue;
+		const key = `${review.queueId}|${makeCardRef(review.cardPath, review.subCardId)}`;
+		const dates = lapses.get(key) ?? [];
+		dates.push(parseISODate(review.review));
+		lapses.set(key, dates);
+	}
+
+	const entries: LeechEntry[] = [];
+	const addEntry = (ref: string, notePath: string, qId: string, schedule: CardSchedule) => {
+		if (queueId && qId !== queueId) return;
+		const queue = queuesById.get(qId);
+		if (!queue?.leech?.enabled) return;
+		const { threshold } = queue.leech;
+		if (schedule.lapses < threshold) return;
+
+		entries.push({
+			ref,
+			notePath,
+			queueId: qId,
+			queueName: queue.name,
+			lapses: schedule.lapses,
+			threshold,
+			suspended: schedule.suspended === true,
+			lapseDates: (lapses.get(`${qId}|${ref}`) ?? []).sort((a, b) => a.getTime() - b.getTime()),
+		});
+	};
+
+	for (const card of Object.values(cards)) {
+		for (const [qId, schedule] of Object.entries(card.schedules)) {
+			addEntry(card.notePath, card.notePath, qId, schedule);
+		}
+		for (const [subCardId, subCard] of Object.entries(card.subCards ?? {})) {
+			for (const [qId, schedule] of Object.entries(subCard.schedules)) {
+				addEntry(makeCardRef(card.notePath, subCardId), card.notePath, qId, schedule);
+			}
+		}
+	}
+
+	return entries.sort((a, b) => b.lapses - a.lapses || a.ref.localeCompare(b.ref));
+}
+
 // ============================================================================
 // Card Table Data
 // ============================================================================
@@ -545,6 +649,8 @@ export function generateCardTableData(
 				reps: schedule.reps,
 				lapses: schedule.lapses,
 				queueId: qId,
+				suspended: schedule.suspended === true,
+				buried: isBuried(schedule),
 			});
 		}
 	}
@@ -587,16 +693,18 @@ export function sortCardTableData(
 }
 
 /**
- * Filter table entries by search query
+ * Filter table entries by search query and suspended/buried status
  */
 export function filterCardTableData(
 	entries: CardTableEntry[],
-	query: string
+	query: string,
+	status: CardStatusFilter = "all"
 ): CardTableEntry[] {
-	if (!query.trim()) return entries;
+	const byStatus = status === "all" ? entries : entries.filter((entry) => entry[status]);
+	if (!query.trim()) return byStatus;
 
 	const lowerQuery = query.toLowerCase();
-	return entries.filter(
+	return byStatus.filter(
 		(entry) =>
 			entry.noteTitle.toLowerCase().includes(lowerQuery) ||
 			entry.notePath.toLowerCase().includes(lowerQuery) ||
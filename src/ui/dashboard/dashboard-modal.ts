@@ -6,7 +6,9 @@
 import { Modal, App } from "obsidian";
 import type { DataStore } from "../../data/data-store";
 import type { QueueManager } from "../../queues/queue-manager";
+import type { ReviewLog } from "../../types";
 import { DEFAULT_FSRS_PARAMS, STATS_CACHE_TTL_MS } from "../../constants";
+import { handleError } from "../../utils/error-handler";
 
 // Import visualization components
 import {
@@ -17,6 +19,8 @@ import {
 	calculateStateDistribution,
 	calculateDifficultyDistribution,
 	calculateStreaks,
+	calculateReviewTimeStats,
+	findLeeches,
 	generateCardTableData,
 } from "./dashboard-analytics";
 import { renderOverviewCards } from "./overview-cards";
@@ -25,8 +29,13 @@ import { renderRetentionStats } from "./retention-stats";
 import { renderForecastChart } from "./forecast-chart";
 import { renderStateDistribution, renderDifficultyDistribution } from "./distribution-charts";
 import { renderStreakTracker } from "./streak-tracker";
+import { renderReviewTime } from "./review-time";
+import { renderLeechPanel } from "./leech-panel";
 import { renderNoteTable } from "./note-table";
 
+/** Callback to open bulk rescheduling; `onDone` refreshes the dashboard */
+export type DashboardRescheduleCallback = (queueId: string | undefined, onDone: () => void) => void;
+
 /**
  * Dashboard Modal for analytics and statistics
  */
@@ -34,6 +43,10 @@ export class DashboardModal extends Modal {
 	private dataStore: DataStore;
 	private queueManager: QueueManager;
 	private selectedQueueId: string | undefined = undefined;
+	private onReschedule: DashboardRescheduleCallback | undefined;
+
+	/** Reviews read from the archive, which the data store does not keep in memory */
+	private archivedReviews: ReviewLog[] = [];
 
 	/** Cached analytics results to avoid recomputation on every render */
 	private cachedResults: Map<string, { data: unknown; timestamp: number }> = new Map();
@@ -41,11 +54,13 @@ export class DashboardModal extends Modal {
 	constructor(
 		app: App,
 		dataStore: DataStore,
-		queueManager: QueueManager
+		queueManager: QueueManager,
+		onReschedule?: DashboardRescheduleCallback
 	) {
 		super(app);
 		this.dataStore = dataStore;
 		this.queueManager = queueManager;
+		this.onReschedule = onReschedule;
 	}
 
 	onOpen(): void {
@@ -60,7 +75,16 @@ export class DashboardModal extends Modal {
 		// Dashboard content
 		const dashboardContent = contentEl.createDiv({ cls: "fsrs-dashboard-content" });
 
-		this.renderDashboard(dashboardContent);
+		// Older months of the review log and the archive are read on open
+		dashboardContent.createDiv({ cls: "fsrs-dashboard-loading", text: "Loading review history…" });
+		this.dataStore
+			.loadReviews()
+			.then(() => this.dataStore.loadArchivedReviews())
+			.then((archived) => {
+				this.archivedReviews = archived;
+				this.renderDashboard(dashboardContent);
+			})
+			.catch((error) => handleError(error, { component: "DashboardModal.onOpen", notifyUser: true }));
 	}
 
 	onClose(): void {
@@ -108,6 +132,21 @@ export class DashboardModal extends Modal {
 			});
 		}
 
+		// Bulk postpone/advance
+		if (this.onReschedule) {
+			const onReschedule = this.onReschedule;
+			const rescheduleBtn = header.createEl("button", {
+				cls: "fsrs-dashboard-reschedule-btn",
+				text: "Postpone or advance",
+			});
+			rescheduleBtn.addEventListener("click", () =>
+				onReschedule(this.selectedQueueId, () => {
+					this.cachedResults.clear();
+					this.refresh();
+				})
+			);
+		}
+
 		// Refresh button
 		const refreshBtn = header.createEl("button", {
 			cls: "fsrs-dashboard-refresh-btn clickable-icon",
@@ -151,7 +190,10 @@ export class DashboardModal extends Modal {
 		container.empty();
 
 		const cards = this.dataStore.getCards();
-		const reviews = this.dataStore.getReviews();
+		const reviews =
+			this.archivedReviews.length > 0
+				? [...this.archivedReviews, ...this.dataStore.getReviews()]
+				: this.dataStore.getReviews();
 		const settings = this.dataStore.getSettings();
 		const targetRetention = settings.fsrsParams?.requestRetention ?? DEFAULT_FSRS_PARAMS.requestRetention;
 
@@ -204,7 +246,21 @@ export class DashboardModal extends Modal {
 		// Forecast Chart (full width)
 		const forecastSection = container.createDiv({ cls: "fsrs-dashboard-section fsrs-dashboard-full-width" });
 		const forecastData = this.getCached("forecast", fp, () => generateForecast(cards, 30, queueId));
-		renderForecastChart(forecastSection, forecastData);
+		renderForecastChart(forecastSection, forecastData, settings);
+
+		// Review Time (full width)
+		const reviewTimeSection = container.createDiv({ cls: "fsrs-dashboard-section fsrs-dashboard-full-width" });
+		const reviewTimeStats = this.getCached("review-time", fp, () =>
+			calculateReviewTimeStats(reviews, this.queueManager.getAllQueues(), queueId)
+		);
+		renderReviewTime(reviewTimeSection, reviewTimeStats, this.app);
+
+		// Leeches (full width)
+		const leechSection = container.createDiv({ cls: "fsrs-dashboard-section fsrs-dashboard-full-width" });
+		const leeches = this.getCached("leeches", fp, () =>
+			findLeeches(cards, reviews, this.queueManager.getAllQueues(), queueId)
+		);
+		renderLeechPanel(leechSection, leeches, this.app);
 
 		// Notes Table (full width — not cached since it's cheap and user may want fresh sort)
 		const tableSection = container.createDiv({ cls: "fsrs-dashboard-section fsrs-dashboard-full-width" });
@@ -4,16 +4,24 @@
  */
 
 import type { ForecastData } from "./dashboard-analytics";
+import type { PluginSettings } from "../../types";
+
+/** Workload settings shown on the chart */
+export type ForecastWorkload = Pick<PluginSettings, "loadBalancing" | "lightDays">;
 
 /**
- * Render 30-day forecast chart
+ * Render 30-day forecast chart, marking light days when load balancing is on
  */
-export function renderForecastChart(container: HTMLElement, data: ForecastData[]): void {
+export function renderForecastChart(container: HTMLElement, data: ForecastData[], workload?: ForecastWorkload): void {
 	container.empty();
 	container.addClass("fsrs-forecast-container");
 
 	const header = container.createDiv({ cls: "fsrs-forecast-header" });
 	header.createSpan({ text: "30-Day Forecast", cls: "fsrs-section-title" });
+	if (workload?.loadBalancing) {
+		header.createSpan({ text: "Load balanced", cls: "fsrs-forecast-balanced-badge" });
+	}
+	const lightDays = workload?.loadBalancing ? workload.lightDays : [];
 
 	// Calculate max for scaling
 	const maxValue = Math.max(1, ...data.map((d) => d.dueCount + d.newCount));
@@ -35,6 +43,10 @@ export function renderForecastChart(container: HTMLElement, data: ForecastData[]
 		const heightPercent = (totalValue / maxValue) * 100;
 
 		const barWrapper = barsContainer.createDiv({ cls: "fsrs-forecast-bar-wrapper" });
+		const isLightDay = lightDays.includes(parseDateKey(item.date).getDay());
+		if (isLightDay) {
+			barWrapper.addClass("fsrs-forecast-light-day");
+		}
 
 		// Stacked bar
 		const bar = barWrapper.createDiv({ cls: "fsrs-forecast-bar" });
@@ -58,7 +70,7 @@ export function renderForecastChart(container: HTMLElement, data: ForecastData[]
 
 		// Tooltip
 		const tooltip = getDateLabel(item.date, i);
-		bar.title = `${tooltip}: ${item.dueCount} due, ${item.newCount} new`;
+		bar.title = `${tooltip}: ${item.dueCount} due, ${item.newCount} new${isLightDay ? " (light day)" : ""}`;
 		bar.setAttribute("aria-label", bar.title);
 
 		// X-axis label for certain days
@@ -80,17 +92,34 @@ export function renderForecastChart(container: HTMLElement, data: ForecastData[]
 	newLegend.createDiv({ cls: "fsrs-forecast-legend-color fsrs-forecast-bar-new" });
 	newLegend.createSpan({ text: "New" });
 
+	if (lightDays.length > 0) {
+		const lightLegend = legend.createDiv({ cls: "fsrs-forecast-legend-item" });
+		lightLegend.createDiv({ cls: "fsrs-forecast-legend-color fsrs-forecast-light-day" });
+		lightLegend.createSpan({ text: "Light day" });
+	}
+
 	// Summary
 	const totalDue = data.reduce((sum, d) => sum + d.dueCount, 0);
 	const totalNew = data.reduce((sum, d) => sum + d.newCount, 0);
 
+	const peakDue = Math.max(0, ...data.map((d) => d.dueCount));
+	const averageDue = data.length > 0 ? Math.round(totalDue / data.length) : 0;
+
 	const summary = container.createDiv({ cls: "fsrs-forecast-summary" });
 	summary.createSpan({
-		text: `Total: ${totalDue + totalNew} cards (${totalDue} reviews, ${totalNew} new)`,
+		text: `Total: ${totalDue + totalNew} cards (${totalDue} reviews, ${totalNew} new) · ${averageDue} reviews/day on average, ${peakDue} at peak`,
 		cls: "fsrs-forecast-summary-text",
 	});
 }
 
+/**
+ * Parse a YYYY-MM-DD key as a local date
+ */
+function parseDateKey(dateStr: string): Date {
+	const [year = 0, month = 1, day = 1] = dateStr.split("-").map(Number);
+	return new Date(year, month - 1, day);
+}
+
 function getDateLabel(dateStr: string, index: number): string {
 	if (index === 0) return "Today";
 	if (index === 1) return "Tomorrow";
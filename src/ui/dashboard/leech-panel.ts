@@ -0,0 +1,75 @@
+/**
+ * Leech Panel - Notes that keep being forgotten, with their lapse history
+ */
+
+import type { App } from "obsidian";
+import type { LeechEntry } from "./dashboard-analytics";
+import { parseCardRef } from "../../fsrs/sub-cards";
+import { formatDateKey } from "../../utils/date-utils";
+
+/** Most recent lapse dates shown per note */
+const MAX_LAPSE_DATES = 5;
+
+/**
+ * Render the list of leeches
+ */
+export function renderLeechPanel(container: HTMLElement, leeches: LeechEntry[], app: App): void {
+	container.empty();
+	container.addClass("fsrs-leech-container");
+
+	const header = container.createDiv({ cls: "fsrs-leech-header" });
+	header.createSpan({ text: "Leeches", cls: "fsrs-section-title" });
+	if (leeches.length > 0) {
+		header.createSpan({ cls: "fsrs-leech-count", text: String(leeches.length) });
+	}
+
+	if (leeches.length === 0) {
+		container.createDiv({
+			cls: "fsrs-leech-empty",
+			text: "No leeches. Notes forgotten again and again show up here so they can be rewritten.",
+		});
+		return;
+	}
+
+	const list = container.createDiv({ cls: "fsrs-leech-list" });
+	for (const leech of leeches) {
+		const row = list.createDiv({ cls: "fsrs-leech-row" });
+
+		const { subCardId } = parseCardRef(leech.ref);
+		const title = leech.notePath.split("/").pop()?.replace(/\.md$/, "") ?? leech.notePath;
+		const link = row.createEl("a", {
+			cls: "fsrs-leech-name fsrs-table-note-link",
+			text: subCardId ? `${title} › ${subCardId}` : title,
+			attr: { href: "#", "aria-label": leech.notePath },
+		});
+		link.addEventListener("click", (e) => {
+			e.preventDefault();
+			const file = app.vault.getFileByPath(leech.notePath);
+			if (file) {
+				void app.workspace.getLeaf(false).openFile(file);
+			}
+		});
+
+		row.createSpan({ cls: "fsrs-leech-queue", text: leech.queueName });
+		row.createSpan({
+			cls: "fsrs-leech-lapses",
+			text: `${leech.lapses} lapses`,
+			attr: { "aria-label": `Leech threshold: ${leech.threshold}` },
+		});
+		if (leech.suspended) {
+			row.createSpan({ cls: "fsrs-state-badge fsrs-flag-badge", text: "Suspended" });
+		}
+
+		// Lapse history; older entries may predate review logging or be trimmed
+		const dates = leech.lapseDates.map((date) => formatDateKey(date));
+		const shown = dates.slice(-MAX_LAPSE_DATES);
+		row.createSpan({
+			cls: "fsrs-leech-history",
+			text:
+				dates.length === 0
+					? "No logged lapses"
+					: `${dates.length > shown.length ? "… " : ""}${shown.join(", ")}`,
+			attr: dates.length > 0 ? { "aria-label": dates.join(", ") } : {},
+		});
+	}
+}
@@ -3,7 +3,7 @@
  */
 
 import type { App } from "obsidian";
-import type { CardTableEntry } from "./dashboard-analytics";
+import type { CardStatusFilter, CardTableEntry } from "./dashboard-analytics";
 import { sortCardTableData, filterCardTableData } from "./dashboard-analytics";
 
 type SortColumn = keyof CardTableEntry;
@@ -13,6 +13,7 @@ interface TableState {
 	sortColumn: SortColumn;
 	sortDirection: SortDirection;
 	filterQuery: string;
+	status: CardStatusFilter;
 	page: number;
 	pageSize: number;
 }
@@ -33,6 +34,7 @@ export function renderNoteTable(
 		sortColumn: "due",
 		sortDirection: "asc",
 		filterQuery: "",
+		status: "all",
 		page: 0,
 		pageSize: 25,
 	};
@@ -56,6 +58,21 @@ export function renderNoteTable(
 		renderTableContent();
 	});
 
+	// Status filter: all notes, or only suspended or buried ones
+	const statusSelect = header.createEl("select", {
+		cls: "fsrs-table-status-filter dropdown",
+		attr: { "aria-label": "Show suspended or buried notes" },
+	});
+	statusSelect.createEl("option", { text: "All notes", attr: { value: "all" } });
+	statusSelect.createEl("option", { text: "Suspended", attr: { value: "suspended" } });
+	statusSelect.createEl("option", { text: "Buried", attr: { value: "buried" } });
+
+	statusSelect.addEventListener("change", () => {
+		state.status = statusSelect.value as CardStatusFilter;
+		state.page = 0;
+		renderTableContent();
+	});
+
 	// Table wrapper for horizontal scroll
 	const tableWrapper = container.createDiv({ cls: "fsrs-table-wrapper" });
 
@@ -116,7 +133,7 @@ export function renderNoteTable(
 		tbody.empty();
 
 		// Filter and sort
-		let filteredData = filterCardTableData(data, state.filterQuery);
+		let filteredData = filterCardTableData(data, state.filterQuery, state.status);
 		filteredData = sortCardTableData(filteredData, state.sortColumn, state.sortDirection === "asc");
 
 		// Calculate pagination
@@ -132,7 +149,7 @@ export function renderNoteTable(
 				attr: { colspan: String(columns.length) },
 				cls: "fsrs-table-empty",
 			});
-			emptyCell.textContent = state.filterQuery
+			emptyCell.textContent = state.filterQuery || state.status !== "all"
 				? "No matching notes found"
 				: "No notes in queue";
 		} else {
@@ -160,6 +177,11 @@ export function renderNoteTable(
 					cls: `fsrs-state-badge fsrs-state-${entry.state}`,
 					text: entry.stateLabel,
 				});
+				if (entry.suspended) {
+					stateCell.createSpan({ cls: "fsrs-state-badge fsrs-flag-badge", text: "Suspended" });
+				} else if (entry.buried) {
+					stateCell.createSpan({ cls: "fsrs-state-badge fsrs-flag-badge", text: "Buried" });
+				}
 
 				// Due
 				row.createEl("td", { cls: "fsrs-table-td", text: entry.dueText });
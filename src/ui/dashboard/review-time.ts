@@ -0,0 +1,79 @@
+/**
+ * Review Time - Time spent per review, per queue and on the slowest notes
+ */
+
+import type { App } from "obsidian";
+import type { ReviewTimeStats } from "./dashboard-analytics";
+import { formatDuration } from "../../utils/date-utils";
+
+/**
+ * Render review time statistics
+ */
+export function renderReviewTime(container: HTMLElement, stats: ReviewTimeStats, app: App): void {
+	container.empty();
+	container.addClass("fsrs-review-time-container");
+
+	const header = container.createDiv({ cls: "fsrs-review-time-header" });
+	header.createSpan({ text: "Review time", cls: "fsrs-section-title" });
+
+	if (stats.timedReviews === 0) {
+		container.createDiv({
+			cls: "fsrs-review-time-empty",
+			text: "No timed reviews yet. Time is recorded for reviews made from now on.",
+		});
+		return;
+	}
+
+	// Summary
+	const summary = container.createDiv({ cls: "fsrs-review-time-summary" });
+	renderSummaryItem(summary, "Average per review", formatMs(stats.averageMs));
+	renderSummaryItem(summary, "Total", formatMs(stats.totalMs));
+	renderSummaryItem(summary, "Timed reviews", String(stats.timedReviews));
+
+	const columns = container.createDiv({ cls: "fsrs-review-time-columns" });
+
+	// Per queue
+	const queueCol = columns.createDiv({ cls: "fsrs-review-time-list" });
+	queueCol.createDiv({ cls: "fsrs-review-time-list-title", text: "By queue" });
+	for (const queue of stats.perQueue) {
+		const row = queueCol.createDiv({ cls: "fsrs-review-time-row" });
+		row.createSpan({ cls: "fsrs-review-time-name", text: queue.name });
+		row.createSpan({
+			cls: "fsrs-review-time-value",
+			text: `${formatMs(queue.averageMs)} avg · ${formatMs(queue.totalMs)} total`,
+		});
+	}
+
+	// Slowest notes
+	const notesCol = columns.createDiv({ cls: "fsrs-review-time-list" });
+	notesCol.createDiv({ cls: "fsrs-review-time-list-title", text: "Slowest notes" });
+	for (const note of stats.slowestNotes) {
+		const row = notesCol.createDiv({ cls: "fsrs-review-time-row" });
+		const link = row.createEl("a", {
+			cls: "fsrs-review-time-name fsrs-table-note-link",
+			text: note.notePath.split("/").pop()?.replace(/\.md$/, "") ?? note.notePath,
+			attr: { href: "#", "aria-label": note.notePath },
+		});
+		link.addEventListener("click", (e) => {
+			e.preventDefault();
+			const file = app.vault.getFileByPath(note.notePath);
+			if (file) {
+				void app.workspace.getLeaf(false).openFile(file);
+			}
+		});
+		row.createSpan({
+			cls: "fsrs-review-time-value",
+			text: `${formatMs(note.averageMs)} avg · ${note.reviews} ${note.reviews === 1 ? "review" : "reviews"}`,
+		});
+	}
+}
+
+function renderSummaryItem(container: HTMLElement, label: string, value: string): void {
+	const item = container.createDiv({ cls: "fsrs-review-time-item" });
+	item.createDiv({ cls: "fsrs-review-time-item-value", text: value });
+	item.createDiv({ cls: "fsrs-review-time-item-label", text: label });
+}
+
+function formatMs(ms: number): string {
+	return formatDuration(ms / 1000);
+}
@@ -14,3 +14,22 @@ export { QueueListModal, QueueEditModal, QueueSelectorModal, QueueDeleteModal }
 
 // Orphan resolution
 export { OrphanResolutionModal, OrphanListModal } from "./modals";
+
+// Parameter optimization
+export { OptimizerModal } from "./modals";
+
+// History import
+export { ImportModal } from "./modals";
+
+// Cram, review-ahead and backlog recovery
+export { CramModal, ReviewAheadModal, BacklogModal } from "./modals";
+
+// Bulk postpone and advance
+export { RescheduleModal } from "./modals";
+
+// Rebuild schedules from the review history
+export { ReplayModal } from "./modals";
+
+// Single-note reset, reschedule, forget and suspend
+export { NoteActionModal, NOTE_ACTION_LABELS } from "./modals";
+export type { NoteAction } from "./modals";
@@ -0,0 +1,117 @@
+/**
+ * Backlog Modal - Spread an overdue backlog over several days
+ * Each day gets a share of the overdue notes on top of the notes due that day
+ */
+
+import { Modal, App, Setting } from "obsidian";
+import type { ButtonComponent } from "obsidian";
+import type { QueueManager } from "../../queues/queue-manager";
+import { BACKLOG_MAX_DAYS, DEFAULT_BACKLOG_DAYS } from "../../constants";
+
+/** Callback to start backlog recovery */
+export type StartBacklogRecoveryCallback = (queueId: string, days: number) => void;
+
+/**
+ * Modal for planning backlog recovery
+ */
+export class BacklogModal extends Modal {
+	private queueManager: QueueManager;
+	private onStart: StartBacklogRecoveryCallback;
+
+	// Form state
+	private queueId: string;
+	private days = DEFAULT_BACKLOG_DAYS;
+
+	private startButton: ButtonComponent | null = null;
+
+	constructor(app: App, queueManager: QueueManager, onStart: StartBacklogRecoveryCallback, queueId?: string) {
+		super(app);
+		this.queueManager = queueManager;
+		this.onStart = onStart;
+
+		// Default to the queue with the most overdue notes
+		const queues = queueManager.getAllQueues();
+		const mostOverdue = [...queues].sort(
+			(a, b) => queueManager.getOverdueCount(b.id) - queueManager.getOverdueCount(a.id)
+		)[0];
+		this.queueId = queueId ?? mostOverdue?.id ?? "";
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-backlog-modal");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Recover from a backlog" });
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Work through overdue notes a share at a time, on top of the notes due each day. Notes about to be forgotten come first.",
+		});
+
+		new Setting(contentEl).setName("Queue").addDropdown((dropdown) => {
+			for (const queue of this.queueManager.getAllQueues()) {
+				dropdown.addOption(queue.id, queue.name);
+			}
+			dropdown.setValue(this.queueId).onChange((value) => {
+				this.queueId = value;
+				this.renderSummary();
+			});
+		});
+
+		new Setting(contentEl)
+			.setName("Spread over")
+			.setDesc("Number of days to clear the backlog in")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, BACKLOG_MAX_DAYS, 1)
+					.setValue(this.days)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						this.days = value;
+						this.renderSummary();
+					})
+			);
+
+		contentEl.createDiv({ cls: "fsrs-backlog-summary" });
+
+		new Setting(contentEl).addButton((button) => {
+			this.startButton = button;
+			button
+				.setButtonText("Start recovery")
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onStart(this.queueId, this.days);
+				});
+		});
+
+		this.renderSummary();
+	}
+
+	/**
+	 * Show the backlog size and the daily share
+	 */
+	private renderSummary(): void {
+		const summaryEl = this.contentEl.querySelector(".fsrs-backlog-summary");
+		if (!(summaryEl instanceof HTMLElement)) return;
+
+		const overdue = this.queueId ? this.queueManager.getOverdueCount(this.queueId) : 0;
+		summaryEl.textContent =
+			overdue === 0
+				? "No overdue notes in this queue."
+				: `${overdue} overdue notes, about ${Math.ceil(overdue / this.days)} a day`;
+
+		this.startButton?.setDisabled(overdue === 0);
+	}
+}
@@ -0,0 +1,193 @@
+/**
+ * Cram Modal - Choose what to drill in a cram session
+ * Cram sessions ignore due dates and leave schedules untouched by default
+ */
+
+import { Modal, App, Notice, Setting } from "obsidian";
+import type { QueueManager } from "../../queues/queue-manager";
+import type { CramOptions, CramOrder } from "../../types";
+import { formatQueryError, parseQuery } from "../../criteria/query-parser";
+import { DEFAULT_CRAM_OPTIONS, NOTICE_DURATION_MS } from "../../constants";
+
+/** Callback to start the cram session */
+export type StartCramCallback = (queueId: string, options: CramOptions) => void;
+
+/**
+ * Modal for setting up a cram session
+ */
+export class CramModal extends Modal {
+	private queueManager: QueueManager;
+	private onStart: StartCramCallback;
+
+	// Form state
+	private queueId: string;
+	private query = "";
+	private includeNew = DEFAULT_CRAM_OPTIONS.includeNew;
+	private updateSchedules = DEFAULT_CRAM_OPTIONS.updateSchedules;
+	private order: CramOrder = DEFAULT_CRAM_OPTIONS.order;
+	private limit = "";
+
+	constructor(app: App, queueManager: QueueManager, onStart: StartCramCallback) {
+		super(app);
+		this.queueManager = queueManager;
+		this.onStart = onStart;
+		this.queueId = queueManager.getAllQueues()[0]?.id ?? "";
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-cram-modal");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Start cram session" });
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Drill notes regardless of due dates. Ratings are logged as cram reviews.",
+		});
+
+		new Setting(contentEl).setName("Queue").addDropdown((dropdown) => {
+			for (const queue of this.queueManager.getAllQueues()) {
+				dropdown.addOption(queue.id, queue.name);
+			}
+			dropdown.setValue(this.queueId).onChange((value) => {
+				this.queueId = value;
+				this.updateCount();
+			});
+		});
+
+		new Setting(contentEl)
+			.setName("Only notes matching")
+			.setDesc("Optional query in the queue query language, such as a folder or tag. Leave empty to drill the whole queue.")
+			.addText((text) =>
+				text.setValue(this.query).onChange((value) => {
+					this.query = value;
+					this.updateCount();
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Include new notes")
+			.setDesc("Also drill notes that have never been reviewed")
+			.addToggle((toggle) =>
+				toggle.setValue(this.includeNew).onChange((value) => {
+					this.includeNew = value;
+					this.updateCount();
+				})
+			);
+
+		new Setting(contentEl).setName("Order").addDropdown((dropdown) =>
+			dropdown
+				.addOption("retrievability-asc", "Weakest first")
+				.addOption("random", "Random")
+				.setValue(this.order)
+				.onChange((value) => {
+					this.order = value as CramOrder;
+				})
+		);
+
+		new Setting(contentEl)
+			.setName("Maximum notes")
+			.setDesc("Leave empty for no limit")
+			.addText((text) =>
+				text.setValue(this.limit).onChange((value) => {
+					this.limit = value;
+					this.updateCount();
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Update schedules")
+			.setDesc("Apply ratings to the schedules. When off, due dates stay as they are.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.updateSchedules).onChange((value) => {
+					this.updateSchedules = value;
+				})
+			);
+
+		contentEl.createDiv({ cls: "fsrs-cram-count" });
+		this.updateCount();
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Start")
+				.setCta()
+				.setDisabled(this.queueId === "")
+				.onClick(() => this.start())
+		);
+	}
+
+	/**
+	 * Show how many notes the session would contain
+	 */
+	private updateCount(): void {
+		const countEl = this.contentEl.querySelector(".fsrs-cram-count");
+		if (!countEl) return;
+
+		const options = this.buildOptions();
+		if (typeof options === "string") {
+			countEl.textContent = options;
+			countEl.classList.add("fsrs-cram-count-error");
+			return;
+		}
+
+		const count = this.queueId ? this.queueManager.getCramNotes(this.queueId, options).length : 0;
+		countEl.textContent = `${count} ${count === 1 ? "note" : "notes"} to drill`;
+		countEl.classList.remove("fsrs-cram-count-error");
+	}
+
+	/**
+	 * Build session options from the form, or an error message
+	 */
+	private buildOptions(): CramOptions | string {
+		const options: CramOptions = {
+			includeNew: this.includeNew,
+			updateSchedules: this.updateSchedules,
+			order: this.order,
+		};
+
+		const query = this.query.trim();
+		if (query) {
+			const [firstError] = parseQuery(query).errors;
+			if (firstError) {
+				return formatQueryError(query, firstError);
+			}
+			options.criteria = { type: "query", query };
+		}
+
+		const limit = this.limit.trim();
+		if (limit) {
+			const parsed = Number(limit);
+			if (!Number.isInteger(parsed) || parsed < 1) {
+				return "Maximum notes must be a whole number above 0.";
+			}
+			options.limit = parsed;
+		}
+
+		return options;
+	}
+
+	/**
+	 * Validate the form and start the session
+	 */
+	private start(): void {
+		const options = this.buildOptions();
+		if (typeof options === "string") {
+			new Notice(options, NOTICE_DURATION_MS);
+			return;
+		}
+
+		this.close();
+		this.onStart(this.queueId, options);
+	}
+}
@@ -0,0 +1,214 @@
+/**
+ * Import Modal - Import scheduling history from other tools
+ * Shows a dry-run report before anything is written
+ */
+
+import { Modal, App, Notice, Setting } from "obsidian";
+import type { HistoryImporter, ImportPlan, ImportSource } from "../../data/history-importer";
+import type { QueueManager } from "../../queues/queue-manager";
+import { NOTICE_DURATION_MS } from "../../constants";
+import { handleError } from "../../utils/error-handler";
+
+/** Maximum unmatched/conflicting entries listed in the report */
+const MAX_REPORT_ROWS = 20;
+
+/** Conflict reasons shown to the user */
+const CONFLICT_LABELS: Record<string, string> = {
+	ambiguous: "matches several notes",
+	"existing-schedule": "already has reviews in this queue",
+	duplicate: "another card for this note is imported",
+};
+
+/**
+ * Modal for planning and applying a history import
+ */
+export class ImportModal extends Modal {
+	private importer: HistoryImporter;
+	private queueManager: QueueManager;
+	private onImported: () => void;
+
+	// Form state
+	private source: ImportSource = "spaced-repetition";
+	private queueId: string;
+	private overwrite = false;
+	private fileText: string | null = null;
+	private fileName = "";
+
+	private plan: ImportPlan | null = null;
+
+	constructor(app: App, importer: HistoryImporter, queueManager: QueueManager, onImported: () => void) {
+		super(app);
+		this.importer = importer;
+		this.queueManager = queueManager;
+		this.onImported = onImported;
+		this.queueId = queueManager.getAllQueues()[0]?.id ?? "";
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-import-modal");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Import scheduling history" });
+
+		new Setting(contentEl)
+			.setName("Source")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("spaced-repetition", "Spaced repetition plugin (frontmatter)")
+					.addOption("anki", "Anki review log (CSV or JSON)")
+					.setValue(this.source)
+					.onChange((value) => {
+						this.source = value as ImportSource;
+						this.plan = null;
+						this.render();
+					})
+			);
+
+		if (this.source === "anki") {
+			const fileSetting = new Setting(contentEl)
+				.setName("Review log file")
+				.setDesc(
+					this.fileName ||
+						"Needs card ID, review time, rating and a note column with the note path or title"
+				);
+			const input = fileSetting.controlEl.createEl("input", {
+				attr: { type: "file", accept: ".csv,.json,.txt", "aria-label": "Review log file" },
+			});
+			input.addEventListener("change", () => {
+				const file = input.files?.[0];
+				if (!file) return;
+				void file.text().then((text) => {
+					this.fileText = text;
+					this.fileName = file.name;
+					this.plan = null;
+					this.render();
+				});
+			});
+		}
+
+		new Setting(contentEl).setName("Target queue").addDropdown((dropdown) => {
+			for (const queue of this.queueManager.getAllQueues()) {
+				dropdown.addOption(queue.id, queue.name);
+			}
+			dropdown.setValue(this.queueId).onChange((value) => {
+				this.queueId = value;
+				this.plan = null;
+				this.render();
+			});
+		});
+
+		new Setting(contentEl)
+			.setName("Overwrite existing schedules")
+			.setDesc("Replace notes that already have reviews in the target queue")
+			.addToggle((toggle) =>
+				toggle.setValue(this.overwrite).onChange((value) => {
+					this.overwrite = value;
+					this.plan = null;
+					this.render();
+				})
+			);
+
+		if (this.plan) {
+			this.renderReport(contentEl, this.plan);
+		}
+
+		const canPlan = this.queueId !== "" && (this.source !== "anki" || this.fileText !== null);
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Preview")
+					.setDisabled(!canPlan)
+					.onClick(() => this.preview())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Import")
+					.setCta()
+					.setDisabled(!this.plan || this.plan.items.length === 0)
+					.onClick(() => this.apply())
+			);
+	}
+
+	/**
+	 * Render the dry-run report
+	 */
+	private renderReport(container: HTMLElement, plan: ImportPlan): void {
+		const { matched, unmatched, conflicts, errors } = plan.report;
+		const reviewCount = matched.reduce((n, m) => n + m.reviewCount, 0);
+
+		const report = container.createDiv({ cls: "fsrs-import-report" });
+		report.createDiv({
+			cls: "fsrs-import-summary",
+			text: `${matched.length} matched (${reviewCount} reviews) · ${unmatched.length} unmatched · ${conflicts.length} conflicts`,
+		});
+
+		this.renderList(report, "Errors", errors);
+		this.renderList(
+			report,
+			"Unmatched",
+			unmatched.map((u) => `${u.source}: ${u.reason}`)
+		);
+		this.renderList(
+			report,
+			"Conflicts (skipped)",
+			conflicts.map((c) => `${c.source}: ${CONFLICT_LABELS[c.reason] ?? c.reason} (${c.notePaths.join(", ")})`)
+		);
+	}
+
+	private renderList(container: HTMLElement, title: string, lines: string[]): void {
+		if (lines.length === 0) return;
+		const details = container.createEl("details", { cls: "fsrs-import-details" });
+		details.createEl("summary", { text: `${title} (${lines.length})` });
+		const list = details.createEl("ul");
+		for (const line of lines.slice(0, MAX_REPORT_ROWS)) {
+			list.createEl("li", { text: line });
+		}
+		if (lines.length > MAX_REPORT_ROWS) {
+			list.createEl("li", { text: `…and ${lines.length - MAX_REPORT_ROWS} more` });
+		}
+	}
+
+	/**
+	 * Build the dry-run plan
+	 */
+	private preview(): void {
+		try {
+			const options = { overwrite: this.overwrite };
+			this.plan =
+				this.source === "anki"
+					? this.importer.planAnki(this.fileText ?? "", this.queueId, options)
+					: this.importer.planSpacedRepetition(this.queueId, options);
+		} catch (error) {
+			handleError(error, { component: "ImportModal.preview", notifyUser: true });
+		}
+		this.render();
+	}
+
+	/**
+	 * Apply the previewed plan
+	 */
+	private apply(): void {
+		if (!this.plan) return;
+
+		try {
+			const count = this.importer.apply(this.plan);
+			new Notice(`Imported ${count} notes`, NOTICE_DURATION_MS);
+			this.onImported();
+			this.close();
+		} catch (error) {
+			handleError(error, { component: "ImportModal.apply", notifyUser: true });
+		}
+	}
+}
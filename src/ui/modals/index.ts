@@ -3,3 +3,18 @@
  */
 
 export { OrphanResolutionModal, OrphanListModal } from "./orphan-resolution-modal";
+export { OptimizerModal } from "./optimizer-modal";
+export type { ApplyWeightsCallback } from "./optimizer-modal";
+export { ImportModal } from "./import-modal";
+export { CramModal } from "./cram-modal";
+export type { StartCramCallback } from "./cram-modal";
+export { ReviewAheadModal } from "./review-ahead-modal";
+export type { StartReviewAheadCallback } from "./review-ahead-modal";
+export { BacklogModal } from "./backlog-modal";
+export type { StartBacklogRecoveryCallback } from "./backlog-modal";
+export { RescheduleModal } from "./reschedule-modal";
+export type { RescheduleAppliedCallback } from "./reschedule-modal";
+export { ReplayModal, renderReplaySummary } from "./replay-modal";
+export type { ReplayAppliedCallback } from "./replay-modal";
+export { NoteActionModal, NOTE_ACTION_LABELS } from "./note-action-modal";
+export type { NoteAction, NoteActionCallback } from "./note-action-modal";
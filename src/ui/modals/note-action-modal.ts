@@ -0,0 +1,226 @@
+/**
+ * Note Action Modal - Reset, reschedule, forget, suspend or bury a single note
+ * Shows the note's current schedule in the chosen queue before applying
+ */
+
+import { Modal, App, Setting } from "obsidian";
+import type { ButtonComponent } from "obsidian";
+import type { QueueManager } from "../../queues/queue-manager";
+import type { CardManager } from "../../fsrs/card-manager";
+import { CardStateLabels } from "../../types";
+import { isBuried } from "../../fsrs/card-flags";
+import { formatDateKey, formatRelativeDate, parseDateKey, parseISODate } from "../../utils/date-utils";
+
+/** Manual actions on a single note */
+export type NoteAction = "reset" | "set-due" | "forget" | "suspend" | "unsuspend" | "bury";
+
+/** Callback after the action is applied */
+export type NoteActionCallback = (queueId: string) => void;
+
+/** Title, description and button label per action */
+export const NOTE_ACTION_LABELS: Record<NoteAction, { title: string; desc: string; button: string }> = {
+	reset: {
+		title: "Reset to new",
+		desc: "Discard the note's memory state in this queue. It is shown again as a new note.",
+		button: "Reset",
+	},
+	"set-due": {
+		title: "Set due date",
+		desc: "Review the note on a chosen day. Its next interval still counts from the last review.",
+		button: "Set due date",
+	},
+	forget: {
+		title: "Forget",
+		desc: "Mark the note as forgotten: it is due now and relearned from low stability.",
+		button: "Forget",
+	},
+	suspend: {
+		title: "Suspend",
+		desc: "Leave the note out of reviews in this queue until it is unsuspended.",
+		button: "Suspend",
+	},
+	unsuspend: {
+		title: "Unsuspend",
+		desc: "Bring the note back into reviews in this queue.",
+		button: "Unsuspend",
+	},
+	bury: {
+		title: "Bury until tomorrow",
+		desc: "Leave the note out of reviews in this queue for the rest of today.",
+		button: "Bury",
+	},
+};
+
+/**
+ * Modal for applying a manual schedule change to one note
+ */
+export class NoteActionModal extends Modal {
+	private cardManager: CardManager;
+	private queueManager: QueueManager;
+	private notePath: string;
+	private action: NoteAction;
+	private onDone: NoteActionCallback;
+
+	// Form state
+	private queueId: string;
+	private dueDate: string;
+
+	private applyButton: ButtonComponent | null = null;
+
+	constructor(
+		app: App,
+		cardManager: CardManager,
+		queueManager: QueueManager,
+		notePath: string,
+		action: NoteAction,
+		onDone: NoteActionCallback
+	) {
+		super(app);
+		this.cardManager = cardManager;
+		this.queueManager = queueManager;
+		this.notePath = notePath;
+		this.action = action;
+		this.onDone = onDone;
+		this.queueId = this.getQueueIds()[0] ?? "";
+
+		const tomorrow = new Date();
+		tomorrow.setDate(tomorrow.getDate() + 1);
+		this.dueDate = formatDateKey(tomorrow);
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-note-action-modal");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Queues the note is scheduled in
+	 */
+	private getQueueIds(): string[] {
+		return Object.keys(this.cardManager.getCard(this.notePath)?.schedules ?? {});
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const labels = NOTE_ACTION_LABELS[this.action];
+		contentEl.createEl("h2", { text: labels.title });
+		contentEl.createEl("p", { cls: "setting-item-description", text: labels.desc });
+
+		const queueIds = this.getQueueIds();
+		if (queueIds.length > 1) {
+			new Setting(contentEl).setName("Queue").addDropdown((dropdown) => {
+				for (const queueId of queueIds) {
+					dropdown.addOption(queueId, this.queueManager.getQueue(queueId)?.name ?? queueId);
+				}
+				dropdown.setValue(this.queueId).onChange((value) => {
+					this.queueId = value;
+					this.renderSchedule();
+				});
+			});
+		}
+
+		contentEl.createDiv({ cls: "fsrs-note-action-schedule" });
+
+		if (this.action === "set-due") {
+			new Setting(contentEl).setName("Due date").addText((text) => {
+				text.inputEl.type = "date";
+				text.setValue(this.dueDate).onChange((value) => {
+					this.dueDate = value;
+					this.renderSchedule();
+				});
+			});
+		}
+
+		new Setting(contentEl).addButton((button) => {
+			this.applyButton = button;
+			button.setButtonText(labels.button).onClick(() => this.apply());
+			if (this.action === "reset") {
+				button.setWarning();
+			} else {
+				button.setCta();
+			}
+		});
+
+		this.renderSchedule();
+	}
+
+	/**
+	 * Show the note's current schedule in the selected queue
+	 */
+	private renderSchedule(): void {
+		const scheduleEl = this.contentEl.querySelector(".fsrs-note-action-schedule");
+		if (!(scheduleEl instanceof HTMLElement)) return;
+		scheduleEl.empty();
+
+		const schedule = this.cardManager.getSchedule(this.notePath, this.queueId);
+		if (!schedule) {
+			scheduleEl.setText("This note is not in any queue.");
+			this.applyButton?.setDisabled(true);
+			return;
+		}
+
+		const parts = [CardStateLabels[schedule.state], `due ${formatRelativeDate(parseISODate(schedule.due)).toLowerCase()}`];
+		if (schedule.state !== 0) {
+			parts.push(`stability ${schedule.stability.toFixed(1)} days`);
+		}
+		if (schedule.suspended) {
+			parts.push("suspended");
+		}
+		if (isBuried(schedule)) {
+			parts.push("buried");
+		}
+		scheduleEl.setText(parts.join(" · "));
+
+		const unchanged =
+			(this.action === "suspend" && schedule.suspended === true) ||
+			(this.action === "unsuspend" && schedule.suspended !== true) ||
+			(this.action === "bury" && isBuried(schedule)) ||
+			(this.action === "forget" && schedule.state === 0);
+		const invalidDate = this.action === "set-due" && parseDateKey(this.dueDate) === null;
+		if (invalidDate) {
+			scheduleEl.createDiv({ cls: "fsrs-note-action-error", text: "Enter a valid date." });
+		}
+		this.applyButton?.setDisabled(unchanged || invalidDate);
+	}
+
+	/**
+	 * Apply the action to the selected queue
+	 */
+	private apply(): void {
+		switch (this.action) {
+			case "reset":
+				this.cardManager.resetCard(this.notePath, this.queueId);
+				break;
+			case "set-due": {
+				const due = parseDateKey(this.dueDate);
+				if (!due) return;
+				this.cardManager.setDueDate(this.notePath, this.queueId, due);
+				break;
+			}
+			case "forget":
+				this.cardManager.forgetCard(this.notePath, this.queueId);
+				break;
+			case "suspend":
+				this.cardManager.suspendCard(this.notePath, this.queueId);
+				break;
+			case "unsuspend":
+				this.cardManager.unsuspendCard(this.notePath, this.queueId);
+				break;
+			case "bury":
+				this.cardManager.buryCard(this.notePath, this.queueId);
+				break;
+		}
+
+		this.close();
+		this.onDone(this.queueId);
+	}
+}
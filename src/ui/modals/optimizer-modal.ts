@@ -0,0 +1,235 @@
+/**
+ * Optimizer Modal - Train personalized FSRS parameters
+ * Shows how the trained weights would move due dates by replaying the
+ * review history with them
+ */
+
+import { Modal, App, Notice, Setting } from "obsidian";
+import { default_w } from "ts-fsrs";
+import type { DataStore } from "../../data/data-store";
+import type { CardManager } from "../../fsrs/card-manager";
+import type { OptimizationResult, OptimizerMetrics } from "../../fsrs/optimizer";
+import {
+	buildTrainingSequences,
+	countScorableReviews,
+	optimizeParameters,
+} from "../../fsrs/optimizer";
+import type { ReplayPreview, ReviewLog } from "../../types";
+import { MIN_OPTIMIZER_REVIEWS, NOTICE_DURATION_MS } from "../../constants";
+import { handleError } from "../../utils/error-handler";
+import { renderReplaySummary } from "./replay-modal";
+
+/** Callback invoked with the weights the user chose to apply */
+export type ApplyWeightsCallback = (weights: number[]) => Promise<void>;
+
+/**
+ * Modal that runs the optimizer and lets the user apply the result.
+ * When a queue ID is given, only that queue's reviews are used.
+ */
+export class OptimizerModal extends Modal {
+	private dataStore: DataStore;
+	private cardManager: CardManager;
+	private onApply: ApplyWeightsCallback;
+	private queueId: string | undefined;
+	private running = false;
+	private result: OptimizationResult | null = null;
+	/** Schedules the result's weights would change */
+	private impact: ReplayPreview | null = null;
+	private progressEl: HTMLElement | null = null;
+
+	/** Whole review history, archive included, read on open */
+	private reviews: ReviewLog[] = [];
+
+	constructor(
+		app: App,
+		dataStore: DataStore,
+		cardManager: CardManager,
+		onApply: ApplyWeightsCallback,
+		queueId?: string
+	) {
+		super(app);
+		this.dataStore = dataStore;
+		this.cardManager = cardManager;
+		this.onApply = onApply;
+		this.queueId = queueId;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-optimizer-modal");
+
+		// Older months of the review log and the archive are read on open
+		this.contentEl.createEl("p", { cls: "fsrs-optimizer-desc", text: "Loading review history…" });
+		this.dataStore
+			.loadAllReviews()
+			.then((reviews) => {
+				this.reviews = reviews;
+				this.render();
+			})
+			.catch((error) => handleError(error, { component: "OptimizerModal.onOpen", notifyUser: true }));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Optimize scheduling parameters" });
+
+		const queue = this.queueId ? this.dataStore.getQueue(this.queueId) : undefined;
+		if (queue) {
+			contentEl.createDiv({ cls: "fsrs-optimizer-scope", text: `Queue: ${queue.name}` });
+		}
+
+		const scorable = countScorableReviews(buildTrainingSequences(this.getReviews()));
+		contentEl.createEl("p", {
+			cls: "fsrs-optimizer-desc",
+			text:
+				"Fits the scheduling model to your own review history. " +
+				"Training runs locally and nothing leaves your vault.",
+		});
+		contentEl.createDiv({
+			cls: "fsrs-optimizer-count",
+			text: `Usable reviews: ${scorable} (minimum ${MIN_OPTIMIZER_REVIEWS})`,
+		});
+
+		this.progressEl = contentEl.createDiv({ cls: "fsrs-optimizer-progress" });
+
+		if (this.result) {
+			this.renderResult(contentEl, this.result);
+		}
+
+		const buttons = new Setting(contentEl);
+		buttons.addButton((button) =>
+			button
+				.setButtonText(this.result ? "Run again" : "Run optimizer")
+				.setDisabled(this.running || scorable < MIN_OPTIMIZER_REVIEWS)
+				.onClick(() => {
+					void this.run();
+				})
+		);
+
+		if (this.result) {
+			const improved = this.result.after.logLoss < this.result.before.logLoss;
+			buttons.addButton((button) =>
+				button
+					.setButtonText("Apply parameters")
+					.setCta()
+					.setDisabled(this.running || !improved)
+					.onClick(() => {
+						void this.apply();
+					})
+			);
+		}
+	}
+
+	/**
+	 * Render before/after metrics table
+	 */
+	private renderResult(container: HTMLElement, result: OptimizationResult): void {
+		const table = container.createEl("table", { cls: "fsrs-optimizer-table" });
+		const header = table.createEl("tr");
+		header.createEl("th", { text: "Metric" });
+		header.createEl("th", { text: "Current" });
+		header.createEl("th", { text: "Optimized" });
+
+		const addRow = (label: string, key: keyof OptimizerMetrics) => {
+			const row = table.createEl("tr");
+			row.createEl("td", { text: label });
+			row.createEl("td", { text: result.before[key].toFixed(4) });
+			row.createEl("td", { text: result.after[key].toFixed(4) });
+		};
+		addRow("Log loss", "logLoss");
+		addRow("RMSE", "rmse");
+
+		container.createDiv({
+			cls: "fsrs-optimizer-summary",
+			text: `Trained on ${result.reviewCount} reviews across ${result.sequenceCount} notes`,
+		});
+
+		if (result.after.logLoss >= result.before.logLoss) {
+			container.createDiv({
+				cls: "fsrs-optimizer-warning",
+				text: "The optimized parameters do not fit your history better than the current ones.",
+			});
+		}
+
+		if (this.impact) {
+			const impactEl = container.createDiv({ cls: "fsrs-optimizer-impact" });
+			impactEl.createDiv({
+				cls: "fsrs-optimizer-desc",
+				text: "If schedules were rebuilt from your history with the optimized parameters:",
+			});
+			renderReplaySummary(impactEl, this.impact);
+		}
+	}
+
+	/**
+	 * Run the optimizer against the stored review history
+	 */
+	private async run(): Promise<void> {
+		if (this.running) return;
+		this.running = true;
+		this.result = null;
+		this.impact = null;
+		this.render();
+
+		try {
+			this.result = await optimizeParameters(this.getReviews(), this.getCurrentWeights(), {
+				onProgress: (iteration, total) => {
+					this.progressEl?.setText(`Optimizing… ${Math.round((iteration / total) * 100)}%`);
+				},
+			});
+			this.impact = this.cardManager.previewReplay(this.reviews, {
+				queueId: this.queueId,
+				weights: this.result.weights,
+			});
+		} catch (error) {
+			handleError(error, { component: "OptimizerModal.run", notifyUser: true });
+		} finally {
+			this.running = false;
+			this.render();
+		}
+	}
+
+	/**
+	 * Reviews in scope for this run
+	 */
+	private getReviews(): ReviewLog[] {
+		return this.queueId ? this.reviews.filter((r) => r.queueId === this.queueId) : this.reviews;
+	}
+
+	/**
+	 * Weights currently used for the scope, as the optimization starting point
+	 */
+	private getCurrentWeights(): number[] {
+		const queueWeights = this.queueId
+			? this.dataStore.getQueue(this.queueId)?.fsrsParams?.weights
+			: undefined;
+		return queueWeights ?? this.dataStore.getSettings().fsrsParams?.weights ?? [...default_w];
+	}
+
+	/**
+	 * Apply the optimized weights
+	 */
+	private async apply(): Promise<void> {
+		if (!this.result) return;
+
+		try {
+			await this.onApply(this.result.weights);
+			new Notice(
+				"Optimized parameters applied. They take effect from each note's next review; " +
+					"rebuild schedules from review history to apply them to past reviews too.",
+				NOTICE_DURATION_MS
+			);
+			this.close();
+		} catch (error) {
+			handleError(error, { component: "OptimizerModal.apply", notifyUser: true });
+		}
+	}
+}
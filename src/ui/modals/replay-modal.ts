@@ -0,0 +1,207 @@
+/**
+ * Replay Modal - Rebuild schedules from the review history
+ * Previews how due dates change before the rebuilt schedules are written
+ */
+
+import { Modal, App, Setting } from "obsidian";
+import type { ButtonComponent } from "obsidian";
+import type { DataStore } from "../../data/data-store";
+import type { QueueManager } from "../../queues/queue-manager";
+import type { CardManager } from "../../fsrs/card-manager";
+import type { ReplayPreview, ReviewLog } from "../../types";
+import { parseCardRef } from "../../fsrs/sub-cards";
+import { formatDateKey, parseISODate } from "../../utils/date-utils";
+import { handleError } from "../../utils/error-handler";
+
+/** Callback after the rebuilt schedules are written */
+export type ReplayAppliedCallback = (replaced: number, preview: ReplayPreview) => void;
+
+/** Changed notes listed by name in the preview */
+const MAX_LISTED_CHANGES = 10;
+
+/** Dropdown value for replaying every queue */
+const ALL_QUEUES = "";
+
+/**
+ * Modal for replaying the review history into a queue's schedules
+ */
+export class ReplayModal extends Modal {
+	private dataStore: DataStore;
+	private queueManager: QueueManager;
+	private cardManager: CardManager;
+	private onApplied: ReplayAppliedCallback;
+
+	// Form state
+	private queueId: string;
+
+	/** Whole review history, archive included, read on open */
+	private reviews: ReviewLog[] = [];
+	private preview: ReplayPreview | null = null;
+	private applyButton: ButtonComponent | null = null;
+
+	constructor(
+		app: App,
+		dataStore: DataStore,
+		queueManager: QueueManager,
+		cardManager: CardManager,
+		onApplied: ReplayAppliedCallback,
+		queueId?: string
+	) {
+		super(app);
+		this.dataStore = dataStore;
+		this.queueManager = queueManager;
+		this.cardManager = cardManager;
+		this.onApplied = onApplied;
+		this.queueId = queueId ?? ALL_QUEUES;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-replay-modal");
+
+		// Older months of the review log and the archive are read on open
+		this.contentEl.createEl("p", { cls: "fsrs-replay-desc", text: "Loading review history…" });
+		this.dataStore
+			.loadAllReviews()
+			.then((reviews) => {
+				this.reviews = reviews;
+				this.render();
+			})
+			.catch((error) => handleError(error, { component: "ReplayModal.onOpen", notifyUser: true }));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Replay review history" });
+		contentEl.createEl("p", {
+			cls: "fsrs-replay-desc",
+			text:
+				"Rebuilds each note's schedule by replaying its reviews, resets and other logged changes " +
+				"with the current scheduling parameters. Use it after changing parameters or if schedules look wrong.",
+		});
+
+		new Setting(contentEl).setName("Queue").addDropdown((dropdown) => {
+			dropdown.addOption(ALL_QUEUES, "All queues");
+			for (const queue of this.queueManager.getAllQueues()) {
+				dropdown.addOption(queue.id, queue.name);
+			}
+			dropdown.setValue(this.queueId).onChange((value) => {
+				this.queueId = value;
+				this.updatePreview();
+			});
+		});
+
+		contentEl.createDiv({ cls: "fsrs-replay-preview" });
+
+		new Setting(contentEl).addButton((button) => {
+			this.applyButton = button;
+			button
+				.setButtonText("Rebuild schedules")
+				.setCta()
+				.onClick(() => this.apply());
+		});
+
+		this.updatePreview();
+	}
+
+	/**
+	 * Recompute and show the preview
+	 */
+	private updatePreview(): void {
+		const previewEl = this.contentEl.querySelector(".fsrs-replay-preview");
+		if (!(previewEl instanceof HTMLElement)) return;
+		previewEl.empty();
+
+		const preview = this.cardManager.previewReplay(this.reviews, {
+			queueId: this.queueId === ALL_QUEUES ? undefined : this.queueId,
+		});
+		this.preview = preview;
+		this.applyButton?.setDisabled(preview.items.length === 0);
+
+		renderReplaySummary(previewEl, preview);
+		if (preview.items.length === 0) {
+			return;
+		}
+
+		const table = previewEl.createEl("table", { cls: "fsrs-replay-table" });
+		const header = table.createEl("tr");
+		header.createEl("th", { text: "Note" });
+		header.createEl("th", { text: "Due now" });
+		header.createEl("th", { text: "Due after replay" });
+
+		const largest = [...preview.items]
+			.sort(
+				(a, b) =>
+					Math.abs(Date.parse(b.newDue) - Date.parse(b.currentDue)) -
+					Math.abs(Date.parse(a.newDue) - Date.parse(a.currentDue))
+			)
+			.slice(0, MAX_LISTED_CHANGES);
+		for (const item of largest) {
+			const row = table.createEl("tr");
+			row.createEl("td", { text: noteName(item.ref) });
+			row.createEl("td", { text: formatDateKey(parseISODate(item.currentDue)) });
+			row.createEl("td", { text: formatDateKey(parseISODate(item.newDue)) });
+		}
+		if (preview.items.length > largest.length) {
+			previewEl.createDiv({
+				cls: "fsrs-replay-more",
+				text: `Largest ${largest.length} changes shown`,
+			});
+		}
+	}
+
+	/**
+	 * Write the rebuilt schedules
+	 */
+	private apply(): void {
+		if (!this.preview) return;
+
+		const replaced = this.cardManager.applyReplay(this.preview);
+		this.close();
+		this.onApplied(replaced, this.preview);
+	}
+}
+
+/**
+ * Render how many schedules a replay changes and how their due dates move
+ */
+export function renderReplaySummary(container: HTMLElement, preview: ReplayPreview): void {
+	if (preview.items.length === 0) {
+		container.createDiv({ cls: "fsrs-replay-count", text: "No schedules change." });
+	} else {
+		container.createDiv({
+			cls: "fsrs-replay-count",
+			text: `${preview.items.length} schedules change: ${preview.earlier} due earlier, ${preview.later} due later`,
+		});
+		container.createDiv({ text: `Average change in due date: ${formatDays(preview.meanShiftDays)}` });
+	}
+
+	if (preview.skipped > 0) {
+		container.createDiv({
+			cls: "fsrs-replay-skipped",
+			text: `${preview.skipped} schedules are kept because their history does not go back to the first review.`,
+		});
+	}
+}
+
+function formatDays(days: number): string {
+	const rounded = Math.round(days * 10) / 10;
+	return `${rounded > 0 ? "+" : ""}${rounded} days`;
+}
+
+/**
+ * Note name (and sub-card) for display
+ */
+function noteName(ref: string): string {
+	const { notePath, subCardId } = parseCardRef(ref);
+	const name = notePath.split("/").pop()?.replace(/\.md$/, "") ?? notePath;
+	return subCardId ? `${name} (${subCardId})` : name;
+}
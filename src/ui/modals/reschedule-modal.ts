@@ -0,0 +1,240 @@
+/**
+ * Reschedule Modal - Postpone due notes or advance upcoming ones in bulk
+ * Previews how many notes move and how projected retention changes
+ */
+
+import { Modal, App, Setting } from "obsidian";
+import type { ButtonComponent } from "obsidian";
+import type { QueueManager } from "../../queues/queue-manager";
+import type { CardManager } from "../../fsrs/card-manager";
+import type { RescheduleAction, ReschedulePreview, SelectionCriteria } from "../../types";
+import { formatQueryError, parseQuery } from "../../criteria/query-parser";
+import { parseCardRef } from "../../fsrs/sub-cards";
+import { DEFAULT_RESCHEDULE_DAYS, RESCHEDULE_MAX_DAYS } from "../../constants";
+
+/** Callback after the reschedule is applied */
+export type RescheduleAppliedCallback = (moved: number, preview: ReschedulePreview) => void;
+
+/** Flagged notes listed by name in the preview */
+const MAX_LISTED_FLAGGED = 5;
+
+/**
+ * Modal for postponing or advancing a queue's notes
+ */
+export class RescheduleModal extends Modal {
+	private queueManager: QueueManager;
+	private cardManager: CardManager;
+	private onApplied: RescheduleAppliedCallback;
+
+	// Form state
+	private action: RescheduleAction;
+	private queueId: string;
+	private days = DEFAULT_RESCHEDULE_DAYS;
+	private query = "";
+	private skipFlagged = true;
+
+	private preview: ReschedulePreview | null = null;
+	private applyButton: ButtonComponent | null = null;
+
+	constructor(
+		app: App,
+		queueManager: QueueManager,
+		cardManager: CardManager,
+		action: RescheduleAction,
+		onApplied: RescheduleAppliedCallback,
+		queueId?: string
+	) {
+		super(app);
+		this.queueManager = queueManager;
+		this.cardManager = cardManager;
+		this.action = action;
+		this.onApplied = onApplied;
+		this.queueId = queueId ?? queueManager.getAllQueues()[0]?.id ?? "";
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-reschedule-modal");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Postpone or advance notes" });
+
+		new Setting(contentEl)
+			.setName("Action")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("postpone", "Postpone due notes")
+					.addOption("advance", "Advance upcoming notes")
+					.setValue(this.action)
+					.onChange((value) => {
+						this.action = value as RescheduleAction;
+						this.updatePreview();
+					})
+			);
+
+		new Setting(contentEl).setName("Queue").addDropdown((dropdown) => {
+			for (const queue of this.queueManager.getAllQueues()) {
+				dropdown.addOption(queue.id, queue.name);
+			}
+			dropdown.setValue(this.queueId).onChange((value) => {
+				this.queueId = value;
+				this.updatePreview();
+			});
+		});
+
+		new Setting(contentEl)
+			.setName("Days")
+			.setDesc("Postpone: move due notes this many days later. Advance: bring notes due within this many days forward, up to today.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, RESCHEDULE_MAX_DAYS, 1)
+					.setValue(this.days)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						this.days = value;
+						this.updatePreview();
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Only notes matching")
+			.setDesc("Optional query in the queue query language. Leave empty for the whole queue.")
+			.addText((text) =>
+				text.setValue(this.query).onChange((value) => {
+					this.query = value;
+					this.updatePreview();
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Skip flagged notes")
+			.setDesc("Leave notes that would likely be forgotten (postpone) or gain little (advance) where they are")
+			.addToggle((toggle) =>
+				toggle.setValue(this.skipFlagged).onChange((value) => {
+					this.skipFlagged = value;
+					this.updatePreview();
+				})
+			);
+
+		contentEl.createDiv({ cls: "fsrs-reschedule-preview" });
+
+		new Setting(contentEl).addButton((button) => {
+			this.applyButton = button;
+			button
+				.setButtonText("Apply")
+				.setCta()
+				.onClick(() => this.apply());
+		});
+
+		this.updatePreview();
+	}
+
+	/**
+	 * Recompute and show the preview
+	 */
+	private updatePreview(): void {
+		const previewEl = this.contentEl.querySelector(".fsrs-reschedule-preview");
+		if (!(previewEl instanceof HTMLElement)) return;
+		previewEl.empty();
+		previewEl.removeClass("fsrs-reschedule-error");
+		this.preview = null;
+
+		const criteria = this.buildCriteria();
+		if (typeof criteria === "string") {
+			previewEl.addClass("fsrs-reschedule-error");
+			previewEl.setText(criteria);
+			this.applyButton?.setDisabled(true);
+			return;
+		}
+
+		if (this.queueId) {
+			const refs = this.queueManager
+				.getRescheduleCandidates(this.queueId, this.action, this.days, criteria)
+				.map((card) => card.notePath);
+			this.preview = this.cardManager.previewReschedule(refs, this.queueId, this.action, this.days);
+		}
+
+		const preview = this.preview;
+		const moving = preview ? preview.items.length - (this.skipFlagged ? preview.flagged : 0) : 0;
+		this.applyButton?.setDisabled(moving === 0);
+
+		if (!preview || preview.items.length === 0) {
+			previewEl.setText(this.action === "postpone" ? "No due notes to postpone." : "No upcoming notes to advance.");
+			return;
+		}
+
+		previewEl.createDiv({
+			cls: "fsrs-reschedule-count",
+			text: `${moving} of ${preview.items.length} notes move`,
+		});
+		previewEl.createDiv({
+			text: `Projected retention when reviewed: ${formatPercent(preview.retentionBefore)} → ${formatPercent(preview.retentionAfter)}`,
+		});
+
+		if (preview.flagged > 0) {
+			const flaggedEl = previewEl.createDiv({ cls: "fsrs-reschedule-flagged" });
+			flaggedEl.createDiv({
+				text:
+					this.action === "postpone"
+						? `${preview.flagged} notes have low stability and would likely be forgotten by then${this.skipFlagged ? " and are skipped" : ""}.`
+						: `${preview.flagged} notes are still well remembered, so reviewing them early adds little${this.skipFlagged ? " and they are skipped" : ""}.`,
+			});
+
+			const flagged = preview.items.filter((item) => item.flagged);
+			const names = flagged
+				.slice(0, MAX_LISTED_FLAGGED)
+				.map((item) => noteName(item.ref));
+			if (flagged.length > MAX_LISTED_FLAGGED) {
+				names.push(`and ${flagged.length - MAX_LISTED_FLAGGED} more`);
+			}
+			flaggedEl.createDiv({ cls: "fsrs-reschedule-flagged-list", text: names.join(", ") });
+		}
+	}
+
+	/**
+	 * Parse the optional query, returning an error message when invalid
+	 */
+	private buildCriteria(): SelectionCriteria | undefined | string {
+		const query = this.query.trim();
+		if (!query) {
+			return undefined;
+		}
+		const [firstError] = parseQuery(query).errors;
+		return firstError ? formatQueryError(query, firstError) : { type: "query", query };
+	}
+
+	/**
+	 * Apply the previewed change
+	 */
+	private apply(): void {
+		if (!this.preview) return;
+
+		const moved = this.cardManager.applyReschedule(this.preview, { skipFlagged: this.skipFlagged });
+		this.close();
+		this.onApplied(moved, this.preview);
+	}
+}
+
+function formatPercent(value: number): string {
+	return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Note name (and sub-card) for display
+ */
+function noteName(ref: string): string {
+	const { notePath, subCardId } = parseCardRef(ref);
+	const name = notePath.split("/").pop()?.replace(/\.md$/, "") ?? notePath;
+	return subCardId ? `${name} (${subCardId})` : name;
+}
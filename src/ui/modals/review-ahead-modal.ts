@@ -0,0 +1,122 @@
+/**
+ * Review Ahead Modal - Pull notes due in the coming days forward
+ * Shows how many notes would be reviewed early and how many gain little from it
+ */
+
+import { Modal, App, Setting } from "obsidian";
+import type { ButtonComponent } from "obsidian";
+import type { QueueManager } from "../../queues/queue-manager";
+import { DEFAULT_REVIEW_AHEAD_DAYS, REVIEW_AHEAD_MAX_DAYS } from "../../constants";
+
+/** Callback to start the review-ahead session */
+export type StartReviewAheadCallback = (queueId: string, days: number) => void;
+
+/**
+ * Modal for setting up a review-ahead session
+ */
+export class ReviewAheadModal extends Modal {
+	private queueManager: QueueManager;
+	private onStart: StartReviewAheadCallback;
+
+	// Form state
+	private queueId: string;
+	private days = DEFAULT_REVIEW_AHEAD_DAYS;
+
+	private startButton: ButtonComponent | null = null;
+
+	constructor(app: App, queueManager: QueueManager, onStart: StartReviewAheadCallback) {
+		super(app);
+		this.queueManager = queueManager;
+		this.onStart = onStart;
+		this.queueId = queueManager.getAllQueues()[0]?.id ?? "";
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("fsrs-review-ahead-modal");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Render modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Review ahead" });
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Review notes that come due in the next few days now. Notes that would lose the most recall by then come first.",
+		});
+
+		new Setting(contentEl).setName("Queue").addDropdown((dropdown) => {
+			for (const queue of this.queueManager.getAllQueues()) {
+				dropdown.addOption(queue.id, queue.name);
+			}
+			dropdown.setValue(this.queueId).onChange((value) => {
+				this.queueId = value;
+				this.renderSummary();
+			});
+		});
+
+		new Setting(contentEl)
+			.setName("Days ahead")
+			.setDesc("Include notes due up to this many days from today")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, REVIEW_AHEAD_MAX_DAYS, 1)
+					.setValue(this.days)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						this.days = value;
+						this.renderSummary();
+					})
+			);
+
+		contentEl.createDiv({ cls: "fsrs-review-ahead-summary" });
+
+		new Setting(contentEl).addButton((button) => {
+			this.startButton = button;
+			button
+				.setButtonText("Start")
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onStart(this.queueId, this.days);
+				});
+		});
+
+		this.renderSummary();
+	}
+
+	/**
+	 * Show how many notes would be pulled forward and warn about low-value ones
+	 */
+	private renderSummary(): void {
+		const summaryEl = this.contentEl.querySelector(".fsrs-review-ahead-summary");
+		if (!(summaryEl instanceof HTMLElement)) return;
+		summaryEl.empty();
+
+		const summary = this.queueId
+			? this.queueManager.getReviewAheadSummary(this.queueId, this.days)
+			: { total: 0, early: 0, lowValue: 0 };
+
+		summaryEl.createDiv({
+			text: `${summary.total} notes to review, ${summary.early} of them early`,
+		});
+		if (summary.lowValue > 0) {
+			summaryEl.createDiv({
+				cls: "fsrs-review-ahead-warning",
+				text:
+					`${summary.lowValue} early notes are still well remembered. ` +
+					"Reviewing them now adds little to their stability; a shorter window gives more value per review.",
+			});
+		}
+
+		this.startButton?.setDisabled(summary.total === 0);
+	}
+}
@@ -0,0 +1,332 @@
+/**
+ * Criteria Builder - Click-through editor for custom queue criteria
+ * Edits a CriterionConfig tree in place
+ */
+
+import type { CriterionConfig, CustomCriterionType } from "../../types";
+import { createDefaultCriterionConfig, isCriterionConfig } from "../../criteria/criteria-factory";
+
+/** Predicate types offered in the "Add condition" menu */
+const PREDICATE_OPTIONS: Array<{ type: CustomCriterionType; label: string }> = [
+	{ type: "folder", label: "Folder" },
+	{ type: "tag", label: "Tag" },
+	{ type: "property", label: "Property" },
+	{ type: "filename", label: "Note name" },
+	{ type: "link-count", label: "Link count" },
+	{ type: "file-age", label: "File date" },
+];
+
+/**
+ * Split a comma-separated list into trimmed, non-empty entries
+ */
+function parseList(value: string): string[] {
+	return value
+		.split(",")
+		.map((v) => v.trim())
+		.filter((v) => v !== "");
+}
+
+/**
+ * Show a param value in an input (non-scalar values render as empty)
+ */
+function toText(value: unknown): string {
+	if (typeof value === "string") return value;
+	if (typeof value === "number") return String(value);
+	return "";
+}
+
+/**
+ * CriteriaBuilder renders an editable AND/OR/NOT tree of conditions
+ */
+export class CriteriaBuilder {
+	private containerEl: HTMLElement;
+	private root: CriterionConfig;
+	private onChange: () => void;
+
+	constructor(containerEl: HTMLElement, root: CriterionConfig, onChange: () => void) {
+		this.containerEl = containerEl;
+		this.root = root;
+		this.onChange = onChange;
+	}
+
+	/**
+	 * Get the edited tree
+	 */
+	getRoot(): CriterionConfig {
+		return this.root;
+	}
+
+	/**
+	 * Render the whole tree
+	 */
+	render(): void {
+		this.containerEl.empty();
+		this.renderGroup(this.containerEl, this.root, null);
+	}
+
+	/**
+	 * Notify the owner and re-render after a structural change
+	 */
+	private changed(rerender: boolean): void {
+		if (rerender) {
+			this.render();
+		}
+		this.onChange();
+	}
+
+	/**
+	 * Render an AND/OR group with its children
+	 */
+	private renderGroup(container: HTMLElement, group: CriterionConfig, onRemove: (() => void) | null): void {
+		const groupEl = container.createDiv({ cls: "fsrs-criteria-group" });
+		const header = groupEl.createDiv({ cls: "fsrs-criteria-group-header" });
+
+		const modeSelect = header.createEl("select", { cls: "dropdown" });
+		modeSelect.createEl("option", { value: "and", text: "All of" });
+		modeSelect.createEl("option", { value: "or", text: "Any of" });
+		modeSelect.value = group.type;
+		modeSelect.addEventListener("change", () => {
+			group.type = modeSelect.value;
+			this.changed(false);
+		});
+
+		if (onRemove) {
+			this.renderRemoveButton(header, onRemove);
+		}
+
+		const children = this.getChildren(group);
+		const list = groupEl.createDiv({ cls: "fsrs-criteria-children" });
+
+		children.forEach((child, index) => {
+			const replace = (next: CriterionConfig | null) => {
+				if (next) {
+					children[index] = next;
+				} else {
+					children.splice(index, 1);
+				}
+				this.changed(true);
+			};
+			this.renderNode(list, child, replace);
+		});
+
+		if (children.length === 0) {
+			list.createDiv({ cls: "fsrs-criteria-empty", text: "No conditions yet" });
+		}
+
+		// Add controls
+		const addRow = groupEl.createDiv({ cls: "fsrs-criteria-add-row" });
+		const addSelect = addRow.createEl("select", { cls: "dropdown" });
+		addSelect.createEl("option", { value: "", text: "Add condition…" });
+		for (const option of PREDICATE_OPTIONS) {
+			addSelect.createEl("option", { value: option.type, text: option.label });
+		}
+		addSelect.addEventListener("change", () => {
+			if (!addSelect.value) return;
+			children.push(createDefaultCriterionConfig(addSelect.value as CustomCriterionType));
+			this.changed(true);
+		});
+
+		const addGroupBtn = addRow.createEl("button", { cls: "fsrs-add-button", text: "Add group" });
+		addGroupBtn.addEventListener("click", () => {
+			children.push(createDefaultCriterionConfig(group.type === "and" ? "or" : "and"));
+			this.changed(true);
+		});
+	}
+
+	/**
+	 * Render any node; `replace(null)` removes it
+	 */
+	private renderNode(
+		container: HTMLElement,
+		node: CriterionConfig,
+		replace: (next: CriterionConfig | null) => void
+	): void {
+		if (node.type === "and" || node.type === "or") {
+			this.renderGroup(container, node, () => replace(null));
+			return;
+		}
+
+		// NOT wraps a single child; unwrapping restores the child
+		const negated = node.type === "not";
+		const inner = negated && isCriterionConfig(node.params.child) ? node.params.child : node;
+
+		const row = container.createDiv({ cls: "fsrs-criteria-row" });
+		const notBtn = row.createEl("button", {
+			cls: negated ? "fsrs-criteria-not is-active" : "fsrs-criteria-not",
+			text: "Not",
+			attr: { "aria-pressed": String(negated) },
+		});
+		notBtn.addEventListener("click", () => {
+			replace(negated ? inner : { type: "not", params: { child: inner } });
+		});
+
+		if (inner.type === "and" || inner.type === "or") {
+			const nested = row.createDiv({ cls: "fsrs-criteria-nested" });
+			this.renderGroup(nested, inner, () => replace(null));
+			return;
+		}
+
+		const fields = row.createDiv({ cls: "fsrs-criteria-fields" });
+		this.renderPredicateFields(fields, inner);
+		this.renderRemoveButton(row, () => replace(null));
+	}
+
+	/**
+	 * Render the inputs for a predicate
+	 */
+	private renderPredicateFields(container: HTMLElement, node: CriterionConfig): void {
+		const params = node.params;
+		const label = PREDICATE_OPTIONS.find((o) => o.type === node.type)?.label ?? node.type;
+		container.createSpan({ cls: "fsrs-criteria-label", text: label });
+
+		switch (node.type) {
+			case "folder":
+				this.addText(container, "Folder paths, comma separated", (params.folders as string[]).join(", "), (v) => {
+					params.folders = parseList(v);
+				});
+				break;
+
+			case "tag":
+				this.addText(container, "Tags, comma separated", (params.tags as string[]).join(", "), (v) => {
+					params.tags = parseList(v).map((t) => t.replace(/^#/, ""));
+				});
+				break;
+
+			case "property":
+				this.addText(container, "Property", toText(params.key), (v) => {
+					params.key = v.trim();
+				});
+				this.addSelect(container, toText(params.operator), [
+					["equals", "is"],
+					["not-equals", "is not"],
+					["contains", "contains"],
+					["exists", "exists"],
+					["not-exists", "is missing"],
+					["gt", ">"],
+					["gte", "≥"],
+					["lt", "<"],
+					["lte", "≤"],
+				], (v) => {
+					params.operator = v;
+				});
+				this.addText(container, "Value", toText(params.value), (v) => {
+					params.value = v;
+				});
+				break;
+
+			case "filename":
+				this.addSelect(container, toText(params.target), [
+					["name", "name"],
+					["path", "path"],
+				], (v) => {
+					params.target = v;
+				});
+				this.addSelect(container, toText(params.syntax), [
+					["glob", "matches glob"],
+					["regex", "matches regex"],
+				], (v) => {
+					params.syntax = v;
+				});
+				this.addText(container, "Pattern", toText(params.pattern), (v) => {
+					params.pattern = v;
+				});
+				break;
+
+			case "link-count":
+				this.addSelect(container, toText(params.direction), [
+					["outgoing", "outgoing"],
+					["incoming", "incoming"],
+				], (v) => {
+					params.direction = v;
+				});
+				this.addSelect(container, toText(params.operator), [
+					["eq", "="],
+					["gt", ">"],
+					["gte", "≥"],
+					["lt", "<"],
+					["lte", "≤"],
+				], (v) => {
+					params.operator = v;
+				});
+				this.addText(container, "Count", toText(params.value), (v) => {
+					params.value = Number(v);
+				}, "number");
+				break;
+
+			case "file-age":
+				this.addSelect(container, toText(params.field), [
+					["ctime", "created"],
+					["mtime", "modified"],
+				], (v) => {
+					params.field = v;
+				});
+				this.addSelect(container, toText(params.operator), [
+					["older-than", "more than (days ago)"],
+					["newer-than", "less than (days ago)"],
+					["before", "before (date)"],
+					["after", "after (date)"],
+				], (v) => {
+					params.operator = v;
+				});
+				this.addText(container, "Days or YYYY-MM-DD", toText(params.value), (v) => {
+					const asNumber = Number(v);
+					params.value = v.trim() !== "" && !Number.isNaN(asNumber) ? asNumber : v.trim();
+				});
+				break;
+		}
+	}
+
+	private addText(
+		container: HTMLElement,
+		placeholder: string,
+		value: string,
+		onChange: (value: string) => void,
+		type: "text" | "number" = "text"
+	): void {
+		const input = container.createEl("input", {
+			cls: "fsrs-criteria-input",
+			attr: { type, placeholder, "aria-label": placeholder },
+		});
+		input.value = value;
+		input.addEventListener("change", () => {
+			onChange(input.value);
+			this.changed(false);
+		});
+	}
+
+	private addSelect(
+		container: HTMLElement,
+		value: string,
+		options: Array<[string, string]>,
+		onChange: (value: string) => void
+	): void {
+		const select = container.createEl("select", { cls: "dropdown" });
+		for (const [optionValue, text] of options) {
+			select.createEl("option", { value: optionValue, text });
+		}
+		select.value = value;
+		select.addEventListener("change", () => {
+			onChange(select.value);
+			this.changed(false);
+		});
+	}
+
+	private renderRemoveButton(container: HTMLElement, onRemove: () => void): void {
+		const removeBtn = container.createEl("button", {
+			cls: "fsrs-remove-button",
+			text: "×",
+			attr: { "aria-label": "Remove condition" },
+		});
+		removeBtn.addEventListener("click", onRemove);
+	}
+
+	/**
+	 * Get (and normalize) a group's children array
+	 */
+	private getChildren(group: CriterionConfig): CriterionConfig[] {
+		if (!Array.isArray(group.params.children)) {
+			group.params.children = [];
+		}
+		return group.params.children as CriterionConfig[];
+	}
+}
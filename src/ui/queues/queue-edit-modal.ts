@@ -4,10 +4,42 @@
 
 import { Modal, App, Setting, Notice } from "obsidian";
 import { InputModal } from "../settings/input-modal";
+import { OptimizerModal } from "../modals/optimizer-modal";
+import { CriteriaBuilder } from "./criteria-builder";
+import { validateCriterionConfig } from "../../criteria/criteria-factory";
+import { formatQueryError, parseQuery } from "../../criteria/query-parser";
 import type { QueueManager } from "../../queues/queue-manager";
 import type { DataStore } from "../../data/data-store";
-import type { Queue, SelectionCriteria, SelectionCriteriaType } from "../../types";
-import { DEFAULT_QUEUE_ID, NOTICE_DURATION_MS } from "../../constants";
+import type { CardManager } from "../../fsrs/card-manager";
+import type {
+	CriterionConfig,
+	FSRSParams,
+	LeechAction,
+	LeechConfig,
+	Queue,
+	RecallConfig,
+	RecallPromptSource,
+	SelectionCriteria,
+	SiblingAction,
+	SiblingConfig,
+	SelectionCriteriaType,
+} from "../../types";
+import {
+	DEFAULT_FSRS_PARAMS,
+	DEFAULT_LEECH_THRESHOLD,
+	DEFAULT_QUEUE_ID,
+	DEFAULT_RECALL_PROPERTY,
+	LEECH_QUEUE_NAME,
+	LEECH_TAG,
+	LEECH_THRESHOLD_MAX,
+	LEECH_THRESHOLD_MIN,
+	NOTICE_DURATION_MS,
+	QUERY_PREVIEW_DEBOUNCE_MS,
+	QUEUE_DAILY_LIMIT_MAX,
+} from "../../constants";
+
+/** Example shown in the empty query editor */
+const QUERY_EXAMPLE = 'FROM "Zettel" AND #permanent WHERE status != "draft" AND file.ctime > 2025-01-01';
 
 /**
  * Modal for creating or editing a queue
@@ -15,6 +47,7 @@ import { DEFAULT_QUEUE_ID, NOTICE_DURATION_MS } from "../../constants";
 export class QueueEditModal extends Modal {
 	private queueManager: QueueManager;
 	private dataStore: DataStore;
+	private cardManager: CardManager;
 	private queue: Queue | undefined;
 	private onSave: () => void;
 
@@ -23,20 +56,31 @@ export class QueueEditModal extends Modal {
 	private criteriaType: SelectionCriteriaType = "folder";
 	private folders: string[] = [];
 	private tags: string[] = [];
+	private customRoot: CriterionConfig = { type: "and", params: { children: [] } };
+	private query: string = "";
+	private useCustomScheduling: boolean = false;
+	private fsrsParams: Partial<FSRSParams> = {};
+	private recall: RecallConfig = { enabled: false, promptSource: "title" };
+	private leech: LeechConfig = { enabled: false, threshold: DEFAULT_LEECH_THRESHOLD, action: "tag" };
+	private siblings: SiblingConfig = { enabled: false, action: "delay" };
+	private dailyLimit: number | undefined;
 
 	// Preview state
 	private previewCount: number = 0;
+	private previewTimeout: ReturnType<typeof setTimeout> | null = null;
 
 	constructor(
 		app: App,
 		queueManager: QueueManager,
 		dataStore: DataStore,
+		cardManager: CardManager,
 		queue: Queue | undefined,
 		onSave: () => void
 	) {
 		super(app);
 		this.queueManager = queueManager;
 		this.dataStore = dataStore;
+		this.cardManager = cardManager;
 		this.queue = queue;
 		this.onSave = onSave;
 
@@ -46,6 +90,14 @@ export class QueueEditModal extends Modal {
 			this.criteriaType = queue.criteria.type;
 			this.folders = [...(queue.criteria.folders ?? [])];
 			this.tags = [...(queue.criteria.tags ?? [])];
+			this.customRoot = this.toCustomRoot(queue.criteria.customCriteria ?? []);
+			this.query = queue.criteria.query ?? "";
+			this.useCustomScheduling = !!queue.fsrsParams;
+			this.fsrsParams = { ...queue.fsrsParams };
+			this.recall = { ...this.recall, ...queue.recall };
+			this.leech = { ...this.leech, ...queue.leech };
+			this.siblings = { ...this.siblings, ...queue.siblings };
+			this.dailyLimit = queue.dailyLimit;
 		}
 	}
 
@@ -61,6 +113,10 @@ export class QueueEditModal extends Modal {
 
 	onClose(): void {
 		const { contentEl } = this;
+		if (this.previewTimeout) {
+			clearTimeout(this.previewTimeout);
+			this.previewTimeout = null;
+		}
 		contentEl.empty();
 	}
 
@@ -109,6 +165,8 @@ export class QueueEditModal extends Modal {
 				dropdown
 					.addOption("folder", "Folder-based")
 					.addOption("tag", "Tag-based")
+					.addOption("custom", "Custom conditions")
+					.addOption("query", "Query")
 					.setValue(this.criteriaType)
 					.onChange((value) => {
 						this.criteriaType = value as SelectionCriteriaType;
@@ -122,11 +180,30 @@ export class QueueEditModal extends Modal {
 		if (!isDefault) {
 			if (this.criteriaType === "folder") {
 				this.renderFolderSelection(contentEl);
-			} else {
+			} else if (this.criteriaType === "tag") {
 				this.renderTagSelection(contentEl);
+			} else if (this.criteriaType === "query") {
+				this.renderQuerySelection(contentEl);
+			} else {
+				this.renderCustomSelection(contentEl);
 			}
 		}
 
+		// Per-queue scheduling parameters
+		this.renderSchedulingSection(contentEl);
+
+		// Active recall
+		this.renderRecallSection(contentEl);
+
+		// Leech handling
+		this.renderLeechSection(contentEl);
+
+		// Linked notes
+		this.renderSiblingSection(contentEl);
+
+		// Daily limit
+		this.renderDailyLimitSection(contentEl);
+
 		// Preview section
 		const previewSection = contentEl.createDiv({ cls: "fsrs-queue-edit-preview" });
 		previewSection.createSpan({
@@ -245,6 +322,383 @@ export class QueueEditModal extends Modal {
 		});
 	}
 
+	/**
+	 * Render custom condition builder
+	 */
+	private renderCustomSelection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "fsrs-queue-criteria-section" });
+
+		new Setting(section)
+			.setName("Conditions")
+			.setDesc("Combine folder, tag, property, name, link and date conditions. Global exclusions still apply.");
+
+		const builderEl = section.createDiv({ cls: "fsrs-criteria-builder" });
+		const errorsEl = section.createDiv({ cls: "fsrs-criteria-errors" });
+
+		const showErrors = () => {
+			errorsEl.empty();
+			for (const error of validateCriterionConfig(this.customRoot)) {
+				errorsEl.createDiv({ text: error });
+			}
+		};
+
+		const builder = new CriteriaBuilder(builderEl, this.customRoot, () => {
+			showErrors();
+			this.updatePreview();
+		});
+		builder.render();
+		showErrors();
+	}
+
+	/**
+	 * Render query editor with inline syntax errors
+	 */
+	private renderQuerySelection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "fsrs-queue-criteria-section" });
+
+		new Setting(section)
+			.setName("Query")
+			.setDesc("Dataview-style query. Global exclusions still apply.");
+
+		const input = section.createEl("textarea", {
+			cls: "fsrs-query-input",
+			attr: {
+				rows: "3",
+				spellcheck: "false",
+				placeholder: QUERY_EXAMPLE,
+				"aria-label": "Query",
+			},
+		});
+		input.value = this.query;
+		const errorsEl = section.createDiv({ cls: "fsrs-criteria-errors" });
+
+		const showErrors = () => {
+			errorsEl.empty();
+			if (!this.query.trim()) return;
+			for (const error of parseQuery(this.query).errors) {
+				errorsEl.createDiv({ text: formatQueryError(this.query, error) });
+				// Point at the offending text on its line
+				const lineStart = this.query.lastIndexOf("\n", error.start - 1) + 1;
+				const lineEnd = this.query.indexOf("\n", error.start);
+				const line = this.query.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+				const caret = " ".repeat(error.start - lineStart) + "^".repeat(Math.max(1, error.end - error.start));
+				errorsEl.createEl("pre", { cls: "fsrs-query-error-excerpt", text: `${line}\n${caret}` });
+			}
+		};
+
+		input.addEventListener("input", () => {
+			this.query = input.value;
+			if (this.previewTimeout) {
+				clearTimeout(this.previewTimeout);
+			}
+			this.previewTimeout = setTimeout(() => {
+				this.previewTimeout = null;
+				showErrors();
+				this.updatePreview();
+			}, QUERY_PREVIEW_DEBOUNCE_MS);
+		});
+		showErrors();
+	}
+
+	/**
+	 * Normalize stored custom criteria into a single root group for editing
+	 */
+	private toCustomRoot(configs: CriterionConfig[]): CriterionConfig {
+		const [first] = configs;
+		if (configs.length === 1 && first && (first.type === "and" || first.type === "or")) {
+			return structuredClone(first);
+		}
+		return { type: "and", params: { children: structuredClone(configs) } };
+	}
+
+	/**
+	 * Build selection criteria from form state
+	 */
+	private buildCriteria(): SelectionCriteria {
+		return {
+			type: this.criteriaType,
+			folders: this.criteriaType === "folder" ? this.folders : undefined,
+			tags: this.criteriaType === "tag" ? this.tags : undefined,
+			customCriteria: this.criteriaType === "custom" ? [this.customRoot] : undefined,
+			query: this.criteriaType === "query" ? this.query.trim() : undefined,
+		};
+	}
+
+	/**
+	 * Render per-queue FSRS parameter overrides
+	 */
+	private renderSchedulingSection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "fsrs-queue-scheduling-section" });
+
+		new Setting(section)
+			.setName("Custom scheduling")
+			.setDesc("Use this queue's own retention and interval settings instead of the global ones")
+			.addToggle((toggle) =>
+				toggle.setValue(this.useCustomScheduling).onChange((value) => {
+					this.useCustomScheduling = value;
+					if (value && Object.keys(this.fsrsParams).length === 0) {
+						// Start from the current global values
+						const globalParams: FSRSParams = {
+							...DEFAULT_FSRS_PARAMS,
+							...this.dataStore.getSettings().fsrsParams,
+						};
+						this.fsrsParams = {
+							requestRetention: globalParams.requestRetention,
+							maximumInterval: globalParams.maximumInterval,
+							enableFuzz: globalParams.enableFuzz,
+						};
+					}
+					this.render();
+					this.updatePreview();
+				})
+			);
+
+		if (!this.useCustomScheduling) {
+			return;
+		}
+
+		const params: FSRSParams = {
+			...DEFAULT_FSRS_PARAMS,
+			...this.dataStore.getSettings().fsrsParams,
+			...this.fsrsParams,
+		};
+
+		new Setting(section)
+			.setName("Desired retention")
+			.setDesc("Target recall probability for this queue (0.70–0.97)")
+			.addText((text) =>
+				text.setValue(String(params.requestRetention)).onChange((value) => {
+					const n = parseFloat(value);
+					if (!Number.isNaN(n) && n >= 0.7 && n <= 0.97) {
+						this.fsrsParams.requestRetention = n;
+					}
+				})
+			);
+
+		new Setting(section)
+			.setName("Maximum interval")
+			.setDesc("Longest allowed gap between reviews, in days")
+			.addText((text) =>
+				text.setValue(String(params.maximumInterval)).onChange((value) => {
+					const n = parseInt(value, 10);
+					if (!Number.isNaN(n) && n >= 1 && n <= 36500) {
+						this.fsrsParams.maximumInterval = n;
+					}
+				})
+			);
+
+		new Setting(section)
+			.setName("Interval fuzz")
+			.setDesc("Add slight randomness to intervals")
+			.addToggle((toggle) =>
+				toggle.setValue(params.enableFuzz).onChange((value) => {
+					this.fsrsParams.enableFuzz = value;
+				})
+			);
+
+		const weightsSetting = new Setting(section)
+			.setName("Personalized parameters")
+			.setDesc(
+				this.fsrsParams.weights
+					? "Using parameters optimized from this queue's reviews"
+					: "Using the global parameters"
+			);
+
+		// Optimizing needs the queue's own review history, so only offer it when editing
+		const queue = this.queue;
+		if (queue) {
+			weightsSetting.addButton((button) =>
+				button.setButtonText("Optimize").onClick(() => {
+					new OptimizerModal(
+						this.app,
+						this.dataStore,
+						this.cardManager,
+						async (weights) => {
+							this.fsrsParams.weights = weights;
+							const stored = this.dataStore.getQueue(queue.id)?.fsrsParams;
+							this.queueManager.updateQueue(queue.id, {
+								fsrsParams: { ...stored, weights },
+							});
+							await this.dataStore.save();
+							this.render();
+							this.updatePreview();
+						},
+						queue.id
+					).open();
+				})
+			);
+		}
+
+		weightsSetting.addButton((button) =>
+			button
+				.setButtonText("Reset")
+				.setDisabled(!this.fsrsParams.weights)
+				.onClick(() => {
+					delete this.fsrsParams.weights;
+					this.render();
+					this.updatePreview();
+				})
+		);
+	}
+
+	/**
+	 * Render recall mode settings
+	 */
+	private renderRecallSection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "fsrs-queue-recall-section" });
+
+		new Setting(section)
+			.setName("Recall mode")
+			.setDesc("Show only a prompt at first; rating is enabled after the answer is shown")
+			.addToggle((toggle) =>
+				toggle.setValue(this.recall.enabled).onChange((value) => {
+					this.recall.enabled = value;
+					this.render();
+					this.updatePreview();
+				})
+			);
+
+		if (!this.recall.enabled) {
+			return;
+		}
+
+		new Setting(section)
+			.setName("Prompt")
+			.setDesc("What to show before the answer")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("title", "Note title")
+					.addOption("property", "Frontmatter property")
+					.addOption("heading", "First heading")
+					.setValue(this.recall.promptSource)
+					.onChange((value) => {
+						this.recall.promptSource = value as RecallPromptSource;
+						this.render();
+						this.updatePreview();
+					})
+			);
+
+		if (this.recall.promptSource === "property") {
+			new Setting(section)
+				.setName("Prompt property")
+				.setDesc("Notes without this property show their title")
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_RECALL_PROPERTY)
+						.setValue(this.recall.property ?? "")
+						.onChange((value) => {
+							this.recall.property = value.trim() || undefined;
+						})
+				);
+		}
+	}
+
+	/**
+	 * Render leech detection settings
+	 */
+	private renderLeechSection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "fsrs-queue-leech-section" });
+
+		new Setting(section)
+			.setName("Leech detection")
+			.setDesc("Act on notes that are forgotten again and again, so they can be rewritten")
+			.addToggle((toggle) =>
+				toggle.setValue(this.leech.enabled).onChange((value) => {
+					this.leech.enabled = value;
+					this.render();
+					this.updatePreview();
+				})
+			);
+
+		if (!this.leech.enabled) {
+			return;
+		}
+
+		new Setting(section)
+			.setName("Leech threshold")
+			.setDesc("Lapses before a note is a leech; it is flagged again every half as many lapses after that")
+			.addSlider((slider) =>
+				slider
+					.setLimits(LEECH_THRESHOLD_MIN, LEECH_THRESHOLD_MAX, 1)
+					.setValue(this.leech.threshold)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						this.leech.threshold = value;
+					})
+			);
+
+		new Setting(section)
+			.setName("Leech action")
+			.setDesc("What happens when a note becomes a leech")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("tag", `Tag it #${LEECH_TAG}`)
+					.addOption("suspend", "Suspend it")
+					.addOption("move", `Move it to the ${LEECH_QUEUE_NAME} queue`)
+					.setValue(this.leech.action)
+					.onChange((value) => {
+						this.leech.action = value as LeechAction;
+					})
+			);
+	}
+
+	/**
+	 * Render linked note separation settings
+	 */
+	private renderSiblingSection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "fsrs-queue-sibling-section" });
+
+		new Setting(section)
+			.setName("Separate linked notes")
+			.setDesc("After a rating, keep notes linked to or from it, and its other sub-cards, out of the next reviews")
+			.addToggle((toggle) =>
+				toggle.setValue(this.siblings.enabled).onChange((value) => {
+					this.siblings.enabled = value;
+					this.render();
+					this.updatePreview();
+				})
+			);
+
+		if (!this.siblings.enabled) {
+			return;
+		}
+
+		new Setting(section)
+			.setName("Linked notes")
+			.setDesc("Where linked notes still to come in the session go")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("delay", "Later in the session")
+					.addOption("bury", "Bury until tomorrow")
+					.setValue(this.siblings.action)
+					.onChange((value) => {
+						this.siblings.action = value as SiblingAction;
+					})
+			);
+	}
+
+	/**
+	 * Render the per-queue daily limit
+	 */
+	private renderDailyLimitSection(container: HTMLElement): void {
+		new Setting(container)
+			.setName("Daily limit")
+			.setDesc("Most notes to review from this queue per day, in any session. Leave empty for no limit.")
+			.addText((text) =>
+				text
+					.setPlaceholder("No limit")
+					.setValue(this.dailyLimit === undefined ? "" : String(this.dailyLimit))
+					.onChange((value) => {
+						const n = parseInt(value, 10);
+						if (value.trim() === "") {
+							this.dailyLimit = undefined;
+						} else if (!Number.isNaN(n) && n >= 1 && n <= QUEUE_DAILY_LIMIT_MAX) {
+							this.dailyLimit = n;
+						}
+					})
+			);
+	}
+
 	/**
 	 * Show folder picker using InputModal
 	 */
@@ -281,11 +735,7 @@ export class QueueEditModal extends Modal {
 	 * Update preview count
 	 */
 	private updatePreview(): void {
-		const criteria: SelectionCriteria = {
-			type: this.criteriaType,
-			folders: this.criteriaType === "folder" ? this.folders : undefined,
-			tags: this.criteriaType === "tag" ? this.tags : undefined,
-		};
+		const criteria = this.buildCriteria();
 
 		const noteResolver = this.queueManager.getNoteResolver();
 		const matchingNotes = noteResolver.resolveNotesForCriteria(criteria);
@@ -330,17 +780,39 @@ export class QueueEditModal extends Modal {
 			return;
 		}
 
-		const criteria: SelectionCriteria = {
-			type: this.criteriaType,
-			folders: this.criteriaType === "folder" ? this.folders : undefined,
-			tags: this.criteriaType === "tag" ? this.tags : undefined,
-		};
+		if (this.criteriaType === "custom") {
+			const [firstError] = validateCriterionConfig(this.customRoot);
+			if (firstError) {
+				new Notice(firstError, NOTICE_DURATION_MS);
+				return;
+			}
+		}
+
+		if (this.criteriaType === "query") {
+			const [firstError] = parseQuery(this.query).errors;
+			if (firstError) {
+				new Notice(formatQueryError(this.query, firstError), NOTICE_DURATION_MS);
+				return;
+			}
+		}
+
+		const criteria = this.buildCriteria();
+
+		const fsrsParams = this.useCustomScheduling ? { ...this.fsrsParams } : undefined;
+		const recall = this.recall.enabled ? { ...this.recall } : undefined;
+		const leech = this.leech.enabled ? { ...this.leech } : undefined;
+		const siblings = this.siblings.enabled ? { ...this.siblings } : undefined;
 
 		if (this.queue) {
 			// Update existing queue
 			this.queueManager.updateQueue(this.queue.id, {
 				name: this.name.trim(),
 				criteria,
+				fsrsParams,
+				recall,
+				leech,
+				siblings,
+				dailyLimit: this.dailyLimit,
 			});
 
 			// Sync to update cards
@@ -349,7 +821,15 @@ export class QueueEditModal extends Modal {
 			new Notice("Queue updated", NOTICE_DURATION_MS);
 		} else {
 			// Create new queue
-			const newQueue = this.queueManager.createQueue(this.name.trim(), criteria);
+			const newQueue = this.queueManager.createQueue(
+				this.name.trim(),
+				criteria,
+				fsrsParams,
+				recall,
+				leech,
+				siblings,
+				this.dailyLimit
+			);
 
 			// Sync to add cards
 			this.queueManager.syncQueue(newQueue.id);
@@ -5,8 +5,10 @@
 import { Modal, App, Notice } from "obsidian";
 import type { QueueManager } from "../../queues/queue-manager";
 import type { DataStore } from "../../data/data-store";
+import type { CardManager } from "../../fsrs/card-manager";
 import type { Queue } from "../../types";
 import { DEFAULT_QUEUE_ID, NOTICE_DURATION_MS } from "../../constants";
+import { describeCriterion } from "../../criteria/criteria-factory";
 import { QueueEditModal } from "./queue-edit-modal";
 import { QueueDeleteModal } from "./queue-delete-modal";
 
@@ -16,17 +18,20 @@ import { QueueDeleteModal } from "./queue-delete-modal";
 export class QueueListModal extends Modal {
 	private queueManager: QueueManager;
 	private dataStore: DataStore;
+	private cardManager: CardManager;
 	private onQueueSelect?: (queueId: string) => void;
 
 	constructor(
 		app: App,
 		queueManager: QueueManager,
 		dataStore: DataStore,
+		cardManager: CardManager,
 		onQueueSelect?: (queueId: string) => void
 	) {
 		super(app);
 		this.queueManager = queueManager;
 		this.dataStore = dataStore;
+		this.cardManager = cardManager;
 		this.onQueueSelect = onQueueSelect;
 	}
 
@@ -189,7 +194,13 @@ export class QueueListModal extends Modal {
 			return `Tags: ${tags.length} selected`;
 		}
 
-		return "Custom criteria";
+		if (criteria.type === "query") {
+			return criteria.query?.trim() ? `Query: ${criteria.query.trim()}` : "No query";
+		}
+
+		const custom = criteria.customCriteria ?? [];
+		if (custom.length === 0) return "No conditions";
+		return custom.map(describeCriterion).join(" AND ");
 	}
 
 	/**
@@ -200,6 +211,7 @@ export class QueueListModal extends Modal {
 			this.app,
 			this.queueManager,
 			this.dataStore,
+			this.cardManager,
 			queue,
 			() => this.render()
 		);
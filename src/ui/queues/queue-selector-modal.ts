@@ -2,9 +2,12 @@
  * Queue Selector Modal - Select queue for review session
  */
 
-import { Modal, App } from "obsidian";
+import { Modal, App, Setting } from "obsidian";
 import type { QueueManager } from "../../queues/queue-manager";
-import type { Queue } from "../../types";
+import type { Queue, SessionInterleave } from "../../types";
+
+/** Callback for starting one session over several queues */
+export type MultiQueueSelectCallback = (queueIds: string[], interleave: SessionInterleave) => void;
 
 /**
  * Modal for selecting a queue to start review
@@ -12,15 +15,23 @@ import type { Queue } from "../../types";
 export class QueueSelectorModal extends Modal {
 	private queueManager: QueueManager;
 	private onSelect: (queueId: string) => void;
+	/** When set, queues can also be mixed into one session */
+	private onSelectMany: MultiQueueSelectCallback | undefined;
+
+	private selectedIds: Set<string> = new Set();
+	private interleave: SessionInterleave = "round-robin";
+	private mixButton: HTMLButtonElement | null = null;
 
 	constructor(
 		app: App,
 		queueManager: QueueManager,
-		onSelect: (queueId: string) => void
+		onSelect: (queueId: string) => void,
+		onSelectMany?: MultiQueueSelectCallback
 	) {
 		super(app);
 		this.queueManager = queueManager;
 		this.onSelect = onSelect;
+		this.onSelectMany = onSelectMany;
 	}
 
 	onOpen(): void {
@@ -44,6 +55,10 @@ export class QueueSelectorModal extends Modal {
 			this.renderQueueOption(listContainer, queue);
 		}
 
+		if (this.onSelectMany && queues.length > 1) {
+			this.renderMixSection(contentEl, queues);
+		}
+
 		// Cancel button
 		const cancelBtn = contentEl.createEl("button", {
 			cls: "fsrs-queue-selector-cancel",
@@ -68,6 +83,25 @@ export class QueueSelectorModal extends Modal {
 			cls: `fsrs-queue-selector-option ${hasDue ? "" : "fsrs-queue-disabled"}`,
 		});
 
+		// Checkbox for mixing queues into one session
+		if (this.onSelectMany) {
+			const checkbox = option.createEl("input", {
+				cls: "fsrs-queue-selector-check",
+				type: "checkbox",
+			});
+			checkbox.checked = this.selectedIds.has(queue.id);
+			checkbox.disabled = !hasDue;
+			checkbox.addEventListener("click", (e) => e.stopPropagation());
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selectedIds.add(queue.id);
+				} else {
+					this.selectedIds.delete(queue.id);
+				}
+				this.updateMixButton();
+			});
+		}
+
 		// Queue info
 		const info = option.createDiv({ cls: "fsrs-queue-selector-info" });
 		info.createDiv({ cls: "fsrs-queue-selector-name", text: queue.name });
@@ -104,4 +138,55 @@ export class QueueSelectorModal extends Modal {
 			});
 		}
 	}
+
+	/**
+	 * Render the controls for reviewing several queues in one session
+	 */
+	private renderMixSection(container: HTMLElement, queues: Queue[]): void {
+		const section = container.createDiv({ cls: "fsrs-queue-selector-mix" });
+		section.createEl("h3", { text: "Mix queues" });
+		section.createEl("p", {
+			cls: "fsrs-queue-selector-desc",
+			text: "Tick queues above to review them in one session. Each note is rated in its own queue.",
+		});
+
+		new Setting(section)
+			.setName("Take turns")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("round-robin", "One note from each queue in turn")
+					.addOption("weighted", "In proportion to notes due")
+					.setValue(this.interleave)
+					.onChange((value) => {
+						this.interleave = value as SessionInterleave;
+					})
+			);
+
+		const buttons = section.createDiv({ cls: "fsrs-queue-selector-mix-buttons" });
+		this.mixButton = buttons.createEl("button", { text: "Review selected" });
+		this.mixButton.addEventListener("click", () => this.selectMany([...this.selectedIds]));
+		this.updateMixButton();
+
+		const dueIds = queues.filter((q) => this.queueManager.getQueueStats(q.id).dueNotes > 0).map((q) => q.id);
+		const allBtn = buttons.createEl("button", { cls: "mod-cta", text: "Review all queues" });
+		allBtn.disabled = dueIds.length === 0;
+		allBtn.addEventListener("click", () => this.selectMany(dueIds));
+	}
+
+	/**
+	 * Enable mixing once at least two queues are ticked
+	 */
+	private updateMixButton(): void {
+		if (this.mixButton) {
+			this.mixButton.disabled = this.selectedIds.size < 2;
+		}
+	}
+
+	private selectMany(queueIds: string[]): void {
+		if (!this.onSelectMany || queueIds.length === 0) {
+			return;
+		}
+		this.onSelectMany(queueIds, this.interleave);
+		this.close();
+	}
 }
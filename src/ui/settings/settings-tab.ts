@@ -7,8 +7,45 @@ import { App, PluginSettingTab, Setting, Notice, TFolder } from "obsidian";
 import type { Plugin } from "obsidian";
 import type { DataStore } from "../../data/data-store";
 import type { QueueManager } from "../../queues/queue-manager";
-import type { PluginSettings, SelectionMode, QueueOrderStrategy, SidebarPosition } from "../../types";
+import type {
+	PluginSettings,
+	SelectionMode,
+	QueueOrderStrategy,
+	SidebarPosition,
+	FSRSParams,
+} from "../../types";
+import { DEFAULT_FSRS_PARAMS } from "../../constants";
 import { InputModal } from "./input-modal";
+import { handleError } from "../../utils/error-handler";
+
+/** Weekday labels indexed like Date.getDay() */
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Choices for moving old reviews to the archive, in months (0 = never) */
+const ARCHIVE_AFTER_OPTIONS: [number, string][] = [
+	[3, "3 months"],
+	[6, "6 months"],
+	[12, "1 year"],
+	[24, "2 years"],
+	[0, "Never"],
+];
+
+/** Choices for deleting archived reviews, in years (0 = keep forever) */
+const ARCHIVE_RETENTION_OPTIONS: [number, string][] = [
+	[0, "Never"],
+	[2, "After 2 years"],
+	[5, "After 5 years"],
+	[10, "After 10 years"],
+];
+
+/**
+ * Format a size on disk for display
+ */
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 /** Callback for when settings change */
 export type SettingsChangeCallback = (settings: PluginSettings) => void;
@@ -20,18 +57,21 @@ export class SettingsTab extends PluginSettingTab {
 	private dataStore: DataStore;
 	private queueManager: QueueManager;
 	private onSettingsChange: SettingsChangeCallback;
+	private onOpenOptimizer: () => void;
 
 	constructor(
 		app: App,
 		plugin: Plugin,
 		dataStore: DataStore,
 		queueManager: QueueManager,
-		onSettingsChange: SettingsChangeCallback
+		onSettingsChange: SettingsChangeCallback,
+		onOpenOptimizer: () => void
 	) {
 		super(app, plugin);
 		this.dataStore = dataStore;
 		this.queueManager = queueManager;
 		this.onSettingsChange = onSettingsChange;
+		this.onOpenOptimizer = onOpenOptimizer;
 	}
 
 	display(): void {
@@ -49,6 +89,12 @@ export class SettingsTab extends PluginSettingTab {
 		// Review Settings Section
 		this.renderReviewSettingsSection(containerEl, settings);
 
+		// FSRS Parameters Section
+		this.renderFsrsSection(containerEl, settings);
+
+		// Review History Section
+		this.renderReviewHistorySection(containerEl, settings);
+
 		// Interface Settings Section
 		this.renderInterfaceSection(containerEl, settings);
 	}
@@ -117,13 +163,26 @@ export class SettingsTab extends PluginSettingTab {
 					.addOption("load-balancing", "Load balancing")
 					.addOption("difficulty-desc", "Difficulty (hard first)")
 					.addOption("difficulty-asc", "Difficulty (easy first)")
+					.addOption("prerequisites-first", "Prerequisites first (link graph)")
 					.addOption("random", "Random")
 					.setValue(settings.queueOrder)
 					.onChange(async (value) => {
 						await this.updateSetting("queueOrder", value as QueueOrderStrategy);
+						this.display();
 					})
 			);
 
+		if (settings.queueOrder === "prerequisites-first") {
+			new Setting(containerEl)
+				.setName("Postpone dependent notes after a lapse")
+				.setDesc("When a note is rated again, notes that link to it move to the end of the session")
+				.addToggle((toggle) =>
+					toggle.setValue(settings.demoteDependentsOnLapse).onChange(async (value) => {
+						await this.updateSetting("demoteDependentsOnLapse", value);
+					})
+				);
+		}
+
 		// Daily limits (used by mixed-anki and load-balancing)
 		new Setting(containerEl)
 			.setName("New cards per day")
@@ -186,6 +245,199 @@ export class SettingsTab extends PluginSettingTab {
 			);
 	}
 
+	/**
+	 * Render FSRS parameters section
+	 */
+	private renderFsrsSection(containerEl: HTMLElement, settings: PluginSettings): void {
+		new Setting(containerEl).setName("Scheduling algorithm").setHeading();
+
+		const params: FSRSParams = { ...DEFAULT_FSRS_PARAMS, ...settings.fsrsParams };
+
+		new Setting(containerEl)
+			.setName("Desired retention")
+			.setDesc("Target probability of recalling a note when it is due (0.70–0.97)")
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_FSRS_PARAMS.requestRetention))
+					.setValue(String(params.requestRetention))
+					.onChange(async (value) => {
+						const n = parseFloat(value);
+						if (!Number.isNaN(n) && n >= 0.7 && n <= 0.97) {
+							await this.updateFsrsParams({ requestRetention: n });
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Maximum interval")
+			.setDesc("Longest allowed gap between reviews, in days")
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_FSRS_PARAMS.maximumInterval))
+					.setValue(String(params.maximumInterval))
+					.onChange(async (value) => {
+						const n = parseInt(value, 10);
+						if (!Number.isNaN(n) && n >= 1 && n <= 36500) {
+							await this.updateFsrsParams({ maximumInterval: n });
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Interval fuzz")
+			.setDesc("Add slight randomness to intervals so reviews do not clump together")
+			.addToggle((toggle) =>
+				toggle.setValue(params.enableFuzz).onChange(async (value) => {
+					await this.updateFsrsParams({ enableFuzz: value });
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Load balancing")
+			.setDesc("Move each review to the least busy day within its fuzz range so the daily workload stays even")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.loadBalancing).onChange(async (value) => {
+					await this.updateSetting("loadBalancing", value);
+					this.display();
+				})
+			);
+
+		if (settings.loadBalancing) {
+			this.renderLightDays(containerEl, settings);
+		}
+
+		new Setting(containerEl)
+			.setName("Personalized parameters")
+			.setDesc(
+				params.weights
+					? "Using parameters optimized from your review history"
+					: "Using default parameters. Optimize them from your review history for more accurate intervals."
+			)
+			.addButton((button) =>
+				button.setButtonText("Optimize").onClick(() => {
+					this.onOpenOptimizer();
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Reset")
+					.setDisabled(!params.weights)
+					.onClick(async () => {
+						const rest: FSRSParams = { ...params };
+						delete rest.weights;
+						await this.updateSetting("fsrsParams", rest);
+						this.display();
+					})
+			);
+	}
+
+	/**
+	 * Merge a partial FSRS parameter update into settings
+	 */
+	private async updateFsrsParams(updates: Partial<FSRSParams>): Promise<void> {
+		const current = this.dataStore.getSettings().fsrsParams;
+		await this.updateSetting("fsrsParams", { ...DEFAULT_FSRS_PARAMS, ...current, ...updates });
+	}
+
+	/**
+	 * Render light day selection and their share of the workload
+	 */
+	private renderLightDays(containerEl: HTMLElement, settings: PluginSettings): void {
+		const lightDaysSetting = new Setting(containerEl)
+			.setName("Light days")
+			.setDesc("Weekdays that get fewer reviews");
+
+		WEEKDAY_LABELS.forEach((label, day) => {
+			const option = lightDaysSetting.controlEl.createEl("label", { cls: "fsrs-light-day" });
+			const checkbox = option.createEl("input", { type: "checkbox" });
+			checkbox.checked = settings.lightDays.includes(day);
+			option.appendText(label);
+
+			checkbox.addEventListener("change", () => {
+				const current = this.dataStore.getSettings().lightDays.filter((d) => d !== day);
+				const lightDays = checkbox.checked ? [...current, day].sort((a, b) => a - b) : current;
+				void this.updateSetting("lightDays", lightDays);
+			});
+		});
+
+		new Setting(containerEl)
+			.setName("Light day workload")
+			.setDesc("Share of a normal day's reviews a light day takes")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 100, 10)
+					.setValue(Math.round(settings.lightDayShare * 100))
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						await this.updateSetting("lightDayShare", value / 100);
+					})
+			);
+	}
+
+	/**
+	 * Render Review History section: archive sizes and retention policy
+	 */
+	private renderReviewHistorySection(containerEl: HTMLElement, settings: PluginSettings): void {
+		new Setting(containerEl).setName("Review history").setHeading();
+
+		// Sizes are read from disk after the tab is shown
+		const storage = new Setting(containerEl).setName("Storage").setDesc("Reading the review log…");
+		this.dataStore
+			.getReviewStorageStats()
+			.then((stats) => {
+				storage.setDesc(
+					`Live log: ${stats.liveMonths} months, ${formatBytes(stats.liveBytes)}. ` +
+						`Archive: ${stats.archivedMonths} months, ${formatBytes(stats.archivedBytes)} compressed.`
+				);
+			})
+			.catch((error) => handleError(error, { component: "SettingsTab.reviewHistory" }));
+
+		new Setting(containerEl)
+			.setName("Archive reviews older than")
+			.setDesc(
+				"Move whole months of old reviews to compressed files. The dashboard, optimizer and exports still read them."
+			)
+			.addDropdown((dropdown) => {
+				for (const [months, label] of ARCHIVE_AFTER_OPTIONS) {
+					dropdown.addOption(String(months), label);
+				}
+				dropdown.setValue(String(settings.archiveAfterMonths)).onChange(async (value) => {
+					await this.updateSetting("archiveAfterMonths", Number(value));
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Delete archived reviews")
+			.setDesc("Deleted reviews are gone for good; note schedules are kept")
+			.addDropdown((dropdown) => {
+				for (const [years, label] of ARCHIVE_RETENTION_OPTIONS) {
+					dropdown.addOption(String(years), label);
+				}
+				dropdown.setValue(String(settings.archiveRetentionYears)).onChange(async (value) => {
+					await this.updateSetting("archiveRetentionYears", Number(value));
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Archive now")
+			.setDesc("Old months are also archived each time Obsidian starts")
+			.addButton((button) =>
+				button.setButtonText("Archive").onClick(async () => {
+					button.setDisabled(true);
+					try {
+						const result = await this.dataStore.archiveReviews();
+						new Notice(
+							`Archived ${result.archivedMonths.length} months, deleted ${result.deletedMonths.length}`
+						);
+						this.display();
+					} catch (error) {
+						handleError(error, { component: "SettingsTab.archiveNow", notifyUser: true });
+						button.setDisabled(false);
+					}
+				})
+			);
+	}
+
 	/**
 	 * Render Interface section
 	 */
@@ -9,6 +9,9 @@ import type { QueueManager } from "../../queues/queue-manager";
 import type { DataStore } from "../../data/data-store";
 import type { SessionState, RatingValue } from "../../types";
 import { QueueSelectorModal } from "../queues/queue-selector-modal";
+import { CramModal } from "../modals/cram-modal";
+import { ReviewAheadModal } from "../modals/review-ahead-modal";
+import { BacklogModal } from "../modals/backlog-modal";
 import {
 	REVIEW_SIDEBAR_VIEW_TYPE,
 	REVIEW_SIDEBAR_DISPLAY_NAME,
@@ -19,6 +22,7 @@ import {
 	CARD_STATE_LABELS,
 } from "../../constants";
 import { Platform } from "../../utils/platform";
+import { getDaysUntil, parseISODate } from "../../utils/date-utils";
 
 /**
  * ReviewSidebar is the main review interface in the sidebar
@@ -119,6 +123,14 @@ export class ReviewSidebar extends ItemView {
 		this.createStatItem(statsDiv, "Due today", String(queueStats.dueNotes));
 		this.createStatItem(statsDiv, "New", String(queueStats.newNotes));
 		this.createStatItem(statsDiv, "Total", String(queueStats.totalNotes));
+		if (queueStats.suspendedNotes > 0) {
+			this.createStatItem(statsDiv, "Suspended", String(queueStats.suspendedNotes));
+		}
+
+		// Backlog recovery progress, or a suggestion to start it
+		for (const queue of queues) {
+			this.renderBacklog(idleContainer, queue.id, queues.length > 1 ? queue.name : null);
+		}
 
 		// Start button (shows queue selector when multiple queues)
 		const startBtn = idleContainer.createEl("button", {
@@ -139,6 +151,101 @@ export class ReviewSidebar extends ItemView {
 			startBtn.disabled = true;
 			startBtn.addClass("fsrs-button-disabled");
 		}
+
+		// Cram: drill notes regardless of due dates
+		const cramBtn = idleContainer.createEl("button", {
+			cls: "fsrs-cram-button",
+			text: "Cram",
+			attr: { "aria-label": "Start cram session" },
+		});
+
+		cramBtn.addEventListener("click", () => {
+			new CramModal(this.app, this.queueManager, (queueId, options) => {
+				void this.sessionManager.startCramSession(queueId, options);
+			}).open();
+		});
+
+		// Review ahead: pull notes due in the coming days forward
+		const aheadBtn = idleContainer.createEl("button", {
+			cls: "fsrs-review-ahead-button",
+			text: "Review ahead",
+			attr: { "aria-label": "Review notes due in the coming days" },
+		});
+
+		aheadBtn.addEventListener("click", () => {
+			new ReviewAheadModal(this.app, this.queueManager, (queueId, days) => {
+				void this.sessionManager.startReviewAheadSession(queueId, days);
+			}).open();
+		});
+	}
+
+	/**
+	 * Render backlog recovery progress for a queue, or suggest recovery
+	 * when it has an overdue backlog
+	 */
+	private renderBacklog(container: HTMLElement, queueId: string, queueName: string | null): void {
+		const progress = this.queueManager.getBacklogProgress(queueId);
+		const prefix = queueName ? `${queueName}: ` : "";
+
+		if (progress) {
+			const section = container.createDiv({ cls: "fsrs-backlog-progress" });
+			const cleared = progress.total - progress.overdue;
+			section.createDiv({
+				cls: "fsrs-backlog-title",
+				text: `${prefix}Backlog recovery, day ${progress.day} of ${progress.days}`,
+			});
+
+			const bar = section.createDiv({ cls: "fsrs-progress-bar" });
+			const fill = bar.createDiv({ cls: "fsrs-progress-fill" });
+			fill.style.width = `${progress.total > 0 ? (cleared / progress.total) * 100 : 0}%`;
+
+			section.createDiv({
+				cls: "fsrs-backlog-detail",
+				text:
+					`${cleared} of ${progress.total} overdue notes cleared. ` +
+					(progress.remainingToday > 0
+						? `${progress.remainingToday} left for today.`
+						: "Today's share is done."),
+			});
+
+			const stopBtn = section.createEl("button", {
+				cls: "fsrs-backlog-stop",
+				text: "Stop recovery",
+				attr: { "aria-label": "Stop backlog recovery and review all overdue notes" },
+			});
+			stopBtn.addEventListener("click", () => {
+				this.queueManager.stopBacklogRecovery(queueId);
+				void this.dataStore.save();
+				this.render();
+			});
+			return;
+		}
+
+		if (!this.queueManager.hasBacklog(queueId)) {
+			return;
+		}
+
+		const section = container.createDiv({ cls: "fsrs-backlog-alert" });
+		section.createDiv({
+			text: `${prefix}${this.queueManager.getOverdueCount(queueId)} overdue notes. Spread them over a few days to catch up without one long session.`,
+		});
+		const planBtn = section.createEl("button", {
+			cls: "fsrs-backlog-plan",
+			text: "Spread over days",
+			attr: { "aria-label": "Plan backlog recovery" },
+		});
+		planBtn.addEventListener("click", () => {
+			new BacklogModal(
+				this.app,
+				this.queueManager,
+				(id, days) => {
+					this.queueManager.startBacklogRecovery(id, days);
+					void this.dataStore.save();
+					this.render();
+				},
+				queueId
+			).open();
+		});
 	}
 
 	/**
@@ -153,10 +260,17 @@ export class ReviewSidebar extends ItemView {
 		}
 		const allQueues = this.queueManager.getAllQueues();
 		if (allQueues.length > 1) {
-			const modal = new QueueSelectorModal(this.app, this.queueManager, (queueId) => {
-				void this.sessionManager.startSession(queueId);
-				modal.close();
-			});
+			const modal = new QueueSelectorModal(
+				this.app,
+				this.queueManager,
+				(queueId) => {
+					void this.sessionManager.startSession(queueId);
+					modal.close();
+				},
+				(queueIds, interleave) => {
+					void this.sessionManager.startMultiQueueSession(queueIds, interleave);
+				}
+			);
 			modal.open();
 		} else {
 			const queueId = allQueues[0]?.id ?? DEFAULT_QUEUE_ID;
@@ -177,6 +291,12 @@ export class ReviewSidebar extends ItemView {
 		// Progress
 		this.renderProgress(container, state);
 
+		// Recall prompt (recall mode or sub-card)
+		const prompt = this.sessionManager.getRecallPrompt();
+		if (prompt !== null) {
+			this.renderRecallPrompt(container, prompt);
+		}
+
 		// Rating buttons or navigation prompt
 		if (isExpectedNote) {
 			this.renderRatingButtons(container, state);
@@ -212,6 +332,39 @@ export class ReviewSidebar extends ItemView {
 			cls: "fsrs-queue-name",
 			text: queue?.name ?? "Review",
 		});
+
+		// In a mixed session the name is the current note's queue
+		if (state.queueIds && state.queueIds.length > 1) {
+			header.createEl("span", {
+				cls: "fsrs-session-badge fsrs-mixed-badge",
+				text: `${state.queueIds.length} queues`,
+				attr: {
+					"aria-label": `Mixed session: ${state.queueIds
+						.map((id) => this.queueManager.getQueue(id)?.name ?? id)
+						.join(", ")}`,
+				},
+			});
+		}
+
+		if (state.reviewAheadDays !== undefined) {
+			header.createEl("span", {
+				cls: "fsrs-session-badge fsrs-ahead-badge",
+				text: `Ahead ${state.reviewAheadDays}d`,
+				attr: { "aria-label": `Reviewing notes due in the next ${state.reviewAheadDays} days` },
+			});
+		}
+
+		if (state.cram) {
+			header.createEl("span", {
+				cls: "fsrs-session-badge fsrs-cram-badge",
+				text: "Cram",
+				attr: {
+					"aria-label": state.cram.updateSchedules
+						? "Cram session: ratings update schedules"
+						: "Cram session: schedules are not changed",
+				},
+			});
+		}
 	}
 
 	/**
@@ -240,6 +393,8 @@ export class ReviewSidebar extends ItemView {
 		const settings = this.dataStore.getSettings();
 		const preview = this.sessionManager.getCurrentSchedulingPreview();
 
+		const canRate = this.sessionManager.canRate();
+
 		const buttonsContainer = container.createDiv({ cls: "fsrs-rating-buttons" });
 
 		const ratings: RatingValue[] = [RATINGS.AGAIN, RATINGS.HARD, RATINGS.GOOD, RATINGS.EASY];
@@ -267,7 +422,44 @@ export class ReviewSidebar extends ItemView {
 			btn.addEventListener("click", () => {
 				void this.sessionManager.rate(rating);
 			});
+
+			// Disabled until the answer is revealed
+			if (!canRate) {
+				btn.disabled = true;
+				btn.addClass("fsrs-button-disabled");
+			}
+		}
+	}
+
+	/**
+	 * Render the recall prompt and the show answer button
+	 */
+	private renderRecallPrompt(container: HTMLElement, prompt: string): void {
+		const recallContainer = container.createDiv({ cls: "fsrs-recall-prompt" });
+
+		recallContainer.createEl("div", {
+			cls: "fsrs-recall-question",
+			text: prompt,
+		});
+
+		if (this.sessionManager.canRate()) {
+			return;
 		}
+
+		recallContainer.createEl("div", {
+			cls: "fsrs-prompt-message",
+			text: "Recall the note, then show the answer",
+		});
+
+		const showBtn = recallContainer.createEl("button", {
+			cls: "fsrs-show-answer-button mod-cta",
+			text: "Show answer",
+			attr: { "aria-label": "Show answer" },
+		});
+
+		showBtn.addEventListener("click", () => {
+			void this.sessionManager.revealAnswer();
+		});
 	}
 
 	/**
@@ -293,7 +485,7 @@ export class ReviewSidebar extends ItemView {
 	}
 
 	/**
-	 * Render navigation controls (Skip, Back, Undo)
+	 * Render navigation controls (Skip, Bury, Suspend, Back, Undo)
 	 */
 	private renderNavigationControls(
 		container: HTMLElement,
@@ -315,6 +507,31 @@ export class ReviewSidebar extends ItemView {
 			skipBtn.disabled = true;
 		}
 
+		// Bury button: hide the note until tomorrow
+		const buryBtn = controlsContainer.createEl("button", {
+			cls: "fsrs-nav-button",
+			text: "Bury",
+			attr: { "aria-label": "Bury current note until tomorrow" },
+		});
+		buryBtn.addEventListener("click", () => {
+			void this.sessionManager.buryCurrent();
+		});
+
+		// Suspend button: hide the note until unsuspended
+		const suspendBtn = controlsContainer.createEl("button", {
+			cls: "fsrs-nav-button",
+			text: "Suspend",
+			attr: { "aria-label": "Suspend current note" },
+		});
+		suspendBtn.addEventListener("click", () => {
+			void this.sessionManager.suspendCurrent();
+		});
+
+		if (!isExpectedNote) {
+			buryBtn.disabled = true;
+			suspendBtn.disabled = true;
+		}
+
 		// Back button
 		const backBtn = controlsContainer.createEl("button", {
 			cls: "fsrs-nav-button",
@@ -370,6 +587,14 @@ export class ReviewSidebar extends ItemView {
 		}
 		this.createStatItem(statsGrid, "Reviews", String(schedule.reps));
 		this.createStatItem(statsGrid, "Lapses", String(schedule.lapses));
+
+		// Notes pulled forward show how early they are
+		if (state.reviewAheadDays !== undefined) {
+			const daysUntilDue = getDaysUntil(parseISODate(schedule.due));
+			if (daysUntilDue > 0) {
+				this.createStatItem(statsGrid, "Due in", `${daysUntilDue} ${daysUntilDue === 1 ? "day" : "days"}`);
+			}
+		}
 	}
 
 	/**
@@ -0,0 +1,21 @@
+/**
+ * Compression utilities
+ * Gzip through the built-in compression streams, available in Obsidian on
+ * desktop and mobile
+ */
+
+/**
+ * Compress text with gzip
+ */
+export async function gzip(text: string): Promise<ArrayBuffer> {
+	const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("gzip"));
+	return new Response(stream).arrayBuffer();
+}
+
+/**
+ * Decompress gzip data to text
+ */
+export async function gunzip(data: ArrayBuffer): Promise<string> {
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"));
+	return new Response(stream).text();
+}
@@ -44,6 +44,34 @@ export function isDue(date: Date): boolean {
 	return date <= getEndOfToday();
 }
 
+/**
+ * Check if a date is due within the given number of days after today
+ */
+export function isDueWithin(date: Date, days: number): boolean {
+	const end = getEndOfToday();
+	end.setDate(end.getDate() + days);
+	return date <= end;
+}
+
+/**
+ * Format a date as a local YYYY-MM-DD key
+ */
+export function formatDateKey(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a local YYYY-MM-DD key to the start of that day, or null if invalid
+ */
+export function parseDateKey(key: string): Date | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key.trim());
+	if (!match) {
+		return null;
+	}
+	const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+	return formatDateKey(date) === key.trim() ? date : null;
+}
+
 /**
  * Get days between two dates (can be negative if date2 is before date1)
  */
@@ -4,6 +4,7 @@
 
 export * from "./date-utils";
 export * from "./id-generator";
+export { gzip, gunzip } from "./compression";
 export { handleError } from "./error-handler";
 export type { ErrorContext } from "./error-handler";
 export { Platform } from "./platform";
@@ -0,0 +1,171 @@
+/**
+ * Behavioral tests for backlog recovery
+ *
+ * Verifies that backlog recovery:
+ * - Detects a queue with a large overdue backlog
+ * - Adds a fixed daily share of overdue notes to the notes due today
+ * - Puts notes about to be forgotten first
+ * - Tracks progress without changing the plan, and ends it on the stats
+ *   update once nothing is overdue
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { BACKLOG_MIN_OVERDUE } from '../../src/constants';
+import type { CardSchedule } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Filler notes that, with the three named ones, make up the backlog */
+const FILLER_COUNT = BACKLOG_MIN_OVERDUE + 7;
+
+/**
+ * A review-state schedule last reviewed `ago` days back and due `dueIn` days from now
+ */
+function reviewSchedule(stability: number, ago: number, dueIn: number): Partial<CardSchedule> {
+	const now = Date.now();
+	return {
+		state: 2,
+		stability,
+		difficulty: 5,
+		reps: 3,
+		scheduledDays: ago + dueIn,
+		lastReview: new Date(now - ago * DAY_MS).toISOString(),
+		due: new Date(now + dueIn * DAY_MS).toISOString(),
+	};
+}
+
+describe('Backlog Recovery', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let queueId: string;
+
+	function setSchedule(path: string, schedule: Partial<CardSchedule>): void {
+		const card = dataStore.getCard(path)!;
+		dataStore.updateCard(path, {
+			schedules: { ...card.schedules, [queueId]: { ...card.schedules[queueId]!, ...schedule } },
+		});
+	}
+
+	beforeEach(async () => {
+		const notes = [
+			{ path: 'Notes/Fragile.md', content: 'Fragile.' },
+			{ path: 'Notes/Forgotten.md', content: 'Forgotten.' },
+			{ path: 'Notes/Today.md', content: 'Today.' },
+			...Array.from({ length: FILLER_COUNT }, (_, i) => ({ path: `Notes/Filler ${i}.md`, content: 'Filler.' })),
+		];
+		const { vault, metadataCache } = createTestVault(notes);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+
+		// Fragile is slipping fast; Forgotten is long gone; fillers are stable and fade slowly
+		setSchedule('Notes/Fragile.md', reviewSchedule(5, 5, -1));
+		setSchedule('Notes/Forgotten.md', reviewSchedule(0.5, 365, -300));
+		setSchedule('Notes/Today.md', reviewSchedule(10, 10, 0));
+		for (let i = 0; i < FILLER_COUNT; i++) {
+			setSchedule(`Notes/Filler ${i}.md`, reviewSchedule(100, 50, -5));
+		}
+	});
+
+	test('A large overdue backlog is detected', () => {
+		expect(queueManager.getOverdueCount(queueId)).toBe(FILLER_COUNT + 2);
+		expect(queueManager.hasBacklog(queueId)).toBe(true);
+
+		queueManager.startBacklogRecovery(queueId, 6);
+
+		// A queue already recovering is not flagged again
+		expect(queueManager.hasBacklog(queueId)).toBe(false);
+	});
+
+	test('Each day gets a share of the backlog, most at risk first', () => {
+		const plan = queueManager.startBacklogRecovery(queueId, 6);
+		expect(plan.total).toBe(FILLER_COUNT + 2);
+
+		// Then: Today's due note plus a sixth of the backlog
+		const quota = Math.ceil(plan.total / 6);
+		const due = queueManager.getDueNotes(queueId, 'due-overdue-first').map((c) => c.notePath);
+		expect(due).toHaveLength(1 + quota);
+		expect(due[0]).toBe('Notes/Today.md');
+		expect(due[1]).toBe('Notes/Fragile.md');
+
+		// Notes already forgotten gain little from being reviewed first
+		expect(due).not.toContain('Notes/Forgotten.md');
+	});
+
+	test('Reviewing backlog notes counts toward today\'s share without shrinking it', () => {
+		queueManager.startBacklogRecovery(queueId, 6);
+		const quota = queueManager.getBacklogProgress(queueId)!.remainingToday;
+
+		// When: Reviewing four backlog notes
+		for (const path of ['Notes/Fragile.md', 'Notes/Filler 0.md', 'Notes/Filler 1.md', 'Notes/Filler 2.md']) {
+			cardManager.updateCardSchedule(path, queueId, 3, 's1');
+		}
+
+		// Then: Progress shows them cleared and the rest of today's share is left
+		const progress = queueManager.getBacklogProgress(queueId)!;
+		expect(progress).toMatchObject({ day: 1, days: 6, total: FILLER_COUNT + 2, overdue: FILLER_COUNT - 2 });
+		expect(progress.remainingToday).toBe(quota - 4);
+		expect(queueManager.getDueNotes(queueId, 'due-overdue-first')).toHaveLength(1 + quota - 4);
+	});
+
+	test('Later days split what is left over the remaining days', () => {
+		queueManager.startBacklogRecovery(queueId, 6);
+
+		// Given: The plan started two days ago and today's share is not set yet
+		const plan = dataStore.getQueue(queueId)!.backlog!;
+		const start = new Date();
+		start.setHours(0, 0, 0, 0);
+		start.setDate(start.getDate() - 2);
+		dataStore.updateQueue(queueId, { backlog: { ...plan, startedAt: start.toISOString(), today: undefined } });
+
+		// Then: Day 3 of 6, so the backlog is split over four days
+		const progress = queueManager.getBacklogProgress(queueId)!;
+		expect(progress.day).toBe(3);
+		expect(progress.remainingToday).toBe(Math.ceil((FILLER_COUNT + 2) / 4));
+
+		// Then: The share is fixed by the first stats update of the day
+		expect(dataStore.getQueue(queueId)!.backlog!.today).toBeUndefined();
+		queueManager.updateQueueStats(queueId);
+		expect(dataStore.getQueue(queueId)!.backlog!.today?.quota).toBe(progress.remainingToday);
+	});
+
+	test('The plan is saved and ends once nothing is overdue', async () => {
+		queueManager.startBacklogRecovery(queueId, 6);
+
+		// A saved plan survives a reload
+		await dataStore.save();
+		const reloaded = new DataStore(plugin);
+		await reloaded.initialize();
+		expect(reloaded.getQueue(queueId)?.backlog).toMatchObject({ days: 6, total: FILLER_COUNT + 2 });
+
+		for (const card of cardManager.getOverdueCards(queueId)) {
+			setSchedule(card.notePath, reviewSchedule(10, 1, 5));
+		}
+
+		// Then: Reading progress and due notes leaves the plan alone
+		expect(queueManager.getBacklogProgress(queueId)).toBeNull();
+		queueManager.getDueNotes(queueId);
+		expect(dataStore.getQueue(queueId)?.backlog).toBeDefined();
+
+		// Then: The next stats update, as after a rating, ends it
+		queueManager.updateQueueStats(queueId);
+		expect(dataStore.getQueue(queueId)?.backlog).toBeUndefined();
+	});
+});
@@ -0,0 +1,163 @@
+/**
+ * Behavioral tests for bulk postpone and advance
+ *
+ * Verifies that bulk rescheduling:
+ * - Flags postponed notes with low stability, while stable ones move cheaply
+ * - Previews the projected retention before and after the change
+ * - Moves due dates and logs a reschedule entry for each note
+ * - Advances upcoming notes no earlier than today
+ * - Keeps reschedule entries out of retention stats, the optimizer and the revlog
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { buildTrainingSequences } from '../../src/fsrs/optimizer';
+import { buildRevlogCsv } from '../../src/data/review-exporter';
+import { calculateRetentionStats } from '../../src/ui/dashboard/dashboard-analytics';
+import type { CardSchedule } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A review-state schedule last reviewed `ago` days back and due in `dueIn` days
+ */
+function reviewSchedule(stability: number, ago: number, dueIn: number): Partial<CardSchedule> {
+	const now = Date.now();
+	return {
+		state: 2,
+		stability,
+		difficulty: 5,
+		reps: 3,
+		scheduledDays: ago + dueIn,
+		lastReview: new Date(now - ago * DAY_MS).toISOString(),
+		due: new Date(now + dueIn * DAY_MS).toISOString(),
+	};
+}
+
+describe('Bulk Reschedule', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let queueId: string;
+
+	function setSchedule(path: string, schedule: Partial<CardSchedule>): void {
+		const card = dataStore.getCard(path)!;
+		dataStore.updateCard(path, {
+			schedules: { ...card.schedules, [queueId]: { ...card.schedules[queueId]!, ...schedule } },
+		});
+	}
+
+	function candidates(action: 'postpone' | 'advance', days: number): string[] {
+		return queueManager
+			.getRescheduleCandidates(queueId, action, days)
+			.map((c) => c.notePath)
+			.sort();
+	}
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/Fragile.md', content: 'Fragile.' },
+			{ path: 'Archive/Sturdy.md', content: 'Sturdy.' },
+			{ path: 'Notes/Upcoming.md', content: 'Upcoming.' },
+			{ path: 'Notes/Steady.md', content: 'Steady.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes', 'Archive'] }).id;
+		queueManager.syncQueue(queueId);
+
+		// Fragile and Sturdy are overdue; Upcoming and Steady come due in two days
+		setSchedule('Notes/Fragile.md', reviewSchedule(1, 3, -1));
+		setSchedule('Archive/Sturdy.md', reviewSchedule(200, 30, -1));
+		setSchedule('Notes/Upcoming.md', reviewSchedule(10, 8, 2));
+		setSchedule('Notes/Steady.md', reviewSchedule(200, 1, 2));
+	});
+
+	test('Postponing flags low-stability notes and previews retention', () => {
+		expect(candidates('postpone', 3)).toEqual(['Archive/Sturdy.md', 'Notes/Fragile.md']);
+
+		const now = new Date();
+		const preview = cardManager.previewReschedule(candidates('postpone', 3), queueId, 'postpone', 3, now);
+
+		// Then: Overdue notes move three days past today
+		expect(preview.items).toHaveLength(2);
+		for (const item of preview.items) {
+			expect(Date.parse(item.newDue)).toBe(now.getTime() + 3 * DAY_MS);
+		}
+
+		// And: Only the fragile note is flagged; the sturdy one barely fades
+		const byRef = new Map(preview.items.map((item) => [item.ref, item]));
+		expect(byRef.get('Notes/Fragile.md')?.flagged).toBe(true);
+		expect(byRef.get('Archive/Sturdy.md')?.flagged).toBe(false);
+		expect(byRef.get('Archive/Sturdy.md')?.retrievabilityAfter).toBeGreaterThan(0.95);
+		expect(preview.flagged).toBe(1);
+		expect(preview.retentionAfter).toBeLessThan(preview.retentionBefore);
+	});
+
+	test('Applying moves due dates and logs a reschedule entry', () => {
+		const preview = cardManager.previewReschedule(candidates('postpone', 3), queueId, 'postpone', 3);
+
+		// When: Applying while skipping flagged notes
+		const moved = cardManager.applyReschedule(preview, { skipFlagged: true });
+
+		// Then: Only Sturdy moved, with the interval measured from its last review
+		expect(moved).toBe(1);
+		expect(candidates('postpone', 3)).toEqual(['Notes/Fragile.md']);
+		expect(cardManager.getSchedule('Archive/Sturdy.md', queueId)?.scheduledDays).toBe(33);
+
+		// And: The move is recorded in the note's history
+		const [log] = dataStore.getReviews();
+		expect(dataStore.getReviews()).toHaveLength(1);
+		expect(log).toMatchObject({ cardPath: 'Archive/Sturdy.md', kind: 'reschedule', rating: 0, stability: 200 });
+	});
+
+	test('Advancing pulls upcoming notes forward, but not before today', () => {
+		expect(candidates('advance', 5)).toEqual(['Notes/Steady.md', 'Notes/Upcoming.md']);
+
+		const now = new Date();
+		const preview = cardManager.previewReschedule(candidates('advance', 5), queueId, 'advance', 5, now);
+
+		// Then: Both land on today rather than three days ago
+		expect(preview.items.every((item) => Date.parse(item.newDue) === now.getTime())).toBe(true);
+
+		// And: Steady is still well remembered, so advancing it is flagged
+		expect(preview.items.filter((item) => item.flagged).map((item) => item.ref)).toEqual(['Notes/Steady.md']);
+
+		expect(cardManager.applyReschedule(preview, { skipFlagged: false })).toBe(2);
+		expect(cardManager.getDueCards(queueId)).toHaveLength(4);
+	});
+
+	test('Reschedule entries stay out of retention, the optimizer and the revlog', () => {
+		const preview = cardManager.previewReschedule(candidates('postpone', 3), queueId, 'postpone', 3);
+		cardManager.applyReschedule(preview, { skipFlagged: false });
+
+		const reviews = dataStore.getReviews();
+		expect(reviews).toHaveLength(2);
+		expect(calculateRetentionStats(reviews, 0.9, dataStore.getCards()).totalReviews).toBe(0);
+		expect(buildTrainingSequences(reviews)).toHaveLength(0);
+		expect(buildRevlogCsv(reviews, new Map()).trim().split('\n')).toHaveLength(1);
+	});
+
+	test('Candidates can be narrowed by a query', () => {
+		const archived = queueManager.getRescheduleCandidates(queueId, 'postpone', 3, {
+			type: 'query',
+			query: 'FROM "Archive"',
+		});
+
+		expect(archived.map((c) => c.notePath)).toEqual(['Archive/Sturdy.md']);
+	});
+});
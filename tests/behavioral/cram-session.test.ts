@@ -0,0 +1,118 @@
+/**
+ * Behavioral tests for cram sessions
+ *
+ * Verifies that cram sessions:
+ * - Drill notes regardless of due dates, narrowed by optional criteria
+ * - Log ratings as cram reviews and leave schedules untouched by default
+ * - Update schedules only when the user opts in
+ * - Stay out of retention stats, the optimizer and the FSRS revlog
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { buildTrainingSequences } from '../../src/fsrs/optimizer';
+import { buildRevlogCsv } from '../../src/data/review-exporter';
+import { calculateRetentionStats } from '../../src/ui/dashboard/dashboard-analytics';
+import { DEFAULT_CRAM_OPTIONS } from '../../src/constants';
+
+describe('Cram Sessions', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let queueId: string;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Biology/Cell.md', content: 'Cells.' },
+			{ path: 'Biology/Osmosis.md', content: 'Osmosis.' },
+			{ path: 'History/Rome.md', content: 'Rome.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		queueId = queueManager.createQueue('All', { type: 'folder', folders: ['Biology', 'History'] }).id;
+		queueManager.syncQueue(queueId);
+
+		// Cell was just reviewed, so it is not due again for days
+		cardManager.updateCardSchedule('Biology/Cell.md', queueId, 4, 'earlier');
+	});
+
+	test('Drills notes that are not due, narrowed by criteria', async () => {
+		expect(queueManager.getDueNotes(queueId).map((c) => c.notePath)).not.toContain('Biology/Cell.md');
+
+		// When: Cramming the Biology folder
+		const started = await sessionManager.startCramSession(queueId, {
+			...DEFAULT_CRAM_OPTIONS,
+			criteria: { type: 'query', query: 'FROM "Biology"' },
+		});
+
+		// Then: Both Biology notes are drilled, due or not; Rome is left out
+		expect(started).toBe(true);
+		expect(sessionManager.isCramSession()).toBe(true);
+		expect([...sessionManager.getState()!.reviewQueue].sort()).toEqual(['Biology/Cell.md', 'Biology/Osmosis.md']);
+
+		// New notes and the session size can be left out or capped
+		expect(queueManager.getCramNotes(queueId, { ...DEFAULT_CRAM_OPTIONS, includeNew: false }).map((c) => c.notePath)).toEqual([
+			'Biology/Cell.md',
+		]);
+		expect(queueManager.getCramNotes(queueId, { ...DEFAULT_CRAM_OPTIONS, limit: 2 })).toHaveLength(2);
+	});
+
+	test('Ratings are logged as cram reviews and schedules stay as they were', async () => {
+		const before = structuredClone(dataStore.getCards());
+
+		await sessionManager.startCramSession(queueId, DEFAULT_CRAM_OPTIONS);
+		await sessionManager.rate(1);
+		await sessionManager.rate(3);
+		await sessionManager.rate(4);
+
+		// Then: Every rating is logged with its kind, but nothing was rescheduled
+		const cram = dataStore.getReviews().filter((r) => r.sessionId !== 'earlier');
+		expect(cram).toHaveLength(3);
+		expect(cram.every((r) => r.kind === 'cram')).toBe(true);
+		expect(dataStore.getCards()).toEqual(before);
+		expect(sessionManager.isActive()).toBe(false);
+	});
+
+	test('Opting in applies cram ratings to the schedules', async () => {
+		await sessionManager.startCramSession(queueId, {
+			...DEFAULT_CRAM_OPTIONS,
+			updateSchedules: true,
+			criteria: { type: 'query', query: 'FROM "History"' },
+		});
+		await sessionManager.rate(3);
+
+		expect(cardManager.getSchedule('History/Rome.md', queueId)?.reps).toBe(1);
+		expect(dataStore.getReviews().at(-1)?.kind).toBe('cram');
+	});
+
+	test('Cram reviews stay out of retention, the optimizer and the revlog', async () => {
+		// Given: Cell drilled once after its scheduled review
+		await sessionManager.startCramSession(queueId, { ...DEFAULT_CRAM_OPTIONS, includeNew: false });
+		await sessionManager.rate(1);
+
+		const reviews = dataStore.getReviews();
+		expect(reviews).toHaveLength(2);
+
+		// Then: Only the scheduled review counts, so Cell has no training sequence yet
+		expect(calculateRetentionStats(reviews, 0.9, dataStore.getCards()).totalReviews).toBe(1);
+		expect(buildTrainingSequences(reviews)).toHaveLength(0);
+		expect(buildRevlogCsv(reviews, new Map()).trim().split('\n')).toHaveLength(2);
+	});
+});
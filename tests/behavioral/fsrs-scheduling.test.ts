@@ -327,4 +327,50 @@ describe('FSRS Scheduling Accuracy', () => {
 		expect(result1.schedule.due).toBeDefined();
 		expect(result2.schedule.due).toBeDefined();
 	});
+
+	test('Each queue schedules with its own retention target', async () => {
+		// Given: A second queue with a lower retention target and the same review card in both
+		dataStore.addQueue({
+			id: 'reading',
+			name: 'Reading',
+			createdAt: nowISO(),
+			criteria: { type: 'folder', folders: [] },
+			stats: { ...DEFAULT_QUEUE_STATS },
+			fsrsParams: { requestRetention: 0.8, enableFuzz: false },
+		});
+		dataStore.updateQueue(TEST_QUEUE_ID, { fsrsParams: { requestRetention: 0.95, enableFuzz: false } });
+
+		const reviewCard = createReviewCard('note1.md', 0, 10);
+		const cardData = cardDataFromFsrsCard(reviewCard, TEST_QUEUE_ID);
+		cardData.schedules['reading'] = fsrsCardToCardSchedule(reviewCard, 'reading');
+		dataStore.setCard('note1.md', cardData);
+
+		// When: Rated "Good" in both queues
+		cardManager.updateCardSchedule('note1.md', TEST_QUEUE_ID, Rating.Good as 1 | 2 | 3 | 4, 's1');
+		cardManager.updateCardSchedule('note1.md', 'reading', Rating.Good as 1 | 2 | 3 | 4, 's1');
+
+		// Then: The lower-retention queue schedules a longer interval
+		const schedules = cardManager.getCard('note1.md')!.schedules;
+		expect(schedules['reading'].scheduledDays).toBeGreaterThan(schedules[TEST_QUEUE_ID].scheduledDays);
+		expect(cardManager.schedulerFor('reading').getEffectiveParams().requestRetention).toBe(0.8);
+	});
+
+	test('Queue overrides can be changed and cleared', async () => {
+		// Given: A queue with a retention override
+		dataStore.updateQueue(TEST_QUEUE_ID, { fsrsParams: { requestRetention: 0.95 } });
+		expect(cardManager.schedulerFor(TEST_QUEUE_ID).getEffectiveParams().requestRetention).toBe(0.95);
+
+		// When: The override changes
+		dataStore.updateQueue(TEST_QUEUE_ID, { fsrsParams: { requestRetention: 0.85 } });
+
+		// Then: The new value is used
+		expect(cardManager.schedulerFor(TEST_QUEUE_ID).getEffectiveParams().requestRetention).toBe(0.85);
+
+		// When: The override is cleared
+		dataStore.updateQueue(TEST_QUEUE_ID, { fsrsParams: undefined });
+
+		// Then: The queue falls back to the global scheduler
+		expect(dataStore.getQueue(TEST_QUEUE_ID)!.fsrsParams).toBeUndefined();
+		expect(cardManager.schedulerFor(TEST_QUEUE_ID)).toBe(scheduler);
+	});
 });
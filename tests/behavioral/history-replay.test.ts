@@ -0,0 +1,115 @@
+/**
+ * Behavioral tests for rebuilding schedules from the review history
+ *
+ * Verifies that:
+ * - Replaying with the parameters that made the schedules changes nothing
+ * - Lost schedules are rebuilt from their reviews and manual changes
+ * - New parameters move due dates, shown in the preview before applying
+ * - Candidate weights are previewed without touching any schedule
+ * - Schedules whose history is incomplete are kept
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { default_w } from 'ts-fsrs';
+
+describe('History Replay', () => {
+	let dataStore: DataStore;
+	let scheduler: Scheduler;
+	let cardManager: CardManager;
+	let queueId: string;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/A.md', content: 'A.' },
+			{ path: 'Notes/B.md', content: 'B.' },
+			{ path: 'Notes/C.md', content: 'C.' },
+		]);
+		const plugin = createTestPlugin(vault, metadataCache);
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		const queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+
+		cardManager.updateCardSchedule('Notes/A.md', queueId, 3, 's1');
+		cardManager.updateCardSchedule('Notes/A.md', queueId, 3, 's1');
+		cardManager.updateCardSchedule('Notes/B.md', queueId, 1, 's1');
+		cardManager.suspendCard('Notes/B.md', queueId);
+	});
+
+	test('Replaying with the same parameters changes nothing', () => {
+		const preview = cardManager.previewReplay(dataStore.getReviews());
+
+		expect(preview.items).toEqual([]);
+		expect(preview.unchanged).toBe(3);
+		expect(preview.skipped).toBe(0);
+	});
+
+	test('A lost schedule is rebuilt from its history', () => {
+		const before = cardManager.getSchedule('Notes/A.md', queueId)!;
+		const suspended = cardManager.getSchedule('Notes/B.md', queueId)!;
+		cardManager.setSchedule('Notes/A.md', queueId, { ...scheduler.createNewSchedule(queueId), addedToQueueAt: before.addedToQueueAt });
+		cardManager.setSchedule('Notes/B.md', queueId, scheduler.createNewSchedule(queueId));
+
+		const preview = cardManager.previewReplay(dataStore.getReviews(), { queueId });
+		expect(preview.items.map((item) => item.ref).sort()).toEqual(['Notes/A.md', 'Notes/B.md']);
+		expect(cardManager.applyReplay(preview)).toBe(2);
+
+		const rebuilt = cardManager.getSchedule('Notes/A.md', queueId)!;
+		expect(rebuilt.reps).toBe(2);
+		expect(rebuilt.stability).toBeCloseTo(before.stability, 6);
+		expect(rebuilt.addedToQueueAt).toBe(before.addedToQueueAt);
+		expect(cardManager.getSchedule('Notes/B.md', queueId)?.suspended).toBe(true);
+		expect(cardManager.getSchedule('Notes/B.md', queueId)?.lapses).toBe(suspended.lapses);
+	});
+
+	test('New parameters move due dates', () => {
+		const before = cardManager.getSchedule('Notes/A.md', queueId)!;
+		scheduler.updateParams({ requestRetention: 0.7, enableFuzz: false });
+
+		const preview = cardManager.previewReplay(dataStore.getReviews());
+
+		const item = preview.items.find((i) => i.ref === 'Notes/A.md')!;
+		expect(item.currentDue).toBe(before.due);
+		expect(Date.parse(item.newDue)).toBeGreaterThan(Date.parse(before.due));
+		expect(preview.later).toBeGreaterThan(0);
+		expect(preview.meanShiftDays).toBeGreaterThan(0);
+
+		// Then: Nothing changes until the preview is applied
+		expect(cardManager.getSchedule('Notes/A.md', queueId)?.due).toBe(before.due);
+		cardManager.applyReplay(preview);
+		expect(cardManager.getSchedule('Notes/A.md', queueId)?.due).toBe(item.newDue);
+	});
+
+	test('Candidate weights are previewed without changing schedules', () => {
+		const before = cardManager.getSchedule('Notes/A.md', queueId)!;
+		const weights = [...default_w];
+		weights[2] = weights[2]! * 4;
+
+		const preview = cardManager.previewReplay(dataStore.getReviews(), { queueId, weights });
+
+		expect(preview.weights).toEqual(weights);
+		expect(preview.items.map((item) => item.ref)).toContain('Notes/A.md');
+		expect(cardManager.getSchedule('Notes/A.md', queueId)).toEqual(before);
+	});
+
+	test('A schedule whose history is incomplete is kept', () => {
+		// The first review of C was made before the oldest review kept
+		const reviewed = { ...scheduler.createNewSchedule(queueId), state: 2 as const, reps: 3, stability: 10 };
+		cardManager.setSchedule('Notes/C.md', queueId, reviewed);
+
+		const preview = cardManager.previewReplay(dataStore.getReviews());
+
+		expect(preview.skipped).toBe(1);
+		expect(preview.items.map((item) => item.ref)).not.toContain('Notes/C.md');
+	});
+});
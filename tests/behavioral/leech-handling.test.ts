@@ -0,0 +1,194 @@
+/**
+ * Behavioral tests for leech detection and handling
+ *
+ * Verifies that:
+ * - A note becomes a leech at the queue's threshold, and again every half threshold
+ * - Rating a note Again up to the threshold tags, suspends or moves it
+ * - Moved leeches keep their memory state in a "Leeches" queue selected by tag
+ * - Undoing the rating that made a note a leech takes the leech action back
+ * - The dashboard lists leeches with their lapse history
+ * - Leech settings survive a reload
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin, TFile } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { becameLeech } from '../../src/review/leech-handler';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { replaySchedule } from '../../src/fsrs/replay';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { findLeeches } from '../../src/ui/dashboard/dashboard-analytics';
+import type { CardSchedule, LeechAction } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Leech Handling', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let queueId: string;
+
+	function setSchedule(path: string, schedule: Partial<CardSchedule>): void {
+		const card = dataStore.getCard(path)!;
+		dataStore.updateCard(path, {
+			schedules: { ...card.schedules, [queueId]: { ...card.schedules[queueId]!, ...schedule } },
+		});
+	}
+
+	/** Review-state schedule one lapse short of the threshold, due now */
+	function nearlyLeech(path: string, lapses: number): void {
+		setSchedule(path, {
+			state: 2,
+			stability: 2,
+			difficulty: 8,
+			reps: 12,
+			lapses,
+			scheduledDays: 2,
+			lastReview: new Date(Date.now() - 2 * DAY_MS).toISOString(),
+			due: new Date(Date.now() - 1000).toISOString(),
+		});
+	}
+
+	/** Rate Shaky Again in a session with the given leech action */
+	async function lapseShaky(action: LeechAction): Promise<void> {
+		queueManager.updateQueue(queueId, { leech: { enabled: true, threshold: 4, action } });
+		nearlyLeech('Notes/Shaky.md', 3);
+		setSchedule('Notes/Solid.md', { due: new Date(Date.now() + 10 * DAY_MS).toISOString(), state: 2 });
+
+		await sessionManager.startSession(queueId);
+		expect(sessionManager.getState()?.currentNotePath).toBe('Notes/Shaky.md');
+		await sessionManager.rate(1);
+	}
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/Shaky.md', content: 'Shaky.', frontmatter: { tags: ['zettel'] } },
+			{ path: 'Notes/Solid.md', content: 'Solid.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+	});
+
+	test('A note becomes a leech at the threshold and every half threshold after', () => {
+		const withLapses = (lapses: number) => ({ lapses }) as CardSchedule;
+
+		expect(becameLeech(withLapses(6), withLapses(7), 8)).toBe(false);
+		expect(becameLeech(withLapses(7), withLapses(8), 8)).toBe(true);
+		expect(becameLeech(withLapses(8), withLapses(9), 8)).toBe(false);
+		expect(becameLeech(withLapses(11), withLapses(12), 8)).toBe(true);
+
+		// Only a new lapse counts, not reaching the threshold by other means
+		expect(becameLeech(withLapses(8), withLapses(8), 8)).toBe(false);
+	});
+
+	test('Tagging adds #leech to the frontmatter and keeps existing tags', async () => {
+		await lapseShaky('tag');
+
+		const file = plugin.app.vault.getFileByPath('Notes/Shaky.md') as TFile;
+		expect(plugin.app.metadataCache.getFileCache(file)?.frontmatter?.tags).toEqual(['zettel', 'leech']);
+
+		// The note stays in its queue
+		const schedule = cardManager.getSchedule('Notes/Shaky.md', queueId)!;
+		expect(schedule.lapses).toBe(4);
+		expect(schedule.suspended).toBeUndefined();
+	});
+
+	test('Suspending leaves the leech out of reviews', async () => {
+		await lapseShaky('suspend');
+
+		expect(cardManager.getSchedule('Notes/Shaky.md', queueId)?.suspended).toBe(true);
+		expect(queueManager.getDueNotes(queueId)).toHaveLength(0);
+		expect(dataStore.getReviews().map((r) => r.kind ?? 'review')).toEqual(['review', 'suspend']);
+	});
+
+	test('Moving copies the memory state to a Leeches queue selected by tag', async () => {
+		await lapseShaky('move');
+
+		const leechQueue = queueManager.getAllQueues().find((q) => q.name === 'Leeches')!;
+		expect(leechQueue.criteria).toEqual({ type: 'tag', tags: ['leech'] });
+
+		// Then: The schedule moved over; the source queue keeps it suspended
+		const moved = cardManager.getSchedule('Notes/Shaky.md', leechQueue.id)!;
+		const source = cardManager.getSchedule('Notes/Shaky.md', queueId)!;
+		expect(moved).toMatchObject({ lapses: 4, stability: source.stability, state: source.state });
+		expect(moved.suspended).toBeUndefined();
+		expect(source.suspended).toBe(true);
+
+		// And: Syncing keeps it there because the note is tagged
+		const result = queueManager.syncQueue(leechQueue.id);
+		expect(result.removed).toHaveLength(0);
+		expect(cardManager.getCardsForQueue(leechQueue.id).map((c) => c.notePath)).toEqual(['Notes/Shaky.md']);
+	});
+
+	test('Undoing the rating that made a leech takes the move back', async () => {
+		// Given: Shaky's history is all in the log: learned once, then due
+		queueManager.updateQueue(queueId, { leech: { enabled: true, threshold: 1, action: 'move' } });
+		cardManager.updateCardSchedule('Notes/Shaky.md', queueId, 4, 'earlier');
+		setSchedule('Notes/Shaky.md', { due: new Date(Date.now() - DAY_MS).toISOString() });
+		setSchedule('Notes/Solid.md', { due: new Date(Date.now() - 1000).toISOString(), state: 2 });
+		const before = cardManager.getSchedule('Notes/Shaky.md', queueId)!;
+
+		await sessionManager.startSession(queueId);
+		expect(sessionManager.getState()?.currentNotePath).toBe('Notes/Shaky.md');
+		await sessionManager.rate(1);
+		const leechQueue = queueManager.getAllQueues().find((q) => q.name === 'Leeches')!;
+		expect(cardManager.getSchedule('Notes/Shaky.md', leechQueue.id)).toBeDefined();
+
+		// When: The rating is undone
+		expect(await sessionManager.undoLastRating()).toBe(true);
+
+		// Then: The note is back in its queue, out of the Leeches queue and untagged
+		expect(cardManager.getSchedule('Notes/Shaky.md', queueId)).toEqual(before);
+		expect(cardManager.getSchedule('Notes/Shaky.md', leechQueue.id)).toBeUndefined();
+		const file = plugin.app.vault.getFileByPath('Notes/Shaky.md') as TFile;
+		expect(plugin.app.metadataCache.getFileCache(file)?.frontmatter?.tags).toEqual(['zettel']);
+
+		// And: The suspension is undone in the log, so a replay does not suspend the note
+		const reviews = dataStore.getReviews();
+		expect(reviews.filter((r) => !r.undone).map((r) => r.kind ?? 'review')).toEqual(['review']);
+		const replayed = replaySchedule(new Scheduler(), queueId, reviews, before.addedToQueueAt);
+		expect(replayed?.suspended).toBeUndefined();
+		expect(replayed?.reps).toBe(1);
+	});
+
+	test('The dashboard lists leeches with their lapse history', async () => {
+		await lapseShaky('tag');
+
+		const leeches = findLeeches(dataStore.getCards(), dataStore.getReviews(), queueManager.getAllQueues());
+		expect(leeches).toHaveLength(1);
+		expect(leeches[0]).toMatchObject({ ref: 'Notes/Shaky.md', queueName: 'Notes', lapses: 4, threshold: 4 });
+
+		// Only the lapse made in this session was logged
+		expect(leeches[0]?.lapseDates).toHaveLength(1);
+
+		// And: Queues with leech detection turned off are left out
+		queueManager.updateQueue(queueId, { leech: { enabled: false, threshold: 4, action: 'tag' } });
+		expect(findLeeches(dataStore.getCards(), dataStore.getReviews(), queueManager.getAllQueues())).toEqual([]);
+	});
+
+	test('Leech settings survive a reload', async () => {
+		queueManager.updateQueue(queueId, { leech: { enabled: true, threshold: 5, action: 'move' } });
+		await dataStore.save();
+
+		const reloaded = new DataStore(plugin);
+		await reloaded.initialize();
+
+		expect(reloaded.getQueue(queueId)?.leech).toEqual({ enabled: true, threshold: 5, action: 'move' });
+	});
+});
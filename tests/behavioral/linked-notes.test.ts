@@ -0,0 +1,155 @@
+/**
+ * Behavioral tests for keeping linked notes apart in a session
+ *
+ * Verifies that, once a note is rated:
+ * - Notes it links to or that link to it are pushed to the end of the session
+ * - Or, when the queue says so, they are buried until tomorrow, and
+ *   unburied if the rating is undone
+ * - Cram sessions only push them back
+ * - Other sub-cards of the same note count as siblings
+ * - Queues without the option keep their order
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { findSiblings, linkedNotePaths } from '../../src/review/linked-notes';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { DEFAULT_CRAM_OPTIONS } from '../../src/constants';
+import type { SiblingAction } from '../../src/types';
+
+describe('Linked Notes', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let queueId: string;
+
+	/**
+	 * Start a session, then link its first note to the second and the
+	 * fourth to the first. Returns the session's notes in their order.
+	 */
+	async function startLinkedSession(action?: SiblingAction, cram = false): Promise<string[]> {
+		if (action) {
+			queueManager.updateQueue(queueId, { siblings: { enabled: true, action } });
+		}
+		if (cram) {
+			await sessionManager.startCramSession(queueId, DEFAULT_CRAM_OPTIONS);
+		} else {
+			await sessionManager.startSession(queueId);
+		}
+
+		const order = [...sessionManager.getState()!.reviewQueue];
+		const [first, second, , fourth] = order;
+		plugin.app.metadataCache.resolvedLinks = {
+			[first!]: { [second!]: 1 },
+			[fourth!]: { [first!]: 2 },
+		};
+		return order;
+	}
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/A.md', content: 'A.' },
+			{ path: 'Notes/B.md', content: 'B.' },
+			{ path: 'Notes/C.md', content: 'C.' },
+			{ path: 'Notes/D.md', content: 'D.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+	});
+
+	test('Linked notes are pushed to the end of the session', async () => {
+		const [first, second, third, fourth] = await startLinkedSession('delay');
+
+		await sessionManager.rate(3);
+
+		// Then: The unrelated note comes next; both linked notes follow it
+		const state = sessionManager.getState()!;
+		expect(state.reviewQueue).toEqual([first, third, second, fourth]);
+		expect(state.currentNotePath).toBe(third);
+		expect(cardManager.getSchedule(second!, queueId)?.buriedUntil).toBeUndefined();
+	});
+
+	test('Linked notes can be buried until tomorrow instead', async () => {
+		const [first, second, third, fourth] = await startLinkedSession('bury');
+
+		await sessionManager.rate(3);
+
+		const state = sessionManager.getState()!;
+		expect(state.reviewQueue).toEqual([first, third]);
+		expect(state.totalNotes).toBe(2);
+		expect(cardManager.getSchedule(second!, queueId)?.buriedUntil).toBeDefined();
+		expect(cardManager.getSchedule(fourth!, queueId)?.buriedUntil).toBeDefined();
+		const due = queueManager.getDueNotes(queueId).map((c) => c.notePath);
+		expect(due).toContain(third);
+		expect(due).not.toContain(second);
+		expect(due).not.toContain(fourth);
+	});
+
+	test('Undoing the rating unburies the linked notes', async () => {
+		const [first, second, third, fourth] = await startLinkedSession('bury');
+		const before = cardManager.getSchedule(second!, queueId);
+
+		await sessionManager.rate(3);
+		await sessionManager.undoLastRating();
+
+		// Then: The linked notes are due again and back in the session after the rated note
+		const state = sessionManager.getState()!;
+		expect(state.currentNotePath).toBe(first);
+		expect(state.reviewQueue).toEqual([first, second, fourth, third]);
+		expect(state.totalNotes).toBe(4);
+		expect(cardManager.getSchedule(second!, queueId)).toEqual(before);
+		expect(cardManager.getSchedule(fourth!, queueId)?.buriedUntil).toBeUndefined();
+		expect(queueManager.getDueNotes(queueId).map((c) => c.notePath)).toContain(second);
+	});
+
+	test('Cram sessions push linked notes back without burying them', async () => {
+		const [first, second, third, fourth] = await startLinkedSession('bury', true);
+
+		await sessionManager.rate(3);
+
+		expect(sessionManager.getState()?.reviewQueue).toEqual([first, third, second, fourth]);
+		expect(cardManager.getSchedule(second!, queueId)?.buriedUntil).toBeUndefined();
+	});
+
+	test('Queues without the option keep their order', async () => {
+		const order = await startLinkedSession();
+
+		await sessionManager.rate(3);
+
+		expect(sessionManager.getState()?.reviewQueue).toEqual(order);
+	});
+
+	test('Links count in both directions and sub-cards of a note are siblings', () => {
+		const links = {
+			'Notes/A.md': { 'Notes/B.md': 1, 'Notes/A.md': 1 },
+			'Notes/C.md': { 'Notes/A.md': 1 },
+		};
+
+		expect([...linkedNotePaths(links, 'Notes/A.md')].sort()).toEqual(['Notes/B.md', 'Notes/C.md']);
+		expect(
+			findSiblings(
+				'Notes/A.md#c1',
+				['Notes/A.md#c2', 'Notes/B.md', 'Notes/C.md#^x', 'Notes/D.md', 'Notes/A.md#c1'],
+				links
+			)
+		).toEqual(['Notes/A.md#c2', 'Notes/B.md', 'Notes/C.md#^x']);
+	});
+});
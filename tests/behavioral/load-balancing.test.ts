@@ -0,0 +1,173 @@
+/**
+ * Behavioral tests for workload leveling
+ *
+ * Verifies that load balancing:
+ * - Moves a new due date to the least loaded day within the fuzz range
+ * - Takes that range around the interval FSRS picked before fuzz
+ * - Does not count the note being rated at its old due date
+ * - Gives light days a reduced share of reviews
+ * - Leaves schedules alone when turned off
+ * - Is reflected in the forecast the dashboard chart shows
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { get_fuzz_range } from 'ts-fsrs';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createMinimalVault } from '../fixtures/sample-vault';
+import { createReviewCard, cardDataFromFsrsCard, TEST_QUEUE_ID } from '../fixtures/test-cards';
+import { DataStore } from '../../src/data/data-store';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { generateForecast } from '../../src/fsrs/forecast';
+import { pickBalancedInterval } from '../../src/fsrs/load-balancer';
+
+describe('Load Balancing', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let scheduler: Scheduler;
+	let cardManager: CardManager;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createMinimalVault();
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		// Without fuzz the unbalanced interval is deterministic
+		scheduler = new Scheduler({ enableFuzz: false });
+		cardManager = new CardManager(dataStore, scheduler);
+
+		dataStore.setCard('target.md', cardDataFromFsrsCard(createReviewCard('target.md', 0, 20), TEST_QUEUE_ID));
+	});
+
+	/**
+	 * Interval FSRS picks for "Good" on the target card, and its fuzz range
+	 */
+	function unbalancedInterval() {
+		const schedule = dataStore.getCard('target.md')!.schedules[TEST_QUEUE_ID]!;
+		const { schedule: rated } = scheduler.rateCard(schedule, 3, TEST_QUEUE_ID);
+		const range = get_fuzz_range(rated.scheduledDays, rated.elapsedDays, 36500);
+		return { interval: rated.scheduledDays, min: range.min_ivl, max: range.max_ivl };
+	}
+
+	/**
+	 * Fill every day in [min, max] except `emptyDay` with reviews
+	 */
+	function fillDays(min: number, max: number, emptyDay: number): void {
+		for (let day = min; day <= max; day++) {
+			if (day === emptyDay) continue;
+			for (let i = 0; i < 3; i++) {
+				const path = `filler-${day}-${i}.md`;
+				dataStore.setCard(path, cardDataFromFsrsCard(createReviewCard(path, day), TEST_QUEUE_ID));
+			}
+		}
+	}
+
+	test('A rating lands on the least loaded day within the fuzz range', () => {
+		const { interval, min, max } = unbalancedInterval();
+		expect(max).toBeGreaterThan(min);
+
+		const emptyDay = interval === min ? max : min;
+		fillDays(min, max, emptyDay);
+		dataStore.updateSettings({ loadBalancing: true });
+
+		// When: Rating the target "Good"
+		cardManager.updateCardSchedule('target.md', TEST_QUEUE_ID, 3, 's1');
+
+		// Then: It is due on the one empty day, and the forecast shows it there
+		const schedule = dataStore.getCard('target.md')!.schedules[TEST_QUEUE_ID]!;
+		expect(schedule.scheduledDays).toBe(emptyDay);
+		const forecast = generateForecast(dataStore.getCards(), max + 1);
+		expect(forecast[emptyDay]?.dueCount).toBe(1);
+		expect(Math.max(...forecast.slice(min, max + 1).map((d) => d.dueCount))).toBe(3);
+	});
+
+	test('The range is taken around the interval before fuzz', () => {
+		const { interval, max } = unbalancedInterval();
+		const previous = dataStore.getCard('target.md')!.schedules[TEST_QUEUE_ID]!;
+		const now = new Date();
+		const fuzzy = new Scheduler({ enableFuzz: true });
+
+		// Given: Fuzz moved the rating to the far end of its range
+		const { schedule: rated } = fuzzy.rateCard(previous, 3, TEST_QUEUE_ID, now);
+		const fuzzed = { ...rated, scheduledDays: max };
+
+		// When: Every day is equally loaded
+		const balanced = fuzzy.balanceSchedule(fuzzed, previous, 3, now, (days) => new Array<number>(days).fill(2), {
+			lightDays: [],
+			lightDayShare: 0.5,
+		});
+
+		// Then: It goes back to the FSRS interval, not further out from the fuzzed one
+		expect(max).toBeGreaterThan(interval);
+		expect(balanced.scheduledDays).toBe(interval);
+	});
+
+	test('The note being rated does not count toward its old due day', () => {
+		const { interval, min, max } = unbalancedInterval();
+		const oldDay = interval === min ? max : min;
+
+		// Given: The target is reviewed ahead of its due day, which has nothing else due
+		dataStore.setCard('target.md', cardDataFromFsrsCard(createReviewCard('target.md', oldDay, 20), TEST_QUEUE_ID));
+		expect(unbalancedInterval()).toEqual({ interval, min, max });
+		for (let day = min; day <= max; day++) {
+			if (day === oldDay) continue;
+			const path = `filler-${day}.md`;
+			dataStore.setCard(path, cardDataFromFsrsCard(createReviewCard(path, day), TEST_QUEUE_ID));
+		}
+		dataStore.updateSettings({ loadBalancing: true });
+
+		cardManager.updateCardSchedule('target.md', TEST_QUEUE_ID, 3, 's1');
+
+		// Then: Its old day is the free one, not tied with the others
+		expect(dataStore.getCard('target.md')!.schedules[TEST_QUEUE_ID]!.scheduledDays).toBe(oldDay);
+	});
+
+	test('Turning load balancing off keeps the FSRS interval', () => {
+		const { interval, min, max } = unbalancedInterval();
+		fillDays(min, max, interval === min ? max : min);
+
+		cardManager.updateCardSchedule('target.md', TEST_QUEUE_ID, 3, 's1');
+
+		expect(dataStore.getCard('target.md')!.schedules[TEST_QUEUE_ID]!.scheduledDays).toBe(interval);
+	});
+
+	test('Light days take a reduced share of reviews', () => {
+		const now = new Date(2026, 5, 1); // A Monday
+		const load = [0, 4, 4, 4, 4, 4, 4];
+
+		// Tuesday and Wednesday (days 1–2) are light: half-loaded, they still look busier
+		const options = { lightDays: [2, 3], lightDayShare: 0.5 };
+		expect(pickBalancedInterval(2, 1, 3, now, load, options)).toBe(3);
+
+		// A light day wins once normal days carry more than twice its load
+		expect(pickBalancedInterval(3, 1, 3, now, [0, 3, 4, 9], options)).toBe(1);
+
+		// Equal load everywhere: stay closest to the FSRS interval
+		expect(pickBalancedInterval(5, 4, 6, now, load, { lightDays: [], lightDayShare: 0.5 })).toBe(5);
+
+		// Days with no capacity are only used when nothing else fits
+		expect(pickBalancedInterval(2, 1, 3, now, load, { lightDays: [2, 3, 4], lightDayShare: 0 })).toBe(2);
+	});
+
+	test('The forecast counts overdue reviews today and includes sub-cards', () => {
+		const card = cardDataFromFsrsCard(createReviewCard('overdue.md', -3), TEST_QUEUE_ID);
+		card.subCards = {
+			c1: {
+				id: 'c1',
+				kind: 'cloze',
+				text: 'answer',
+				context: '{{c1::answer}}',
+				schedules: { [TEST_QUEUE_ID]: { ...card.schedules[TEST_QUEUE_ID]! } },
+				createdAt: card.createdAt,
+			},
+		};
+		dataStore.setCard('overdue.md', card);
+
+		// Target (due today), the overdue note and its sub-card
+		const [today] = generateForecast(dataStore.getCards(), 1);
+		expect(today?.dueCount).toBe(3);
+	});
+});
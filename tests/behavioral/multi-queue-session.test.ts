@@ -0,0 +1,138 @@
+/**
+ * Behavioral tests for review sessions spanning several queues
+ *
+ * Verifies that:
+ * - Queues take turns, one note each or in proportion to notes due
+ * - Each rating, and its undo, goes to the schedule of the note's own queue
+ * - A persisted session resumes with each note still in its queue
+ * - A queue's daily limit caps the notes it adds to a session
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { interleaveQueues } from '../../src/review/interleave';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+
+describe('Multi-Queue Sessions', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let scheduler: Scheduler;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let mathId: string;
+	let historyId: string;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Math/M1.md', content: 'M1.' },
+			{ path: 'Math/M2.md', content: 'M2.' },
+			{ path: 'Math/M3.md', content: 'M3.' },
+			{ path: 'Math/M4.md', content: 'M4.' },
+			{ path: 'History/H1.md', content: 'H1.' },
+			{ path: 'History/H2.md', content: 'H2.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		mathId = queueManager.createQueue('Math', { type: 'folder', folders: ['Math'] }).id;
+		historyId = queueManager.createQueue('History', { type: 'folder', folders: ['History'] }).id;
+	});
+
+	test('Queues take turns one note at a time', async () => {
+		await sessionManager.startMultiQueueSession([mathId, historyId]);
+
+		const state = sessionManager.getState()!;
+		expect(state.queueIds).toEqual([mathId, historyId]);
+		expect(state.itemQueueIds).toEqual([mathId, historyId, mathId, historyId, mathId, mathId]);
+		expect(state.reviewQueue.filter((ref) => ref.startsWith('Math/'))).toHaveLength(4);
+		expect(state.queueId).toBe(mathId);
+	});
+
+	test('Weighted turns spread each queue over the session', () => {
+		const items = interleaveQueues(
+			[
+				{ queueId: 'a', refs: ['a1', 'a2', 'a3', 'a4'] },
+				{ queueId: 'b', refs: ['b1', 'b2'] },
+			],
+			'weighted'
+		);
+
+		expect(items.map((item) => item.ref)).toEqual(['a1', 'b1', 'a2', 'a3', 'b2', 'a4']);
+		expect(interleaveQueues([{ queueId: 'a', refs: [] }], 'weighted')).toEqual([]);
+	});
+
+	test('Ratings and undo go to the note\'s own queue', async () => {
+		// A note in both queues is reviewed once for each
+		queueManager.updateQueue(historyId, { criteria: { type: 'folder', folders: ['History', 'Math'] } });
+		await sessionManager.startMultiQueueSession([mathId, historyId]);
+		const state = sessionManager.getState()!;
+		expect(state.reviewQueue.slice(0, 2)).toEqual(['Math/M1.md', 'Math/M1.md']);
+
+		await sessionManager.rate(3);
+		await sessionManager.rate(1);
+
+		expect(cardManager.getSchedule('Math/M1.md', mathId)?.reps).toBe(1);
+		expect(cardManager.getSchedule('Math/M1.md', historyId)?.reps).toBe(1);
+		const reviews = dataStore.getReviews().filter((r) => r.cardPath === 'Math/M1.md');
+		expect(reviews.map((r) => [r.queueId, r.rating])).toEqual([
+			[mathId, 3],
+			[historyId, 1],
+		]);
+
+		// Then: Undo restores the History schedule and returns to its copy of the note
+		await sessionManager.undoLastRating();
+
+		expect(cardManager.getSchedule('Math/M1.md', historyId)?.reps).toBe(0);
+		expect(cardManager.getSchedule('Math/M1.md', mathId)?.reps).toBe(1);
+		expect(sessionManager.getState()?.currentIndex).toBe(1);
+		expect(sessionManager.getState()?.queueId).toBe(historyId);
+	});
+
+	test('A resumed session keeps each note in its queue', async () => {
+		await sessionManager.startMultiQueueSession([mathId, historyId], 'weighted');
+		await sessionManager.rate(3);
+		const before = sessionManager.getState()!;
+		const reviewQueue = [...before.reviewQueue];
+		const itemQueueIds = [...before.itemQueueIds!];
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		const resumed = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+		expect(await resumed.tryResumeSession()).toBe(true);
+
+		const state = resumed.getState()!;
+		expect(state.reviewQueue).toEqual(reviewQueue);
+		expect(state.itemQueueIds).toEqual(itemQueueIds);
+		expect(state.interleave).toBe('weighted');
+		expect(state.queueId).toBe(itemQueueIds[1]);
+	});
+
+	test('A queue\'s daily limit caps the notes it adds', async () => {
+		queueManager.updateQueue(mathId, { dailyLimit: 2 });
+		await sessionManager.startMultiQueueSession([mathId, historyId]);
+
+		expect(sessionManager.getState()?.itemQueueIds).toEqual([mathId, historyId, mathId, historyId]);
+		await sessionManager.rate(3);
+		await sessionManager.rate(3);
+		sessionManager.endSession();
+
+		// Then: One new Math note is left for today; the one rated stays due if it is still learning
+		expect(queueManager.getDailyAllowance(mathId)).toBe(1);
+		expect(queueManager.getDailyAllowance(historyId)).toBeUndefined();
+		const due = queueManager.getDueNotes(mathId).filter((c) => c.notePath !== 'Math/M1.md');
+		expect(due).toHaveLength(1);
+	});
+});
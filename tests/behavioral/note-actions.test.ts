@@ -0,0 +1,154 @@
+/**
+ * Behavioral tests for manual actions on a single note
+ *
+ * Verifies that resetting, setting the due date, forgetting and suspending:
+ * - Change the note's schedule in one queue as expected
+ * - Write a log entry of their own kind with rating 0
+ * - Are not counted as reviews by retention stats or the optimizer
+ * - Survive a save and reload
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { buildTrainingSequences } from '../../src/fsrs/optimizer';
+import { calculateRetentionStats } from '../../src/ui/dashboard/dashboard-analytics';
+import type { CardSchedule } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Note Actions', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueId: string;
+
+	function setSchedule(path: string, schedule: Partial<CardSchedule>): void {
+		const card = dataStore.getCard(path)!;
+		dataStore.updateCard(path, {
+			schedules: { ...card.schedules, [queueId]: { ...card.schedules[queueId]!, ...schedule } },
+		});
+	}
+
+	function dueNotes(): string[] {
+		return cardManager.getDueCards(queueId).map((c) => c.notePath);
+	}
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/Learned.md', content: 'Learned.' },
+			{ path: 'Notes/Fresh.md', content: 'Fresh.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		cardManager = new CardManager(dataStore, new Scheduler());
+		const queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+
+		// Learned was last reviewed ten days ago and is due in twenty
+		const now = Date.now();
+		setSchedule('Notes/Learned.md', {
+			state: 2,
+			stability: 40,
+			difficulty: 5,
+			reps: 4,
+			lapses: 1,
+			scheduledDays: 30,
+			lastReview: new Date(now - 10 * DAY_MS).toISOString(),
+			due: new Date(now + 20 * DAY_MS).toISOString(),
+		});
+	});
+
+	test('Resetting makes the note new again and logs a reset', () => {
+		const addedAt = cardManager.getSchedule('Notes/Learned.md', queueId)!.addedToQueueAt;
+
+		const log = cardManager.resetCard('Notes/Learned.md', queueId);
+
+		const schedule = cardManager.getSchedule('Notes/Learned.md', queueId)!;
+		expect(schedule).toMatchObject({ state: 0, reps: 0, lapses: 0, lastReview: null, addedToQueueAt: addedAt });
+		expect(cardManager.getNewCards(queueId).map((c) => c.notePath)).toContain('Notes/Learned.md');
+
+		// The log keeps the state the note had before the reset
+		expect(log).toMatchObject({ kind: 'reset', rating: 0, state: 2, stability: 40, elapsedDays: 10 });
+	});
+
+	test('Setting the due date measures the interval from the last review', () => {
+		const nextWeek = new Date(Date.now() + 7 * DAY_MS);
+		const log = cardManager.setDueDate('Notes/Learned.md', queueId, nextWeek);
+
+		expect(cardManager.getSchedule('Notes/Learned.md', queueId)).toMatchObject({
+			due: nextWeek.toISOString(),
+			scheduledDays: 17,
+			stability: 40,
+		});
+		expect(log).toMatchObject({ kind: 'reschedule', rating: 0, scheduledDays: 17 });
+
+		// A date in the past makes it due now
+		cardManager.setDueDate('Notes/Learned.md', queueId, new Date(Date.now() - DAY_MS));
+		expect(dueNotes()).toContain('Notes/Learned.md');
+	});
+
+	test('Forgetting lowers stability and makes the note due for relearning', () => {
+		const log = cardManager.forgetCard('Notes/Learned.md', queueId);
+
+		const schedule = cardManager.getSchedule('Notes/Learned.md', queueId)!;
+		expect(schedule.state).toBe(3);
+		expect(schedule.stability).toBeLessThan(1);
+		expect(schedule.lapses).toBe(1);
+		expect(dueNotes()).toContain('Notes/Learned.md');
+		expect(log).toMatchObject({ kind: 'forget', rating: 0, stability: 40 });
+
+		// A new note has nothing to forget
+		const fresh = cardManager.getSchedule('Notes/Fresh.md', queueId);
+		cardManager.forgetCard('Notes/Fresh.md', queueId);
+		expect(cardManager.getSchedule('Notes/Fresh.md', queueId)).toEqual(fresh);
+	});
+
+	test('Suspended notes are left out of due and new notes', () => {
+		expect(dueNotes()).toContain('Notes/Fresh.md');
+
+		cardManager.suspendCard('Notes/Fresh.md', queueId);
+
+		expect(cardManager.getSchedule('Notes/Fresh.md', queueId)?.suspended).toBe(true);
+		expect(dueNotes()).not.toContain('Notes/Fresh.md');
+		expect(cardManager.getNewCards(queueId)).toHaveLength(0);
+		expect(dataStore.getReviews().at(-1)?.kind).toBe('suspend');
+	});
+
+	test('Manual changes are not counted as reviews and survive a reload', async () => {
+		cardManager.updateCardSchedule('Notes/Fresh.md', queueId, 3, 'session');
+		cardManager.resetCard('Notes/Learned.md', queueId);
+		cardManager.setDueDate('Notes/Fresh.md', queueId, new Date(Date.now() + 3 * DAY_MS));
+		cardManager.forgetCard('Notes/Fresh.md', queueId);
+		cardManager.suspendCard('Notes/Fresh.md', queueId);
+
+		const reviews = dataStore.getReviews();
+		expect(reviews).toHaveLength(5);
+		expect(calculateRetentionStats(reviews, 0.9, dataStore.getCards()).totalReviews).toBe(1);
+		expect(buildTrainingSequences(reviews)).toHaveLength(0);
+
+		// When: Saving and loading again
+		await dataStore.save();
+		const reloaded = new DataStore(plugin);
+		await reloaded.initialize();
+
+		// Then: Every entry is kept with its kind
+		expect(reloaded.getReviews().map((r) => r.kind ?? 'review')).toEqual([
+			'review',
+			'reset',
+			'reschedule',
+			'forget',
+			'suspend',
+		]);
+	});
+});
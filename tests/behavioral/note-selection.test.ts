@@ -6,12 +6,14 @@
  * - Tag criterion
  * - Exclusion criteria (name, tag, property)
  * - Multiple criteria combinations
+ * - Custom criteria trees (AND/OR/NOT, property, name, links, file age)
  */
 
 import { describe, test, expect, beforeEach } from 'vitest';
 import { createTestPlugin } from '../setup/test-helpers';
 import { Plugin } from '../setup/obsidian-mock';
 import {
+	createTestVault,
 	createFolderVault,
 	createTagVault,
 	createExclusionVault,
@@ -23,6 +25,9 @@ import { CardManager } from '../../src/fsrs/card-manager';
 import { Scheduler } from '../../src/fsrs/scheduler';
 import { FolderCriterion } from '../../src/criteria/folder-criterion';
 import { TagCriterion } from '../../src/criteria/tag-criterion';
+import { NoteResolver } from '../../src/queues/note-resolver';
+import { validateCriterionConfig } from '../../src/criteria/criteria-factory';
+import type { CriterionConfig } from '../../src/types';
 describe('Note Selection Criteria', () => {
 	let plugin: Plugin;
 	let dataStore: DataStore;
@@ -329,4 +334,150 @@ describe('Note Selection Criteria', () => {
 			expect(newCount).toBeLessThanOrEqual(initialCount);
 		});
 	});
+
+	describe('Custom Criteria', () => {
+		let resolver: NoteResolver;
+
+		const resolvePaths = (customCriteria: CriterionConfig[]): string[] =>
+			resolver
+				.resolveNotesForCriteria({ type: 'custom', customCriteria })
+				.map((f) => f.path)
+				.sort();
+
+		beforeEach(async () => {
+			const { vault, metadataCache } = createTestVault([
+				{ path: 'Zettelkasten/concept-a.md', content: '# A', tags: ['concept'], frontmatter: { status: 'done', rating: 4 } },
+				{ path: 'Zettelkasten/concept-b.md', content: '# B', tags: ['concept', 'draft'], frontmatter: { status: 'draft', rating: 2 } },
+				{ path: 'Zettelkasten/drafts/concept-c.md', content: '# C', tags: ['concept'] },
+				{ path: 'Inbox/concept-d.md', content: '# D', tags: ['concept'] },
+				{ path: 'Inbox/2024-01-01 daily.md', content: '# Daily' },
+			]);
+			plugin = createTestPlugin(vault, metadataCache);
+
+			dataStore = new DataStore(plugin);
+			await dataStore.initialize();
+			resolver = new NoteResolver(plugin.app, dataStore.getSettings());
+		});
+
+		test('Tag in folder but not in a subfolder (AND + NOT)', () => {
+			// Given: #concept in Zettelkasten/ but not in Zettelkasten/drafts
+			const criteria: CriterionConfig[] = [
+				{ type: 'tag', params: { tags: ['concept'] } },
+				{ type: 'folder', params: { folders: ['Zettelkasten'] } },
+				{ type: 'not', params: { child: { type: 'folder', params: { folders: ['Zettelkasten/drafts'] } } } },
+			];
+
+			// Then: Only the two top-level Zettelkasten concepts match
+			expect(resolvePaths(criteria)).toEqual(['Zettelkasten/concept-a.md', 'Zettelkasten/concept-b.md']);
+		});
+
+		test('OR group matches either branch', () => {
+			// Given: Notes in Inbox OR tagged #draft
+			const criteria: CriterionConfig[] = [
+				{
+					type: 'or',
+					params: {
+						children: [
+							{ type: 'folder', params: { folders: ['Inbox'] } },
+							{ type: 'tag', params: { tags: ['draft'] } },
+						],
+					},
+				},
+			];
+
+			expect(resolvePaths(criteria)).toEqual([
+				'Inbox/2024-01-01 daily.md',
+				'Inbox/concept-d.md',
+				'Zettelkasten/concept-b.md',
+			]);
+		});
+
+		test('Property criterion compares values', () => {
+			// Given: Property equality and numeric comparison
+			expect(resolvePaths([{ type: 'property', params: { key: 'status', operator: 'equals', value: 'DONE' } }]))
+				.toEqual(['Zettelkasten/concept-a.md']);
+			expect(resolvePaths([{ type: 'property', params: { key: 'rating', operator: 'gte', value: '2' } }]))
+				.toEqual(['Zettelkasten/concept-a.md', 'Zettelkasten/concept-b.md']);
+			expect(resolvePaths([{ type: 'property', params: { key: 'status', operator: 'not-exists' } }]))
+				.toHaveLength(3);
+		});
+
+		test('Filename criterion supports glob and regex', () => {
+			// Given: Glob on name and regex on name
+			expect(resolvePaths([{ type: 'filename', params: { pattern: 'concept-?', syntax: 'glob', target: 'name' } }]))
+				.toHaveLength(4);
+			expect(resolvePaths([{ type: 'filename', params: { pattern: '^\\d{4}-\\d{2}-\\d{2}', syntax: 'regex', target: 'name' } }]))
+				.toEqual(['Inbox/2024-01-01 daily.md']);
+			expect(resolvePaths([{ type: 'filename', params: { pattern: 'Zettelkasten/**', syntax: 'glob', target: 'path' } }]))
+				.toHaveLength(3);
+		});
+
+		test('Link count criterion counts outgoing and incoming links', () => {
+			// Given: concept-a links to b and d; d links to b
+			const cache = plugin.app.metadataCache;
+			const fileA = plugin.app.vault.getAbstractFileByPath('Zettelkasten/concept-a.md');
+			if (fileA && 'extension' in fileA) {
+				const metadata = cache.getFileCache(fileA) ?? {};
+				metadata.links = [
+					{ link: 'concept-b', original: '[[concept-b]]', displayText: 'concept-b' },
+					{ link: 'concept-d', original: '[[concept-d]]', displayText: 'concept-d' },
+				];
+				cache.setFileCache(fileA, metadata);
+			}
+			cache.resolvedLinks = {
+				'Zettelkasten/concept-a.md': { 'Zettelkasten/concept-b.md': 1, 'Inbox/concept-d.md': 1 },
+				'Inbox/concept-d.md': { 'Zettelkasten/concept-b.md': 2 },
+			};
+
+			expect(resolvePaths([{ type: 'link-count', params: { direction: 'outgoing', operator: 'gte', value: 2 } }]))
+				.toEqual(['Zettelkasten/concept-a.md']);
+			expect(resolvePaths([{ type: 'link-count', params: { direction: 'incoming', operator: 'eq', value: 2 } }]))
+				.toEqual(['Zettelkasten/concept-b.md']);
+		});
+
+		test('File age criterion uses file timestamps', () => {
+			// Given: One note created 60 days ago
+			const file = plugin.app.vault.getAbstractFileByPath('Inbox/concept-d.md');
+			if (file && 'stat' in file) {
+				file.stat.ctime = Date.now() - 60 * 24 * 60 * 60 * 1000;
+			}
+
+			expect(resolvePaths([{ type: 'file-age', params: { field: 'ctime', operator: 'older-than', value: 30 } }]))
+				.toEqual(['Inbox/concept-d.md']);
+			expect(resolvePaths([{ type: 'file-age', params: { field: 'ctime', operator: 'newer-than', value: 30 } }]))
+				.toHaveLength(4);
+		});
+
+		test('File age dates without a time are local days', () => {
+			// Given: A note created just after local midnight, another just before it
+			const early = plugin.app.vault.getAbstractFileByPath('Inbox/concept-d.md');
+			const late = plugin.app.vault.getAbstractFileByPath('Zettelkasten/concept-a.md');
+			if (early && 'stat' in early && late && 'stat' in late) {
+				early.stat.ctime = new Date(2024, 5, 1, 0, 30).getTime();
+				late.stat.ctime = new Date(2024, 4, 31, 23, 30).getTime();
+			}
+
+			// Then: Each is on its own side of the day, whatever the time zone
+			expect(resolvePaths([{ type: 'file-age', params: { field: 'ctime', operator: 'after', value: '2024-06-01' } }]))
+				.toContain('Inbox/concept-d.md');
+			expect(resolvePaths([{ type: 'file-age', params: { field: 'ctime', operator: 'after', value: '2024-06-01' } }]))
+				.not.toContain('Zettelkasten/concept-a.md');
+			expect(resolvePaths([{ type: 'file-age', params: { field: 'ctime', operator: 'before', value: '2024-06-01' } }]))
+				.toEqual(['Zettelkasten/concept-a.md']);
+
+			// And: A day that does not exist is rejected
+			expect(validateCriterionConfig({ type: 'file-age', params: { field: 'ctime', operator: 'after', value: '2024-02-30' } }))
+				.toHaveLength(1);
+		});
+
+		test('Empty and malformed criteria match nothing and report errors', () => {
+			// Given: No conditions, and a regex that does not compile
+			const badRegex: CriterionConfig = { type: 'filename', params: { pattern: '(', syntax: 'regex', target: 'name' } };
+
+			expect(resolvePaths([])).toEqual([]);
+			expect(resolvePaths([badRegex])).toEqual([]);
+			expect(validateCriterionConfig(badRegex)).toHaveLength(1);
+			expect(validateCriterionConfig({ type: 'and', params: { children: [] } })).toHaveLength(1);
+		});
+	});
 });
@@ -0,0 +1,225 @@
+/**
+ * Behavioral tests for the FSRS parameter optimizer
+ *
+ * Verifies that personalized parameters are trained from review history:
+ * - Only non-undone reviews are used
+ * - A reset or forget starts a new history
+ * - Too little history is rejected
+ * - Optimized weights fit the history at least as well as the defaults
+ * - Optimized weights are accepted by the scheduler and survive validation
+ */
+
+import { describe, test, expect } from 'vitest';
+import { default_w, FACTOR, DECAY } from 'ts-fsrs';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createMinimalVault } from '../fixtures/sample-vault';
+import { TEST_QUEUE_ID } from '../fixtures/test-cards';
+import {
+	buildTrainingSequences,
+	countScorableReviews,
+	evaluateWeights,
+	optimizeParameters,
+} from '../../src/fsrs/optimizer';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { DataStore } from '../../src/data/data-store';
+import { DEFAULT_FSRS_PARAMS } from '../../src/constants';
+import type { CardState, RatingValue, ReviewLog } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Deterministic pseudo-random generator so histories are reproducible */
+function createRandom(seed: number): () => number {
+	let state = seed;
+	return () => {
+		state = (state * 1664525 + 1013904223) % 4294967296;
+		return state / 4294967296;
+	};
+}
+
+function createLog(cardPath: string, rating: RatingValue, state: CardState, review: Date, undone = false): ReviewLog {
+	return {
+		id: `${cardPath}-${review.getTime()}`,
+		cardPath,
+		queueId: TEST_QUEUE_ID,
+		rating,
+		state,
+		due: review.toISOString(),
+		stability: 0,
+		difficulty: 0,
+		elapsedDays: 0,
+		lastElapsedDays: 0,
+		scheduledDays: 0,
+		review: review.toISOString(),
+		sessionId: 'session',
+		undone,
+	};
+}
+
+/**
+ * Simulate a learner whose memory decays much faster than the default model expects
+ */
+function simulateHistory(cardCount: number, reviewsPerCard: number): ReviewLog[] {
+	const random = createRandom(42);
+	const logs: ReviewLog[] = [];
+	const start = new Date('2025-01-01T10:00:00Z').getTime();
+
+	for (let c = 0; c < cardCount; c++) {
+		const path = `note-${c}.md`;
+		let time = start + c * 60_000;
+		let stability = 0.5;
+		logs.push(createLog(path, 3, 0, new Date(time)));
+
+		for (let r = 1; r < reviewsPerCard; r++) {
+			const elapsed = 1 + Math.floor(random() * 10);
+			time += elapsed * DAY_MS;
+			const recall = Math.pow(1 + (FACTOR * elapsed) / stability, DECAY);
+			const remembered = random() < recall;
+			logs.push(createLog(path, remembered ? 3 : 1, 2, new Date(time)));
+			stability = remembered ? stability * 1.5 : Math.max(0.2, stability * 0.5);
+		}
+	}
+
+	return logs;
+}
+
+describe('FSRS Parameter Optimizer', () => {
+	test('Undone reviews are excluded from training data', () => {
+		// Given: A card with three reviews, the last of which was undone
+		const day = new Date('2025-01-01T10:00:00Z').getTime();
+		const logs = [
+			createLog('a.md', 3, 0, new Date(day)),
+			createLog('a.md', 3, 2, new Date(day + 3 * DAY_MS)),
+			createLog('a.md', 1, 2, new Date(day + 9 * DAY_MS), true),
+		];
+
+		// When: Building training sequences
+		const sequences = buildTrainingSequences(logs);
+
+		// Then: Only the two active reviews are used
+		expect(sequences).toHaveLength(1);
+		expect(sequences[0]).toHaveLength(2);
+		expect(sequences[0]?.[1]?.deltaT).toBe(3);
+		expect(countScorableReviews(sequences)).toBe(1);
+	});
+
+	test('Histories without their first review are skipped', () => {
+		// Given: A card whose earliest retained log is already in review state
+		const day = new Date('2025-01-01T10:00:00Z').getTime();
+		const logs = [
+			createLog('b.md', 3, 2, new Date(day)),
+			createLog('b.md', 3, 2, new Date(day + 5 * DAY_MS)),
+		];
+
+		// Then: No training sequence is produced
+		expect(buildTrainingSequences(logs)).toHaveLength(0);
+	});
+
+	test('A reset or forget starts a new history', () => {
+		// Given: A card reviewed, reset and learned again, then forgotten and relearned
+		const day = new Date('2025-01-01T10:00:00Z').getTime();
+		const logs = [
+			createLog('c.md', 3, 0, new Date(day)),
+			createLog('c.md', 3, 2, new Date(day + 4 * DAY_MS)),
+			{ ...createLog('c.md', 3, 2, new Date(day + 10 * DAY_MS)), kind: 'reset' as const, rating: 0 as const },
+			createLog('c.md', 1, 0, new Date(day + 12 * DAY_MS)),
+			createLog('c.md', 3, 1, new Date(day + 13 * DAY_MS)),
+			createLog('c.md', 3, 2, new Date(day + 16 * DAY_MS)),
+			{ ...createLog('c.md', 3, 2, new Date(day + 20 * DAY_MS)), kind: 'forget' as const, rating: 0 as const },
+			createLog('c.md', 3, 3, new Date(day + 21 * DAY_MS)),
+			createLog('c.md', 3, 2, new Date(day + 25 * DAY_MS)),
+		];
+
+		const sequences = buildTrainingSequences(logs);
+
+		// Then: The review after the reset starts from a new card, with no
+		// time since the last review; the reviews after forgetting have an
+		// unknown starting state and are left out
+		expect(sequences).toEqual([
+			[
+				{ deltaT: 0, rating: 3 },
+				{ deltaT: 4, rating: 3 },
+			],
+			[
+				{ deltaT: 0, rating: 1 },
+				{ deltaT: 1, rating: 3 },
+				{ deltaT: 3, rating: 3 },
+			],
+		]);
+	});
+
+	test('Optimizer refuses to run on too little history', async () => {
+		// Given: Only a handful of reviews
+		const logs = simulateHistory(3, 3);
+
+		// When/Then: Optimization is rejected
+		await expect(optimizeParameters(logs)).rejects.toThrow(/Not enough review history/);
+	});
+
+	test('Optimized weights fit the history better than the defaults', async () => {
+		// Given: A learner who forgets much faster than the default model predicts
+		const logs = simulateHistory(40, 6);
+		const progress: number[] = [];
+
+		// When: Optimizing from default weights
+		const result = await optimizeParameters(logs, [...default_w], {
+			iterations: 30,
+			onProgress: (iteration) => progress.push(iteration),
+		});
+
+		// Then: Loss and RMSE improve and the metrics match a fresh evaluation
+		expect(result.reviewCount).toBe(200);
+		expect(result.sequenceCount).toBe(40);
+		expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+		expect(result.after.rmse).toBeLessThan(result.before.rmse);
+		expect(result.weights).toHaveLength(19);
+		expect(progress).toHaveLength(30);
+
+		const sequences = buildTrainingSequences(logs);
+		expect(evaluateWeights(sequences, result.weights).logLoss).toBeCloseTo(result.after.logLoss, 3);
+	});
+
+	test('Applied weights are used by the scheduler and persist through validation', async () => {
+		// Given: An optimized weight vector with much lower initial stability
+		const weights = [...default_w];
+		weights[2] = 0.5;
+
+		// When: Scheduling a new card rated Good with the custom weights
+		const customScheduler = new Scheduler({ ...DEFAULT_FSRS_PARAMS, weights });
+		const customSchedule = customScheduler.rateCard(
+			customScheduler.createNewSchedule(TEST_QUEUE_ID),
+			3,
+			TEST_QUEUE_ID
+		).schedule;
+
+		// Then: The custom weights change the resulting stability
+		expect(customSchedule.stability).toBeCloseTo(0.5, 2);
+
+		// And: Valid weights survive a reload while malformed ones are dropped
+		const { vault, metadataCache } = createMinimalVault();
+		const plugin = createTestPlugin(vault, metadataCache);
+		await plugin.saveData({
+			version: 1,
+			settings: { fsrsParams: { ...DEFAULT_FSRS_PARAMS, weights } },
+			queues: [],
+			cards: {},
+			reviews: [],
+			orphans: [],
+		});
+		const dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+		expect(dataStore.getSettings().fsrsParams?.weights).toEqual(weights);
+
+		const brokenPlugin = createTestPlugin(vault, metadataCache);
+		await brokenPlugin.saveData({
+			version: 1,
+			settings: { fsrsParams: { ...DEFAULT_FSRS_PARAMS, weights: [1, 2, 3] } },
+			queues: [],
+			cards: {},
+			reviews: [],
+			orphans: [],
+		});
+		const brokenStore = new DataStore(brokenPlugin);
+		await brokenStore.initialize();
+		expect(brokenStore.getSettings().fsrsParams?.weights).toBeUndefined();
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * Behavioral tests for the prerequisites-first queue order
+ *
+ * Verifies that:
+ * - Due notes come after the due notes they link to
+ * - Link cycles are broken the same way every time
+ * - Rating a prerequisite Again can move the notes built on it to the end of the session
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { findDependents, orderByPrerequisites } from '../../src/queues/link-order';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+
+describe('Prerequisites-First Order', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let queueId: string;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/Probability.md', content: 'Probability.' },
+			{ path: 'Notes/Conditional.md', content: 'Links [[Probability]].' },
+			{ path: 'Notes/Bayes.md', content: 'Links [[Conditional]].' },
+			{ path: 'Notes/Unrelated.md', content: 'Unrelated.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+		plugin.app.metadataCache.resolvedLinks = {
+			'Notes/Bayes.md': { 'Notes/Conditional.md': 1 },
+			'Notes/Conditional.md': { 'Notes/Probability.md': 1 },
+		};
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+		dataStore.updateSettings({ queueOrder: 'prerequisites-first' });
+
+		const scheduler = new Scheduler();
+		const cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+	});
+
+	test('Notes come after the due notes they link to', () => {
+		const order = queueManager.getDueNotes(queueId).map((c) => c.notePath);
+
+		expect(order).toHaveLength(4);
+		expect(order.indexOf('Notes/Probability.md')).toBeLessThan(order.indexOf('Notes/Conditional.md'));
+		expect(order.indexOf('Notes/Conditional.md')).toBeLessThan(order.indexOf('Notes/Bayes.md'));
+	});
+
+	test('Items without links between them keep their base order', () => {
+		const links = { 'C.md': { 'B.md': 1 }, 'B.md': { 'A.md': 1 } };
+
+		expect(orderByPrerequisites(['C.md', 'B.md', 'A.md', 'D.md'], links)).toEqual(['A.md', 'B.md', 'C.md', 'D.md']);
+		expect(orderByPrerequisites(['D.md', 'E.md'], links)).toEqual(['D.md', 'E.md']);
+
+		// Links to notes outside the session and sub-cards of one note add no order
+		expect(orderByPrerequisites(['B.md#c1', 'B.md#c2', 'C.md'], links)).toEqual(['B.md#c1', 'B.md#c2', 'C.md']);
+	});
+
+	test('Cycles are broken at the note first in the base order', () => {
+		const links = { 'A.md': { 'B.md': 1 }, 'B.md': { 'C.md': 1 }, 'C.md': { 'A.md': 1 }, 'D.md': { 'A.md': 1 } };
+
+		const order = orderByPrerequisites(['B.md', 'D.md', 'A.md', 'C.md'], links);
+
+		// B goes first, then A, which builds on it; C and D both wait for A and keep their base order
+		expect(order).toEqual(['B.md', 'A.md', 'D.md', 'C.md']);
+		expect(orderByPrerequisites(['B.md', 'D.md', 'A.md', 'C.md'], links)).toEqual(order);
+	});
+
+	test('A lapse on a prerequisite moves the notes built on it to the end', async () => {
+		dataStore.updateSettings({ demoteDependentsOnLapse: true });
+		await sessionManager.startSession(queueId);
+		expect(sessionManager.getState()?.currentNotePath).toBe('Notes/Probability.md');
+
+		await sessionManager.rate(1);
+
+		// Then: Both notes depending on it, directly or not, now follow the unrelated one
+		expect(sessionManager.getState()?.reviewQueue.slice(1)).toEqual([
+			'Notes/Unrelated.md',
+			'Notes/Conditional.md',
+			'Notes/Bayes.md',
+		]);
+		expect(
+			findDependents('Notes/Conditional.md', ['Notes/Bayes.md', 'Notes/Unrelated.md'], plugin.app.metadataCache.resolvedLinks)
+		).toEqual(['Notes/Bayes.md']);
+	});
+
+	test('Without the option a lapse leaves the order alone', async () => {
+		await sessionManager.startSession(queueId);
+		const order = [...sessionManager.getState()!.reviewQueue];
+
+		await sessionManager.rate(1);
+
+		expect(sessionManager.getState()?.reviewQueue).toEqual(order);
+	});
+});
@@ -0,0 +1,122 @@
+/**
+ * Behavioral tests for the queue query language
+ *
+ * Verifies that text queries select the expected notes:
+ * - FROM sources (folders, tags, negation)
+ * - WHERE conditions (properties, file fields, functions)
+ * - Syntax errors with positions
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { NoteResolver } from '../../src/queues/note-resolver';
+import { parseQuery, formatQueryError } from '../../src/criteria/query-parser';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Query Language', () => {
+	let plugin: Plugin;
+	let resolver: NoteResolver;
+
+	const resolvePaths = (query: string): string[] =>
+		resolver
+			.resolveNotesForCriteria({ type: 'query', query })
+			.map((f) => f.path)
+			.sort();
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Zettel/alpha.md', content: '# Alpha', tags: ['permanent'], frontmatter: { status: 'done', rating: 5 } },
+			{ path: 'Zettel/beta.md', content: '# Beta', tags: ['permanent'], frontmatter: { status: 'draft', rating: 1 } },
+			{ path: 'Zettel/gamma.md', content: '# Gamma', tags: ['fleeting'] },
+			{ path: 'Inbox/delta.md', content: '# Delta', tags: ['permanent'] },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		const dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+		resolver = new NoteResolver(plugin.app, dataStore.getSettings());
+
+		// alpha is old, the rest were created today
+		const alpha = plugin.app.vault.getAbstractFileByPath('Zettel/alpha.md');
+		if (alpha && 'stat' in alpha) {
+			alpha.stat.ctime = Date.parse('2024-06-01');
+		}
+	});
+
+	test('Example query combines FROM sources and WHERE conditions', () => {
+		// Given: The query from the feature request
+		const query = 'FROM "Zettel" AND #permanent WHERE status != "draft" AND file.ctime < 2025-01-01';
+
+		// Then: Only the old, non-draft permanent note in Zettel matches
+		expect(resolvePaths(query)).toEqual(['Zettel/alpha.md']);
+	});
+
+	test('FROM supports OR, negation and parentheses', () => {
+		expect(resolvePaths('FROM #fleeting OR "Inbox"')).toEqual(['Inbox/delta.md', 'Zettel/gamma.md']);
+		expect(resolvePaths('FROM #permanent AND -"Inbox"')).toEqual(['Zettel/alpha.md', 'Zettel/beta.md']);
+		expect(resolvePaths('FROM "Zettel" AND NOT (#permanent)')).toEqual(['Zettel/gamma.md']);
+	});
+
+	test('WHERE supports properties, file fields and functions', () => {
+		expect(resolvePaths('WHERE rating >= 2')).toEqual(['Zettel/alpha.md']);
+		expect(resolvePaths('WHERE status')).toEqual(['Zettel/alpha.md', 'Zettel/beta.md']);
+		expect(resolvePaths('WHERE !status')).toEqual(['Inbox/delta.md', 'Zettel/gamma.md']);
+		expect(resolvePaths('WHERE file.name = "g*"')).toEqual(['Zettel/gamma.md']);
+		expect(resolvePaths('WHERE contains(file.path, "inbox/")')).toEqual(['Inbox/delta.md']);
+		expect(resolvePaths('WHERE contains(file.tags, "#fleeting")')).toEqual(['Zettel/gamma.md']);
+		expect(resolvePaths(`WHERE file.ctime > ${new Date(Date.now() - DAY_MS).toISOString().slice(0, 10)}`))
+			.toHaveLength(3);
+	});
+
+	test('Link counts compare against numbers', () => {
+		// Given: beta is linked from alpha and gamma
+		plugin.app.metadataCache.resolvedLinks = {
+			'Zettel/alpha.md': { 'Zettel/beta.md': 1 },
+			'Zettel/gamma.md': { 'Zettel/beta.md': 1 },
+		};
+
+		expect(resolvePaths('WHERE file.inlinks >= 2')).toEqual(['Zettel/beta.md']);
+		expect(resolvePaths('WHERE length(file.inlinks) = 0')).toHaveLength(3);
+	});
+
+	test('Keywords are case-insensitive', () => {
+		expect(resolvePaths('from "Zettel" where status = "DONE"')).toEqual(['Zettel/alpha.md']);
+	});
+
+	test('Syntax errors report positions and match nothing', () => {
+		// Given: A query with a missing value
+		const query = 'FROM "Zettel" WHERE status !=';
+		const result = parseQuery(query);
+
+		// Then: The error points at the end of the query
+		expect(result.criterion).toBeNull();
+		expect(result.errors).toHaveLength(1);
+		expect(result.errors[0]?.message).toBe('Expected a value');
+		expect(result.errors[0]?.start).toBe(query.length);
+		expect(resolvePaths(query)).toEqual([]);
+	});
+
+	test('Errors point at the offending token', () => {
+		const unterminated = parseQuery('FROM "Zettel');
+		expect(unterminated.errors[0]).toEqual({ message: 'Unterminated string', start: 5, end: 12 });
+
+		const badField = parseQuery('WHERE file.size > 3');
+		expect(badField.errors[0]).toMatchObject({ start: 6, end: 15 });
+
+		const badDate = parseQuery('WHERE file.ctime > "soon"');
+		expect(badDate.errors[0]?.message).toBe('Expected a date (YYYY-MM-DD)');
+
+		const multiline = 'FROM "Zettel"\nWHERE status ? 1';
+		const error = parseQuery(multiline).errors[0];
+		expect(error && formatQueryError(multiline, error)).toBe('Unexpected character "?" (line 2, column 14)');
+	});
+
+	test('Empty query is an error', () => {
+		expect(parseQuery('   ').errors[0]?.message).toBe('Query is empty');
+		expect(resolvePaths('')).toEqual([]);
+	});
+});
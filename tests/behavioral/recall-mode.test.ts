@@ -0,0 +1,120 @@
+/**
+ * Behavioral tests for active-recall mode
+ *
+ * Verifies that queues in recall mode:
+ * - Show a prompt (title, frontmatter property or first heading) instead of the note
+ * - Keep the note closed and rating disabled until the answer is revealed
+ * - Hide the next note again after rating
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin, MetadataCache } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { resolveRecallPrompt } from '../../src/review/recall-prompt';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+
+describe('Recall Mode', () => {
+	let plugin: Plugin;
+	let metadataCache: MetadataCache;
+	let dataStore: DataStore;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let queueId: string;
+
+	beforeEach(async () => {
+		const vault = createTestVault([
+			{ path: 'Recall/Entropy.md', content: '# Disorder\nEntropy measures disorder.', frontmatter: { question: 'What does entropy measure?' } },
+			{ path: 'Recall/Osmosis.md', content: 'Water crosses membranes.' },
+		]);
+		metadataCache = vault.metadataCache;
+		plugin = createTestPlugin(vault.vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		const cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		queueId = queueManager.createQueue('Recall', { type: 'folder', folders: ['Recall'] }, undefined, {
+			enabled: true,
+			promptSource: 'property',
+		}).id;
+		queueManager.syncQueue(queueId);
+	});
+
+	test('Note stays hidden and rating is blocked until the answer is shown', async () => {
+		// When: Starting a recall session
+		await sessionManager.startSession(queueId);
+
+		// Then: Only the prompt is available; the note is not opened
+		expect(sessionManager.isRecallMode()).toBe(true);
+		expect(sessionManager.canRate()).toBe(false);
+		expect(plugin.app.workspace.getActiveFile()).toBeNull();
+		expect(await sessionManager.rate(3)).toBe(false);
+		expect(dataStore.getReviews()).toHaveLength(0);
+
+		// When: Revealing the answer
+		expect(await sessionManager.revealAnswer()).toBe(true);
+
+		// Then: The note opens and can be rated
+		const expected = sessionManager.getExpectedNotePath();
+		expect(plugin.app.workspace.getActiveFile()?.path).toBe(expected);
+		expect(sessionManager.canRate()).toBe(true);
+		expect(await sessionManager.rate(3)).toBe(true);
+
+		// And: The next note starts hidden again
+		expect(sessionManager.getExpectedNotePath()).not.toBe(expected);
+		expect(sessionManager.canRate()).toBe(false);
+	});
+
+	test('Undo returns to the rated note with its answer shown', async () => {
+		await sessionManager.startSession(queueId);
+		await sessionManager.revealAnswer();
+		const rated = sessionManager.getExpectedNotePath();
+		await sessionManager.rate(3);
+
+		await sessionManager.undoLastRating();
+
+		expect(sessionManager.getExpectedNotePath()).toBe(rated);
+		expect(sessionManager.canRate()).toBe(true);
+	});
+
+	test('Queues without recall mode can be rated immediately', async () => {
+		queueManager.updateQueue(queueId, { recall: undefined });
+
+		await sessionManager.startSession(queueId);
+
+		expect(sessionManager.isRecallMode()).toBe(false);
+		expect(sessionManager.canRate()).toBe(true);
+		expect(sessionManager.getRecallPrompt()).toBeNull();
+	});
+
+	test('Prompt comes from the property, the first heading or the title', () => {
+		const entropy = plugin.app.vault.getFileByPath('Recall/Entropy.md')!;
+		const osmosis = plugin.app.vault.getFileByPath('Recall/Osmosis.md')!;
+		metadataCache.setFileCache(entropy, {
+			frontmatter: { question: 'What does entropy measure?' },
+			headings: [{ heading: 'Disorder', level: 1 }],
+		});
+
+		// Property (default name "question"), falling back to the title
+		expect(resolveRecallPrompt(plugin.app.metadataCache, entropy, { enabled: true, promptSource: 'property' })).toBe(
+			'What does entropy measure?'
+		);
+		expect(resolveRecallPrompt(plugin.app.metadataCache, osmosis, { enabled: true, promptSource: 'property' })).toBe('Osmosis');
+
+		// First heading, falling back to the title
+		expect(resolveRecallPrompt(plugin.app.metadataCache, entropy, { enabled: true, promptSource: 'heading' })).toBe('Disorder');
+		expect(resolveRecallPrompt(plugin.app.metadataCache, osmosis, { enabled: true, promptSource: 'heading' })).toBe('Osmosis');
+
+		// Title
+		expect(resolveRecallPrompt(plugin.app.metadataCache, entropy, { enabled: true, promptSource: 'title' })).toBe('Entropy');
+	});
+});
@@ -0,0 +1,129 @@
+/**
+ * Behavioral tests for reviewing ahead
+ *
+ * Verifies that review-ahead sessions:
+ * - Include notes due within the chosen horizon, and no further
+ * - Order notes by how much recall they would lose before the horizon
+ * - Flag early reviews of well-remembered notes as low value
+ * - Schedule early ratings from the real time since the last review
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import type { CardSchedule } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A review-state schedule last reviewed `ago` days back and due in `dueIn` days
+ */
+function reviewSchedule(stability: number, ago: number, dueIn: number): Partial<CardSchedule> {
+	const now = Date.now();
+	return {
+		state: 2,
+		stability,
+		difficulty: 5,
+		reps: 3,
+		scheduledDays: ago + dueIn,
+		lastReview: new Date(now - ago * DAY_MS).toISOString(),
+		due: new Date(now + dueIn * DAY_MS).toISOString(),
+	};
+}
+
+describe('Review Ahead', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let queueId: string;
+
+	function setSchedule(path: string, schedule: Partial<CardSchedule>): void {
+		const card = dataStore.getCard(path)!;
+		dataStore.updateCard(path, {
+			schedules: { ...card.schedules, [queueId]: { ...card.schedules[queueId]!, ...schedule } },
+		});
+	}
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/Fragile.md', content: 'Fragile.' },
+			{ path: 'Notes/Sturdy.md', content: 'Sturdy.' },
+			{ path: 'Notes/Distant.md', content: 'Distant.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+
+		// Fragile has low stability, so it loses recall quickly; Sturdy barely fades
+		setSchedule('Notes/Fragile.md', reviewSchedule(3, 3, 1));
+		setSchedule('Notes/Sturdy.md', reviewSchedule(200, 1, 2));
+		setSchedule('Notes/Distant.md', reviewSchedule(30, 1, 20));
+	});
+
+	test('Only notes due within the horizon are included', () => {
+		expect(cardManager.getDueCards(queueId)).toHaveLength(0);
+
+		const ahead = cardManager.getDueCards(queueId, 5).map((c) => c.notePath);
+		expect(ahead.sort()).toEqual(['Notes/Fragile.md', 'Notes/Sturdy.md']);
+		expect(cardManager.getDueCards(queueId, 25)).toHaveLength(3);
+	});
+
+	test('Notes losing the most recall by the horizon come first', async () => {
+		// Sturdy is due later than Fragile, but order follows recall loss, not due date
+		expect(queueManager.getReviewAheadNotes(queueId, 5).map((c) => c.notePath)).toEqual([
+			'Notes/Fragile.md',
+			'Notes/Sturdy.md',
+		]);
+
+		const started = await sessionManager.startReviewAheadSession(queueId, 5);
+		expect(started).toBe(true);
+		expect(sessionManager.getState()?.reviewAheadDays).toBe(5);
+		expect(sessionManager.getState()?.reviewQueue).toEqual(['Notes/Fragile.md', 'Notes/Sturdy.md']);
+	});
+
+	test('Well-remembered notes are counted as low-value early reviews', () => {
+		const r = cardManager.getRetrievability('Notes/Sturdy.md', queueId);
+		expect(r).toBeGreaterThan(0.99);
+		expect(r).toBeLessThan(1);
+
+		expect(cardManager.getEarlyReviewValue('Notes/Sturdy.md', queueId)).toBeLessThan(0.5);
+		expect(queueManager.getReviewAheadSummary(queueId, 5)).toEqual({ total: 2, early: 2, lowValue: 1 });
+	});
+
+	test('Early ratings use the real elapsed time and gain less stability', () => {
+		// Given: Two identical notes, one reviewed early and one on time
+		setSchedule('Notes/Distant.md', reviewSchedule(10, 2, 8));
+		setSchedule('Notes/Fragile.md', reviewSchedule(10, 10, 0));
+
+		cardManager.updateCardSchedule('Notes/Distant.md', queueId, 3, 's1');
+		cardManager.updateCardSchedule('Notes/Fragile.md', queueId, 3, 's1');
+
+		// Then: The log records two elapsed days, not the scheduled ten
+		const [early, onTime] = dataStore.getReviews();
+		expect(early?.elapsedDays).toBe(2);
+		expect(onTime?.elapsedDays).toBe(10);
+
+		// And: Reviewing early adds less stability
+		const earlyStability = cardManager.getSchedule('Notes/Distant.md', queueId)!.stability;
+		const onTimeStability = cardManager.getSchedule('Notes/Fragile.md', queueId)!.stability;
+		expect(earlyStability).toBeGreaterThan(10);
+		expect(earlyStability).toBeLessThan(onTimeStability);
+	});
+});
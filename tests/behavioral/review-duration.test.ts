@@ -0,0 +1,149 @@
+/**
+ * Behavioral tests for review duration tracking
+ *
+ * Verifies that time spent on each note:
+ * - Is measured from opening the note until it is rated
+ * - Pauses while Obsidian is unfocused or another note is open
+ * - Is stored on the review log and summarized for the dashboard
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createMinimalVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { ReviewTimer } from '../../src/review/review-timer';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { calculateReviewTimeStats } from '../../src/ui/dashboard/dashboard-analytics';
+import { MAX_REVIEW_DURATION_MS } from '../../src/constants';
+import type { Queue, ReviewLog } from '../../src/types';
+
+describe('Review Duration', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let clock: number;
+	let queueId: string;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createMinimalVault();
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		const cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+
+		clock = 1_000_000;
+		sessionManager = new SessionManager(
+			plugin.app,
+			dataStore,
+			cardManager,
+			queueManager,
+			scheduler,
+			new ReviewTimer(() => clock)
+		);
+
+		queueId = queueManager.createQueue('Test Queue', { type: 'folder', folders: [''] }).id;
+		queueManager.syncQueue(queueId);
+	});
+
+	test('Duration from opening a note to rating it is stored on the review log', async () => {
+		// Given: A session showing the first note for 12 seconds
+		await sessionManager.startSession(queueId);
+		clock += 12_000;
+
+		// When: Rating it
+		await sessionManager.rate(3);
+
+		// Then: The review log records the time
+		const [review] = dataStore.getReviews();
+		expect(review?.durationMs).toBe(12_000);
+
+		// And the next note starts from zero
+		clock += 5_000;
+		await sessionManager.rate(3);
+		expect(dataStore.getReviews()[1]?.durationMs).toBe(5_000);
+	});
+
+	test('Time pauses while Obsidian is unfocused', async () => {
+		await sessionManager.startSession(queueId);
+		clock += 4_000;
+
+		// When: The window loses focus for a minute
+		sessionManager.setWindowFocused(false);
+		clock += 60_000;
+		sessionManager.setWindowFocused(true);
+		clock += 3_000;
+
+		await sessionManager.rate(3);
+
+		// Then: Only the focused time counts
+		expect(dataStore.getReviews()[0]?.durationMs).toBe(7_000);
+	});
+
+	test('Time pauses while another note is open and resumes on bring back', async () => {
+		await sessionManager.startSession(queueId);
+		const expected = sessionManager.getExpectedNotePath();
+		clock += 2_000;
+
+		// When: The user navigates to a different note
+		const other = plugin.app.vault.getMarkdownFiles().find((f) => f.path !== expected);
+		plugin.app.workspace.setActiveFile(other ?? null);
+		sessionManager.updateAttention();
+		clock += 30_000;
+
+		// And: Returns to the review note
+		await sessionManager.bringBack();
+		clock += 1_000;
+		await sessionManager.rate(3);
+
+		// Then: Time spent elsewhere is excluded but earlier time is kept
+		expect(dataStore.getReviews()[0]?.durationMs).toBe(3_000);
+	});
+
+	test('Idle durations are capped', async () => {
+		await sessionManager.startSession(queueId);
+		clock += MAX_REVIEW_DURATION_MS * 3;
+
+		await sessionManager.rate(3);
+
+		expect(dataStore.getReviews()[0]?.durationMs).toBe(MAX_REVIEW_DURATION_MS);
+	});
+
+	test('Dashboard time stats cover average, per queue and slowest notes', () => {
+		const queues = [{ id: 'q1', name: 'Concepts' }, { id: 'q2', name: 'Quotes' }] as Queue[];
+		const review = (cardPath: string, queue: string, durationMs?: number, undone = false): ReviewLog =>
+			({ id: `${cardPath}-${durationMs}`, cardPath, queueId: queue, rating: 3, review: '2025-01-01T00:00:00Z', sessionId: 's', undone, durationMs }) as ReviewLog;
+
+		const reviews = [
+			review('a.md', 'q1', 10_000),
+			review('a.md', 'q1', 30_000),
+			review('b.md', 'q1', 5_000),
+			review('c.md', 'q2', 60_000),
+			review('c.md', 'q2', 90_000, true),
+			review('d.md', 'q2'),
+		];
+
+		const stats = calculateReviewTimeStats(reviews, queues);
+
+		// Undone reviews and reviews without a duration are left out
+		expect(stats.timedReviews).toBe(4);
+		expect(stats.totalMs).toBe(105_000);
+		expect(stats.averageMs).toBe(26_250);
+		expect(stats.perQueue).toEqual([
+			{ queueId: 'q2', name: 'Quotes', reviews: 1, totalMs: 60_000, averageMs: 60_000 },
+			{ queueId: 'q1', name: 'Concepts', reviews: 3, totalMs: 45_000, averageMs: 15_000 },
+		]);
+		expect(stats.slowestNotes.map((n) => n.notePath)).toEqual(['c.md', 'a.md', 'b.md']);
+
+		// Filtering by queue
+		expect(calculateReviewTimeStats(reviews, queues, 'q1').timedReviews).toBe(3);
+	});
+});
@@ -0,0 +1,176 @@
+/**
+ * Behavioral tests for cloze, highlight and block sub-cards
+ *
+ * Verifies that facts inside an atomic note:
+ * - Are found as `{{c1::...}}` clozes, `==highlights==` and `^block` IDs
+ * - Get their own schedule in every queue the note is in
+ * - Stay in sync as the note is edited
+ * - Are found when a queue sync adds the note
+ * - Are asked with the active cloze masked and rated independently
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin, MetadataCache } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { NoteWatcher } from '../../src/sync/note-watcher';
+import { extractSubCards, maskSubCard, parseCardRef } from '../../src/fsrs/sub-cards';
+
+const ENTROPY = [
+	'---',
+	'aliases: ["==not a card=="]',
+	'---',
+	'# Entropy',
+	'Entropy is a measure of {{c1::disorder}} in a {{c2::closed::kind of}} system.',
+	'It never {{c1::decreases}} on its own.',
+	'',
+	'## Second law',
+	'The ==second law== of thermodynamics. ^second-law',
+	'',
+	'```',
+	'{{c9::ignored}} ^code',
+	'```',
+].join('\n');
+
+describe('Sub-cards', () => {
+	let plugin: Plugin;
+	let metadataCache: MetadataCache;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let noteWatcher: NoteWatcher;
+	let queueId: string;
+
+	beforeEach(async () => {
+		const vault = createTestVault([
+			{ path: 'Zettel/Entropy.md', content: ENTROPY },
+			{ path: 'Physics/Heat.md', content: 'Heat flows from {{c1::hot}} to {{c2::cold}}.' },
+		]);
+		metadataCache = vault.metadataCache;
+		plugin = createTestPlugin(vault.vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+		noteWatcher = new NoteWatcher(plugin.app, cardManager, dataStore, queueManager);
+
+		// Tracked before the watcher runs, as if added while the plugin was off
+		queueId = queueManager.createQueue('Zettel', { type: 'folder', folders: ['Zettel'] }).id;
+		queueManager.syncQueue(queueId);
+		noteWatcher.registerEvents(plugin);
+	});
+
+	test('Clozes, highlights and block IDs are extracted', () => {
+		const cards = extractSubCards(ENTROPY);
+
+		// Frontmatter and code blocks are ignored; c1 spans two lines
+		expect(cards.map((c) => c.kind)).toEqual(['cloze', 'cloze', 'highlight', 'block']);
+		expect(cards.map((c) => c.id).slice(0, 2)).toEqual(['c1', 'c2']);
+		expect(cards[0]?.text).toBe('disorder … decreases');
+		expect(cards[3]).toMatchObject({ id: '^second-law', text: 'The ==second law== of thermodynamics.', context: 'Second law' });
+
+		// A block ID on its own line belongs to the block above it
+		const [table] = extractSubCards('| a | b |\n| - | - |\n^table');
+		expect(table).toMatchObject({ id: '^table', text: '| a | b |\n| - | - |' });
+	});
+
+	test('Only the active cloze is masked; hints replace the mask', () => {
+		const [c1, c2, highlight, block] = extractSubCards(ENTROPY);
+
+		expect(maskSubCard(c1!, 'Entropy')).toBe(
+			'Entropy is a measure of [...] in a closed system.\nIt never [...] on its own.'
+		);
+		expect(maskSubCard(c2!, 'Entropy')).toBe('Entropy is a measure of disorder in a [kind of] system.');
+		expect(maskSubCard(highlight!, 'Entropy')).toBe('The [...] of thermodynamics. ^second-law');
+		expect(maskSubCard(block!, 'Entropy')).toBe('Entropy › Second law');
+	});
+
+	test('Sub-cards follow note edits and get schedules in the note\'s queues', async () => {
+		// When: Syncing on startup
+		expect(await noteWatcher.syncAllSubCards()).toBe(1);
+
+		const card = dataStore.getCard('Zettel/Entropy.md');
+		expect(Object.keys(card?.subCards ?? {})).toHaveLength(4);
+		expect(card?.subCards?.c1?.schedules[queueId]?.state).toBe(0);
+
+		// Sub-cards are due alongside the note
+		expect(queueManager.getDueNotes(queueId).map((c) => c.notePath)).toContain('Zettel/Entropy.md#c2');
+
+		// When: The note is edited (c2 removed, c3 added)
+		const file = plugin.app.vault.getFileByPath('Zettel/Entropy.md')!;
+		const edited = ENTROPY.replace('{{c2::closed::kind of}}', 'closed').replace('It never', 'It {{c3::never}}');
+		metadataCache.trigger('changed', file, edited, {});
+
+		// Then: Sub-cards are reconciled, keeping existing schedules
+		const updated = dataStore.getCard('Zettel/Entropy.md')?.subCards ?? {};
+		expect(Object.keys(updated).filter((id) => !id.startsWith('h-')).sort()).toEqual(['^second-law', 'c1', 'c3']);
+		expect(Object.keys(updated)).toHaveLength(4);
+		expect(updated.c3?.schedules[queueId]?.state).toBe(0);
+
+		// Removing the note from the queue removes its sub-card schedules too
+		cardManager.createCard('Zettel/Entropy.md', 'other');
+		cardManager.removeFromQueue('Zettel/Entropy.md', queueId);
+		expect(dataStore.getCard('Zettel/Entropy.md')?.subCards?.c1?.schedules[queueId]).toBeUndefined();
+		expect(dataStore.getCard('Zettel/Entropy.md')?.subCards?.c1?.schedules.other).toBeDefined();
+	});
+
+	test('A queue sync that adds a note extracts its sub-cards', async () => {
+		// When: A new queue picks up a note that had no card
+		const physicsId = queueManager.createQueue('Physics', { type: 'folder', folders: ['Physics'] }).id;
+		expect(queueManager.syncQueue(physicsId).added).toEqual(['Physics/Heat.md']);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		// Then: Its clozes are due in that queue without an edit or a restart
+		const card = dataStore.getCard('Physics/Heat.md');
+		expect(Object.keys(card?.subCards ?? {})).toEqual(['c1', 'c2']);
+		expect(card?.subCards?.c1?.schedules[physicsId]?.state).toBe(0);
+		expect(queueManager.getDueNotes(physicsId).map((c) => c.notePath)).toContain('Physics/Heat.md#c2');
+	});
+
+	test('Review session masks the cloze and rates the sub-card on its own', async () => {
+		await noteWatcher.syncAllSubCards();
+
+		// Given: A session whose queue is ordered with c2 first
+		await sessionManager.startSession(queueId);
+		const state = sessionManager.getState()!;
+		state.reviewQueue = ['Zettel/Entropy.md#c2', 'Zettel/Entropy.md'];
+		state.currentNotePath = 'Zettel/Entropy.md#c2';
+		state.answerRevealed = false;
+
+		// Then: The masked sentence is asked and rating waits for the answer
+		expect(sessionManager.getRecallPrompt()).toBe('Entropy is a measure of disorder in a [kind of] system.');
+		expect(sessionManager.canRate()).toBe(false);
+		expect(sessionManager.getExpectedNotePath()).toBe('Zettel/Entropy.md');
+
+		// When: Revealing and rating
+		await sessionManager.revealAnswer();
+		expect(plugin.app.workspace.getActiveFile()?.path).toBe('Zettel/Entropy.md');
+		await sessionManager.rate(3);
+
+		// Then: Only the sub-card's schedule changed, and the log names it
+		const card = dataStore.getCard('Zettel/Entropy.md');
+		expect(card?.subCards?.c2?.schedules[queueId]?.reps).toBe(1);
+		expect(card?.schedules[queueId]?.reps).toBe(0);
+		const [review] = dataStore.getReviews();
+		expect(review).toMatchObject({ cardPath: 'Zettel/Entropy.md', subCardId: 'c2' });
+
+		// Undo restores the sub-card's schedule
+		await sessionManager.undoLastRating();
+		expect(dataStore.getCard('Zettel/Entropy.md')?.subCards?.c2?.schedules[queueId]?.reps).toBe(0);
+	});
+
+	test('Card references split into note path and sub-card ID', () => {
+		expect(parseCardRef('Zettel/Entropy.md#^second-law')).toEqual({ notePath: 'Zettel/Entropy.md', subCardId: '^second-law' });
+		expect(parseCardRef('Zettel/C#.md')).toEqual({ notePath: 'Zettel/C#.md' });
+	});
+});
@@ -0,0 +1,121 @@
+/**
+ * Behavioral tests for suspending and burying notes
+ *
+ * Verifies that:
+ * - Suspended notes stay out of due notes and stats until unsuspended
+ * - Buried notes stay out of due notes until the start of tomorrow
+ * - A review session can bury or suspend the current note and move on
+ * - The dashboard note table can list only suspended or buried notes
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createTestPlugin } from '../setup/test-helpers';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { SessionManager } from '../../src/review/session-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { isHidden } from '../../src/fsrs/card-flags';
+import { filterCardTableData, generateCardTableData } from '../../src/ui/dashboard/dashboard-analytics';
+import { DEFAULT_CRAM_OPTIONS } from '../../src/constants';
+
+describe('Suspend and Bury', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let queueManager: QueueManager;
+	let sessionManager: SessionManager;
+	let queueId: string;
+
+	function dueNotes(): string[] {
+		return queueManager.getDueNotes(queueId).map((c) => c.notePath).sort();
+	}
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Notes/A.md', content: 'A.' },
+			{ path: 'Notes/B.md', content: 'B.' },
+			{ path: 'Notes/C.md', content: 'C.' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+
+		const scheduler = new Scheduler();
+		cardManager = new CardManager(dataStore, scheduler);
+		queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		sessionManager = new SessionManager(plugin.app, dataStore, cardManager, queueManager, scheduler);
+
+		queueId = queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		queueManager.syncQueue(queueId);
+	});
+
+	test('Suspended notes are hidden until unsuspended', () => {
+		cardManager.suspendCard('Notes/A.md', queueId);
+
+		// Then: A is neither due nor new, but counted as suspended
+		expect(dueNotes()).toEqual(['Notes/B.md', 'Notes/C.md']);
+		expect(queueManager.getCramNotes(queueId, DEFAULT_CRAM_OPTIONS)).toHaveLength(2);
+		expect(queueManager.updateQueueStats(queueId)).toMatchObject({
+			totalNotes: 3,
+			newNotes: 2,
+			dueNotes: 2,
+			suspendedNotes: 1,
+		});
+
+		// When: Unsuspending it
+		cardManager.unsuspendCard('Notes/A.md', queueId);
+
+		// Then: It is back, and both changes are in its history
+		expect(dueNotes()).toEqual(['Notes/A.md', 'Notes/B.md', 'Notes/C.md']);
+		expect(cardManager.getSchedule('Notes/A.md', queueId)).not.toHaveProperty('suspended');
+		expect(dataStore.getReviews().map((r) => r.kind)).toEqual(['suspend', 'unsuspend']);
+	});
+
+	test('Buried notes come back at the start of tomorrow', () => {
+		const now = new Date();
+		cardManager.buryCard('Notes/B.md', queueId, now);
+
+		expect(dueNotes()).toEqual(['Notes/A.md', 'Notes/C.md']);
+		expect(queueManager.updateQueueStats(queueId).dueNotes).toBe(2);
+
+		// The schedule is otherwise unchanged and nothing is logged
+		const schedule = cardManager.getSchedule('Notes/B.md', queueId)!;
+		const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+		expect(schedule.buriedUntil).toBe(tomorrow.toISOString());
+		expect(isHidden(schedule, new Date(tomorrow.getTime() - 1))).toBe(true);
+		expect(isHidden(schedule, tomorrow)).toBe(false);
+		expect(dataStore.getReviews()).toHaveLength(0);
+	});
+
+	test('A session can bury or suspend the current note and move on', async () => {
+		await sessionManager.startSession(queueId);
+		const [first, second, third] = sessionManager.getState()!.reviewQueue;
+
+		await sessionManager.buryCurrent();
+		expect(sessionManager.getState()?.currentNotePath).toBe(second);
+
+		await sessionManager.suspendCurrent();
+		expect(sessionManager.getState()?.currentNotePath).toBe(third);
+
+		// Then: Neither note is due any more; the third still is
+		expect(dueNotes()).toEqual([third]);
+		expect(cardManager.getSchedule(first!, queueId)?.buriedUntil).toBeDefined();
+		expect(cardManager.getSchedule(second!, queueId)?.suspended).toBe(true);
+		expect(queueManager.getQueueStats(queueId).dueNotes).toBe(1);
+	});
+
+	test('The note table can list only suspended or buried notes', () => {
+		cardManager.suspendCard('Notes/A.md', queueId);
+		cardManager.buryCard('Notes/B.md', queueId);
+
+		const rows = generateCardTableData(dataStore.getCards(), queueId);
+		expect(filterCardTableData(rows, '')).toHaveLength(3);
+		expect(filterCardTableData(rows, '', 'suspended').map((r) => r.notePath)).toEqual(['Notes/A.md']);
+		expect(filterCardTableData(rows, '', 'buried').map((r) => r.notePath)).toEqual(['Notes/B.md']);
+		expect(filterCardTableData(rows, 'C', 'suspended')).toHaveLength(0);
+	});
+});
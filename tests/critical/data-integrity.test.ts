@@ -15,6 +15,9 @@ import { DataStore } from '../../src/data/data-store';
 import { CardManager } from '../../src/fsrs/card-manager';
 import { Scheduler } from '../../src/fsrs/scheduler';
 import { QueueManager } from '../../src/queues/queue-manager';
+import { CARD_STATE_FILE, PLUGIN_ID } from '../../src/constants';
+
+const CARD_STATE_PATH = `.obsidian/plugins/${PLUGIN_ID}/${CARD_STATE_FILE}`;
 
 describe('Data Integrity', () => {
 	let plugin: Plugin;
@@ -284,4 +287,34 @@ describe('Data Integrity', () => {
 		const allCards = dataStore.getCards();
 		expect(Object.keys(allCards)).toHaveLength(1);
 	});
+
+	test('Per-queue FSRS parameters persist and are validated on load', async () => {
+		// Given: A queue with valid overrides and a corrupted override saved to disk
+		const queue = queueManager.createQueue('Vocab', { type: 'folder', folders: [''] }, {
+			requestRetention: 0.95,
+			maximumInterval: 365,
+		});
+		await dataStore.save();
+		const adapter = plugin.app.vault.adapter;
+		const saved = JSON.parse(await adapter.read(CARD_STATE_PATH)) as { queues: Array<Record<string, unknown>> };
+		saved.queues.push({
+			...saved.queues[0],
+			id: 'broken',
+			name: 'Broken',
+			fsrsParams: { requestRetention: 'high', weights: [1, 2] },
+		});
+		await adapter.write(CARD_STATE_PATH, JSON.stringify(saved));
+
+		// When: Reloading
+		const newDataStore = new DataStore(plugin);
+		await newDataStore.initialize();
+
+		// Then: Valid overrides survive and invalid ones are dropped
+		expect(newDataStore.getQueue(queue.id)!.fsrsParams).toEqual({
+			requestRetention: 0.95,
+			maximumInterval: 365,
+		});
+		expect(newDataStore.getQueue('broken')).toBeDefined();
+		expect(newDataStore.getQueue('broken')!.fsrsParams).toBeUndefined();
+	});
 });
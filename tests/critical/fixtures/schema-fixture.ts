@@ -0,0 +1,21 @@
+/**
+ * Shape of the stored-data fixtures, one per schema version
+ *
+ * Every fixture holds the same queue, card, reviews and settings, as the
+ * plugin saved them at that version, so a test can load any of them and
+ * expect the same result.
+ */
+
+export interface SchemaFixture {
+	version: number;
+	/** What plugin.loadData() returns (data.json) */
+	data: Record<string, unknown>;
+	/** Other files in the plugin folder, by path relative to it */
+	files: Record<string, string>;
+}
+
+/** Contents every fixture holds */
+export const FIXTURE_QUEUE_ID = 'vocab';
+export const FIXTURE_CARD_PATH = 'Words/Apfel.md';
+export const FIXTURE_REVIEW_IDS = ['r1', 'r2'];
+export const FIXTURE_NEW_CARDS_PER_DAY = 7;
@@ -0,0 +1,86 @@
+/**
+ * Stored data before the schema had a version number
+ * Everything is in data.json; there is no orphan list.
+ */
+
+import type { SchemaFixture } from './schema-fixture';
+
+export const SCHEMA_V0: SchemaFixture = {
+	version: 0,
+	data: {
+		settings: { newCardsPerDay: 7 },
+		queues: [
+			{
+				id: 'vocab',
+				name: 'Vocabulary',
+				createdAt: '2024-01-05T09:00:00.000Z',
+				criteria: { type: 'folder', folders: ['Words'] },
+				stats: {
+					totalNotes: 1,
+					newNotes: 0,
+					dueNotes: 0,
+					reviewedToday: 0,
+					suspendedNotes: 0,
+					lastUpdated: '2024-01-08T09:00:00.000Z',
+				},
+			},
+		],
+		cards: {
+			'Words/Apfel.md': {
+				notePath: 'Words/Apfel.md',
+				noteId: 'n1',
+				createdAt: '2024-01-05T09:00:00.000Z',
+				lastModified: '2024-01-05T09:00:00.000Z',
+				schedules: {
+					vocab: {
+						due: '2024-01-20T09:00:00.000Z',
+						stability: 12.4,
+						difficulty: 4.9,
+						elapsedDays: 3,
+						scheduledDays: 12,
+						reps: 2,
+						lapses: 0,
+						state: 2,
+						lastReview: '2024-01-08T09:00:00.000Z',
+						addedToQueueAt: '2024-01-05T09:00:00.000Z',
+					},
+				},
+			},
+		},
+		reviews: [
+			{
+				id: 'r1',
+				cardPath: 'Words/Apfel.md',
+				queueId: 'vocab',
+				rating: 3,
+				state: 0,
+				due: '2024-01-05T09:00:00.000Z',
+				stability: 0,
+				difficulty: 0,
+				elapsedDays: 0,
+				lastElapsedDays: 0,
+				scheduledDays: 0,
+				review: '2024-01-05T09:00:00.000Z',
+				sessionId: 's1',
+				undone: false,
+			},
+			{
+				id: 'r2',
+				cardPath: 'Words/Apfel.md',
+				queueId: 'vocab',
+				rating: 3,
+				state: 2,
+				due: '2024-01-08T09:00:00.000Z',
+				stability: 3.2,
+				difficulty: 5,
+				elapsedDays: 3,
+				lastElapsedDays: 0,
+				scheduledDays: 3,
+				review: '2024-01-08T09:00:00.000Z',
+				sessionId: 's2',
+				undone: false,
+			},
+		],
+	},
+	files: {},
+};
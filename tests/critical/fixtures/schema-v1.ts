@@ -0,0 +1,17 @@
+/**
+ * Stored data at version 1
+ * Everything is in data.json, including the orphan list.
+ */
+
+import type { SchemaFixture } from './schema-fixture';
+import { SCHEMA_V0 } from './schema-v0';
+
+export const SCHEMA_V1: SchemaFixture = {
+	version: 1,
+	data: {
+		version: 1,
+		...structuredClone(SCHEMA_V0.data),
+		orphans: [],
+	},
+	files: {},
+};
@@ -0,0 +1,25 @@
+/**
+ * Stored data at version 2
+ * data.json keeps the version, settings and write counters; queues, cards
+ * and orphans are in cards.json, reviews in a monthly log per device.
+ */
+
+import type { SchemaFixture } from './schema-fixture';
+import { SCHEMA_V0 } from './schema-v0';
+
+const { settings, queues, cards, reviews } = structuredClone(SCHEMA_V0.data) as {
+	settings: unknown;
+	queues: unknown;
+	cards: unknown;
+	reviews: unknown[];
+};
+const writes = { laptop: 4 };
+
+export const SCHEMA_V2: SchemaFixture = {
+	version: 2,
+	data: { version: 2, settings, writes },
+	files: {
+		'cards.json': JSON.stringify({ queues, cards, orphans: [], writes }),
+		'reviews/2024-01.laptop.jsonl': reviews.map((review) => JSON.stringify(review)).join('\n') + '\n',
+	},
+};
@@ -0,0 +1,205 @@
+/**
+ * Critical tests for schema migrations
+ *
+ * Ensures that data saved by any earlier version loads safely:
+ * - Migration steps go one version at a time up to the current version
+ * - Data stored at every version loads with nothing lost and in the current file layout
+ * - Data is backed up before each migration step, one backup kept per version
+ * - Steps never modify the data they are given
+ * - A failing step leaves the stored data as it was
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createMinimalVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { MIGRATIONS, MigrationError, runMigrations, validateMigrations } from '../../src/data/migrations';
+import type { Migration } from '../../src/data/migrations';
+import {
+	CARD_STATE_FILE,
+	CURRENT_SCHEMA_VERSION,
+	MIGRATION_BACKUP_PREFIX,
+	PLUGIN_ID,
+	REVIEW_LOG_FOLDER,
+} from '../../src/constants';
+import type { SchemaFixture } from './fixtures/schema-fixture';
+import {
+	FIXTURE_CARD_PATH,
+	FIXTURE_NEW_CARDS_PER_DAY,
+	FIXTURE_QUEUE_ID,
+	FIXTURE_REVIEW_IDS,
+} from './fixtures/schema-fixture';
+import { SCHEMA_V0 } from './fixtures/schema-v0';
+import { SCHEMA_V1 } from './fixtures/schema-v1';
+import { SCHEMA_V2 } from './fixtures/schema-v2';
+
+const PLUGIN_FOLDER = `.obsidian/plugins/${PLUGIN_ID}`;
+
+/** One fixture per schema version, oldest first */
+const FIXTURES: SchemaFixture[] = [SCHEMA_V0, SCHEMA_V1, SCHEMA_V2];
+
+describe('Schema Migrations', () => {
+	let plugin: Plugin;
+
+	async function store(fixture: SchemaFixture): Promise<void> {
+		await plugin.saveData(structuredClone(fixture.data));
+		const adapter = plugin.app.vault.adapter;
+		for (const [path, content] of Object.entries(fixture.files)) {
+			const folder = `${PLUGIN_FOLDER}/${path}`.split('/').slice(0, -1).join('/');
+			await adapter.mkdir(folder);
+			await adapter.write(`${PLUGIN_FOLDER}/${path}`, content);
+		}
+	}
+
+	async function load(): Promise<DataStore> {
+		const dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+		return dataStore;
+	}
+
+	beforeEach(() => {
+		const { vault, metadataCache } = createMinimalVault();
+		plugin = createTestPlugin(vault, metadataCache);
+	});
+
+	test('Migration steps go one version at a time to the current version', () => {
+		expect(() => validateMigrations()).not.toThrow();
+		expect(FIXTURES.map((fixture) => fixture.version)).toEqual(
+			Array.from({ length: CURRENT_SCHEMA_VERSION + 1 }, (_, version) => version)
+		);
+
+		// Then: A gap or a missing last step is caught
+		expect(() => validateMigrations(MIGRATIONS.slice(1))).toThrow();
+		expect(() => validateMigrations(MIGRATIONS.slice(0, -1))).toThrow();
+	});
+
+	describe.each(FIXTURES)('Data stored at version $version', (fixture) => {
+		test('Loads with nothing lost', async () => {
+			await store(fixture);
+
+			const dataStore = await load();
+
+			expect(dataStore.getSettings().newCardsPerDay).toBe(FIXTURE_NEW_CARDS_PER_DAY);
+			expect(dataStore.getQueue(FIXTURE_QUEUE_ID)?.name).toBe('Vocabulary');
+			expect(dataStore.getCard(FIXTURE_CARD_PATH)?.schedules[FIXTURE_QUEUE_ID]?.reps).toBe(2);
+			expect((await dataStore.loadReviews()).map((r) => r.id)).toEqual(FIXTURE_REVIEW_IDS);
+
+			// Then: Queues and cards are in cards.json and reviews in the log, whatever the layout was
+			const adapter = plugin.app.vault.adapter;
+			expect(Object.keys((await plugin.loadData()) as object).sort()).toEqual(['settings', 'version', 'writes']);
+			const cardState = JSON.parse(await adapter.read(`${PLUGIN_FOLDER}/${CARD_STATE_FILE}`)) as {
+				queues: Array<{ id: string }>;
+			};
+			expect(cardState.queues.map((q) => q.id)).toEqual([FIXTURE_QUEUE_ID]);
+			const { files } = await adapter.list(`${PLUGIN_FOLDER}/${REVIEW_LOG_FOLDER}`);
+			expect(files.some((file) => file.includes('/2024-01.'))).toBe(true);
+
+			// Then: It is stored at the current version and loads again the same
+			await dataStore.save();
+			expect(((await plugin.loadData()) as { version: number }).version).toBe(CURRENT_SCHEMA_VERSION);
+			const reloaded = await load();
+			expect(reloaded.getCard(FIXTURE_CARD_PATH)).toEqual(dataStore.getCard(FIXTURE_CARD_PATH));
+			expect((await reloaded.loadReviews()).map((r) => r.id)).toEqual(FIXTURE_REVIEW_IDS);
+		});
+
+		test('Is backed up before each migration step', async () => {
+			await store(fixture);
+
+			const dataStore = await load();
+
+			// Then: One backup per step, the oldest holding the data as stored
+			const backups = (await dataStore.listBackups())
+				.filter((b) => b.id.startsWith(MIGRATION_BACKUP_PREFIX))
+				.reverse();
+			expect(backups.map((b) => b.id.split('-')[2])).toEqual(
+				MIGRATIONS.filter((m) => m.to > fixture.version).map((m) => `v${m.to - 1}`)
+			);
+			if (backups.length > 0) {
+				expect(backups[0]!.data).toEqual(fixture.data);
+			}
+		});
+
+		test('Each step leaves its input unchanged', () => {
+			const input = structuredClone(fixture.data);
+
+			const { data, applied } = runMigrations(input, fixture.version);
+
+			expect(input).toEqual(fixture.data);
+			expect(data.version).toBe(CURRENT_SCHEMA_VERSION);
+			expect(applied).toEqual(
+				MIGRATIONS.filter((m) => m.to > fixture.version).map((m) => m.to)
+			);
+		});
+	});
+
+	test('A failing step stops the run and names the versions', () => {
+		const input = structuredClone(SCHEMA_V0.data);
+		const failing: Migration[] = [
+			MIGRATIONS[0]!,
+			{
+				to: 2,
+				description: 'Broken step',
+				migrate: (data) => {
+					data.queues = 'lost';
+					throw new Error('disk full');
+				},
+			},
+		];
+
+		const run = () => runMigrations(input, 0, failing);
+
+		expect(run).toThrow(MigrationError);
+		expect(run).toThrow('from version 1 to 2 failed: disk full');
+		expect(input).toEqual(SCHEMA_V0.data);
+	});
+
+	test('Data a step does not expect, or a wrong result, is rejected', () => {
+		const unexpected = { ...structuredClone(SCHEMA_V0.data), settings: [] };
+		expect(() => runMigrations(unexpected, 0)).toThrow('settings is not an object');
+
+		const noVersion: Migration[] = [{ to: 1, description: 'Forgets the version', migrate: (data) => data }];
+		expect(() => runMigrations(structuredClone(SCHEMA_V0.data), 0, noVersion)).toThrow('version is undefined');
+	});
+
+	test('Data that fails to migrate is left as it was', async () => {
+		const broken = { ...structuredClone(SCHEMA_V1.data), queues: 'lost' };
+		await plugin.saveData(structuredClone(broken));
+
+		await expect(load()).rejects.toThrow(MigrationError);
+
+		// Then: data.json is untouched and the backup holds it
+		expect(await plugin.loadData()).toEqual(broken);
+		const dataStore = new DataStore(plugin);
+		const [backup] = await dataStore.listBackups();
+		expect(backup?.id.startsWith(MIGRATION_BACKUP_PREFIX)).toBe(true);
+		expect(backup?.data).toEqual(broken);
+	});
+
+	test('A migration retried at every start keeps one backup per version', async () => {
+		const broken = { ...structuredClone(SCHEMA_V0.data), queues: 'lost' };
+		await plugin.saveData(structuredClone(broken));
+
+		// When: The first step fails at three starts in a row
+		for (let start = 0; start < 3; start++) {
+			await expect(load()).rejects.toThrow(MigrationError);
+		}
+
+		// Then: Only the newest backup of the stored data is kept
+		const backups = await new DataStore(plugin).listBackups();
+		expect(backups).toHaveLength(1);
+		expect(backups[0]!.data).toEqual(broken);
+	});
+
+	test('A migration backup is migrated when restored', async () => {
+		await store(SCHEMA_V0);
+		const dataStore = await load();
+		dataStore.deleteQueue(FIXTURE_QUEUE_ID);
+		const [backup] = await dataStore.listBackups();
+
+		expect(await dataStore.restoreFromBackup(backup!.id)).toBe(true);
+
+		expect(dataStore.getQueue(FIXTURE_QUEUE_ID)?.name).toBe('Vocabulary');
+		expect(dataStore.getCard(FIXTURE_CARD_PATH)?.schedules[FIXTURE_QUEUE_ID]?.reps).toBe(2);
+	});
+});
@@ -0,0 +1,171 @@
+/**
+ * Integration tests for merging plugin data saved on several devices
+ *
+ * Verifies that:
+ * - Reviews made on two devices between syncs are both kept
+ * - A schedule both devices changed is rebuilt from the merged review log
+ * - A setting changed on both devices keeps this device's value and is reported
+ * - Card data replaced by an older copy is repaired from the review log
+ * - A corrupt cards.json from another device does not stop saving
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Plugin, Vault, MetadataCache } from '../setup/obsidian-mock';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createTestVault } from '../fixtures/sample-vault';
+import { DataStore } from '../../src/data/data-store';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { QueueManager } from '../../src/queues/queue-manager';
+import { DeviceSync } from '../../src/sync/device-sync';
+import { CARD_STATE_FILE, PLUGIN_ID } from '../../src/constants';
+
+const CARD_STATE_PATH = `.obsidian/plugins/${PLUGIN_ID}/${CARD_STATE_FILE}`;
+
+interface Device {
+	plugin: Plugin;
+	dataStore: DataStore;
+	cardManager: CardManager;
+	queueManager: QueueManager;
+	deviceSync: DeviceSync;
+}
+
+describe('Device Sync', () => {
+	let vault: Vault;
+	let metadataCache: MetadataCache;
+	let dataJson: string | undefined;
+	let queueId: string;
+
+	/**
+	 * Start the plugin on a device. Devices share the vault, including
+	 * data.json, as a file sync would leave it; each has its own local storage.
+	 */
+	async function startDevice(plugin: Plugin = createTestPlugin(vault, metadataCache)): Promise<Device> {
+		plugin.loadData = async () => (dataJson === undefined ? null : JSON.parse(dataJson));
+		plugin.saveData = async (data: unknown) => {
+			dataJson = JSON.stringify(data);
+		};
+
+		const dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+		const cardManager = new CardManager(dataStore, new Scheduler());
+		const queueManager = new QueueManager(plugin.app, dataStore, cardManager, dataStore.getSettings());
+		return { plugin, dataStore, cardManager, queueManager, deviceSync: new DeviceSync(dataStore, cardManager) };
+	}
+
+	beforeEach(async () => {
+		({ vault, metadataCache } = createTestVault([
+			{ path: 'Notes/A.md', content: 'A.' },
+			{ path: 'Notes/B.md', content: 'B.' },
+		]));
+		dataJson = undefined;
+
+		const first = await startDevice();
+		queueId = first.queueManager.createQueue('Notes', { type: 'folder', folders: ['Notes'] }).id;
+		first.queueManager.syncQueue(queueId);
+		await first.dataStore.save();
+	});
+
+	test('Reviews made on both devices are kept', async () => {
+		const laptop = await startDevice();
+		const phone = await startDevice();
+		expect(laptop.dataStore.getDeviceId()).not.toBe(phone.dataStore.getDeviceId());
+
+		// When: Each device reviews a different note, then both save
+		laptop.cardManager.updateCardSchedule('Notes/A.md', queueId, 3, 's1');
+		phone.cardManager.updateCardSchedule('Notes/B.md', queueId, 4, 's2');
+		await laptop.dataStore.save();
+		await phone.dataStore.save();
+
+		// Then: The phone took in the laptop's review and schedule
+		expect(phone.dataStore.getReviews().map((r) => r.cardPath).sort()).toEqual(['Notes/A.md', 'Notes/B.md']);
+		expect(phone.cardManager.getSchedule('Notes/A.md', queueId)?.reps).toBe(1);
+		expect(phone.cardManager.getSchedule('Notes/B.md', queueId)?.reps).toBe(1);
+		expect(phone.dataStore.takeSyncReport()?.report.reviewsAdded).toBe(1);
+
+		// Then: The laptop picks up the phone's changes on its next check
+		const report = await laptop.deviceSync.check();
+		expect(report?.reviewsAdded).toBe(1);
+		expect(laptop.cardManager.getSchedule('Notes/B.md', queueId)?.reps).toBe(1);
+		expect(laptop.dataStore.getReviews()).toHaveLength(2);
+	});
+
+	test('A schedule changed on both devices is rebuilt from the review log', async () => {
+		const laptop = await startDevice();
+		const phone = await startDevice();
+
+		laptop.cardManager.updateCardSchedule('Notes/A.md', queueId, 3, 's1');
+		await laptop.dataStore.save();
+		phone.cardManager.updateCardSchedule('Notes/A.md', queueId, 1, 's2');
+
+		const report = await phone.deviceSync.check();
+
+		expect(report?.schedulesRebuilt).toBe(1);
+		expect(report?.conflicts).toEqual([]);
+		const schedule = phone.cardManager.getSchedule('Notes/A.md', queueId)!;
+		expect(schedule.reps).toBe(2);
+		const [, last] = phone.dataStore.getReviews();
+		expect(schedule.lastReview?.slice(0, 16)).toBe(last!.review.slice(0, 16));
+	});
+
+	test('A setting changed on both devices keeps this device\'s value', async () => {
+		const laptop = await startDevice();
+		const phone = await startDevice();
+
+		laptop.dataStore.updateSettings({ newCardsPerDay: 10 });
+		laptop.queueManager.updateQueue(queueId, { name: 'Renamed' });
+		await laptop.dataStore.save();
+		phone.dataStore.updateSettings({ newCardsPerDay: 30, maxReviewsPerDay: 50 });
+
+		const report = await phone.deviceSync.check();
+
+		expect(report?.conflicts).toEqual([{ area: 'setting', key: 'newCardsPerDay' }]);
+		expect(phone.dataStore.getSettings().newCardsPerDay).toBe(30);
+		expect(phone.dataStore.getSettings().maxReviewsPerDay).toBe(50);
+		expect(phone.dataStore.getQueue(queueId)?.name).toBe('Renamed');
+
+		// Then: Once saved, the laptop takes the merged values without a conflict
+		await phone.dataStore.save();
+		expect((await laptop.deviceSync.check())?.conflicts).toEqual([]);
+		expect(laptop.dataStore.getSettings().newCardsPerDay).toBe(30);
+	});
+
+	test('Card data replaced by an older copy is repaired from the log', async () => {
+		const laptop = await startDevice();
+		const adapter = laptop.plugin.app.vault.adapter;
+		const before = await adapter.read(CARD_STATE_PATH);
+
+		laptop.cardManager.updateCardSchedule('Notes/A.md', queueId, 3, 's1');
+		await laptop.dataStore.save();
+
+		// When: A sync brings back cards.json from before the review
+		await adapter.write(CARD_STATE_PATH, before);
+		const restarted = await startDevice(laptop.plugin);
+		expect(restarted.cardManager.getSchedule('Notes/A.md', queueId)?.reps).toBe(0);
+
+		const report = await restarted.deviceSync.check();
+
+		expect(report?.schedulesRebuilt).toBe(1);
+		expect(restarted.cardManager.getSchedule('Notes/A.md', queueId)?.reps).toBe(1);
+	});
+
+	test('A corrupt cards.json from another device does not stop saving', async () => {
+		const laptop = await startDevice();
+		const phone = await startDevice();
+		const adapter = phone.plugin.app.vault.adapter;
+
+		// When: The laptop's save arrives half-synced, then the phone saves a review
+		laptop.cardManager.updateCardSchedule('Notes/B.md', queueId, 3, 's1');
+		await laptop.dataStore.save();
+		await adapter.write(CARD_STATE_PATH, '{"queues": [');
+		phone.cardManager.updateCardSchedule('Notes/A.md', queueId, 3, 's2');
+		await phone.dataStore.save();
+
+		// Then: The phone's data is written and loads again
+		const saved = JSON.parse(await adapter.read(CARD_STATE_PATH)) as { cards: Record<string, unknown> };
+		expect(Object.keys(saved.cards)).toContain('Notes/A.md');
+		const restarted = await startDevice(phone.plugin);
+		expect(restarted.cardManager.getSchedule('Notes/A.md', queueId)?.reps).toBe(1);
+		expect(restarted.dataStore.getReviews().map((r) => r.cardPath)).toContain('Notes/A.md');
+	});
+});
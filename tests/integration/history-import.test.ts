@@ -0,0 +1,159 @@
+/**
+ * Integration tests for importing scheduling history
+ *
+ * Verifies that history from other tools lands in a queue:
+ * - Spaced Repetition plugin frontmatter seeds FSRS schedules
+ * - Anki revlog exports (CSV and JSON) are replayed through FSRS
+ * - Dry-run reports list matched, unmatched and conflicting notes
+ * - Nothing is written until the plan is applied
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createTestVault } from '../fixtures/sample-vault';
+import { TEST_QUEUE_ID } from '../fixtures/test-cards';
+import { DataStore } from '../../src/data/data-store';
+import { HistoryImporter, IMPORT_SESSION_IDS, parseAnkiRevlog, parseCsv } from '../../src/data/history-importer';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { DEFAULT_QUEUE_STATS } from '../../src/constants';
+import { nowISO } from '../../src/utils/date-utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('History Import', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+	let importer: HistoryImporter;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createTestVault([
+			{ path: 'Zettel/Photosynthesis.md', content: '# Photosynthesis', frontmatter: { 'sr-due': '2030-01-10', 'sr-interval': 20, 'sr-ease': 270 } },
+			{ path: 'Zettel/Mitosis.md', content: '# Mitosis', frontmatter: { 'sr-due': 'someday', 'sr-interval': 3 } },
+			{ path: 'Zettel/Osmosis.md', content: '# Osmosis' },
+			{ path: 'Archive/Osmosis.md', content: '# Osmosis (old)' },
+			{ path: 'Zettel/Entropy.md', content: '# Entropy' },
+		]);
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+		dataStore.addQueue({
+			id: TEST_QUEUE_ID,
+			name: 'Test',
+			createdAt: nowISO(),
+			criteria: { type: 'folder', folders: [] },
+			stats: { ...DEFAULT_QUEUE_STATS },
+		});
+
+		cardManager = new CardManager(dataStore, new Scheduler());
+		importer = new HistoryImporter(plugin.app, dataStore, cardManager);
+	});
+
+	test('Spaced Repetition frontmatter seeds a review schedule', () => {
+		// When: Planning an import
+		const plan = importer.planSpacedRepetition(TEST_QUEUE_ID);
+
+		// Then: The valid note is matched and the invalid one reported
+		expect(plan.report.matched.map((m) => m.notePath)).toEqual(['Zettel/Photosynthesis.md']);
+		expect(plan.report.unmatched.map((u) => u.source)).toEqual(['Zettel/Mitosis.md']);
+
+		// Dry run writes nothing
+		expect(dataStore.getCard('Zettel/Photosynthesis.md')).toBeUndefined();
+
+		// When: Applying
+		expect(importer.apply(plan)).toBe(1);
+
+		// Then: Due date and interval come from the SR plugin
+		const schedule = dataStore.getCard('Zettel/Photosynthesis.md')?.schedules[TEST_QUEUE_ID];
+		expect(schedule?.due).toBe(new Date('2030-01-10').toISOString());
+		expect(schedule?.state).toBe(2);
+		expect(schedule?.stability).toBe(20);
+		expect(schedule?.difficulty).toBeLessThan(5);
+		expect(schedule?.lastReview).toBe(new Date(Date.parse('2030-01-10') - 20 * DAY_MS).toISOString());
+
+		const reviews = dataStore.getReviewsForCard('Zettel/Photosynthesis.md');
+		expect(reviews).toHaveLength(1);
+		expect(reviews[0]?.sessionId).toBe(IMPORT_SESSION_IDS['spaced-repetition']);
+	});
+
+	test('Anki CSV history is replayed through FSRS', () => {
+		// Given: Three reviews of one card, plus a manual reschedule that is ignored
+		const start = Date.parse('2025-01-01T09:00:00Z');
+		const csv = [
+			'id,cid,ease,type,note',
+			`${start},111,3,0,"<b>Entropy</b>"`,
+			`${start + 2 * DAY_MS},111,3,1,Entropy`,
+			`${start + 9 * DAY_MS},111,1,1,Entropy`,
+			`${start + 10 * DAY_MS},111,0,4,Entropy`,
+		].join('\n');
+
+		const plan = importer.planAnki(csv, TEST_QUEUE_ID);
+		expect(plan.report.matched).toHaveLength(1);
+		expect(plan.report.matched[0]?.reviewCount).toBe(3);
+
+		importer.apply(plan);
+
+		// Then: The schedule reflects the lapse and logs are chronological
+		const schedule = dataStore.getCard('Zettel/Entropy.md')?.schedules[TEST_QUEUE_ID];
+		expect(schedule?.reps).toBe(3);
+		expect(schedule?.lapses).toBe(1);
+		expect(schedule?.lastReview).toBe(new Date(start + 9 * DAY_MS).toISOString());
+		expect(schedule?.addedToQueueAt).toBe(new Date(start).toISOString());
+
+		const reviews = dataStore.getReviewsForCard('Zettel/Entropy.md');
+		expect(reviews.map((r) => r.rating)).toEqual([3, 3, 1]);
+		expect(reviews.map((r) => r.state)).toEqual([0, 1, 2]);
+		expect(reviews.every((r) => r.sessionId === IMPORT_SESSION_IDS.anki)).toBe(true);
+	});
+
+	test('Dry-run report lists unmatched, ambiguous, duplicate and existing notes', () => {
+		// Given: A note that already has reviews in the queue
+		cardManager.createCard('Zettel/Photosynthesis.md', TEST_QUEUE_ID);
+		cardManager.updateCardSchedule('Zettel/Photosynthesis.md', TEST_QUEUE_ID, 3, 'session');
+
+		const json = JSON.stringify({
+			revlog: [
+				{ id: 1_700_000_000_000, cid: 1, ease: 3, note: 'Zettel/Photosynthesis' },
+				{ id: 1_700_000_000_000, cid: 2, ease: 3, note: 'Osmosis' },
+				{ id: 1_700_000_000_000, cid: 3, ease: 3, note: 'Nonexistent note' },
+				{ id: 1_700_000_000_000, cid: 4, ease: 3, note: 'Entropy' },
+				{ id: 1_700_100_000_000, cid: 4, ease: 3, note: 'Entropy' },
+				{ id: 1_700_000_000_000, cid: 5, ease: 2, note: 'Entropy' },
+			],
+		});
+
+		const plan = importer.planAnki(json, TEST_QUEUE_ID);
+
+		expect(plan.report.matched.map((m) => m.notePath)).toEqual(['Zettel/Entropy.md']);
+		expect(plan.report.unmatched.map((u) => u.source)).toEqual(['Nonexistent note (card 3)']);
+		expect(plan.report.conflicts.map((c) => c.reason).sort()).toEqual(['ambiguous', 'duplicate', 'existing-schedule']);
+		expect(plan.report.conflicts.find((c) => c.reason === 'ambiguous')?.notePaths.sort()).toEqual([
+			'Archive/Osmosis.md',
+			'Zettel/Osmosis.md',
+		]);
+
+		// Overwrite makes the existing note importable
+		const overwrite = importer.planAnki(json, TEST_QUEUE_ID, { overwrite: true });
+		expect(overwrite.report.matched.map((m) => m.notePath).sort()).toEqual(['Zettel/Entropy.md', 'Zettel/Photosynthesis.md']);
+	});
+
+	test('Malformed sources report errors', () => {
+		const missing = parseAnkiRevlog('card,when\n1,2').errors;
+		expect(missing).toHaveLength(4);
+		expect(missing[0]).toBe('Missing column for cardId (expected one of: cid, card_id, cardid)');
+		expect(parseAnkiRevlog('{').errors).toEqual(['File is not valid JSON']);
+		expect(parseAnkiRevlog('cid,id,ease,note\n1,abc,3,Entropy').errors).toEqual([
+			'Row 1: missing or invalid card, note, time or rating',
+		]);
+	});
+
+	test('CSV parser handles quoted fields', () => {
+		expect(parseCsv('a,b\n"x, y","say ""hi"""\r\n')).toEqual([
+			['a', 'b'],
+			['x, y', 'say "hi"'],
+		]);
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * Integration tests for archiving old reviews
+ *
+ * Verifies that:
+ * - Months past the archive setting move to compressed files and leave memory
+ * - Archived reviews are still read for analytics and exports, renames included
+ * - Past the history limit the oldest months are archived instead of dropped,
+ *   counting months not read into memory yet
+ * - The retention setting deletes old archived months
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createMinimalVault } from '../fixtures/sample-vault';
+import { TEST_QUEUE_ID } from '../fixtures/test-cards';
+import { DataStore } from '../../src/data/data-store';
+import { monthKey, shiftMonth } from '../../src/data/review-log-store';
+import { MAX_REVIEW_HISTORY, PLUGIN_ID, REVIEW_ARCHIVE_FOLDER, REVIEW_LOG_FOLDER } from '../../src/constants';
+import type { ReviewLog } from '../../src/types';
+
+const LOG_FOLDER = `.obsidian/plugins/${PLUGIN_ID}/${REVIEW_LOG_FOLDER}`;
+const ARCHIVE_FOLDER = `${LOG_FOLDER}/${REVIEW_ARCHIVE_FOLDER}`;
+
+function makeReview(id: string, cardPath: string, review: string): ReviewLog {
+	return {
+		id,
+		cardPath,
+		queueId: TEST_QUEUE_ID,
+		rating: 3,
+		state: 2,
+		due: review,
+		stability: 5,
+		difficulty: 5,
+		elapsedDays: 3,
+		lastElapsedDays: 0,
+		scheduledDays: 5,
+		review,
+		sessionId: 's1',
+		undone: false,
+	};
+}
+
+describe('Review Archive', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	const now = new Date().toISOString();
+	const recentMonth = shiftMonth(monthKey(now), -2);
+	const recent = `${recentMonth}-10T12:00:00.000Z`;
+	const old = '2024-03-10T12:00:00.000Z';
+
+	async function reload(): Promise<DataStore> {
+		const store = new DataStore(plugin);
+		await store.initialize();
+		return store;
+	}
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createMinimalVault();
+		plugin = createTestPlugin(vault, metadataCache);
+		dataStore = await reload();
+	});
+
+	test('Old months move to the archive and are still read', async () => {
+		dataStore.addReviews([makeReview('old', 'a.md', old), makeReview('recent', 'a.md', recent)]);
+		dataStore.addReview(makeReview('new', 'a.md', now));
+		await dataStore.save();
+
+		const result = await dataStore.archiveReviews();
+
+		expect(result).toEqual({ archivedMonths: ['2024-03'], deletedMonths: [] });
+		const adapter = plugin.app.vault.adapter;
+		expect(await adapter.exists(`${LOG_FOLDER}/2024-03.${dataStore.getDeviceId()}.jsonl`)).toBe(false);
+		expect(await adapter.exists(`${ARCHIVE_FOLDER}/2024-03.${dataStore.getDeviceId()}.jsonl.gz`)).toBe(true);
+		expect(dataStore.getReviews().map((r) => r.id)).toEqual(['recent', 'new']);
+
+		// Then: The whole history, archive included, is read after a reload too
+		expect((await dataStore.loadAllReviews()).map((r) => r.id)).toEqual(['old', 'recent', 'new']);
+		expect((await (await reload()).loadAllReviews()).map((r) => r.id)).toEqual(['old', 'recent', 'new']);
+
+		const stats = await dataStore.getReviewStorageStats();
+		expect(stats.archivedMonths).toBe(1);
+		expect(stats.archivedBytes).toBeGreaterThan(0);
+		expect(stats.liveMonths).toBe(2);
+	});
+
+	test('Renames and late imports reach archived months', async () => {
+		dataStore.addReviews([makeReview('old', 'a.md', old)]);
+		await dataStore.save();
+		await dataStore.archiveReviews();
+
+		// When: The note is renamed and more history for the archived month is imported
+		dataStore.migrateReviewLogPaths('a.md', 'renamed.md');
+		dataStore.addReviews([makeReview('imported', 'b.md', '2024-03-20T12:00:00.000Z')]);
+		await dataStore.save();
+		const result = await dataStore.archiveReviews();
+
+		expect(result.archivedMonths).toEqual(['2024-03']);
+		const all = await (await reload()).loadAllReviews();
+		expect(all.map((r) => [r.id, r.cardPath])).toEqual([
+			['old', 'renamed.md'],
+			['imported', 'b.md'],
+		]);
+	});
+
+	test('Past the history limit the oldest months are archived, not dropped', async () => {
+		dataStore.updateSettings({ archiveAfterMonths: 0 });
+		const oldest = `${shiftMonth(recentMonth, -1)}-05T12:00:00.000Z`;
+		const reviews: ReviewLog[] = [];
+		for (let i = 0; i < MAX_REVIEW_HISTORY; i++) {
+			reviews.push(makeReview(`o${i}`, 'a.md', oldest));
+		}
+		reviews.push(makeReview('recent', 'a.md', recent));
+		dataStore.addReviews(reviews);
+		dataStore.addReview(makeReview('new', 'a.md', now));
+		await dataStore.save();
+
+		const result = await dataStore.archiveReviews();
+
+		expect(result.archivedMonths).toEqual([monthKey(oldest)]);
+		expect(dataStore.getReviews().map((r) => r.id)).toEqual(['recent', 'new']);
+		expect(await dataStore.loadAllReviews()).toHaveLength(MAX_REVIEW_HISTORY + 2);
+	});
+
+	test('The history limit counts months not read yet', async () => {
+		dataStore.updateSettings({ archiveAfterMonths: 0 });
+		const oldest = `${shiftMonth(recentMonth, -1)}-05T12:00:00.000Z`;
+		const reviews: ReviewLog[] = [];
+		for (let i = 0; i < MAX_REVIEW_HISTORY; i++) {
+			reviews.push(makeReview(`o${i}`, 'a.md', oldest));
+		}
+		reviews.push(makeReview('recent', 'a.md', recent));
+		dataStore.addReviews(reviews);
+		await dataStore.save();
+
+		// When: After a restart only the current month is in memory
+		const restarted = await reload();
+		const result = await restarted.archiveReviews();
+
+		// Then: Only the oldest month is archived
+		expect(result.archivedMonths).toEqual([monthKey(oldest)]);
+		expect((await restarted.loadReviews()).map((r) => r.id)).toEqual(['recent']);
+	});
+
+	test('Archived months past the retention period are deleted', async () => {
+		dataStore.updateSettings({ archiveRetentionYears: 2 });
+		dataStore.addReviews([makeReview('old', 'a.md', old), makeReview('recent', 'a.md', recent)]);
+		await dataStore.save();
+
+		const result = await dataStore.archiveReviews(new Date(now));
+
+		expect(result).toEqual({ archivedMonths: ['2024-03'], deletedMonths: ['2024-03'] });
+		expect((await dataStore.loadAllReviews()).map((r) => r.id)).toEqual(['recent']);
+		expect((await dataStore.getReviewStorageStats()).archivedMonths).toBe(0);
+	});
+});
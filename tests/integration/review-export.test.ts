@@ -0,0 +1,103 @@
+/**
+ * Integration tests for review history export
+ *
+ * Verifies that exports written to the vault contain:
+ * - Every review log entry (including undone ones, flagged)
+ * - The current schedule for each card in each queue
+ * - FSRS revlog rows for external tooling (undone reviews left out)
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createMinimalVault } from '../fixtures/sample-vault';
+import { TEST_QUEUE_ID } from '../fixtures/test-cards';
+import { DataStore } from '../../src/data/data-store';
+import { ReviewExporter, escapeCsvField } from '../../src/data/review-exporter';
+import { CardManager } from '../../src/fsrs/card-manager';
+import { Scheduler } from '../../src/fsrs/scheduler';
+import { DEFAULT_QUEUE_STATS, EXPORT_FOLDER } from '../../src/constants';
+import { nowISO } from '../../src/utils/date-utils';
+
+/** Parse simple CSV output (fields here never contain quotes) */
+function parseCsv(text: string): Record<string, string>[] {
+	const [header, ...lines] = text.trim().split('\n');
+	const keys = (header ?? '').split(',');
+	return lines.map((line) => {
+		const values = line.split(',');
+		return Object.fromEntries(keys.map((k, i) => [k, values[i] ?? '']));
+	});
+}
+
+describe('Review Export', () => {
+	let plugin: Plugin;
+	let dataStore: DataStore;
+	let cardManager: CardManager;
+
+	beforeEach(async () => {
+		const { vault, metadataCache } = createMinimalVault();
+		plugin = createTestPlugin(vault, metadataCache);
+
+		dataStore = new DataStore(plugin);
+		await dataStore.initialize();
+		dataStore.addQueue({
+			id: TEST_QUEUE_ID,
+			name: 'Test',
+			createdAt: nowISO(),
+			criteria: { type: 'folder', folders: [] },
+			stats: { ...DEFAULT_QUEUE_STATS },
+		});
+
+		cardManager = new CardManager(dataStore, new Scheduler());
+		cardManager.createCard('a.md', TEST_QUEUE_ID);
+		cardManager.createCard('b.md', TEST_QUEUE_ID);
+	});
+
+	test('Exports reviews, schedules and revlog to the export folder', async () => {
+		// Given: Three reviews, one of them undone
+		cardManager.updateCardSchedule('a.md', TEST_QUEUE_ID, 3, 'session-1');
+		const undone = cardManager.updateCardSchedule('b.md', TEST_QUEUE_ID, 1, 'session-1');
+		dataStore.markReviewUndone(undone.id);
+		cardManager.updateCardSchedule('a.md', TEST_QUEUE_ID, 4, 'session-2');
+
+		// When: Exporting
+		const result = await new ReviewExporter(plugin.app, dataStore).exportAll(new Date('2025-03-04T05:06:07Z'));
+
+		// Then: Three files are written with a timestamp
+		expect(result.folder).toBe(EXPORT_FOLDER);
+		expect(result.files).toEqual([
+			`${EXPORT_FOLDER}/fsrs-reviews-2025-03-04-05-06-07.csv`,
+			`${EXPORT_FOLDER}/fsrs-schedules-2025-03-04-05-06-07.csv`,
+			`${EXPORT_FOLDER}/fsrs-revlog-2025-03-04-05-06-07.csv`,
+		]);
+		expect(result.reviewCount).toBe(3);
+		expect(result.scheduleCount).toBe(2);
+
+		const adapter = plugin.app.vault.adapter;
+		const [reviewsPath, schedulesPath, revlogPath] = result.files as [string, string, string];
+
+		const reviews = parseCsv(await adapter.read(reviewsPath));
+		expect(reviews).toHaveLength(3);
+		expect(reviews.map((r) => r.undone)).toEqual(['false', 'true', 'false']);
+		expect(reviews[0]).toMatchObject({ note_path: 'a.md', queue_id: TEST_QUEUE_ID, queue_name: 'Test', rating: '3', state: '0', session_id: 'session-1' });
+
+		const schedules = parseCsv(await adapter.read(schedulesPath));
+		expect(schedules.map((s) => s.note_path).sort()).toEqual(['a.md', 'b.md']);
+		expect(schedules.find((s) => s.note_path === 'a.md')?.reps).toBe('2');
+
+		// Revlog uses numeric card IDs and epoch milliseconds, without undone reviews
+		const revlog = parseCsv(await adapter.read(revlogPath));
+		expect(Object.keys(revlog[0] ?? {})).toEqual(['card_id', 'review_time', 'review_rating', 'review_state', 'review_duration']);
+		expect(revlog).toHaveLength(2);
+		expect(revlog.map((r) => r.card_id)).toEqual(['1', '1']);
+		expect(revlog.map((r) => r.review_rating)).toEqual(['3', '4']);
+		expect(Number(revlog[0]?.review_time)).toBe(Date.parse(reviews[0]?.review_time ?? ''));
+	});
+
+	test('CSV fields with delimiters are quoted', () => {
+		expect(escapeCsvField('plain')).toBe('plain');
+		expect(escapeCsvField('a, b')).toBe('"a, b"');
+		expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+		expect(escapeCsvField(null)).toBe('');
+	});
+});
@@ -0,0 +1,168 @@
+/**
+ * Integration tests for the split storage layout
+ *
+ * Verifies that:
+ * - Reviews are appended to monthly log files, cards and queues go to cards.json
+ * - data.json only keeps the version, settings and write counters
+ * - Older months are read only when the whole history is asked for
+ * - Undo and renames written as amendments survive a reload
+ * - Data saved in the old single-file layout is migrated
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { Plugin } from '../setup/obsidian-mock';
+import { createTestPlugin } from '../setup/test-helpers';
+import { createMinimalVault } from '../fixtures/sample-vault';
+import { TEST_QUEUE_ID } from '../fixtures/test-cards';
+import { DataStore } from '../../src/data/data-store';
+import { monthKey } from '../../src/data/review-log-store';
+import { CARD_STATE_FILE, DEFAULT_QUEUE_STATS, PLUGIN_ID, REVIEW_LOG_FOLDER } from '../../src/constants';
+import { nowISO } from '../../src/utils/date-utils';
+import type { ReviewLog } from '../../src/types';
+
+const PLUGIN_FOLDER = `.obsidian/plugins/${PLUGIN_ID}`;
+const LOG_FOLDER = `${PLUGIN_FOLDER}/${REVIEW_LOG_FOLDER}`;
+
+function makeReview(id: string, cardPath: string, review: string): ReviewLog {
+	return {
+		id,
+		cardPath,
+		queueId: TEST_QUEUE_ID,
+		rating: 3,
+		state: 2,
+		due: review,
+		stability: 5,
+		difficulty: 5,
+		elapsedDays: 3,
+		lastElapsedDays: 0,
+		scheduledDays: 5,
+		review,
+		sessionId: 's1',
+		undone: false,
+	};
+}
+
+describe('Review Log Storage', () => {
+	let plugin: Plugin;
+	const now = new Date().toISOString();
+	const old = '2024-03-10T12:00:00.000Z';
+
+	async function reload(): Promise<DataStore> {
+		const store = new DataStore(plugin);
+		await store.initialize();
+		return store;
+	}
+
+	beforeEach(() => {
+		const { vault, metadataCache } = createMinimalVault();
+		plugin = createTestPlugin(vault, metadataCache);
+	});
+
+	test('Reviews go to monthly log files and cards to cards.json', async () => {
+		const dataStore = await reload();
+		dataStore.addQueue({
+			id: TEST_QUEUE_ID,
+			name: 'Test',
+			createdAt: nowISO(),
+			criteria: { type: 'folder', folders: [] },
+			stats: { ...DEFAULT_QUEUE_STATS },
+		});
+		dataStore.addReviews([makeReview('old', 'a.md', old)]);
+		dataStore.addReview(makeReview('new', 'a.md', now));
+		await dataStore.save();
+
+		const adapter = plugin.app.vault.adapter;
+		const saved = (await plugin.loadData()) as Record<string, unknown>;
+		expect(Object.keys(saved).sort()).toEqual(['settings', 'version', 'writes']);
+		expect(saved.version).toBe(2);
+
+		const state = JSON.parse(await adapter.read(`${PLUGIN_FOLDER}/${CARD_STATE_FILE}`)) as Record<string, unknown>;
+		expect(state.queues).toHaveLength(1);
+
+		const current = await adapter.read(`${LOG_FOLDER}/${monthKey(now)}.${dataStore.getDeviceId()}.jsonl`);
+		expect(current.trim().split('\n').map((line) => (JSON.parse(line) as ReviewLog).id)).toEqual(['new']);
+		expect(await adapter.exists(`${LOG_FOLDER}/${monthKey(old)}.${dataStore.getDeviceId()}.jsonl`)).toBe(true);
+
+		// Then: Another review is appended without rewriting the line before it
+		dataStore.addReview(makeReview('newer', 'b.md', now));
+		await dataStore.save();
+		const appended = await adapter.read(`${LOG_FOLDER}/${monthKey(now)}.${dataStore.getDeviceId()}.jsonl`);
+		expect(appended.startsWith(current)).toBe(true);
+	});
+
+	test('Older months are read only when the whole history is loaded', async () => {
+		const dataStore = await reload();
+		dataStore.addReviews([makeReview('old', 'a.md', old)]);
+		dataStore.addReview(makeReview('new', 'a.md', now));
+		await dataStore.save();
+
+		const reloaded = await reload();
+
+		expect(reloaded.getReviews().map((r) => r.id)).toEqual(['new']);
+		expect(reloaded.hasLoadedAllReviews()).toBe(false);
+
+		const all = await reloaded.loadReviews();
+		expect(all.map((r) => r.id)).toEqual(['old', 'new']);
+		expect(reloaded.getReviews()).toBe(all);
+	});
+
+	test('Undo and renames survive a reload', async () => {
+		const dataStore = await reload();
+		dataStore.addReviews([makeReview('old', 'a.md', old)]);
+		dataStore.addReview(makeReview('new', 'a.md', now));
+		await dataStore.save();
+
+		// When: Reviews are amended after a reload that only read the current month
+		const reloaded = await reload();
+		reloaded.markReviewUndone('new');
+		reloaded.migrateReviewLogPaths('a.md', 'renamed.md');
+		await reloaded.save();
+
+		// Then: Both amendments apply to every month, including the one not read
+		const all = await (await reload()).loadReviews();
+		expect(all.map((r) => [r.id, r.cardPath, r.undone])).toEqual([
+			['old', 'renamed.md', false],
+			['new', 'renamed.md', true],
+		]);
+	});
+
+	test('A line cut short by a crash is skipped', async () => {
+		const dataStore = await reload();
+		dataStore.addReview(makeReview('new', 'a.md', now));
+		await dataStore.save();
+		await plugin.app.vault.adapter.append(`${LOG_FOLDER}/${monthKey(now)}.${dataStore.getDeviceId()}.jsonl`, '{"id":"torn","cardP');
+
+		const reloaded = await reload();
+
+		expect(reloaded.getReviews().map((r) => r.id)).toEqual(['new']);
+	});
+
+	test('Data saved in the single-file layout is split on load', async () => {
+		await plugin.saveData({
+			version: 1,
+			settings: {},
+			queues: [
+				{
+					id: TEST_QUEUE_ID,
+					name: 'Test',
+					createdAt: nowISO(),
+					criteria: { type: 'folder', folders: [] },
+					stats: { ...DEFAULT_QUEUE_STATS },
+				},
+			],
+			cards: {},
+			reviews: [makeReview('old', 'a.md', old), makeReview('new', 'a.md', now)],
+			orphans: [],
+		});
+
+		const dataStore = await reload();
+
+		expect(dataStore.getReviews()).toHaveLength(2);
+		expect(Object.keys((await plugin.loadData()) as object).sort()).toEqual(['settings', 'version', 'writes']);
+
+		// Then: After another reload the queue and every review are still there
+		const reloaded = await reload();
+		expect(reloaded.getQueue(TEST_QUEUE_ID)).toBeDefined();
+		expect((await reloaded.loadReviews()).map((r) => r.id)).toEqual(['old', 'new']);
+	});
+});
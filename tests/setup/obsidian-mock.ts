@@ -57,6 +57,7 @@ export interface CachedMetadata {
 // Mock MetadataCache
 export class MetadataCache {
 	private cache: Map<string, CachedMetadata> = new Map();
+	resolvedLinks: Record<string, Record<string, number>> = {};
 
 	getFileCache(file: TFile): CachedMetadata | null {
 		return this.cache.get(file.path) || null;
@@ -66,14 +67,32 @@ export class MetadataCache {
 		this.cache.set(file.path, metadata);
 	}
 
+	private listeners: Map<string, Set<(...args: unknown[]) => void>> = new Map();
+
 	on(event: string, callback: (...args: unknown[]) => void): { unload: () => void } {
-		return { unload: vi.fn() };
+		if (!this.listeners.has(event)) {
+			this.listeners.set(event, new Set());
+		}
+		this.listeners.get(event)!.add(callback);
+
+		return {
+			unload: () => {
+				this.listeners.get(event)?.delete(callback);
+			},
+		};
+	}
+
+	// Helper for testing: fire a metadata event (e.g. 'changed' with file, data, cache)
+	trigger(event: string, ...args: unknown[]): void {
+		this.listeners.get(event)?.forEach(callback => callback(...args));
 	}
 }
 
 // Mock DataAdapter (vault.adapter)
 export class DataAdapter {
 	private adapterFiles: Map<string, string> = new Map();
+	private adapterFolders: Set<string> = new Set();
+	private binaryFiles: Map<string, ArrayBuffer> = new Map();
 
 	async read(path: string): Promise<string> {
 		const content = this.adapterFiles.get(path);
@@ -87,12 +106,54 @@ export class DataAdapter {
 		this.adapterFiles.set(path, data);
 	}
 
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		const content = this.binaryFiles.get(path);
+		if (content === undefined) {
+			throw new Error(`File not found: ${path}`);
+		}
+		return content;
+	}
+
+	async writeBinary(path: string, data: ArrayBuffer): Promise<void> {
+		this.binaryFiles.set(path, data);
+	}
+
+	async stat(path: string): Promise<{ type: 'file'; size: number; ctime: number; mtime: number } | null> {
+		const text = this.adapterFiles.get(path);
+		const binary = this.binaryFiles.get(path);
+		if (text === undefined && binary === undefined) {
+			return null;
+		}
+		const size = binary?.byteLength ?? new TextEncoder().encode(text).byteLength;
+		return { type: 'file', size, ctime: 0, mtime: 0 };
+	}
+
+	async append(path: string, data: string): Promise<void> {
+		this.adapterFiles.set(path, (this.adapterFiles.get(path) ?? '') + data);
+	}
+
+	async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+		const prefix = `${path}/`;
+		const files = [...this.adapterFiles.keys(), ...this.binaryFiles.keys()].filter(
+			(file) => file.startsWith(prefix) && !file.slice(prefix.length).includes('/')
+		);
+		const folders = [...this.adapterFolders].filter(
+			(folder) => folder.startsWith(prefix) && !folder.slice(prefix.length).includes('/')
+		);
+		return { files, folders };
+	}
+
 	async exists(path: string): Promise<boolean> {
-		return this.adapterFiles.has(path);
+		return this.adapterFiles.has(path) || this.binaryFiles.has(path) || this.adapterFolders.has(path);
+	}
+
+	async mkdir(path: string): Promise<void> {
+		this.adapterFolders.add(path);
 	}
 
 	async remove(path: string): Promise<void> {
 		this.adapterFiles.delete(path);
+		this.binaryFiles.delete(path);
 	}
 }
 
@@ -134,6 +195,10 @@ export class Vault {
 		return this.fileContents.get(file.path) || '';
 	}
 
+	async cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
 	async modify(file: TFile, content: string): Promise<void> {
 		this.fileContents.set(file.path, content);
 		file.stat.mtime = Date.now();
@@ -243,11 +308,39 @@ export class App {
 	vault: Vault;
 	metadataCache: MetadataCache;
 	workspace: Workspace;
+	fileManager: FileManager;
+	private localStorage: Map<string, unknown> = new Map();
 
 	constructor() {
 		this.vault = new Vault();
 		this.metadataCache = new MetadataCache();
 		this.workspace = new Workspace();
+		this.fileManager = new FileManager(this);
+	}
+
+	// Device-local storage: each App is one device
+	loadLocalStorage(key: string): unknown {
+		return this.localStorage.get(key) ?? null;
+	}
+
+	saveLocalStorage(key: string, data: unknown): void {
+		if (data === null || data === undefined) {
+			this.localStorage.delete(key);
+		} else {
+			this.localStorage.set(key, data);
+		}
+	}
+}
+
+// Mock FileManager: frontmatter edits go straight to the metadata cache
+export class FileManager {
+	constructor(private app: App) {}
+
+	async processFrontMatter(file: TFile, fn: (frontmatter: Record<string, unknown>) => void): Promise<void> {
+		const cache = this.app.metadataCache.getFileCache(file) ?? {};
+		const frontmatter = { ...cache.frontmatter };
+		fn(frontmatter);
+		this.app.metadataCache.setFileCache(file, { ...cache, frontmatter });
 	}
 }
 
@@ -276,6 +369,10 @@ export class Plugin {
 		this.data = data;
 	}
 
+	register(cleanup: () => void): void {
+		this.registeredEvents.push(cleanup);
+	}
+
 	registerEvent(event: { unload: () => void }): void {
 		this.registeredEvents.push(event.unload);
 	}